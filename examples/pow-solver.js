@@ -0,0 +1,56 @@
+/**
+ * Minimal proof-of-work solver for the contact form API (POW_SECRET).
+ * Finds a counter so that SHA-256("challenge:counter") starts with
+ * `difficulty` zero bits, using the browser's Web Crypto API.
+ */
+
+function leadingZeroBits(bytes) {
+  let bits = 0;
+  for (const byte of bytes) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
+
+async function solveChallenge(challenge, difficulty) {
+  const encoder = new TextEncoder();
+  for (let counter = 0; ; counter++) {
+    const digest = await crypto.subtle.digest('SHA-256', encoder.encode(`${challenge}:${counter}`));
+    if (leadingZeroBits(new Uint8Array(digest)) >= difficulty) {
+      return `${challenge}:${counter}`;
+    }
+  }
+}
+
+// Start solving on page load, so the work is done by the time the form is sent
+async function fetchSolution(apiEndpoint, formId = 'default') {
+  const response = await fetch(`${apiEndpoint}/challenge?formId=${encodeURIComponent(formId)}`);
+  if (!response.ok) {
+    // 404 means proof of work is not enabled
+    return null;
+  }
+
+  const { challenge, difficulty } = await response.json();
+  return solveChallenge(challenge, difficulty);
+}
+
+// Usage:
+//
+//   const API_ENDPOINT = 'https://your-api-gateway-url/contact';
+//   let solution = fetchSolution(API_ENDPOINT);
+//
+//   form.addEventListener('submit', async event => {
+//     event.preventDefault();
+//     const headers = { 'Content-Type': 'application/json' };
+//     const powSolution = await solution;
+//     if (powSolution) {
+//       headers['X-Pow-Solution'] = powSolution;
+//     }
+//     await fetch(API_ENDPOINT, { method: 'POST', headers, body: JSON.stringify(data) });
+//     // Challenges are single-use
+//     solution = fetchSolution(API_ENDPOINT);
+//   });
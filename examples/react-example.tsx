@@ -7,6 +7,12 @@ interface ContactFormData {
   subject: string;
 }
 
+interface ValidationIssue {
+  field: string;
+  code: string;
+  message: string;
+}
+
 interface ContactFormProps {
   apiEndpoint: string;
   onSuccess?: (response: any) => void;
@@ -27,6 +33,7 @@ export const ContactForm: React.FC<ContactFormProps> = ({
   
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
@@ -40,6 +47,7 @@ export const ContactForm: React.FC<ContactFormProps> = ({
     e.preventDefault();
     setIsSubmitting(true);
     setMessage(null);
+    setFieldErrors({});
     
     try {
       const response = await fetch(apiEndpoint, {
@@ -58,7 +66,18 @@ export const ContactForm: React.FC<ContactFormProps> = ({
         onSuccess?.(result);
       } else {
         const errorMessage = result.error || 'Failed to send message';
-        setMessage({ type: 'error', text: errorMessage });
+        // Field-level issues let us highlight the offending inputs
+        const issues: ValidationIssue[] = result.issues || [];
+        setFieldErrors(
+          issues.reduce<Record<string, string>>((errors, issue) => {
+            errors[issue.field] = errors[issue.field] || issue.message;
+            return errors;
+          }, {})
+        );
+        setMessage({
+          type: 'error',
+          text: issues.length > 0 ? 'Please correct the highlighted fields.' : errorMessage,
+        });
         onError?.(errorMessage);
       }
     } catch (error) {
@@ -80,6 +99,7 @@ export const ContactForm: React.FC<ContactFormProps> = ({
             type="text"
             id="name"
             name="name"
+            aria-invalid={Boolean(fieldErrors.name)}
             value={formData.name}
             onChange={handleChange}
             required
@@ -88,6 +108,7 @@ export const ContactForm: React.FC<ContactFormProps> = ({
             placeholder="Your full name"
             disabled={isSubmitting}
           />
+          {fieldErrors.name && <span className="field-error">{fieldErrors.name}</span>}
         </div>
         
         <div className="form-group">
@@ -96,12 +117,14 @@ export const ContactForm: React.FC<ContactFormProps> = ({
             type="email"
             id="email"
             name="email"
+            aria-invalid={Boolean(fieldErrors.email)}
             value={formData.email}
             onChange={handleChange}
             required
             placeholder="your.email@example.com"
             disabled={isSubmitting}
           />
+          {fieldErrors.email && <span className="field-error">{fieldErrors.email}</span>}
         </div>
         
         <div className="form-group">
@@ -110,12 +133,14 @@ export const ContactForm: React.FC<ContactFormProps> = ({
             type="text"
             id="subject"
             name="subject"
+            aria-invalid={Boolean(fieldErrors.subject)}
             value={formData.subject}
             onChange={handleChange}
             maxLength={200}
             placeholder="What is this about?"
             disabled={isSubmitting}
           />
+          {fieldErrors.subject && <span className="field-error">{fieldErrors.subject}</span>}
         </div>
         
         <div className="form-group">
@@ -123,6 +148,7 @@ export const ContactForm: React.FC<ContactFormProps> = ({
           <textarea
             id="content"
             name="content"
+            aria-invalid={Boolean(fieldErrors.content)}
             value={formData.content}
             onChange={handleChange}
             required
@@ -132,6 +158,7 @@ export const ContactForm: React.FC<ContactFormProps> = ({
             disabled={isSubmitting}
             rows={6}
           />
+          {fieldErrors.content && <span className="field-error">{fieldErrors.content}</span>}
         </div>
         
         <button type="submit" disabled={isSubmitting}>
@@ -225,6 +252,17 @@ export const ContactForm: React.FC<ContactFormProps> = ({
           color: #721c24;
           border: 1px solid #f5c6cb;
         }
+
+        .field-error {
+          display: block;
+          margin-top: 4px;
+          color: #721c24;
+          font-size: 13px;
+        }
+
+        [aria-invalid='true'] {
+          border-color: #dc3545;
+        }
       `}</style>
     </div>
   );
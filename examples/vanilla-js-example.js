@@ -6,12 +6,26 @@ class ContactForm {
   constructor(apiEndpoint) {
     this.apiEndpoint = apiEndpoint;
     this.form = document.getElementById('contact-form');
+    this.formToken = null;
     this.init();
   }
 
   init() {
     if (this.form) {
       this.form.addEventListener('submit', this.handleSubmit.bind(this));
+      this.fetchFormToken();
+    }
+  }
+
+  // Fetch the form token when the page loads: submissions that come back
+  // faster than the minimum fill time are rejected
+  async fetchFormToken() {
+    try {
+      const response = await fetch(`${this.apiEndpoint}/token`);
+      // 404 means form tokens are not enabled
+      this.formToken = response.ok ? (await response.json()).token : null;
+    } catch (error) {
+      console.error('Form token error:', error);
     }
   }
 
@@ -41,6 +55,8 @@ class ContactForm {
       this.showMessage('error', 'Network error. Please try again.');
     } finally {
       this.setLoadingState(false);
+      // Tokens are single-use
+      this.fetchFormToken();
     }
   }
 
@@ -49,6 +65,7 @@ class ContactForm {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...(this.formToken && { 'X-Form-Token': this.formToken }),
       },
       body: JSON.stringify(data)
     });
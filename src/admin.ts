@@ -0,0 +1,487 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { z } from 'zod';
+import { AdminPrincipal, authenticateAdmin, requireScope } from './auth';
+import { getAuditStore } from './audit';
+import {
+  AuthenticationError,
+  ConfigurationError,
+  ContactFormError,
+  ValidationError,
+} from './errors';
+import { generateErrorResponse, generateResponse } from './handler';
+import {
+  EXPORT_CONTENT_TYPES,
+  exportSubmissions,
+  parseExportRequest,
+  resolveExportColumns,
+} from './export';
+import { parseFormsConfig } from './forms';
+import { DataSubjectStores, eraseSubjectData, exportSubjectData } from './privacy';
+import { decodeRequestBody, getHeaderValue } from './request';
+import { validateOrigin } from './security';
+import { getSubmissionRepository, SubmissionQuery, SubmissionRepository } from './submissions';
+import { getSuppressionStore } from './suppression';
+import { ValidationIssue } from './types';
+import { isoTimestampSchema, toValidationIssues } from './validation';
+
+// Get environment variables (read at runtime for testing flexibility)
+const getEnvVars = () => ({
+  DOMAIN: process.env.DOMAIN || '*',
+  ADMIN_DOMAIN: process.env.ADMIN_DOMAIN,
+  AWS_REGION: process.env.AWS_REGION || 'us-east-1',
+  SUBMISSIONS_TABLE: process.env.SUBMISSIONS_TABLE,
+  SUBMISSIONS_PARTITION_KEY: process.env.SUBMISSIONS_PARTITION_KEY,
+  SUBMISSIONS_EMAIL_INDEX: process.env.SUBMISSIONS_EMAIL_INDEX,
+  RATE_LIMIT_TABLE: process.env.RATE_LIMIT_TABLE,
+  RATE_LIMIT_PARTITION_KEY: process.env.RATE_LIMIT_PARTITION_KEY,
+  IDEMPOTENCY_TABLE: process.env.IDEMPOTENCY_TABLE,
+  IDEMPOTENCY_PARTITION_KEY: process.env.IDEMPOTENCY_PARTITION_KEY,
+  SUPPRESSION_TABLE: process.env.SUPPRESSION_TABLE,
+  SUPPRESSION_PARTITION_KEY: process.env.SUPPRESSION_PARTITION_KEY,
+  AUDIT_TABLE: process.env.AUDIT_TABLE,
+  AUDIT_PARTITION_KEY: process.env.AUDIT_PARTITION_KEY,
+  IP_HASH_SECRET: process.env.IP_HASH_SECRET,
+  FORMS_CONFIG: process.env.FORMS_CONFIG,
+  ADMIN_API_TOKENS: process.env.ADMIN_API_TOKENS,
+  ADMIN_JWT_SECRET: process.env.ADMIN_JWT_SECRET,
+  ADMIN_JWT_ISSUER: process.env.ADMIN_JWT_ISSUER,
+  ADMIN_JWT_AUDIENCE: process.env.ADMIN_JWT_AUDIENCE,
+});
+
+const ADMIN_CORS_METHODS = 'GET,POST,PUT,DELETE,OPTIONS';
+
+// Stays under the 6 MB Lambda response limit, leaving room for headers
+export const MAX_EXPORT_RESPONSE_BYTES = 4 * 1024 * 1024;
+
+export const EXPORT_CURSOR_HEADER = 'X-Export-Cursor';
+
+const listQuerySchema = z
+  .object({
+    from: isoTimestampSchema.optional(),
+    to: isoTimestampSchema.optional(),
+    formId: z.string().trim().min(1).max(64).optional(),
+    status: z.enum(['pending', 'sent', 'failed', 'quarantined']).optional(),
+    label: z.enum(['ham', 'spam']).optional(),
+    email: z.string().trim().email('Please provide a valid email address').optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(25),
+    cursor: z.string().max(2048).optional(),
+  })
+  .refine(query => !query.from || !query.to || query.from <= query.to, {
+    message: 'from must not be after to',
+    path: ['from'],
+  });
+
+// null clears the label
+const labelRequestSchema = z.object({
+  label: z.enum(['ham', 'spam']).nullable(),
+});
+
+const dataSubjectRequestSchema = z.object({
+  email: z.string().trim().email('Please provide a valid email address').max(254),
+});
+
+interface AdminRequest {
+  event: APIGatewayProxyEvent;
+  principal: AdminPrincipal;
+  // Undefined when the submission archive is off; privacy routes still work
+  repository?: SubmissionRepository;
+  stores: DataSubjectStores;
+  domain: string;
+  origin?: string;
+  formsConfig?: string;
+}
+
+/**
+ * Parses the list filters from the query string
+ */
+export function parseSubmissionQuery(
+  params: APIGatewayProxyEvent['queryStringParameters']
+): SubmissionQuery {
+  const result = listQuerySchema.safeParse(params ?? {});
+  if (!result.success) {
+    throw new ValidationError(
+      result.error.errors.map(err => err.message).join(', '),
+      toValidationIssues(result.error)
+    );
+  }
+
+  return result.data;
+}
+
+/**
+ * Reads the subject address from a privacy request body
+ */
+function parseDataSubjectRequest(event: APIGatewayProxyEvent): string {
+  const result = dataSubjectRequestSchema.safeParse(decodeRequestBody(event).data);
+  if (!result.success) {
+    throw new ValidationError(
+      result.error.errors.map(err => err.message).join(', '),
+      toValidationIssues(result.error)
+    );
+  }
+
+  return result.data.email;
+}
+
+function requireRepository(request: AdminRequest): SubmissionRepository {
+  if (!request.repository) {
+    throw new ContactFormError('Submission archive is not configured', 503);
+  }
+
+  return request.repository;
+}
+
+function respond<T>(
+  statusCode: number,
+  payload: T,
+  domain: string,
+  origin?: string
+): APIGatewayProxyResult {
+  return generateResponse(
+    statusCode,
+    payload,
+    domain,
+    { 'Access-Control-Allow-Methods': ADMIN_CORS_METHODS },
+    origin
+  );
+}
+
+function respondWithError(
+  statusCode: number,
+  error: string,
+  domain: string,
+  origin?: string,
+  extras: {
+    details?: string;
+    issues?: ValidationIssue[];
+    headers?: Record<string, string>;
+  } = {}
+): APIGatewayProxyResult {
+  const response = generateErrorResponse(
+    statusCode,
+    error,
+    domain,
+    extras.details,
+    origin,
+    extras.issues
+  );
+
+  return {
+    ...response,
+    headers: {
+      ...response.headers,
+      'Access-Control-Allow-Methods': ADMIN_CORS_METHODS,
+      ...extras.headers,
+    },
+  };
+}
+
+async function listSubmissions(request: AdminRequest): Promise<APIGatewayProxyResult> {
+  requireScope(request.principal, 'submissions:read');
+
+  const page = await requireRepository(request).list(
+    parseSubmissionQuery(request.event.queryStringParameters)
+  );
+
+  return respond(
+    200,
+    { success: true, submissions: page.items, ...(page.cursor && { cursor: page.cursor }) },
+    request.domain,
+    request.origin
+  );
+}
+
+async function getSubmission(request: AdminRequest, id: string): Promise<APIGatewayProxyResult> {
+  requireScope(request.principal, 'submissions:read');
+
+  const submission = await requireRepository(request).get(id);
+  if (!submission) {
+    return respondWithError(404, 'Not found', request.domain, request.origin, {
+      details: `Unknown submission: ${id}`,
+    });
+  }
+
+  return respond(200, { success: true, submission }, request.domain, request.origin);
+}
+
+async function deleteSubmission(request: AdminRequest, id: string): Promise<APIGatewayProxyResult> {
+  requireScope(request.principal, 'submissions:delete');
+
+  const deleted = await requireRepository(request).delete(id);
+  if (!deleted) {
+    return respondWithError(404, 'Not found', request.domain, request.origin, {
+      details: `Unknown submission: ${id}`,
+    });
+  }
+
+  console.log('Submission deleted:', {
+    submissionId: id,
+    by: request.principal.subject,
+    timestamp: new Date().toISOString(),
+  });
+
+  return respond(
+    200,
+    { success: true, message: 'Submission deleted' },
+    request.domain,
+    request.origin
+  );
+}
+
+/**
+ * Labels a submission as ham or spam for classifier training
+ */
+async function labelSubmission(request: AdminRequest, id: string): Promise<APIGatewayProxyResult> {
+  requireScope(request.principal, 'submissions:label');
+
+  const result = labelRequestSchema.safeParse(decodeRequestBody(request.event).data);
+  if (!result.success) {
+    throw new ValidationError(
+      result.error.errors.map(err => err.message).join(', '),
+      toValidationIssues(result.error)
+    );
+  }
+
+  const { label } = result.data;
+  const updated = await requireRepository(request).setLabel(id, label ?? undefined);
+  if (!updated) {
+    return respondWithError(404, 'Not found', request.domain, request.origin, {
+      details: `Unknown submission: ${id}`,
+    });
+  }
+
+  console.log('Submission labelled:', {
+    submissionId: id,
+    label,
+    by: request.principal.subject,
+    timestamp: new Date().toISOString(),
+  });
+
+  return respond(200, { success: true, label }, request.domain, request.origin);
+}
+
+/**
+ * Returns a CSV or NDJSON export. Large exports stop before the body would pass
+ * MAX_EXPORT_RESPONSE_BYTES and return the cursor for the next request in the
+ * X-Export-Cursor header.
+ */
+async function exportSubmissionFile(request: AdminRequest): Promise<APIGatewayProxyResult> {
+  requireScope(request.principal, 'submissions:export');
+
+  const repository = requireRepository(request);
+  const params = request.event.queryStringParameters ?? {};
+  const { format, formId, from, to, columns } = parseExportRequest(params);
+  const formFields = formId ? parseFormsConfig(request.formsConfig)[formId]?.fields : undefined;
+  const options = {
+    format,
+    formId,
+    from,
+    to,
+    columns: resolveExportColumns(columns, formFields),
+    maxBytes: MAX_EXPORT_RESPONSE_BYTES,
+  };
+
+  let body = '';
+  let cursor: string | undefined;
+  for await (const chunk of exportSubmissions(repository, options, params.cursor)) {
+    body += chunk.data;
+    cursor = chunk.cursor;
+  }
+
+  const filename = `submissions-${formId || 'all'}-${new Date().toISOString().slice(0, 10)}.${format}`;
+  const response = respond(200, null, request.domain, request.origin);
+
+  return {
+    ...response,
+    headers: {
+      ...response.headers,
+      'Content-Type': EXPORT_CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Access-Control-Expose-Headers': `Content-Disposition, ${EXPORT_CURSOR_HEADER}`,
+      ...(cursor && { [EXPORT_CURSOR_HEADER]: cursor }),
+    },
+    body,
+  };
+}
+
+/**
+ * Returns everything stored about an address (GDPR access request)
+ */
+async function accessSubjectData(request: AdminRequest): Promise<APIGatewayProxyResult> {
+  requireScope(request.principal, 'privacy:access');
+
+  const data = await exportSubjectData(
+    parseDataSubjectRequest(request.event),
+    request.stores,
+    request.principal.subject
+  );
+
+  return respond(200, { success: true, data }, request.domain, request.origin);
+}
+
+/**
+ * Erases everything stored about an address (GDPR erasure request)
+ */
+async function eraseSubject(request: AdminRequest): Promise<APIGatewayProxyResult> {
+  requireScope(request.principal, 'privacy:erase');
+
+  const { auditId, counts, retained } = await eraseSubjectData(
+    parseDataSubjectRequest(request.event),
+    request.stores,
+    request.principal.subject
+  );
+
+  return respond(
+    200,
+    { success: true, message: 'Personal data erased', auditId, counts, retained },
+    request.domain,
+    request.origin
+  );
+}
+
+/**
+ * Lambda handler for the admin API:
+ *   GET /admin/submissions, GET /admin/submissions/export,
+ *   GET /admin/submissions/{id}, DELETE /admin/submissions/{id},
+ *   PUT /admin/submissions/{id}/label,
+ *   POST /admin/privacy/access, POST /admin/privacy/erasure
+ */
+export const handle = async (
+  event: APIGatewayProxyEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> => {
+  context.callbackWaitsForEmptyEventLoop = false;
+
+  const {
+    DOMAIN,
+    ADMIN_DOMAIN,
+    AWS_REGION,
+    SUBMISSIONS_TABLE,
+    SUBMISSIONS_PARTITION_KEY,
+    SUBMISSIONS_EMAIL_INDEX,
+    RATE_LIMIT_TABLE,
+    RATE_LIMIT_PARTITION_KEY,
+    IDEMPOTENCY_TABLE,
+    IDEMPOTENCY_PARTITION_KEY,
+    SUPPRESSION_TABLE,
+    SUPPRESSION_PARTITION_KEY,
+    AUDIT_TABLE,
+    AUDIT_PARTITION_KEY,
+    IP_HASH_SECRET,
+    FORMS_CONFIG,
+    ADMIN_API_TOKENS,
+    ADMIN_JWT_SECRET,
+    ADMIN_JWT_ISSUER,
+    ADMIN_JWT_AUDIENCE,
+  } = getEnvVars();
+  // The admin UI usually lives on a different origin than the public form
+  const domain = ADMIN_DOMAIN || DOMAIN;
+  const origin = event.headers?.origin || event.headers?.Origin;
+
+  if (event.httpMethod === 'OPTIONS') {
+    if (!validateOrigin(origin, domain)) {
+      return respondWithError(403, 'Forbidden', domain, origin, { details: 'Invalid origin' });
+    }
+
+    return respond(200, { message: 'CORS preflight successful' }, domain, origin);
+  }
+
+  try {
+    const principal = authenticateAdmin(getHeaderValue(event, 'authorization'), {
+      tokens: ADMIN_API_TOKENS,
+      jwtSecret: ADMIN_JWT_SECRET,
+      jwtIssuer: ADMIN_JWT_ISSUER,
+      jwtAudience: ADMIN_JWT_AUDIENCE,
+    });
+
+    const repository = getSubmissionRepository({
+      tableName: SUBMISSIONS_TABLE,
+      region: AWS_REGION,
+      partitionKeyName: SUBMISSIONS_PARTITION_KEY || 'id',
+      emailIndexName: SUBMISSIONS_EMAIL_INDEX,
+    });
+
+    const request: AdminRequest = {
+      event,
+      principal,
+      repository,
+      stores: {
+        repository,
+        suppression: getSuppressionStore({
+          tableName: SUPPRESSION_TABLE,
+          region: AWS_REGION,
+          partitionKeyName: SUPPRESSION_PARTITION_KEY || 'email',
+        }),
+        idempotency: {
+          tableName: IDEMPOTENCY_TABLE,
+          region: AWS_REGION,
+          partitionKeyName: IDEMPOTENCY_PARTITION_KEY || 'id',
+        },
+        rateLimit: {
+          tableName: RATE_LIMIT_TABLE,
+          region: AWS_REGION,
+          partitionKeyName: RATE_LIMIT_PARTITION_KEY || 'id',
+        },
+        audit: getAuditStore({
+          tableName: AUDIT_TABLE,
+          region: AWS_REGION,
+          partitionKeyName: AUDIT_PARTITION_KEY || 'id',
+        }),
+        hashSecret: IP_HASH_SECRET,
+      },
+      domain,
+      origin,
+      formsConfig: FORMS_CONFIG,
+    };
+    const id = event.pathParameters?.id;
+
+    if (event.httpMethod === 'POST' && event.resource === '/admin/privacy/access') {
+      return await accessSubjectData(request);
+    }
+    if (event.httpMethod === 'POST' && event.resource === '/admin/privacy/erasure') {
+      return await eraseSubject(request);
+    }
+    if (event.httpMethod === 'PUT' && event.resource === '/admin/submissions/{id}/label' && id) {
+      return await labelSubmission(request, id);
+    }
+    if (event.httpMethod === 'GET' && event.resource === '/admin/submissions/export') {
+      return await exportSubmissionFile(request);
+    }
+    if (event.httpMethod === 'GET') {
+      return id ? await getSubmission(request, id) : await listSubmissions(request);
+    }
+    if (event.httpMethod === 'DELETE' && id) {
+      return await deleteSubmission(request, id);
+    }
+
+    return respondWithError(405, 'Method not allowed', domain, origin, {
+      details: `${event.httpMethod} is not supported on this route`,
+    });
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return respondWithError(error.statusCode, error.message, domain, origin, {
+        headers: { 'WWW-Authenticate': 'Bearer' },
+      });
+    }
+
+    if (error instanceof ValidationError) {
+      return respondWithError(error.statusCode, error.message, domain, origin, {
+        issues: error.issues,
+      });
+    }
+
+    if (error instanceof ConfigurationError) {
+      console.error('Configuration error:', error.message);
+      return respondWithError(500, 'Internal server error', domain, origin);
+    }
+
+    if (error instanceof ContactFormError) {
+      return respondWithError(error.statusCode, error.message, domain, origin);
+    }
+
+    console.error('Unexpected admin API error:', error);
+    return respondWithError(500, 'Internal server error', domain, origin, {
+      details: 'An unexpected error occurred',
+    });
+  }
+};
@@ -0,0 +1,191 @@
+import { z } from 'zod';
+import { ValidationError } from './errors';
+import { UploadedFile } from './request';
+import { ValidationIssue } from './types';
+
+export const DEFAULT_ALLOWED_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+];
+
+// Lambda takes request events up to 6 MB. API Gateway base64-encodes multipart
+// bodies, which leaves about 4.5 MB for the files, fields and part headers.
+export const MAX_ATTACHMENT_BYTES = 4 * 1024 * 1024;
+
+export const attachmentSettingsSchema = z.object({
+  maxFiles: z.number().int().positive().max(10).default(3),
+  maxFileSize: z.number().int().positive().max(MAX_ATTACHMENT_BYTES).default(MAX_ATTACHMENT_BYTES),
+  maxTotalSize: z.number().int().positive().max(MAX_ATTACHMENT_BYTES).default(MAX_ATTACHMENT_BYTES),
+  allowedTypes: z.array(z.string().trim().toLowerCase()).min(1).default(DEFAULT_ALLOWED_TYPES),
+});
+
+export type AttachmentSettings = z.infer<typeof attachmentSettingsSchema>;
+
+export interface Attachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+function startsWith(content: Buffer, signature: number[], offset: number = 0): boolean {
+  return signature.every((byte, index) => content[offset + index] === byte);
+}
+
+function isPlainText(content: Buffer): boolean {
+  if (content.length === 0) {
+    return false;
+  }
+
+  // Round-tripping through UTF-8 is lossless only for valid UTF-8 input
+  if (!Buffer.from(content.toString('utf8'), 'utf8').equals(content)) {
+    return false;
+  }
+
+  for (const byte of content) {
+    // Allow tab, LF, FF and CR; any other control byte marks the file as binary
+    if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0c && byte !== 0x0d) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Detects a file's MIME type from its leading bytes, ignoring the client's claim
+ */
+export function detectMimeType(content: Buffer): string {
+  if (startsWith(content, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return 'image/png';
+  }
+  if (startsWith(content, [0xff, 0xd8, 0xff])) {
+    return 'image/jpeg';
+  }
+  if (
+    content
+      .subarray(0, 6)
+      .toString('latin1')
+      .match(/^GIF8[79]a$/)
+  ) {
+    return 'image/gif';
+  }
+  if (
+    content.subarray(0, 4).toString('latin1') === 'RIFF' &&
+    content.subarray(8, 12).toString('latin1') === 'WEBP'
+  ) {
+    return 'image/webp';
+  }
+  if (content.subarray(0, 5).toString('latin1') === '%PDF-') {
+    return 'application/pdf';
+  }
+  if (startsWith(content, [0x50, 0x4b, 0x03, 0x04])) {
+    return 'application/zip';
+  }
+  if (isPlainText(content)) {
+    return 'text/plain';
+  }
+
+  return 'application/octet-stream';
+}
+
+/**
+ * Strips path segments and header-unsafe characters from a client filename
+ */
+export function sanitizeFilename(filename: string): string {
+  const baseName = filename.split(/[\\/]/).pop() || '';
+  const cleaned = baseName
+    .replace(/[^\w.\- ()]/g, '_')
+    .replace(/^\.+/, '')
+    .slice(0, 100)
+    .trim();
+
+  return cleaned || 'attachment';
+}
+
+/**
+ * Checks uploaded files against a form's attachment limits and returns them
+ * ready for MIME assembly. Throws a ValidationError listing every problem.
+ */
+export function validateAttachments(
+  files: UploadedFile[],
+  settings: AttachmentSettings | undefined
+): Attachment[] {
+  if (files.length === 0) {
+    return [];
+  }
+
+  if (!settings) {
+    throw new ValidationError(
+      'Attachments are not accepted for this form',
+      files.map(file => ({
+        field: file.fieldName,
+        path: [file.fieldName],
+        code: 'too_many',
+        message: 'Attachments are not accepted for this form',
+        maximum: 0,
+      }))
+    );
+  }
+
+  const issues: ValidationIssue[] = [];
+  const attachments: Attachment[] = [];
+
+  if (files.length > settings.maxFiles) {
+    issues.push({
+      field: files[0].fieldName,
+      path: [files[0].fieldName],
+      code: 'too_many',
+      message: `No more than ${settings.maxFiles} file(s) can be attached`,
+      maximum: settings.maxFiles,
+    });
+  }
+
+  let totalSize = 0;
+  for (const file of files) {
+    const filename = sanitizeFilename(file.filename);
+    const contentType = detectMimeType(file.content);
+    totalSize += file.content.length;
+
+    if (file.content.length > settings.maxFileSize) {
+      issues.push({
+        field: file.fieldName,
+        path: [file.fieldName, filename],
+        code: 'too_big',
+        message: `${filename} exceeds the maximum size of ${settings.maxFileSize} bytes`,
+        maximum: settings.maxFileSize,
+      });
+    }
+
+    if (!settings.allowedTypes.includes(contentType)) {
+      issues.push({
+        field: file.fieldName,
+        path: [file.fieldName, filename],
+        code: 'invalid_file_type',
+        message: `${filename} is not an allowed file type`,
+        options: settings.allowedTypes,
+      });
+    }
+
+    attachments.push({ filename, contentType, content: file.content });
+  }
+
+  if (totalSize > settings.maxTotalSize) {
+    issues.push({
+      field: files[0].fieldName,
+      path: [files[0].fieldName],
+      code: 'too_big',
+      message: `Attachments exceed the total size limit of ${settings.maxTotalSize} bytes`,
+      maximum: settings.maxTotalSize,
+    });
+  }
+
+  if (issues.length > 0) {
+    throw new ValidationError(issues.map(issue => issue.message).join(', '), issues);
+  }
+
+  return attachments;
+}
@@ -0,0 +1,120 @@
+import { createHmac } from 'crypto';
+import { PutItemCommand } from '@aws-sdk/client-dynamodb';
+import { getDynamoClient } from './security';
+import { normalizeEmailAddress } from './suppression';
+
+export type AuditAction = 'access' | 'erasure';
+
+export interface AuditEntry {
+  id: string;
+  action: AuditAction;
+  // Keyed hash of the address, so the log proves a request without keeping the address
+  subjectHash: string;
+  // Admin token name or JWT subject
+  actor: string;
+  createdAt: string;
+  // Records found (access) or removed (erasure) per store
+  counts: Record<string, number>;
+}
+
+export interface AuditStore {
+  readonly name: string;
+  record(entry: AuditEntry): Promise<void>;
+}
+
+export interface AuditConfig {
+  tableName?: string;
+  region: string;
+  partitionKeyName: string;
+}
+
+/**
+ * Keyed hash of a normalized address, so it cannot be confirmed by hashing a
+ * guessed address
+ */
+export function hashEmailAddress(email: string, secret: string): string {
+  return createHmac('sha256', secret).update(normalizeEmailAddress(email)).digest('hex');
+}
+
+/**
+ * In-memory audit log for tests and local tooling
+ */
+export function createMemoryAuditStore(): AuditStore & { entries: AuditEntry[] } {
+  const entries: AuditEntry[] = [];
+
+  return {
+    name: 'memory',
+    entries,
+    async record(entry) {
+      entries.push(structuredClone(entry));
+    },
+  };
+}
+
+/**
+ * Append-only DynamoDB audit log keyed by entry ID
+ */
+export function createDynamoAuditStore(
+  tableName: string,
+  region: string,
+  partitionKeyName: string = 'id'
+): AuditStore {
+  return {
+    name: 'dynamodb',
+    async record(entry) {
+      await getDynamoClient(region).send(
+        new PutItemCommand({
+          TableName: tableName,
+          Item: {
+            [partitionKeyName]: { S: entry.id },
+            action: { S: entry.action },
+            subjectHash: { S: entry.subjectHash },
+            actor: { S: entry.actor },
+            createdAt: { S: entry.createdAt },
+            counts: {
+              M: Object.fromEntries(
+                Object.entries(entry.counts).map(([store, count]) => [store, { N: String(count) }])
+              ),
+            },
+          },
+          ConditionExpression: 'attribute_not_exists(#pk)',
+          ExpressionAttributeNames: { '#pk': partitionKeyName },
+        })
+      );
+    },
+  };
+}
+
+const defaultStore = createMemoryAuditStore();
+let storeOverride: AuditStore | undefined;
+
+/**
+ * Returns the override store if one is set, then the DynamoDB store when
+ * AUDIT_TABLE is configured, otherwise the shared in-memory store
+ */
+export function getAuditStore(config: AuditConfig): AuditStore {
+  if (storeOverride) {
+    return storeOverride;
+  }
+
+  return config.tableName
+    ? createDynamoAuditStore(config.tableName, config.region, config.partitionKeyName)
+    : defaultStore;
+}
+
+/**
+ * Replace the audit store (for tests and local tooling); pass undefined to reset
+ */
+export function setAuditStore(store: AuditStore | undefined): void {
+  storeOverride = store;
+  defaultStore.entries.length = 0;
+}
+
+/**
+ * Saves the entry and always logs it, so CloudWatch keeps a copy even when the
+ * table write fails. Store errors are rethrown.
+ */
+export async function writeAuditEntry(store: AuditStore, entry: AuditEntry): Promise<void> {
+  console.log('Audit record:', entry);
+  await store.record(entry);
+}
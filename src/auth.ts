@@ -0,0 +1,204 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import { AuthenticationError, AuthorizationError, ConfigurationError } from './errors';
+
+export const ADMIN_SCOPES = [
+  'submissions:read',
+  'submissions:export',
+  'submissions:delete',
+  'submissions:label',
+  'privacy:access',
+  'privacy:erase',
+] as const;
+
+export type AdminScope = (typeof ADMIN_SCOPES)[number];
+
+const adminTokenSchema = z.object({
+  // Shown in audit logs instead of the token
+  name: z.string().trim().min(1).max(64),
+  token: z.string().min(32, 'Admin tokens must be at least 32 characters'),
+  scopes: z.array(z.enum(ADMIN_SCOPES)).min(1),
+});
+
+export const adminTokensSchema = z.array(adminTokenSchema).max(20);
+
+export type AdminToken = z.infer<typeof adminTokenSchema>;
+
+export interface AdminAuthConfig {
+  // ADMIN_API_TOKENS JSON document
+  tokens?: string;
+  // HS256 secret for JWTs issued by an identity provider or script
+  jwtSecret?: string;
+  jwtIssuer?: string;
+  jwtAudience?: string;
+}
+
+export interface AdminPrincipal {
+  subject: string;
+  scopes: string[];
+  method: 'token' | 'jwt';
+}
+
+// Registered claims are checked for type, so a malformed claim cannot pass as another value
+const jwtClaimsSchema = z.object({
+  sub: z.string().optional(),
+  iss: z.string().optional(),
+  aud: z.union([z.string(), z.array(z.string())]).optional(),
+  exp: z.number().optional(),
+  nbf: z.number().optional(),
+  scope: z.string().optional(),
+  // Space-separated like scope, or a list, depending on the identity provider
+  scp: z.union([z.string(), z.array(z.string())]).optional(),
+});
+
+type JwtClaims = z.infer<typeof jwtClaimsSchema>;
+
+// Tolerated clock difference between the token issuer and Lambda
+const JWT_CLOCK_SKEW_SECONDS = 60;
+
+let parsedTokensCache: { raw: string; tokens: AdminToken[] } | undefined;
+
+/**
+ * Parses the ADMIN_API_TOKENS JSON document, caching the result per raw value
+ */
+export function parseAdminTokens(raw: string | undefined): AdminToken[] {
+  if (!raw || !raw.trim()) {
+    return [];
+  }
+
+  if (parsedTokensCache?.raw === raw) {
+    return parsedTokensCache.tokens;
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    throw new ConfigurationError('ADMIN_API_TOKENS is not valid JSON');
+  }
+
+  const result = adminTokensSchema.safeParse(json);
+  if (!result.success) {
+    const details = result.error.errors
+      .map(err => `${err.path.join('.') || 'root'}: ${err.message}`)
+      .join(', ');
+    throw new ConfigurationError(`ADMIN_API_TOKENS is invalid: ${details}`);
+  }
+
+  parsedTokensCache = { raw, tokens: result.data };
+  return result.data;
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+function decodeSegment<T>(segment: string): T {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+  } catch {
+    throw new AuthenticationError('Invalid token');
+  }
+}
+
+/**
+ * Verifies an HS256 JWT and returns its claims. Tokens must expire; iss and
+ * aud are only checked when configured.
+ */
+export function verifyJwt(
+  token: string,
+  secret: string,
+  options: { issuer?: string; audience?: string; now?: number } = {}
+): JwtClaims {
+  const [header, payload, signature, ...rest] = token.split('.');
+  if (!header || !payload || !signature || rest.length > 0) {
+    throw new AuthenticationError('Invalid token');
+  }
+
+  // Pin the algorithm so "none" or an asymmetric alg can never be accepted
+  if (decodeSegment<{ alg?: string }>(header).alg !== 'HS256') {
+    throw new AuthenticationError('Unsupported token algorithm');
+  }
+
+  const expected = createHmac('sha256', secret).update(`${header}.${payload}`).digest();
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new AuthenticationError('Invalid token signature');
+  }
+
+  const parsedClaims = jwtClaimsSchema.safeParse(decodeSegment<unknown>(payload));
+  if (!parsedClaims.success) {
+    throw new AuthenticationError('Invalid token claims');
+  }
+  const claims = parsedClaims.data;
+  const now = Math.floor((options.now ?? Date.now()) / 1000);
+  if (typeof claims.exp !== 'number' || claims.exp + JWT_CLOCK_SKEW_SECONDS <= now) {
+    throw new AuthenticationError('Token expired');
+  }
+  if (typeof claims.nbf === 'number' && claims.nbf - JWT_CLOCK_SKEW_SECONDS > now) {
+    throw new AuthenticationError('Token not yet valid');
+  }
+  if (options.issuer && claims.iss !== options.issuer) {
+    throw new AuthenticationError('Invalid token issuer');
+  }
+  if (options.audience) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(options.audience)) {
+      throw new AuthenticationError('Invalid token audience');
+    }
+  }
+
+  return claims;
+}
+
+/**
+ * Resolves the caller from an "Authorization: Bearer ..." header. Values that
+ * look like JWTs are verified when ADMIN_JWT_SECRET is set; anything else must
+ * match one of the static ADMIN_API_TOKENS.
+ */
+export function authenticateAdmin(
+  authorization: string | undefined,
+  config: AdminAuthConfig,
+  now: number = Date.now()
+): AdminPrincipal {
+  const tokens = parseAdminTokens(config.tokens);
+  if (tokens.length === 0 && !config.jwtSecret) {
+    throw new ConfigurationError('Admin API authentication is not configured');
+  }
+
+  const match = authorization?.match(/^Bearer\s+(\S+)\s*$/i);
+  if (!match) {
+    throw new AuthenticationError();
+  }
+  const credential = match[1];
+
+  if (config.jwtSecret && credential.split('.').length === 3) {
+    const claims = verifyJwt(credential, config.jwtSecret, {
+      issuer: config.jwtIssuer,
+      audience: config.jwtAudience,
+      now,
+    });
+
+    const scopes = claims.scp ?? claims.scope ?? '';
+    return {
+      subject: claims.sub || 'jwt',
+      scopes: Array.isArray(scopes) ? scopes : scopes.split(' ').filter(Boolean),
+      method: 'jwt',
+    };
+  }
+
+  // Compare fixed-length digests so neither the length nor the content leaks through timing
+  const presented = digest(credential);
+  const token = tokens.find(candidate => timingSafeEqual(digest(candidate.token), presented));
+  if (!token) {
+    throw new AuthenticationError('Invalid token');
+  }
+
+  return { subject: token.name, scopes: token.scopes, method: 'token' };
+}
+
+export function requireScope(principal: AdminPrincipal, scope: AdminScope): void {
+  if (!principal.scopes.includes(scope)) {
+    throw new AuthorizationError(`Missing scope: ${scope}`);
+  }
+}
@@ -0,0 +1,183 @@
+import { z } from 'zod';
+import { checkRecipientRateLimit, checkRecipientRateLimitDistributed } from './security';
+import { getSuppressionStore, SuppressionConfig } from './suppression';
+import {
+  renderTemplate,
+  resolveTemplateSources,
+  TemplateContext,
+  TemplateSources,
+  templatesConfigSchema,
+  templateSourceSchema,
+} from './templates';
+import { EmailMessage, EmailTransport } from './transport';
+import { ContactFormRequest } from './types';
+
+export const DEFAULT_AUTO_REPLY_SUBJECT = 'We received your message';
+
+export const autoReplyConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  from: z.string().trim().email(),
+  replyTo: z.array(z.string().trim().email()).min(1).optional(),
+  subject: templateSourceSchema.optional(),
+  includeMessage: z.boolean().default(false),
+  templates: templatesConfigSchema.optional(),
+  rateLimit: z
+    .object({
+      maxRequests: z.number().int().positive().max(100).default(3),
+      windowMs: z
+        .number()
+        .int()
+        .positive()
+        .max(7 * 24 * 60 * 60 * 1000)
+        .default(24 * 60 * 60 * 1000),
+    })
+    .default({}),
+});
+
+export type AutoReplyConfig = z.infer<typeof autoReplyConfigSchema>;
+
+export interface AutoReplySettings {
+  from: string;
+  replyTo?: string[];
+  subject?: string;
+  includeMessage: boolean;
+  rateLimit: { maxRequests: number; windowMs: number };
+  templates?: TemplateSources;
+}
+
+export interface AutoReplyRateLimitOptions {
+  tableName?: string;
+  region: string;
+  partitionKeyName: string;
+}
+
+export type AutoReplyOutcome = 'sent' | 'suppressed' | 'rate_limited' | 'failed';
+
+export const DEFAULT_AUTO_REPLY_TEXT_TEMPLATE = `Hi {{name}},
+
+Thank you for contacting us. We have received your message and will get back to you soon.{{#if includeMessage}}
+
+A copy of your message:
+
+{{quotedContent}}{{/if}}
+
+---
+This is an automated confirmation.`;
+
+export const DEFAULT_AUTO_REPLY_HTML_TEMPLATE = `<html>
+<body>
+  <p>Hi {{name}},</p>
+  <p>Thank you for contacting us. We have received your message and will get back to you soon.</p>{{#if includeMessage}}
+
+  <h3>A copy of your message:</h3>
+  <blockquote style="border-left: 3px solid #007bff; margin: 0; padding: 0 15px; color: #555;">
+    {{content | nl2br}}
+  </blockquote>{{/if}}
+
+  <hr>
+  <p><em>This is an automated confirmation.</em></p>
+</body>
+</html>`;
+
+/**
+ * Resolves a form's auto-reply configuration; undefined when it is absent or disabled
+ */
+export function resolveAutoReplySettings(
+  config: AutoReplyConfig | undefined,
+  templatesDir: string
+): AutoReplySettings | undefined {
+  if (!config || !config.enabled) {
+    return undefined;
+  }
+
+  return {
+    from: config.from,
+    replyTo: config.replyTo,
+    subject: config.subject,
+    includeMessage: config.includeMessage,
+    rateLimit: config.rateLimit,
+    templates: resolveTemplateSources(config.templates, templatesDir),
+  };
+}
+
+function quote(content: string): string {
+  return content
+    .split(/\r?\n/)
+    .map(line => `> ${line}`)
+    .join('\n');
+}
+
+/**
+ * Creates the confirmation message sent back to the submitter
+ */
+export function createAutoReplyMessage(
+  request: ContactFormRequest,
+  settings: AutoReplySettings,
+  context: TemplateContext
+): EmailMessage {
+  const replyContext: TemplateContext = {
+    ...context,
+    includeMessage: settings.includeMessage,
+    quotedContent: quote(request.content),
+  };
+
+  return {
+    from: settings.from,
+    to: [request.email],
+    replyTo: settings.replyTo,
+    subject: renderTemplate(settings.subject ?? DEFAULT_AUTO_REPLY_SUBJECT, replyContext, 'text')
+      .replace(/\s+/g, ' ')
+      .trim(),
+    text: renderTemplate(
+      settings.templates?.text ?? DEFAULT_AUTO_REPLY_TEXT_TEMPLATE,
+      replyContext,
+      'text'
+    ).trim(),
+    html: renderTemplate(
+      settings.templates?.html ?? DEFAULT_AUTO_REPLY_HTML_TEMPLATE,
+      replyContext,
+      'html'
+    ).trim(),
+  };
+}
+
+/**
+ * Sends the auto-reply unless the address is suppressed after a bounce or
+ * complaint, or has reached its per-recipient limit. Failures (including an
+ * unreadable suppression list) skip the reply and never fail the submission.
+ */
+export async function sendAutoReply(
+  request: ContactFormRequest,
+  settings: AutoReplySettings,
+  context: TemplateContext,
+  transport: EmailTransport,
+  rateLimit: AutoReplyRateLimitOptions,
+  suppression?: SuppressionConfig
+): Promise<AutoReplyOutcome> {
+  try {
+    if (await getSuppressionStore(suppression).isSuppressed(request.email)) {
+      return 'suppressed';
+    }
+
+    const limit = { ...settings.rateLimit, scope: 'autoreply' };
+    // Fail closed: an unavailable limiter must not turn the form into an open relay
+    const allowed = rateLimit.tableName
+      ? await checkRecipientRateLimitDistributed(request.email, {
+          ...limit,
+          tableName: rateLimit.tableName,
+          region: rateLimit.region,
+          partitionKeyName: rateLimit.partitionKeyName,
+          failOpen: false,
+        })
+      : checkRecipientRateLimit(request.email, limit);
+    if (!allowed) {
+      return 'rate_limited';
+    }
+
+    await transport.send(createAutoReplyMessage(request, settings, context));
+    return 'sent';
+  } catch (error) {
+    console.error(`Auto-reply (${transport.name}) error:`, error);
+    return 'failed';
+  }
+}
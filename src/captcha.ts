@@ -0,0 +1,234 @@
+import { z } from 'zod';
+import { ConfigurationError, ContactFormError } from './errors';
+
+export const CAPTCHA_PROVIDERS = ['turnstile', 'hcaptcha', 'recaptcha-v2', 'recaptcha-v3'] as const;
+
+export type CaptchaProvider = (typeof CAPTCHA_PROVIDERS)[number];
+
+export const DEFAULT_CAPTCHA_PROVIDER: CaptchaProvider = 'turnstile';
+// reCAPTCHA v3 scores run from 0 (bot) to 1 (human); Google suggests 0.5 to start
+export const DEFAULT_CAPTCHA_MIN_SCORE = 0.5;
+// Turnstile and reCAPTCHA tokens expire after a few minutes anyway
+export const DEFAULT_CAPTCHA_MAX_TOKEN_AGE_MS = 5 * 60 * 1000;
+
+export const captchaSettingsSchema = z.object({
+  enabled: z.boolean().optional(),
+  provider: z.enum(CAPTCHA_PROVIDERS).optional(),
+  secret: z.string().optional(),
+  verifyUrl: z.string().url().optional(),
+  tokenHeader: z.string().optional(),
+  failOpen: z.boolean().optional(),
+  // hCaptcha checks that the token was issued for this site key
+  siteKey: z.string().optional(),
+  minScore: z.number().min(0).max(1).optional(),
+  action: z.string().min(1).max(100).optional(),
+  hostnames: z.array(z.string().trim().toLowerCase().min(1)).min(1).max(50).optional(),
+  maxTokenAgeMs: z
+    .number()
+    .int()
+    .positive()
+    .max(60 * 60 * 1000)
+    .optional(),
+});
+
+export type CaptchaSettings = z.infer<typeof captchaSettingsSchema>;
+
+export interface CaptchaCheck {
+  provider: CaptchaProvider;
+  secret: string;
+  verifyUrl?: string;
+  siteKey?: string;
+  minScore?: number;
+  action?: string;
+  hostnames?: string[];
+  maxTokenAgeMs?: number;
+}
+
+export interface CaptchaResult {
+  success: boolean;
+  provider: CaptchaProvider;
+  // Provider error codes followed by the checks that failed here, such as hostname-mismatch
+  errorCodes: string[];
+  hostname?: string;
+  action?: string;
+  // 0 (bot) to 1 (human), when the provider scores tokens
+  score?: number;
+  challengeTs?: string;
+}
+
+// The fields every provider's siteverify answer is reduced to
+interface ProviderAnswer {
+  success: boolean;
+  errorCodes: string[];
+  hostname?: string;
+  action?: string;
+  score?: number;
+  challengeTs?: string;
+}
+
+interface CaptchaAdapter {
+  verifyUrl: string;
+  // Whether the provider reports the action set on the widget
+  hasAction: boolean;
+  // Whether every answer carries a score that must be checked
+  requiresScore: boolean;
+  parse(payload: Record<string, unknown>): ProviderAnswer;
+}
+
+const optionalString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+const optionalNumber = (value: unknown) => (typeof value === 'number' ? value : undefined);
+
+function parseCommonAnswer(payload: Record<string, unknown>): ProviderAnswer {
+  const errorCodes = payload['error-codes'];
+  return {
+    success: payload.success === true,
+    errorCodes: Array.isArray(errorCodes) ? errorCodes.map(String) : [],
+    hostname: optionalString(payload.hostname),
+    action: optionalString(payload.action),
+    score: optionalNumber(payload.score),
+    challengeTs: optionalString(payload.challenge_ts),
+  };
+}
+
+const recaptchaVerifyUrl = 'https://www.google.com/recaptcha/api/siteverify';
+
+const adapters: Record<CaptchaProvider, CaptchaAdapter> = {
+  turnstile: {
+    verifyUrl: 'https://challenges.cloudflare.com/turnstile/v0/siteverify',
+    hasAction: true,
+    requiresScore: false,
+    parse: parseCommonAnswer,
+  },
+  hcaptcha: {
+    verifyUrl: 'https://api.hcaptcha.com/siteverify',
+    hasAction: false,
+    requiresScore: false,
+    parse(payload) {
+      const answer = parseCommonAnswer(payload);
+      // Enterprise risk scores run the other way: 0 is safe, 1 is a bot
+      return { ...answer, score: answer.score === undefined ? undefined : 1 - answer.score };
+    },
+  },
+  'recaptcha-v2': {
+    verifyUrl: recaptchaVerifyUrl,
+    hasAction: false,
+    requiresScore: false,
+    parse: payload => ({ ...parseCommonAnswer(payload), action: undefined, score: undefined }),
+  },
+  'recaptcha-v3': {
+    verifyUrl: recaptchaVerifyUrl,
+    hasAction: true,
+    requiresScore: true,
+    parse: parseCommonAnswer,
+  },
+};
+
+/**
+ * Parses CAPTCHA_PROVIDER; unknown names are a configuration error
+ */
+export function parseCaptchaProvider(value: string | undefined): CaptchaProvider {
+  if (!value) {
+    return DEFAULT_CAPTCHA_PROVIDER;
+  }
+
+  const provider = CAPTCHA_PROVIDERS.find(candidate => candidate === value.trim().toLowerCase());
+  if (!provider) {
+    throw new ConfigurationError(`Unknown CAPTCHA provider: ${value}`);
+  }
+  return provider;
+}
+
+/**
+ * The provider's siteverify endpoint unless verifyUrl overrides it
+ */
+export function getCaptchaVerifyUrl(check: Pick<CaptchaCheck, 'provider' | 'verifyUrl'>): string {
+  return check.verifyUrl || adapters[check.provider].verifyUrl;
+}
+
+function findFailedChecks(answer: ProviderAnswer, check: CaptchaCheck, now: number): string[] {
+  const adapter = adapters[check.provider];
+  const failed: string[] = [];
+
+  if (check.hostnames && !check.hostnames.includes(answer.hostname?.toLowerCase() ?? '')) {
+    failed.push('hostname-mismatch');
+  }
+  if (adapter.hasAction && check.action && answer.action !== check.action) {
+    failed.push('action-mismatch');
+  }
+
+  const minScore =
+    check.minScore ?? (adapter.requiresScore ? DEFAULT_CAPTCHA_MIN_SCORE : undefined);
+  if (minScore !== undefined) {
+    if (answer.score === undefined) {
+      if (adapter.requiresScore) {
+        failed.push('missing-score');
+      }
+    } else if (answer.score < minScore) {
+      failed.push('score-too-low');
+    }
+  }
+
+  if (answer.challengeTs) {
+    const issuedAt = Date.parse(answer.challengeTs);
+    if (
+      Number.isNaN(issuedAt) ||
+      now - issuedAt > (check.maxTokenAgeMs ?? DEFAULT_CAPTCHA_MAX_TOKEN_AGE_MS)
+    ) {
+      failed.push('token-too-old');
+    }
+  } else if (check.maxTokenAgeMs !== undefined) {
+    // A configured age limit cannot be enforced without the solve time
+    failed.push('missing-challenge-ts');
+  }
+
+  return failed;
+}
+
+/**
+ * Verifies a CAPTCHA token with the provider, then checks the hostname, action,
+ * score and token age it reports. Throws when the provider cannot be reached or
+ * answers with a server error, so callers can decide whether to fail open. A
+ * client error such as a bad secret is a failed verification, never fail-open.
+ */
+export async function verifyCaptcha(
+  token: string,
+  check: CaptchaCheck,
+  remoteIp?: string,
+  now: number = Date.now()
+): Promise<CaptchaResult> {
+  const response = await fetch(getCaptchaVerifyUrl(check), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams({
+      secret: check.secret,
+      response: token,
+      ...(remoteIp ? { remoteip: remoteIp } : {}),
+      ...(check.provider === 'hcaptcha' && check.siteKey ? { sitekey: check.siteKey } : {}),
+    }),
+  });
+
+  if (response.status >= 500) {
+    throw new ContactFormError(`Captcha provider answered with HTTP ${response.status}`, 503);
+  }
+  if (!response.ok) {
+    return { success: false, provider: check.provider, errorCodes: [`http-${response.status}`] };
+  }
+
+  const payload = (await response.json()) as Record<string, unknown>;
+  const answer = adapters[check.provider].parse(
+    payload && typeof payload === 'object' ? payload : {}
+  );
+  const failed = answer.success ? findFailedChecks(answer, check, now) : [];
+
+  return {
+    success: answer.success && failed.length === 0,
+    provider: check.provider,
+    errorCodes: [...answer.errorCodes, ...failed],
+    ...(answer.hostname !== undefined && { hostname: answer.hostname }),
+    ...(answer.action !== undefined && { action: answer.action }),
+    ...(answer.score !== undefined && { score: answer.score }),
+    ...(answer.challengeTs !== undefined && { challengeTs: answer.challengeTs }),
+  };
+}
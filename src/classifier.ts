@@ -0,0 +1,277 @@
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import { ContactFormError } from './errors';
+import { SubmissionRepository } from './submissions';
+import { ContactFormRequest } from './types';
+
+export const SPAM_MODEL_VERSION = 1;
+// Tokens seen fewer times than this across both classes are dropped from the model
+export const DEFAULT_MIN_TOKEN_COUNT = 2;
+// The most frequent tokens kept in the model, which bounds its size
+export const DEFAULT_MAX_MODEL_TOKENS = 5000;
+
+const TRAINING_PAGE_SIZE = 100;
+const MIN_TOKEN_LENGTH = 2;
+const MAX_TOKEN_LENGTH = 40;
+
+export type SpamLabel = 'ham' | 'spam';
+
+export interface TrainingExample {
+  label: SpamLabel;
+  text: string;
+}
+
+export interface TrainingOptions {
+  minCount?: number;
+  maxTokens?: number;
+  now?: Date;
+}
+
+const countsSchema = z.object({
+  ham: z.number().int().nonnegative(),
+  spam: z.number().int().nonnegative(),
+});
+
+const spamModelSchema = z.object({
+  version: z.literal(SPAM_MODEL_VERSION),
+  trainedAt: z.string(),
+  // Training messages per class
+  documents: countsSchema,
+  // Token occurrences per class, including tokens pruned from the model
+  totals: countsSchema,
+  // Token to [ham count, spam count]
+  tokens: z.record(z.tuple([z.number().int().nonnegative(), z.number().int().nonnegative()])),
+});
+
+export type SpamModel = z.infer<typeof spamModelSchema>;
+
+// One line of a training file: a label plus either text or submission fields
+const trainingLineSchema = z
+  .object({
+    label: z.enum(['ham', 'spam']),
+    text: z.string().optional(),
+    name: z.string().optional(),
+    subject: z.string().optional(),
+    content: z.string().optional(),
+  })
+  .refine(line => line.text !== undefined || line.content !== undefined, {
+    message: 'Each example needs text or content',
+  });
+
+let modelOverride: SpamModel | null | undefined;
+// Loaded once per Lambda instance; failures are cached too so they are logged once
+let loadedModel: { path: string; model?: SpamModel } | undefined;
+
+const linkPattern = /\bhttps?:\/\/([^\s/<>"?#]+)[^\s<>"]*|\bwww\.([^\s/<>"?#]+)[^\s<>"]*/g;
+
+/**
+ * Every text value of a submission: name, subject, message and custom fields
+ */
+export function getRequestText(request: ContactFormRequest): string[] {
+  const customFieldText = Object.values(request.fields || {}).flatMap(value =>
+    typeof value === 'string' ? [value] : Array.isArray(value) ? value : []
+  );
+
+  return [request.name, request.subject ?? '', request.content, ...customFieldText].filter(
+    value => value.length > 0
+  );
+}
+
+/**
+ * Splits text into the distinct lower-case words it contains. Links become a
+ * __link__ marker plus their host, so spam domains are learned as one token.
+ */
+export function tokenize(text: string): string[] {
+  const tokens = new Set<string>();
+  const withoutLinks = text.toLowerCase().replace(linkPattern, (match, host, wwwHost) => {
+    tokens.add('__link__');
+    tokens.add(`host:${(host ?? `www.${wwwHost}`).replace(/^www\./, '')}`);
+    return ' ';
+  });
+
+  for (const word of withoutLinks.normalize('NFKC').split(/[^\p{L}\p{N}]+/u)) {
+    if (word.length >= MIN_TOKEN_LENGTH && word.length <= MAX_TOKEN_LENGTH) {
+      tokens.add(word);
+    }
+  }
+
+  return [...tokens];
+}
+
+/**
+ * Trains a naive-Bayes model on labelled messages. Each message counts a token
+ * once, so repeating a word does not push the score.
+ */
+export function trainSpamModel(
+  examples: TrainingExample[],
+  options: TrainingOptions = {}
+): SpamModel {
+  const documents = { ham: 0, spam: 0 };
+  const totals = { ham: 0, spam: 0 };
+  const counts = new Map<string, [number, number]>();
+
+  for (const example of examples) {
+    documents[example.label] += 1;
+    const index = example.label === 'ham' ? 0 : 1;
+    for (const token of tokenize(example.text)) {
+      const entry = counts.get(token) ?? [0, 0];
+      entry[index] += 1;
+      counts.set(token, entry);
+      totals[example.label] += 1;
+    }
+  }
+
+  if (documents.ham === 0 || documents.spam === 0) {
+    throw new ContactFormError('Training needs at least one ham and one spam example');
+  }
+
+  const minCount = options.minCount ?? DEFAULT_MIN_TOKEN_COUNT;
+  const tokens = [...counts.entries()]
+    .filter(([, [ham, spam]]) => ham + spam >= minCount)
+    .sort(
+      ([a, [aHam, aSpam]], [b, [bHam, bSpam]]) =>
+        bHam + bSpam - (aHam + aSpam) || a.localeCompare(b)
+    )
+    .slice(0, options.maxTokens ?? DEFAULT_MAX_MODEL_TOKENS);
+
+  return {
+    version: SPAM_MODEL_VERSION,
+    trainedAt: (options.now ?? new Date()).toISOString(),
+    documents,
+    totals,
+    tokens: Object.fromEntries(tokens),
+  };
+}
+
+/**
+ * Probability between 0 and 1 that the text is spam. Tokens the model has not
+ * seen are ignored; counts use add-one smoothing.
+ */
+export function classifySpam(model: SpamModel, text: string): number {
+  const vocabulary = Object.keys(model.tokens).length;
+  let logOdds = Math.log(model.documents.spam + 1) - Math.log(model.documents.ham + 1);
+
+  for (const token of tokenize(text)) {
+    const counts = Object.prototype.hasOwnProperty.call(model.tokens, token)
+      ? model.tokens[token]
+      : undefined;
+    if (!counts) {
+      continue;
+    }
+
+    logOdds +=
+      Math.log((counts[1] + 1) / (model.totals.spam + vocabulary)) -
+      Math.log((counts[0] + 1) / (model.totals.ham + vocabulary));
+  }
+
+  return 1 / (1 + Math.exp(-logOdds));
+}
+
+/**
+ * Validates a model file's JSON
+ */
+export function parseSpamModel(raw: string): SpamModel {
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    throw new ContactFormError('Spam model is not valid JSON');
+  }
+
+  const result = spamModelSchema.safeParse(json);
+  if (!result.success) {
+    const details = result.error.errors
+      .map(err => `${err.path.join('.') || 'root'}: ${err.message}`)
+      .join(', ');
+    throw new ContactFormError(`Spam model is invalid: ${details}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Parses one NDJSON training line
+ */
+export function parseTrainingLine(line: string): TrainingExample {
+  let json: unknown;
+  try {
+    json = JSON.parse(line);
+  } catch {
+    throw new ContactFormError('Training line is not valid JSON');
+  }
+
+  const result = trainingLineSchema.safeParse(json);
+  if (!result.success) {
+    throw new ContactFormError(
+      `Invalid training example: ${result.error.errors.map(err => err.message).join(', ')}`
+    );
+  }
+
+  const { label, text, name, subject, content } = result.data;
+  return {
+    label,
+    text: text ?? [name, subject, content].filter(Boolean).join('\n'),
+  };
+}
+
+/**
+ * Reads every labelled submission from the archive; erased submissions are skipped
+ */
+export async function collectLabelledSubmissions(
+  repository: SubmissionRepository
+): Promise<TrainingExample[]> {
+  const examples: TrainingExample[] = [];
+
+  for (const label of ['ham', 'spam'] as const) {
+    let cursor: string | undefined;
+    do {
+      const page = await repository.list({ label, limit: TRAINING_PAGE_SIZE, cursor });
+      for (const record of page.items) {
+        if (!record.metadata.erasedAt) {
+          examples.push({ label, text: getRequestText(record.request).join('\n') });
+        }
+      }
+      cursor = page.cursor;
+    } while (cursor);
+  }
+
+  return examples;
+}
+
+/**
+ * Returns the override model if one is set, otherwise the model file at path,
+ * read on first use and kept for the life of the Lambda instance. A missing or
+ * invalid file is logged and the classifier stays off.
+ */
+export function getSpamModel(path: string | undefined): SpamModel | undefined {
+  if (modelOverride !== undefined) {
+    return modelOverride ?? undefined;
+  }
+  if (!path) {
+    return undefined;
+  }
+  if (loadedModel?.path === path) {
+    return loadedModel.model;
+  }
+
+  loadedModel = { path };
+  try {
+    loadedModel.model = parseSpamModel(readFileSync(path, 'utf8'));
+  } catch (error) {
+    console.error('Spam model could not be loaded:', {
+      path,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  return loadedModel.model;
+}
+
+/**
+ * Replace the spam model (for tests and local tooling); null turns the
+ * classifier off, undefined resets to the model file
+ */
+export function setSpamModel(model: SpamModel | null | undefined): void {
+  modelOverride = model;
+  loadedModel = undefined;
+}
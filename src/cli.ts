@@ -0,0 +1,285 @@
+import { createReadStream, createWriteStream, mkdirSync, writeFileSync } from 'fs';
+import { once } from 'events';
+import { dirname } from 'path';
+import { createInterface } from 'readline';
+import { Writable } from 'stream';
+import { parseArgs } from 'util';
+import {
+  collectLabelledSubmissions,
+  parseTrainingLine,
+  TrainingExample,
+  trainSpamModel,
+} from './classifier';
+import { ContactFormError } from './errors';
+import { exportSubmissions, parseExportRequest, resolveExportColumns } from './export';
+import { parseFormsConfig } from './forms';
+import {
+  parseDefaultRetention,
+  purgeExpiredSubmissions,
+  resolveRetentionPolicies,
+} from './retention';
+import { getSubmissionRepository } from './submissions';
+
+// Get environment variables (read at runtime for testing flexibility)
+const getEnvVars = () => ({
+  AWS_REGION: process.env.AWS_REGION || 'us-east-1',
+  SUBMISSIONS_TABLE: process.env.SUBMISSIONS_TABLE,
+  SUBMISSIONS_PARTITION_KEY: process.env.SUBMISSIONS_PARTITION_KEY,
+  SUBMISSIONS_EMAIL_INDEX: process.env.SUBMISSIONS_EMAIL_INDEX,
+  FORMS_CONFIG: process.env.FORMS_CONFIG,
+  RETENTION_DAYS: process.env.RETENTION_DAYS,
+  RETENTION_ACTION: process.env.RETENTION_ACTION,
+});
+
+export interface CliIo {
+  stdout: Writable;
+  stderr: Writable;
+}
+
+const USAGE = `Usage:
+  contact-form export [--format csv|ndjson] [--form <formId>] [--from <iso>] [--to <iso>]
+                      [--columns id,name,email,fields.<name>] [--output <file>]
+  contact-form purge [--dry-run]
+  contact-form train [<file.ndjson>...] [--archive] [--output <file>] [--min-count <n>]
+                     [--max-tokens <n>]
+`;
+
+const DEFAULT_MODEL_PATH = 'models/spam-model.json';
+
+async function write(stream: Writable, data: string): Promise<void> {
+  if (!stream.write(data)) {
+    await once(stream, 'drain');
+  }
+}
+
+/**
+ * Streams an export of the submission archive to a file or stdout
+ */
+async function runExport(args: string[], io: CliIo): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      format: { type: 'string' },
+      form: { type: 'string' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      columns: { type: 'string' },
+      output: { type: 'string', short: 'o' },
+    },
+  });
+
+  const {
+    AWS_REGION,
+    SUBMISSIONS_TABLE,
+    SUBMISSIONS_PARTITION_KEY,
+    SUBMISSIONS_EMAIL_INDEX,
+    FORMS_CONFIG,
+  } = getEnvVars();
+  const repository = getSubmissionRepository({
+    tableName: SUBMISSIONS_TABLE,
+    region: AWS_REGION,
+    partitionKeyName: SUBMISSIONS_PARTITION_KEY || 'id',
+    emailIndexName: SUBMISSIONS_EMAIL_INDEX,
+  });
+  if (!repository) {
+    throw new ContactFormError('SUBMISSIONS_TABLE is not configured');
+  }
+
+  const { format, formId, from, to, columns } = parseExportRequest({
+    format: values.format,
+    formId: values.form,
+    from: values.from,
+    to: values.to,
+    columns: values.columns,
+  });
+  const formFields = formId ? parseFormsConfig(FORMS_CONFIG)[formId]?.fields : undefined;
+
+  let output = io.stdout;
+  if (values.output) {
+    output = createWriteStream(values.output);
+    // Surfaces a bad path as an error instead of an unhandled stream event
+    await once(output, 'open');
+  }
+  let count = 0;
+  try {
+    for await (const chunk of exportSubmissions(repository, {
+      format,
+      formId,
+      from,
+      to,
+      columns: resolveExportColumns(columns, formFields),
+    })) {
+      await write(output, chunk.data);
+      count += chunk.records;
+    }
+  } finally {
+    if (output !== io.stdout) {
+      output.end();
+      await once(output, 'finish');
+    }
+  }
+
+  io.stderr.write(`Exported ${count} submissions\n`);
+}
+
+/**
+ * Applies the retention policies and prints the report as JSON
+ */
+async function runPurge(args: string[], io: CliIo): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      'dry-run': { type: 'boolean' },
+    },
+  });
+
+  const {
+    AWS_REGION,
+    SUBMISSIONS_TABLE,
+    SUBMISSIONS_PARTITION_KEY,
+    FORMS_CONFIG,
+    RETENTION_DAYS,
+    RETENTION_ACTION,
+  } = getEnvVars();
+  const repository = getSubmissionRepository({
+    tableName: SUBMISSIONS_TABLE,
+    region: AWS_REGION,
+    partitionKeyName: SUBMISSIONS_PARTITION_KEY || 'id',
+  });
+  if (!repository) {
+    throw new ContactFormError('SUBMISSIONS_TABLE is not configured');
+  }
+
+  const policies = resolveRetentionPolicies(
+    parseFormsConfig(FORMS_CONFIG),
+    parseDefaultRetention(RETENTION_DAYS, RETENTION_ACTION)
+  );
+  if (policies.length === 0) {
+    throw new ContactFormError('No retention policies are configured');
+  }
+
+  const report = await purgeExpiredSubmissions(repository, policies, {
+    dryRun: values['dry-run'],
+  });
+  await write(io.stdout, `${JSON.stringify(report, null, 2)}\n`);
+}
+
+function parseCount(value: string | undefined, option: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new ContactFormError(`--${option} must be a positive whole number`);
+  }
+  return parsed;
+}
+
+async function readTrainingFile(path: string): Promise<TrainingExample[]> {
+  const examples: TrainingExample[] = [];
+  const lines = createInterface({ input: createReadStream(path), crlfDelay: Infinity });
+  let lineNumber = 0;
+
+  for await (const line of lines) {
+    lineNumber += 1;
+    if (!line.trim()) {
+      continue;
+    }
+
+    try {
+      examples.push(parseTrainingLine(line));
+    } catch (error) {
+      throw new ContactFormError(
+        `${path}:${lineNumber}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  return examples;
+}
+
+/**
+ * Trains the spam classifier on NDJSON files and/or labelled archived
+ * submissions and writes the model file the handler loads via SPAM_MODEL_PATH
+ */
+async function runTrain(args: string[], io: CliIo): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      archive: { type: 'boolean' },
+      output: { type: 'string', short: 'o' },
+      'min-count': { type: 'string' },
+      'max-tokens': { type: 'string' },
+    },
+  });
+
+  if (positionals.length === 0 && !values.archive) {
+    throw new ContactFormError('Pass at least one training file or --archive');
+  }
+
+  const examples: TrainingExample[] = [];
+  for (const path of positionals) {
+    examples.push(...(await readTrainingFile(path)));
+  }
+
+  if (values.archive) {
+    const { AWS_REGION, SUBMISSIONS_TABLE, SUBMISSIONS_PARTITION_KEY } = getEnvVars();
+    const repository = getSubmissionRepository({
+      tableName: SUBMISSIONS_TABLE,
+      region: AWS_REGION,
+      partitionKeyName: SUBMISSIONS_PARTITION_KEY || 'id',
+    });
+    if (!repository) {
+      throw new ContactFormError('SUBMISSIONS_TABLE is not configured');
+    }
+    examples.push(...(await collectLabelledSubmissions(repository)));
+  }
+
+  const model = trainSpamModel(examples, {
+    minCount: parseCount(values['min-count'], 'min-count'),
+    maxTokens: parseCount(values['max-tokens'], 'max-tokens'),
+  });
+  const output = values.output || DEFAULT_MODEL_PATH;
+  mkdirSync(dirname(output), { recursive: true });
+  writeFileSync(output, `${JSON.stringify(model)}\n`);
+
+  io.stderr.write(
+    `Trained on ${model.documents.ham} ham and ${model.documents.spam} spam messages; ` +
+      `${Object.keys(model.tokens).length} tokens written to ${output}\n`
+  );
+}
+
+/**
+ * Runs a command and returns the process exit code
+ */
+export async function runCli(argv: string[], io: CliIo): Promise<number> {
+  const [command, ...args] = argv;
+
+  try {
+    switch (command) {
+      case 'export':
+        await runExport(args, io);
+        return 0;
+      case 'purge':
+        await runPurge(args, io);
+        return 0;
+      case 'train':
+        await runTrain(args, io);
+        return 0;
+      default:
+        io.stderr.write(USAGE);
+        return command ? 1 : 0;
+    }
+  } catch (error) {
+    io.stderr.write(`Error: ${error instanceof Error ? error.message : String(error)}\n`);
+    return 1;
+  }
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2), { stdout: process.stdout, stderr: process.stderr }).then(code => {
+    process.exitCode = code;
+  });
+}
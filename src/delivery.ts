@@ -0,0 +1,225 @@
+import { Attachment } from './attachments';
+import { AutoReplyOutcome, AutoReplyRateLimitOptions, sendAutoReply } from './autoreply';
+import {
+  EmailServiceError,
+  PermanentEmailError,
+  ThrottledEmailError,
+  TransientEmailError,
+} from './errors';
+import { describeFields } from './fields';
+import { FormDefinition, renderSubject } from './forms';
+import { RetryExhaustedError, RetryOptions, withRetry } from './retry';
+import { sendNotifications } from './notifiers';
+import { routeRecipients, RoutedRecipients } from './routing';
+import { recordDeliveryStatus, SubmissionRepository } from './submissions';
+import { SuppressionConfig } from './suppression';
+import {
+  DEFAULT_HTML_TEMPLATE,
+  DEFAULT_TEXT_TEMPLATE,
+  renderTemplate,
+  TemplateContext,
+} from './templates';
+import { EmailMessage, EmailTransport } from './transport';
+import { ContactFormRequest } from './types';
+import { createWebhookPayload, sendWebhooks, WebhookOutcome } from './webhooks';
+
+export interface DeliveryOptions {
+  submissionId: string;
+  // ISO time the submission was received
+  receivedAt: string;
+  sender: string;
+  origin?: string;
+  // Link to the stored submission for chat notifications
+  submissionUrl?: string;
+  attachments: Attachment[];
+  transport: EmailTransport;
+  autoReplyRateLimit: AutoReplyRateLimitOptions;
+  suppression?: SuppressionConfig;
+  // Archive holding this submission; its delivery status is updated after sending
+  repository?: SubmissionRepository;
+  // Bounds retries by the Lambda's remaining time
+  getRemainingTimeInMillis?: () => number;
+}
+
+export interface DeliveryResult {
+  messageId: string;
+  matchedRules: string[];
+  autoReply?: AutoReplyOutcome;
+  webhooks?: WebhookOutcome[];
+  notifications?: WebhookOutcome[];
+}
+
+/**
+ * Builds the variables available to subject and body templates
+ */
+export function createTemplateContext(
+  request: ContactFormRequest,
+  form: FormDefinition,
+  subject: string,
+  attachments: Attachment[]
+): TemplateContext {
+  return {
+    formId: form.id,
+    name: request.name,
+    email: request.email,
+    subject,
+    content: request.content,
+    fields: describeFields(form.fields, request.fields),
+    values: request.fields ?? {},
+    attachments: attachments.map(attachment => ({
+      filename: attachment.filename,
+      contentType: attachment.contentType,
+      size: attachment.content.length,
+    })),
+  };
+}
+
+/**
+ * Creates the notification message for the form's recipients. Templates render
+ * from the validated, unescaped values; the HTML template escapes them itself.
+ */
+export function createEmailMessage(
+  request: ContactFormRequest,
+  sender: string,
+  form: FormDefinition,
+  recipients: RoutedRecipients,
+  attachments: Attachment[] = []
+): EmailMessage {
+  if (!sender) {
+    throw new EmailServiceError('EMAIL environment variable is not configured');
+  }
+
+  const subject = renderSubject(form.subjectTemplate, request, form.id);
+  const context = createTemplateContext(request, form, subject, attachments);
+
+  return {
+    from: sender,
+    to: recipients.to,
+    cc: recipients.cc,
+    bcc: recipients.bcc,
+    replyTo: [request.email],
+    subject,
+    text: renderTemplate(form.templates?.text ?? DEFAULT_TEXT_TEMPLATE, context, 'text').trim(),
+    html: renderTemplate(form.templates?.html ?? DEFAULT_HTML_TEMPLATE, context, 'html').trim(),
+    attachments,
+  };
+}
+
+/**
+ * Sends email through the configured transport, retrying throttled and
+ * transient failures. The final error is mapped to the error type for its group.
+ */
+export async function sendEmail(
+  message: EmailMessage,
+  transport: EmailTransport,
+  retry: Partial<RetryOptions> = {}
+): Promise<string> {
+  try {
+    return await withRetry(() => transport.send(message), retry);
+  } catch (error) {
+    const cause = error instanceof RetryExhaustedError ? error.cause : error;
+    console.error(`Email transport (${transport.name}) error:`, cause);
+
+    if (!(cause instanceof Error)) {
+      throw new EmailServiceError('Failed to send email due to unknown error');
+    }
+
+    const failure = `Failed to send email: ${cause.message}`;
+    switch (error instanceof RetryExhaustedError ? error.errorClass : 'permanent') {
+      case 'throttled':
+        throw new ThrottledEmailError(failure);
+      case 'retryable':
+        throw new TransientEmailError(failure);
+      default:
+        throw new PermanentEmailError(failure);
+    }
+  }
+}
+
+/**
+ * Routes, renders and sends the notification, then calls the form's webhooks
+ * and chat notifiers and sends the optional auto-reply.
+ * Shared by the synchronous handler and the queue worker.
+ */
+export async function deliverSubmission(
+  request: ContactFormRequest,
+  form: FormDefinition,
+  options: DeliveryOptions
+): Promise<DeliveryResult> {
+  const recipients = routeRecipients(form.recipients, form.routing, {
+    request,
+    formId: form.id,
+    origin: options.origin,
+  });
+  const emailMessage = createEmailMessage(
+    request,
+    options.sender,
+    form,
+    recipients,
+    options.attachments
+  );
+  const retry = { getRemainingTimeInMillis: options.getRemainingTimeInMillis };
+  let messageId: string;
+  try {
+    messageId = await sendEmail(emailMessage, options.transport, retry);
+  } catch (error) {
+    await recordDeliveryStatus(options.repository, options.submissionId, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+  await recordDeliveryStatus(options.repository, options.submissionId, {
+    status: 'sent',
+    messageId,
+  });
+
+  // Webhook and chat failures are logged and reported; the email has already gone out
+  const [webhooks, notifications] = await Promise.all([
+    form.webhooks?.length
+      ? sendWebhooks(
+          form.webhooks,
+          createWebhookPayload(
+            request,
+            options.submissionId,
+            form.id,
+            options.origin,
+            options.receivedAt
+          ),
+          retry
+        )
+      : undefined,
+    form.notifiers?.length
+      ? sendNotifications(
+          form.notifiers,
+          {
+            request,
+            formId: form.id,
+            submissionId: options.submissionId,
+            submissionUrl: options.submissionUrl,
+          },
+          retry
+        )
+      : undefined,
+  ]);
+
+  // Callers only deliver genuine submissions, so honeypot and suspicious ones never get a reply
+  const autoReply = form.autoReply
+    ? await sendAutoReply(
+        request,
+        form.autoReply,
+        createTemplateContext(request, form, emailMessage.subject, options.attachments),
+        options.transport,
+        options.autoReplyRateLimit,
+        options.suppression
+      )
+    : undefined;
+
+  return {
+    messageId,
+    matchedRules: recipients.matchedRules,
+    autoReply,
+    webhooks,
+    notifications,
+  };
+}
@@ -1,3 +1,5 @@
+import { ValidationIssue } from './types';
+
 export class ContactFormError extends Error {
   public readonly statusCode: number;
   public readonly isOperational: boolean;
@@ -22,15 +24,81 @@ export class ContactFormError extends Error {
 }
 
 export class ValidationError extends ContactFormError {
-  constructor(message: string) {
+  public readonly issues: ValidationIssue[];
+
+  constructor(message: string, issues: ValidationIssue[] = []) {
     super(message, 400);
     this.name = 'ValidationError';
+    this.issues = issues;
   }
 }
 
 export class EmailServiceError extends ContactFormError {
+  constructor(message: string, statusCode: number = 500) {
+    super(message, statusCode);
+    this.name = 'EmailServiceError';
+  }
+}
+
+/**
+ * The provider is rate limiting us; clients should retry after retryAfterSeconds
+ */
+export class ThrottledEmailError extends EmailServiceError {
+  public readonly retryAfterSeconds: number;
+
+  constructor(message: string, retryAfterSeconds: number = 30) {
+    super(message, 503);
+    this.name = 'ThrottledEmailError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/**
+ * A transient provider or network failure that persisted through our retries
+ */
+export class TransientEmailError extends EmailServiceError {
+  constructor(message: string) {
+    super(message, 502);
+    this.name = 'TransientEmailError';
+  }
+}
+
+/**
+ * The provider rejected the message; retrying will not help
+ */
+export class PermanentEmailError extends EmailServiceError {
   constructor(message: string) {
     super(message, 500);
-    this.name = 'EmailServiceError';
+    this.name = 'PermanentEmailError';
+  }
+}
+
+/**
+ * The request has no valid credentials; answered with 401 and a Bearer challenge
+ */
+export class AuthenticationError extends ContactFormError {
+  constructor(message: string = 'Authentication required') {
+    super(message, 401);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * The credentials are valid but lack a required scope
+ */
+export class AuthorizationError extends ContactFormError {
+  constructor(message: string = 'Insufficient scope') {
+    super(message, 403);
+    this.name = 'AuthorizationError';
+  }
+}
+
+/**
+ * The deployment is misconfigured. Details are logged, clients only see a generic 500.
+ */
+export class ConfigurationError extends ContactFormError {
+  constructor(message: string) {
+    super(message, 500, false);
+    this.name = 'ConfigurationError';
   }
 }
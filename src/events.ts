@@ -0,0 +1,287 @@
+import { randomUUID } from 'crypto';
+import {
+  EventBridgeClient,
+  PutEventsCommand,
+  PutEventsRequestEntry,
+} from '@aws-sdk/client-eventbridge';
+import { ContactFormError } from './errors';
+import { FormTokenFailure } from './formtoken';
+import { PowFailure } from './pow';
+import { ValidationIssue } from './types';
+
+// Bump on breaking changes to the detail shape; consumers should match on it
+export const EVENT_SCHEMA_VERSION = '1.0';
+export const DEFAULT_EVENT_SOURCE = 'contact-form';
+
+// PutEvents accepts at most 10 entries and 256 KB per request
+export const MAX_EVENTS_PER_BATCH = 10;
+export const MAX_EVENT_BATCH_BYTES = 256 * 1024;
+
+export type DeliveryMode = 'sync' | 'async';
+
+// Events carry IDs and metadata only; the submitted fields stay in the archive
+export interface SubmissionEventData {
+  'submission.accepted': {
+    submissionId: string;
+    deliveryMode: DeliveryMode;
+    // Set once the email has been sent; absent for queued submissions
+    messageId?: string;
+    attachments: number;
+  };
+  'submission.rejected': {
+    reason: string;
+    issues: Array<Pick<ValidationIssue, 'field' | 'code'>>;
+  };
+  'submission.rate_limited': Record<string, never>;
+  'submission.spam_flagged': {
+    reason: 'suspicious_content' | 'captcha_failed' | 'form_token_failed' | 'pow_failed';
+    // Quarantined submissions are archived for review instead of being delivered
+    action: 'quarantine' | 'reject';
+    // Spam score and the rules that matched, for suspicious content
+    score?: number;
+    rules?: string[];
+    // Why the form token or proof of work was refused, such as expired or too_fast
+    failure?: FormTokenFailure | PowFailure;
+    // CAPTCHA provider error codes and failed checks, such as score-too-low
+    errorCodes?: string[];
+  };
+  'submission.honeypot_trapped': Record<string, never>;
+  'submission.duplicate': Record<string, never>;
+  'submission.delivery_failed': {
+    submissionId: string;
+    deliveryMode: DeliveryMode;
+    error: string;
+    // Queue receive count for async deliveries
+    attempt?: number;
+  };
+}
+
+export type SubmissionEventType = keyof SubmissionEventData;
+
+export type SubmissionEvent<T extends SubmissionEventType = SubmissionEventType> = {
+  [K in T]: {
+    schemaVersion: typeof EVENT_SCHEMA_VERSION;
+    id: string;
+    type: K;
+    occurredAt: string;
+    formId: string;
+    requestId?: string;
+    data: SubmissionEventData[K];
+  };
+}[T];
+
+// EventBridge detail types, used in rule patterns
+export const EVENT_DETAIL_TYPES: Record<SubmissionEventType, string> = {
+  'submission.accepted': 'Submission Accepted',
+  'submission.rejected': 'Submission Rejected',
+  'submission.rate_limited': 'Submission Rate Limited',
+  'submission.spam_flagged': 'Submission Flagged As Spam',
+  'submission.honeypot_trapped': 'Submission Honeypot Trapped',
+  'submission.duplicate': 'Submission Duplicate',
+  'submission.delivery_failed': 'Submission Delivery Failed',
+};
+
+export interface EventPublisher {
+  readonly name: string;
+  publish(events: SubmissionEvent[]): Promise<void>;
+}
+
+export interface EventPublisherConfig {
+  busName?: string;
+  region: string;
+  source?: string;
+}
+
+let publisherOverride: EventPublisher | undefined;
+const eventBridgeClients = new Map<string, EventBridgeClient>();
+
+export function createSubmissionEvent<T extends SubmissionEventType>(
+  type: T,
+  formId: string,
+  data: SubmissionEventData[T],
+  requestId?: string,
+  now: Date = new Date()
+): SubmissionEvent<T> {
+  return {
+    schemaVersion: EVENT_SCHEMA_VERSION,
+    id: randomUUID(),
+    type,
+    occurredAt: now.toISOString(),
+    formId,
+    ...(requestId && { requestId }),
+    data,
+  } as SubmissionEvent<T>;
+}
+
+function entrySize(entry: PutEventsRequestEntry): number {
+  return [entry.Source, entry.DetailType, entry.Detail, entry.EventBusName].reduce(
+    (total, value) => total + Buffer.byteLength(value ?? ''),
+    0
+  );
+}
+
+/**
+ * Splits entries into PutEvents requests within the count and size limits
+ */
+export function batchEventEntries(entries: PutEventsRequestEntry[]): PutEventsRequestEntry[][] {
+  const batches: PutEventsRequestEntry[][] = [];
+  let batch: PutEventsRequestEntry[] = [];
+  let batchBytes = 0;
+
+  for (const entry of entries) {
+    const size = entrySize(entry);
+    if (size > MAX_EVENT_BATCH_BYTES) {
+      throw new ContactFormError(`Event exceeds the EventBridge size limit: ${size} bytes`);
+    }
+
+    if (batch.length === MAX_EVENTS_PER_BATCH || batchBytes + size > MAX_EVENT_BATCH_BYTES) {
+      batches.push(batch);
+      batch = [];
+      batchBytes = 0;
+    }
+    batch.push(entry);
+    batchBytes += size;
+  }
+
+  if (batch.length > 0) {
+    batches.push(batch);
+  }
+  return batches;
+}
+
+// Shared across invocations, like the DynamoDB clients
+function getEventBridgeClient(region: string): EventBridgeClient {
+  const existing = eventBridgeClients.get(region);
+  if (existing) {
+    return existing;
+  }
+
+  const client = new EventBridgeClient({ region });
+  eventBridgeClients.set(region, client);
+  return client;
+}
+
+/**
+ * Publishes to an EventBridge bus; entries the bus rejects are reported in one error
+ */
+export function createEventBridgePublisher(
+  busName: string,
+  region: string,
+  source: string = DEFAULT_EVENT_SOURCE
+): EventPublisher {
+  return {
+    name: 'eventbridge',
+    async publish(events) {
+      const client = getEventBridgeClient(region);
+      const entries = events.map(event => ({
+        EventBusName: busName,
+        Source: source,
+        DetailType: EVENT_DETAIL_TYPES[event.type],
+        Detail: JSON.stringify(event),
+        Time: new Date(event.occurredAt),
+      }));
+
+      const failures: string[] = [];
+      for (const batch of batchEventEntries(entries)) {
+        const result = await client.send(new PutEventsCommand({ Entries: batch }));
+        if (result.FailedEntryCount) {
+          (result.Entries ?? []).forEach(entry => {
+            if (entry.ErrorCode) {
+              failures.push(`${entry.ErrorCode}: ${entry.ErrorMessage ?? 'unknown error'}`);
+            }
+          });
+        }
+      }
+
+      if (failures.length > 0) {
+        throw new ContactFormError(
+          `EventBridge rejected ${failures.length} events (${failures.join(', ')})`
+        );
+      }
+    },
+  };
+}
+
+/**
+ * Drops events; used when no bus is configured
+ */
+export function createNoopEventPublisher(): EventPublisher {
+  return {
+    name: 'noop',
+    async publish() {},
+  };
+}
+
+/**
+ * Keeps published events in memory for tests
+ */
+export function createCaptureEventPublisher(): EventPublisher & {
+  events: SubmissionEvent[];
+  batches: number;
+} {
+  const publisher = {
+    name: 'capture',
+    events: [] as SubmissionEvent[],
+    batches: 0,
+    async publish(events: SubmissionEvent[]) {
+      // Round-trip through JSON so tests see exactly what the bus would receive
+      publisher.events.push(...(JSON.parse(JSON.stringify(events)) as SubmissionEvent[]));
+      publisher.batches += 1;
+    },
+  };
+
+  return publisher;
+}
+
+/**
+ * Returns the override publisher if one is set, then the EventBridge publisher
+ * when EVENT_BUS_NAME is configured, otherwise the no-op publisher
+ */
+export function getEventPublisher(config: EventPublisherConfig): EventPublisher {
+  if (publisherOverride) {
+    return publisherOverride;
+  }
+
+  return config.busName
+    ? createEventBridgePublisher(config.busName, config.region, config.source)
+    : createNoopEventPublisher();
+}
+
+/**
+ * Replace the event publisher (for tests and local tooling); pass undefined to reset
+ */
+export function setEventPublisher(publisher: EventPublisher | undefined): void {
+  publisherOverride = publisher;
+}
+
+/**
+ * Collects the events of one invocation so they go out in as few PutEvents
+ * calls as possible. Flushing never throws: events are best effort and must
+ * not change the response.
+ */
+export function createEventBatch(publisher: EventPublisher) {
+  const pending: SubmissionEvent[] = [];
+
+  return {
+    add<T extends SubmissionEventType>(event: SubmissionEvent<T>): void {
+      pending.push(event as SubmissionEvent);
+    },
+    async flush(): Promise<void> {
+      if (pending.length === 0) {
+        return;
+      }
+
+      const events = pending.splice(0);
+      try {
+        await publisher.publish(events);
+      } catch (error) {
+        console.error(`Event publisher (${publisher.name}) error:`, {
+          events: events.map(event => ({ id: event.id, type: event.type })),
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    },
+  };
+}
+
+export type EventBatch = ReturnType<typeof createEventBatch>;
@@ -0,0 +1,232 @@
+import { z } from 'zod';
+import { ValidationError } from './errors';
+import { FieldDefinition } from './fields';
+import { SubmissionQuery, SubmissionRecord, SubmissionRepository } from './submissions';
+import { FieldValue } from './types';
+import { isoTimestampSchema, toValidationIssues } from './validation';
+
+export const EXPORT_FORMATS = ['csv', 'ndjson'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+};
+
+// Records read from the repository per request
+export const EXPORT_PAGE_SIZE = 100;
+
+const CUSTOM_FIELD_PREFIX = 'fields.';
+
+const UTF8_BOM = '\ufeff';
+
+const columnReaders: Record<string, (record: SubmissionRecord) => FieldValue | undefined> = {
+  id: record => record.id,
+  createdAt: record => record.createdAt,
+  updatedAt: record => record.updatedAt,
+  formId: record => record.formId,
+  status: record => record.status,
+  messageId: record => record.messageId,
+  name: record => record.request.name,
+  email: record => record.request.email,
+  subject: record => record.request.subject,
+  content: record => record.request.content,
+  origin: record => record.metadata.origin,
+  attachments: record => record.attachments.map(attachment => attachment.filename),
+};
+
+export const DEFAULT_EXPORT_COLUMNS = [
+  'id',
+  'createdAt',
+  'formId',
+  'status',
+  'name',
+  'email',
+  'subject',
+  'content',
+];
+
+const exportRequestSchema = z
+  .object({
+    format: z.enum(EXPORT_FORMATS).default('csv'),
+    formId: z.string().trim().min(1).max(64).optional(),
+    from: isoTimestampSchema.optional(),
+    to: isoTimestampSchema.optional(),
+    // Comma-separated column names
+    columns: z.string().trim().max(2000).optional(),
+  })
+  .refine(options => !options.from || !options.to || options.from <= options.to, {
+    message: 'from must not be after to',
+    path: ['from'],
+  });
+
+export type ExportRequest = z.infer<typeof exportRequestSchema>;
+
+export interface ExportOptions extends Omit<SubmissionQuery, 'limit' | 'cursor'> {
+  format: ExportFormat;
+  columns: string[];
+  // Stops before the exported data would pass this size; unlimited by default
+  maxBytes?: number;
+}
+
+export interface ExportChunk {
+  data: string;
+  // Records included in data
+  records: number;
+  // Resumes the export after this chunk; absent after the last one
+  cursor?: string;
+}
+
+/**
+ * Validates export parameters from a query string or the command line
+ */
+export function parseExportRequest(params: Record<string, string | undefined>): ExportRequest {
+  const result = exportRequestSchema.safeParse(params);
+  if (!result.success) {
+    throw new ValidationError(
+      result.error.errors.map(err => err.message).join(', '),
+      toValidationIssues(result.error)
+    );
+  }
+
+  return result.data;
+}
+
+/**
+ * Resolves the requested columns, or the defaults plus one "fields.<name>"
+ * column per custom field of the form
+ */
+export function resolveExportColumns(
+  requested: string | undefined,
+  formFields: FieldDefinition[] = []
+): string[] {
+  if (!requested) {
+    return [
+      ...DEFAULT_EXPORT_COLUMNS,
+      ...formFields.map(field => `${CUSTOM_FIELD_PREFIX}${field.name}`),
+    ];
+  }
+
+  const columns = requested
+    .split(',')
+    .map(column => column.trim())
+    .filter(Boolean);
+  const unknown = columns.filter(
+    column =>
+      !Object.prototype.hasOwnProperty.call(columnReaders, column) &&
+      !(column.startsWith(CUSTOM_FIELD_PREFIX) && column.length > CUSTOM_FIELD_PREFIX.length)
+  );
+  if (columns.length === 0 || unknown.length > 0) {
+    throw new ValidationError(
+      unknown.length > 0 ? `Unknown export column: ${unknown.join(', ')}` : 'No columns selected'
+    );
+  }
+
+  return columns;
+}
+
+function getColumnValue(record: SubmissionRecord, column: string): FieldValue | undefined {
+  if (column.startsWith(CUSTOM_FIELD_PREFIX)) {
+    return record.request.fields?.[column.slice(CUSTOM_FIELD_PREFIX.length)];
+  }
+
+  return columnReaders[column]?.(record);
+}
+
+/**
+ * Escapes one CSV cell (RFC 4180). Text starting with =, +, -, @, tab or CR is
+ * prefixed with a quote so spreadsheets show it instead of evaluating a formula.
+ */
+export function escapeCsvCell(value: FieldValue | undefined): string {
+  if (value === undefined) {
+    return '';
+  }
+
+  let text = Array.isArray(value) ? value.join('; ') : String(value);
+  // Numbers cannot carry a formula, so negative values stay numeric
+  if (typeof value !== 'number' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatCsvRow(cells: Array<FieldValue | undefined>): string {
+  return `${cells.map(escapeCsvCell).join(',')}\r\n`;
+}
+
+/**
+ * Formats one record as a CSV row or an NDJSON line
+ */
+export function formatExportRecord(
+  record: SubmissionRecord,
+  format: ExportFormat,
+  columns: string[]
+): string {
+  if (format === 'csv') {
+    return formatCsvRow(columns.map(column => getColumnValue(record, column)));
+  }
+
+  const row = Object.fromEntries(
+    columns.map(column => [column, getColumnValue(record, column) ?? null])
+  );
+  return `${JSON.stringify(row)}\n`;
+}
+
+/**
+ * Streams matching submissions one repository page at a time. CSV exports
+ * start with a byte order mark, so Excel reads them as UTF-8, and a header
+ * row; both are left out when resuming from a cursor.
+ *
+ * With maxBytes set, a page that does not fit is read again with fewer records
+ * so the last cursor resumes exactly after the exported rows. A single record
+ * larger than the limit is still exported so the export always progresses.
+ */
+export async function* exportSubmissions(
+  repository: SubmissionRepository,
+  options: ExportOptions,
+  cursor?: string
+): AsyncGenerator<ExportChunk> {
+  const { format, columns, maxBytes = Infinity, ...filters } = options;
+  let data = format === 'csv' && !cursor ? `${UTF8_BOM}${formatCsvRow(columns)}` : '';
+  let exportedBytes = 0;
+  let limit = EXPORT_PAGE_SIZE;
+
+  for (;;) {
+    const page = await repository.list({ ...filters, limit, cursor });
+    const rows = page.items.map(record => formatExportRecord(record, format, columns));
+
+    let pageBytes = exportedBytes + Buffer.byteLength(data);
+    let fitting = 0;
+    for (const row of rows) {
+      pageBytes += Buffer.byteLength(row);
+      if (pageBytes > maxBytes) {
+        break;
+      }
+      fitting++;
+    }
+
+    if (fitting < rows.length) {
+      if (fitting === 0 && exportedBytes > 0) {
+        // The previous chunk's cursor resumes here
+        return;
+      }
+      if (limit > 1) {
+        limit = Math.max(fitting, 1);
+        continue;
+      }
+    }
+
+    cursor = page.cursor;
+    data += rows.join('');
+    yield { data, records: rows.length, ...(cursor && { cursor }) };
+
+    if (!cursor) {
+      return;
+    }
+    exportedBytes += Buffer.byteLength(data);
+    data = '';
+    limit = EXPORT_PAGE_SIZE;
+  }
+}
@@ -0,0 +1,277 @@
+import { z } from 'zod';
+import { ContactFormRequest, FieldValue } from './types';
+import { contactFormSchema } from './validation';
+
+export const fieldTypes = [
+  'text',
+  'textarea',
+  'email',
+  'phone',
+  'url',
+  'number',
+  'select',
+  'multiselect',
+  'checkbox',
+] as const;
+
+export type FieldType = (typeof fieldTypes)[number];
+
+const reservedFieldNames = ['email', 'name', 'content', 'subject', '_honeypot', 'fields'];
+
+export const fieldDefinitionSchema = z
+  .object({
+    name: z
+      .string()
+      .regex(
+        /^[a-zA-Z][a-zA-Z0-9_]{0,63}$/,
+        'Field names must start with a letter and contain only letters, digits and _'
+      )
+      .refine(name => !reservedFieldNames.includes(name), 'Field name is reserved'),
+    type: z.enum(fieldTypes),
+    label: z.string().trim().min(1).max(100).optional(),
+    required: z.boolean().optional(),
+    min: z.number().nonnegative().optional(),
+    max: z.number().nonnegative().optional(),
+    options: z.array(z.string().trim().min(1).max(200)).min(1).max(100).optional(),
+    pattern: z.string().max(500).optional(),
+    patternMessage: z.string().max(200).optional(),
+  })
+  .superRefine((field, ctx) => {
+    if ((field.type === 'select' || field.type === 'multiselect') && !field.options) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${field.type} fields need options` });
+    }
+
+    if (field.min !== undefined && field.max !== undefined && field.min > field.max) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'min cannot exceed max' });
+    }
+
+    if (field.pattern !== undefined) {
+      try {
+        new RegExp(field.pattern);
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'pattern is not a valid RegExp' });
+      }
+    }
+  });
+
+export const fieldDefinitionsSchema = z
+  .array(fieldDefinitionSchema)
+  .max(50)
+  .superRefine((fields, ctx) => {
+    const seen = new Set<string>();
+    for (const field of fields) {
+      if (seen.has(field.name)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate field: ${field.name}` });
+      }
+      seen.add(field.name);
+    }
+  });
+
+export type FieldDefinition = z.infer<typeof fieldDefinitionSchema>;
+
+export function getFieldLabel(field: FieldDefinition): string {
+  return field.label || field.name;
+}
+
+// HTML forms submit empty strings for untouched inputs; treat them as missing.
+const emptyToUndefined = (value: unknown) =>
+  typeof value === 'string' && value.trim() === '' ? undefined : value;
+
+const numericPattern = /^-?(\d+(\.\d*)?|\.\d+)$/;
+
+function buildStringSchema(field: FieldDefinition, label: string): z.ZodTypeAny {
+  let schema = z.string({ required_error: `${label} is required` }).trim();
+
+  switch (field.type) {
+    case 'email':
+      schema = schema.email(`${label} must be a valid email address`);
+      break;
+    case 'url':
+      schema = schema.url(`${label} must be a valid URL`);
+      break;
+    case 'phone':
+      schema = schema.regex(/^\+?[0-9\s\-().]{5,30}$/, `${label} must be a valid phone number`);
+      break;
+    default:
+      break;
+  }
+
+  if (field.min !== undefined) {
+    schema = schema.min(field.min, `${label} must be at least ${field.min} characters long`);
+  }
+
+  schema = schema.max(
+    field.max ?? (field.type === 'textarea' ? 5000 : 500),
+    `${label} cannot exceed ${field.max ?? (field.type === 'textarea' ? 5000 : 500)} characters`
+  );
+
+  if (field.pattern !== undefined) {
+    schema = schema.regex(new RegExp(field.pattern), field.patternMessage || `${label} is invalid`);
+  }
+
+  return schema;
+}
+
+function buildFieldSchema(field: FieldDefinition): z.ZodTypeAny {
+  const label = getFieldLabel(field);
+  let schema: z.ZodTypeAny;
+
+  switch (field.type) {
+    case 'number': {
+      let numberSchema = z.number({
+        required_error: `${label} is required`,
+        invalid_type_error: `${label} must be a number`,
+      });
+      if (field.min !== undefined) {
+        numberSchema = numberSchema.min(field.min, `${label} must be at least ${field.min}`);
+      }
+      if (field.max !== undefined) {
+        numberSchema = numberSchema.max(field.max, `${label} cannot exceed ${field.max}`);
+      }
+      // Urlencoded bodies send numbers as strings; booleans, arrays and other strings are rejected
+      schema = z.preprocess(
+        value =>
+          typeof value === 'string' && numericPattern.test(value.trim())
+            ? Number(value.trim())
+            : value,
+        numberSchema
+      );
+      break;
+    }
+    case 'select':
+      schema = z.enum(field.options as [string, ...string[]], {
+        errorMap: issue => ({
+          message:
+            issue.code === z.ZodIssueCode.invalid_type && issue.received === 'undefined'
+              ? `${label} is required`
+              : `${label} must be one of the listed options`,
+        }),
+      });
+      break;
+    case 'multiselect': {
+      let arraySchema = z.array(
+        z.enum(field.options as [string, ...string[]], {
+          errorMap: () => ({ message: `${label} must only contain listed options` }),
+        }),
+        { required_error: `${label} is required` }
+      );
+      if (field.required) {
+        arraySchema = arraySchema.min(
+          Math.max(field.min ?? 1, 1),
+          `${label} needs at least ${Math.max(field.min ?? 1, 1)} selection(s)`
+        );
+      } else if (field.min !== undefined) {
+        arraySchema = arraySchema.min(
+          field.min,
+          `${label} needs at least ${field.min} selection(s)`
+        );
+      }
+      if (field.max !== undefined) {
+        arraySchema = arraySchema.max(
+          field.max,
+          `${label} allows at most ${field.max} selection(s)`
+        );
+      }
+      // A single selection arrives as a plain string from urlencoded bodies
+      schema = z.preprocess(value => (typeof value === 'string' ? [value] : value), arraySchema);
+      break;
+    }
+    case 'checkbox': {
+      const checkbox = z.preprocess(
+        value => {
+          if (typeof value !== 'string') {
+            return value;
+          }
+          return ['true', 'on', '1', 'yes'].includes(value.toLowerCase());
+        },
+        z.boolean({
+          required_error: `${label} must be checked`,
+          invalid_type_error: `${label} must be true or false`,
+        })
+      );
+      // A required checkbox (e.g. consent) must be ticked
+      return field.required
+        ? checkbox.refine(value => value === true, `${label} must be checked`)
+        : checkbox.optional();
+    }
+    default:
+      schema = buildStringSchema(field, label);
+      break;
+  }
+
+  return z.preprocess(emptyToUndefined, field.required ? schema : schema.optional());
+}
+
+/**
+ * Compiles field definitions into a Zod schema layered on top of the core contact fields.
+ * Custom values are collected under `fields` so the core shape stays stable.
+ */
+export function buildFormSchema(
+  definitions: FieldDefinition[] = []
+): z.ZodType<ContactFormRequest, z.ZodTypeDef, unknown> {
+  if (definitions.length === 0) {
+    return contactFormSchema;
+  }
+
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const field of definitions) {
+    shape[field.name] = buildFieldSchema(field);
+  }
+
+  return contactFormSchema.extend(shape).transform(data => {
+    const values = data as Record<string, unknown>;
+    const fields: Record<string, FieldValue> = {};
+
+    for (const field of definitions) {
+      if (values[field.name] !== undefined) {
+        fields[field.name] = values[field.name] as FieldValue;
+      }
+    }
+
+    const request: ContactFormRequest = {
+      email: data.email,
+      name: data.name,
+      content: data.content,
+      subject: data.subject,
+      _honeypot: data._honeypot,
+      fields,
+    };
+
+    return request;
+  });
+}
+
+/**
+ * Formats a custom field value for display in notifications
+ */
+export function formatFieldValue(value: FieldValue): string {
+  if (Array.isArray(value)) {
+    return value.join(', ');
+  }
+
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+
+  return String(value);
+}
+
+/**
+ * Lists submitted custom fields with their labels, in definition order
+ */
+export function describeFields(
+  definitions: FieldDefinition[] | undefined,
+  values: Record<string, FieldValue> | undefined
+): Array<{ name: string; label: string; value: string }> {
+  if (!definitions || !values) {
+    return [];
+  }
+
+  return definitions
+    .filter(field => values[field.name] !== undefined)
+    .map(field => ({
+      name: field.name,
+      label: getFieldLabel(field),
+      value: formatFieldValue(values[field.name]),
+    }));
+}
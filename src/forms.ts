@@ -0,0 +1,250 @@
+import { join } from 'path';
+import { z } from 'zod';
+import { AttachmentSettings, attachmentSettingsSchema } from './attachments';
+import { AutoReplySettings, autoReplyConfigSchema, resolveAutoReplySettings } from './autoreply';
+import { CaptchaSettings, captchaSettingsSchema } from './captcha';
+import { ConfigurationError, ContactFormError } from './errors';
+import { buildFormSchema, FieldDefinition, fieldDefinitionsSchema } from './fields';
+import { FormTokenSettings, formTokenSettingsSchema } from './formtoken';
+import { PowSettings, powSettingsSchema } from './pow';
+import { NotifierConfig, notifiersConfigSchema } from './notifiers';
+import { RoutingRule, routingRulesSchema } from './routing';
+import { SpamSettings, spamSettingsSchema } from './spam';
+import { WebhookConfig, webhooksConfigSchema } from './webhooks';
+import { resolveTemplateSources, TemplateSources, templatesConfigSchema } from './templates';
+import { ContactFormRequest } from './types';
+
+export const DEFAULT_FORM_ID = 'default';
+export const DEFAULT_SUBJECT = 'New Contact Form Submission';
+
+export interface FormRateLimitSettings {
+  maxRequests?: number;
+  windowMs?: number;
+}
+
+export type FormCaptchaSettings = CaptchaSettings;
+
+export interface FormRetentionSettings {
+  // Age in days after which archived submissions are purged
+  days: number;
+  // Delete the record, or keep it without personal data for reporting
+  action: 'delete' | 'anonymize';
+}
+
+export interface FormRedirectSettings {
+  success?: string;
+  failure?: string;
+}
+
+export interface FormDefinition {
+  id: string;
+  recipients: string[];
+  // Sender identity; defaults to SENDER_EMAIL, then EMAIL
+  from?: string;
+  routing?: RoutingRule[];
+  subjectTemplate?: string;
+  rateLimit?: FormRateLimitSettings;
+  captcha?: FormCaptchaSettings;
+  // Signed token and minimum fill time; on by default when FORM_TOKEN_SECRET is set
+  formToken?: FormTokenSettings;
+  // Proof-of-work difficulty; on by default when POW_SECRET is set
+  pow?: PowSettings;
+  // Spam rule weights, keywords and thresholds
+  spam?: SpamSettings;
+  fields?: FieldDefinition[];
+  redirect?: FormRedirectSettings;
+  attachments?: AttachmentSettings;
+  templates?: TemplateSources;
+  autoReply?: AutoReplySettings;
+  webhooks?: WebhookConfig[];
+  // Slack and Discord channels notified about each submission
+  notifiers?: NotifierConfig[];
+  schema: z.ZodType<ContactFormRequest, z.ZodTypeDef, unknown>;
+}
+
+const formIdPattern = /^[a-z0-9][a-z0-9_-]{0,63}$/i;
+
+const formConfigSchema = z.object({
+  recipients: z.array(z.string().trim().email()).min(1).optional(),
+  from: z.string().trim().email().optional(),
+  routing: routingRulesSchema.optional(),
+  subject: z.string().trim().max(200).optional(),
+  fields: fieldDefinitionsSchema.optional(),
+  redirect: z
+    .object({
+      success: z.string().url().optional(),
+      failure: z.string().url().optional(),
+    })
+    .optional(),
+  attachments: attachmentSettingsSchema.optional(),
+  templates: templatesConfigSchema.optional(),
+  autoReply: autoReplyConfigSchema.optional(),
+  webhooks: webhooksConfigSchema.optional(),
+  notifiers: notifiersConfigSchema.optional(),
+  rateLimit: z
+    .object({
+      maxRequests: z.number().int().positive().max(1000).optional(),
+      windowMs: z
+        .number()
+        .int()
+        .positive()
+        .max(60 * 60 * 1000)
+        .optional(),
+    })
+    .optional(),
+  spam: spamSettingsSchema.optional(),
+  retention: z
+    .object({
+      days: z.number().int().positive().max(3650),
+      action: z.enum(['delete', 'anonymize']).default('delete'),
+    })
+    .optional(),
+  captcha: captchaSettingsSchema.optional(),
+  formToken: formTokenSettingsSchema.optional(),
+  pow: powSettingsSchema.optional(),
+});
+
+const formsConfigSchema = z.record(
+  z.string().regex(formIdPattern, 'Form IDs may only contain letters, digits, _ and -'),
+  formConfigSchema
+);
+
+export type FormConfig = z.infer<typeof formConfigSchema>;
+
+// Forms registered in code take precedence over FORMS_CONFIG entries with the same ID.
+const registeredForms = new Map<string, FormDefinition>();
+let parsedConfigCache: { raw: string; forms: Record<string, FormConfig> } | undefined;
+// Compiled schemas are reused across invocations for the same FORMS_CONFIG value
+const compiledSchemas = new Map<string, FormDefinition['schema']>();
+
+/**
+ * Register a form programmatically (e.g. with a hand-written Zod schema)
+ */
+export function registerForm(form: FormDefinition): void {
+  if (!formIdPattern.test(form.id)) {
+    throw new ContactFormError(`Invalid form ID: ${form.id}`);
+  }
+
+  registeredForms.set(form.id, form);
+}
+
+/**
+ * Reset the form registry (for testing purposes)
+ */
+export function resetFormRegistry(): void {
+  registeredForms.clear();
+  parsedConfigCache = undefined;
+  compiledSchemas.clear();
+}
+
+/**
+ * Parses the FORMS_CONFIG JSON document, caching the result per raw value
+ */
+export function parseFormsConfig(raw: string | undefined): Record<string, FormConfig> {
+  if (!raw || !raw.trim()) {
+    if (parsedConfigCache) {
+      parsedConfigCache = undefined;
+      compiledSchemas.clear();
+    }
+    return {};
+  }
+
+  if (parsedConfigCache?.raw === raw) {
+    return parsedConfigCache.forms;
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    throw new ConfigurationError('FORMS_CONFIG is not valid JSON');
+  }
+
+  const result = formsConfigSchema.safeParse(json);
+  if (!result.success) {
+    const details = result.error.errors
+      .map(err => `${err.path.join('.') || 'root'}: ${err.message}`)
+      .join(', ');
+    throw new ConfigurationError(`FORMS_CONFIG is invalid: ${details}`);
+  }
+
+  parsedConfigCache = { raw, forms: result.data };
+  compiledSchemas.clear();
+  return result.data;
+}
+
+/**
+ * Resolves a form by ID. The default form falls back to the EMAIL recipient so
+ * that the legacy POST /contact route keeps working without FORMS_CONFIG.
+ * Template files are read relative to templatesDir.
+ */
+export function resolveForm(
+  formId: string,
+  rawConfig: string | undefined,
+  defaultRecipient: string,
+  templatesDir: string = join(process.cwd(), 'templates')
+): FormDefinition | undefined {
+  const registered = registeredForms.get(formId);
+  if (registered) {
+    return registered;
+  }
+
+  const forms = parseFormsConfig(rawConfig);
+  const config = Object.prototype.hasOwnProperty.call(forms, formId) ? forms[formId] : undefined;
+
+  if (!config && formId !== DEFAULT_FORM_ID) {
+    return undefined;
+  }
+
+  let schema = compiledSchemas.get(formId);
+  if (!schema) {
+    schema = buildFormSchema(config?.fields);
+    compiledSchemas.set(formId, schema);
+  }
+
+  return {
+    id: formId,
+    recipients: config?.recipients ?? [defaultRecipient],
+    from: config?.from,
+    routing: config?.routing,
+    subjectTemplate: config?.subject,
+    rateLimit: config?.rateLimit,
+    captcha: config?.captcha,
+    formToken: config?.formToken,
+    pow: config?.pow,
+    spam: config?.spam,
+    fields: config?.fields,
+    redirect: config?.redirect,
+    attachments: config?.attachments,
+    templates: resolveTemplateSources(config?.templates, templatesDir),
+    autoReply: resolveAutoReplySettings(config?.autoReply, templatesDir),
+    webhooks: config?.webhooks,
+    notifiers: config?.notifiers,
+    schema,
+  };
+}
+
+/**
+ * Renders a subject template such as "[Sales] {{subject}} from {{name}}"
+ */
+export function renderSubject(
+  template: string | undefined,
+  request: ContactFormRequest,
+  formId: string
+): string {
+  const subject = request.subject || DEFAULT_SUBJECT;
+  if (!template) {
+    return subject;
+  }
+
+  const values: Record<string, string> = {
+    subject,
+    name: request.name,
+    email: request.email,
+    formId,
+  };
+
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) =>
+    Object.prototype.hasOwnProperty.call(values, key) ? values[key] : match
+  );
+}
@@ -0,0 +1,189 @@
+import { randomBytes } from 'crypto';
+import { z } from 'zod';
+import { ContactFormError } from './errors';
+import { checkAndStoreIdempotencyKey } from './security';
+import { openSignedPayload, parseSigningSecrets, signPayload } from './signing';
+
+export const FORM_TOKEN_HEADER = 'x-form-token';
+// Hidden input for HTML forms, which cannot set headers
+export const FORM_TOKEN_FIELD = '_formToken';
+
+// Long enough to fill in a form at leisure
+export const DEFAULT_FORM_TOKEN_TTL_MS = 2 * 60 * 60 * 1000;
+// People rarely finish a form in under three seconds; bots usually do
+export const DEFAULT_MIN_FILL_MS = 3000;
+
+export const formTokenSettingsSchema = z.object({
+  enabled: z.boolean().optional(),
+  minFillMs: z
+    .number()
+    .int()
+    .min(0)
+    .max(10 * 60 * 1000)
+    .optional(),
+  ttlMs: z
+    .number()
+    .int()
+    .min(60 * 1000)
+    .max(24 * 60 * 60 * 1000)
+    .optional(),
+});
+
+export type FormTokenSettings = z.infer<typeof formTokenSettingsSchema>;
+
+export type FormTokenFailure =
+  | 'malformed'
+  | 'invalid_signature'
+  | 'wrong_form'
+  | 'wrong_origin'
+  | 'expired'
+  | 'too_fast'
+  | 'reused';
+
+/**
+ * The form token is not acceptable; answered with 403
+ */
+export class FormTokenError extends ContactFormError {
+  public readonly reason: FormTokenFailure;
+
+  constructor(message: string, reason: FormTokenFailure) {
+    super(message, 403);
+    this.name = 'FormTokenError';
+    this.reason = reason;
+  }
+}
+
+export interface FormTokenClaims {
+  formId: string;
+  // Empty when the token was requested without an Origin header
+  origin: string;
+  issuedAt: number;
+  expiresAt: number;
+  nonce: string;
+}
+
+export interface IssuedFormToken {
+  token: string;
+  expiresAt: number;
+}
+
+export interface FormTokenCheck {
+  formId: string;
+  origin?: string;
+  minFillMs: number;
+  now?: number;
+}
+
+export interface FormTokenStoreConfig {
+  tableName?: string;
+  region: string;
+  partitionKeyName: string;
+}
+
+const claimsSchema = z.object({
+  f: z.string(),
+  o: z.string(),
+  iat: z.number().int(),
+  exp: z.number().int(),
+  n: z.string().min(16),
+});
+
+/**
+ * Reads FORM_TOKEN_SECRET. Several comma-separated secrets allow rotation:
+ * the first signs new tokens, all of them verify.
+ */
+export function parseFormTokenSecrets(raw: string | undefined): string[] {
+  return parseSigningSecrets(raw, 'FORM_TOKEN_SECRET');
+}
+
+/**
+ * Issues a token for one submission of formId from origin
+ */
+export function issueFormToken(
+  formId: string,
+  origin: string | undefined,
+  secret: string,
+  ttlMs: number = DEFAULT_FORM_TOKEN_TTL_MS,
+  now: number = Date.now()
+): IssuedFormToken {
+  const expiresAt = now + ttlMs;
+  const token = signPayload(
+    {
+      f: formId,
+      o: origin ?? '',
+      iat: now,
+      exp: expiresAt,
+      n: randomBytes(16).toString('base64url'),
+    },
+    secret
+  );
+
+  return { token, expiresAt };
+}
+
+/**
+ * Checks the signature, form, origin, expiry and fill time of a token. Reuse
+ * is checked separately by consumeFormToken.
+ */
+export function verifyFormToken(
+  token: string,
+  secrets: string[],
+  check: FormTokenCheck
+): FormTokenClaims {
+  const opened = openSignedPayload(token, secrets);
+  if (!opened.success) {
+    throw new FormTokenError(
+      opened.reason === 'malformed' ? 'Malformed form token' : 'Invalid form token',
+      opened.reason
+    );
+  }
+
+  const claims = claimsSchema.safeParse(opened.data);
+  if (!claims.success) {
+    throw new FormTokenError('Malformed form token', 'malformed');
+  }
+  const parsed = claims.data;
+
+  const now = check.now ?? Date.now();
+  if (parsed.f !== check.formId) {
+    throw new FormTokenError('Form token was issued for another form', 'wrong_form');
+  }
+  if (parsed.o !== (check.origin ?? '')) {
+    throw new FormTokenError('Form token was issued for another origin', 'wrong_origin');
+  }
+  if (now >= parsed.exp) {
+    throw new FormTokenError('Form token has expired', 'expired');
+  }
+  if (now - parsed.iat < check.minFillMs) {
+    throw new FormTokenError('Form submitted too quickly', 'too_fast');
+  }
+
+  return {
+    formId: parsed.f,
+    origin: parsed.o,
+    issuedAt: parsed.iat,
+    expiresAt: parsed.exp,
+    nonce: parsed.n,
+  };
+}
+
+/**
+ * Marks the token as used until it expires, in the idempotency store. Without
+ * a table tokens are only remembered per container. A store error counts as
+ * reuse, so tokens cannot be replayed while the table is unavailable.
+ */
+export async function consumeFormToken(
+  claims: FormTokenClaims,
+  config: FormTokenStoreConfig,
+  now: number = Date.now()
+): Promise<void> {
+  const reused = await checkAndStoreIdempotencyKey(`form-token:${claims.nonce}`, {
+    ...config,
+    ttlMs: Math.max(claims.expiresAt - now, 1000),
+    failOpen: false,
+  });
+
+  if (reused) {
+    throw new FormTokenError('Form token has already been used', 'reused');
+  }
+}
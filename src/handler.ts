@@ -1,26 +1,102 @@
+import { randomUUID } from 'crypto';
 import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
-import { SESClient, SendEmailCommand, SendEmailCommandInput } from '@aws-sdk/client-ses';
-import { ContactFormRequest, ContactFormResponse, ErrorResponse } from './types';
+import {
+  ContactFormRequest,
+  ContactFormResponse,
+  ErrorResponse,
+  FormTokenResponse,
+  PowChallengeResponse,
+  ValidationIssue,
+} from './types';
 import { validateContactForm } from './validation';
-import { ContactFormError, ValidationError, EmailServiceError } from './errors';
+import {
+  ConfigurationError,
+  ContactFormError,
+  ThrottledEmailError,
+  ValidationError,
+} from './errors';
+import { DEFAULT_FORM_ID, FormDefinition, resolveForm } from './forms';
 import {
   checkAndStoreIdempotencyKey,
   checkRateLimit,
   checkRateLimitDistributed,
-  detectSuspiciousActivity,
+  getRateLimitUsage,
+  getRateLimitUsageDistributed,
+  RateLimitConfig,
   validateOrigin,
-  sanitizeInput,
+  isAllowedRedirect,
+  sanitizeRequest,
+  getClientIp,
+  hashIpAddress,
 } from './security';
+import { Attachment, validateAttachments } from './attachments';
+import { deliverSubmission } from './delivery';
+import {
+  getSubmissionQueue,
+  MAX_QUEUE_MESSAGE_BYTES,
+  QueueConfig,
+  serializeJob,
+  SUBMISSION_JOB_VERSION,
+  SubmissionJob,
+  toQueuedAttachments,
+} from './queue';
+import { resolveSubmissionUrl } from './notifiers';
+import { archiveSubmission, getSubmissionRepository } from './submissions';
+import { getSpamModel } from './classifier';
+import { DEFAULT_CAPTCHA_MAX_TOKEN_AGE_MS, parseCaptchaProvider, verifyCaptcha } from './captcha';
+import {
+  consumePowChallenge,
+  DEFAULT_POW_DIFFICULTY,
+  DEFAULT_POW_MAX_DIFFICULTY,
+  getAdaptiveDifficulty,
+  issuePowChallenge,
+  MAX_POW_DIFFICULTY,
+  parsePowSecrets,
+  POW_FIELD,
+  POW_HEADER,
+  PowError,
+  verifyPowSolution,
+} from './pow';
+import {
+  consumeFormToken,
+  DEFAULT_FORM_TOKEN_TTL_MS,
+  DEFAULT_MIN_FILL_MS,
+  FORM_TOKEN_FIELD,
+  FORM_TOKEN_HEADER,
+  FormTokenError,
+  issueFormToken,
+  parseFormTokenSecrets,
+  verifyFormToken,
+} from './formtoken';
+import {
+  DEFAULT_QUARANTINE_SCORE,
+  DEFAULT_REJECT_SCORE,
+  resolveSpamPolicy,
+  scoreSubmission,
+} from './spam';
+import { getEmailTransport } from './transport';
+import { decodeRequestBody, getHeaderValue, isHtmlFormSubmission } from './request';
+import {
+  createEventBatch,
+  createSubmissionEvent,
+  EventBatch,
+  getEventPublisher,
+  SubmissionEventData,
+  SubmissionEventType,
+} from './events';
 
 // Get environment variables (read at runtime for testing flexibility)
 const getEnvVars = () => ({
   EMAIL: process.env.EMAIL,
+  SENDER_EMAIL: process.env.SENDER_EMAIL,
   DOMAIN: process.env.DOMAIN || '*',
   AWS_REGION: process.env.AWS_REGION || 'us-east-1',
   RATE_LIMIT_MAX_REQUESTS: process.env.RATE_LIMIT_MAX_REQUESTS,
   RATE_LIMIT_WINDOW_MS: process.env.RATE_LIMIT_WINDOW_MS,
   RATE_LIMIT_TABLE: process.env.RATE_LIMIT_TABLE,
   RATE_LIMIT_PARTITION_KEY: process.env.RATE_LIMIT_PARTITION_KEY,
+  SUPPRESSION_TABLE: process.env.SUPPRESSION_TABLE,
+  SUPPRESSION_PARTITION_KEY: process.env.SUPPRESSION_PARTITION_KEY,
   RATE_LIMIT_FAIL_OPEN: process.env.RATE_LIMIT_FAIL_OPEN,
   IDEMPOTENCY_TTL_MS: process.env.IDEMPOTENCY_TTL_MS,
   IDEMPOTENCY_TABLE: process.env.IDEMPOTENCY_TABLE,
@@ -30,6 +106,34 @@ const getEnvVars = () => ({
   CAPTCHA_VERIFY_URL: process.env.CAPTCHA_VERIFY_URL,
   CAPTCHA_FAIL_OPEN: process.env.CAPTCHA_FAIL_OPEN,
   CAPTCHA_TOKEN_HEADER: process.env.CAPTCHA_TOKEN_HEADER,
+  CAPTCHA_PROVIDER: process.env.CAPTCHA_PROVIDER,
+  CAPTCHA_MIN_SCORE: process.env.CAPTCHA_MIN_SCORE,
+  CAPTCHA_ACTION: process.env.CAPTCHA_ACTION,
+  CAPTCHA_HOSTNAMES: process.env.CAPTCHA_HOSTNAMES,
+  CAPTCHA_MAX_TOKEN_AGE_MS: process.env.CAPTCHA_MAX_TOKEN_AGE_MS,
+  FORM_TOKEN_SECRET: process.env.FORM_TOKEN_SECRET,
+  FORM_TOKEN_TTL_MS: process.env.FORM_TOKEN_TTL_MS,
+  FORM_TOKEN_MIN_FILL_MS: process.env.FORM_TOKEN_MIN_FILL_MS,
+  POW_SECRET: process.env.POW_SECRET,
+  POW_DIFFICULTY: process.env.POW_DIFFICULTY,
+  POW_MAX_DIFFICULTY: process.env.POW_MAX_DIFFICULTY,
+  SPAM_QUARANTINE_SCORE: process.env.SPAM_QUARANTINE_SCORE,
+  SPAM_REJECT_SCORE: process.env.SPAM_REJECT_SCORE,
+  SPAM_MODEL_PATH: process.env.SPAM_MODEL_PATH,
+  FORMS_CONFIG: process.env.FORMS_CONFIG,
+  REDIRECT_ALLOWLIST: process.env.REDIRECT_ALLOWLIST,
+  EMAIL_TRANSPORT: process.env.EMAIL_TRANSPORT,
+  SMTP_URL: process.env.SMTP_URL,
+  EMAIL_OUTPUT_DIR: process.env.EMAIL_OUTPUT_DIR,
+  DELIVERY_MODE: process.env.DELIVERY_MODE,
+  SUBMISSION_URL_TEMPLATE: process.env.SUBMISSION_URL_TEMPLATE,
+  SUBMISSIONS_TABLE: process.env.SUBMISSIONS_TABLE,
+  SUBMISSIONS_PARTITION_KEY: process.env.SUBMISSIONS_PARTITION_KEY,
+  IP_HASH_SECRET: process.env.IP_HASH_SECRET,
+  QUEUE_URL: process.env.QUEUE_URL,
+  TEMPLATES_DIR: process.env.TEMPLATES_DIR,
+  EVENT_BUS_NAME: process.env.EVENT_BUS_NAME,
+  EVENT_SOURCE: process.env.EVENT_SOURCE,
 });
 
 function parsePositiveInt(value: string | undefined, fallback: number, max: number): number {
@@ -41,45 +145,24 @@ function parsePositiveInt(value: string | undefined, fallback: number, max: numb
   return Math.min(Math.floor(parsed), max);
 }
 
-function getRateLimitConfig(maxRequestsEnv: string | undefined, windowMsEnv: string | undefined) {
+/**
+ * The form's rate limit, falling back to RATE_LIMIT_MAX_REQUESTS and RATE_LIMIT_WINDOW_MS
+ */
+function getRateLimitConfig(
+  form: FormDefinition | undefined,
+  maxRequestsEnv: string | undefined,
+  windowMsEnv: string | undefined
+): RateLimitConfig {
   return {
-    maxRequests: parsePositiveInt(maxRequestsEnv, 5, 1000),
-    windowMs: parsePositiveInt(windowMsEnv, 60000, 60 * 60 * 1000),
+    maxRequests: form?.rateLimit?.maxRequests ?? parsePositiveInt(maxRequestsEnv, 5, 1000),
+    windowMs: form?.rateLimit?.windowMs ?? parsePositiveInt(windowMsEnv, 60000, 60 * 60 * 1000),
+    scope: !form || form.id === DEFAULT_FORM_ID ? undefined : `form:${form.id}`,
   };
 }
 
-function getHeaderValue(event: APIGatewayProxyEvent, headerName: string): string | undefined {
-  const target = headerName.toLowerCase();
-  const match = Object.entries(event.headers || {}).find(([key]) => key.toLowerCase() === target);
-  const value = match?.[1];
-
-  return typeof value === 'string' ? value : undefined;
-}
-
-async function verifyCaptcha(
-  token: string,
-  secret: string,
-  verifyUrl: string,
-  remoteIp?: string
-): Promise<boolean> {
-  const response = await fetch(verifyUrl, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
-    body: new URLSearchParams({
-      secret,
-      response: token,
-      ...(remoteIp ? { remoteip: remoteIp } : {}),
-    }),
-  });
-
-  if (!response.ok) {
-    return false;
-  }
-
-  const payload = (await response.json()) as { success?: boolean };
-  return payload.success === true;
+function parseScore(value: string | undefined): number | undefined {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed >= 0 && parsed <= 1 ? parsed : undefined;
 }
 
 function parseBoolean(value: string | undefined, fallback: boolean): boolean {
@@ -118,8 +201,8 @@ const getCorsHeaders = (domain: string, origin?: string) => {
     'Access-Control-Allow-Origin': resolvedOrigin,
     Vary: resolvedOrigin === '*' ? 'Accept-Encoding' : 'Origin, Accept-Encoding',
     'Access-Control-Allow-Headers':
-      'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token',
-    'Access-Control-Allow-Methods': 'POST,OPTIONS',
+      'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token,X-Form-Token,X-Pow-Solution',
+    'Access-Control-Allow-Methods': 'GET,POST,OPTIONS',
     'Access-Control-Allow-Credentials': resolvedOrigin === '*' ? 'false' : 'true',
     'Cache-Control': 'no-store',
     'Referrer-Policy': 'no-referrer',
@@ -132,7 +215,7 @@ const getCorsHeaders = (domain: string, origin?: string) => {
 /**
  * Generates a standardized API response
  */
-function generateResponse<T>(
+export function generateResponse<T>(
   statusCode: number,
   payload: T,
   domain: string = '*',
@@ -150,17 +233,19 @@ function generateResponse<T>(
 /**
  * Generates a standardized error response
  */
-function generateErrorResponse(
+export function generateErrorResponse(
   statusCode: number,
   error: string,
   domain: string = '*',
   details?: string,
-  origin?: string
+  origin?: string,
+  issues?: ValidationIssue[]
 ): APIGatewayProxyResult {
   const errorResponse: ErrorResponse = {
     success: false,
     error,
     ...(details && { details }),
+    ...(issues && issues.length > 0 && { issues }),
   };
 
   console.error(`Error ${statusCode}:`, { error, details });
@@ -169,124 +254,350 @@ function generateErrorResponse(
 }
 
 /**
- * Creates email parameters for SES
+ * Answers a ContactFormError; configuration details are logged instead of shown to clients
  */
-function createEmailParams(request: ContactFormRequest, email: string): SendEmailCommandInput {
-  if (!email) {
-    throw new EmailServiceError('EMAIL environment variable is not configured');
+function generateContactFormErrorResponse(
+  error: ContactFormError,
+  domain: string,
+  origin?: string
+): APIGatewayProxyResult {
+  if (error instanceof ConfigurationError) {
+    console.error('Configuration error:', error.message);
+    return generateErrorResponse(500, 'Internal server error', domain, undefined, origin);
   }
 
-  const subject = request.subject || 'New Contact Form Submission';
+  return generateErrorResponse(error.statusCode, error.message, domain, undefined, origin);
+}
 
-  return {
-    Source: email,
-    Destination: {
-      ToAddresses: [email],
-    },
-    ReplyToAddresses: [request.email],
-    Message: {
-      Subject: {
-        Charset: 'UTF-8',
-        Data: subject,
-      },
-      Body: {
-        Text: {
-          Charset: 'UTF-8',
-          Data: `
-New contact form submission:
-
-Name: ${request.name}
-Email: ${request.email}
-Subject: ${subject}
-
-Message:
-${request.content}
-
----
-This message was sent via the contact form.
-          `.trim(),
-        },
-        Html: {
-          Charset: 'UTF-8',
-          Data: `
-<html>
-<body>
-  <h2>New Contact Form Submission</h2>
-  <p><strong>Name:</strong> ${request.name}</p>
-  <p><strong>Email:</strong> <a href="mailto:${request.email}">${request.email}</a></p>
-  <p><strong>Subject:</strong> ${subject}</p>
-  
-  <h3>Message:</h3>
-  <div style="background-color: #f5f5f5; padding: 15px; border-left: 3px solid #007bff;">
-    ${request.content.replace(/\n/g, '<br>')}
-  </div>
-  
-  <hr>
-  <p><em>This message was sent via the contact form.</em></p>
-</body>
-</html>
-          `.trim(),
-        },
-      },
-    },
+/**
+ * Queues a validated submission for the worker. Returns false when the job
+ * exceeds the SQS message size limit, so the caller delivers it synchronously.
+ */
+async function enqueueSubmission(
+  request: ContactFormRequest,
+  form: FormDefinition,
+  attachments: Attachment[],
+  origin: string | undefined,
+  submission: Pick<SubmissionJob, 'submissionId' | 'receivedAt' | 'archived'>,
+  config: QueueConfig
+): Promise<boolean> {
+  const job: SubmissionJob = {
+    version: SUBMISSION_JOB_VERSION,
+    ...submission,
+    formId: form.id,
+    request,
+    origin,
+    attachments: toQueuedAttachments(attachments),
   };
+
+  if (Buffer.byteLength(serializeJob(job)) > MAX_QUEUE_MESSAGE_BYTES) {
+    console.warn('Submission exceeds the queue message limit; delivering synchronously:', {
+      formId: form.id,
+      submissionId: job.submissionId,
+    });
+    return false;
+  }
+
+  const queue = getSubmissionQueue(config);
+  try {
+    await queue.enqueue(job);
+  } catch (error) {
+    console.error(`Submission queue (${queue.name}) error:`, error);
+    throw new ContactFormError('Submission queue unavailable', 503);
+  }
+
+  return true;
 }
 
 /**
- * Sends email using AWS SES
+ * Parses and validates the request body (JSON, urlencoded or multipart)
  */
-async function sendEmail(emailParams: SendEmailCommandInput, awsRegion: string): Promise<string> {
-  try {
-    const sesClient = new SESClient({ region: awsRegion });
-    const command = new SendEmailCommand(emailParams);
-    const result = await sesClient.send(command);
+function parseRequestBody(event: APIGatewayProxyEvent, form: FormDefinition): ContactFormRequest {
+  const { data } = decodeRequestBody(event);
+
+  const validation = validateContactForm(data, form.schema);
 
-    if (!result.MessageId) {
-      throw new EmailServiceError('Failed to send email - no message ID received');
+  if (!validation.success) {
+    throw new ValidationError(validation.error, validation.issues);
+  }
+
+  return validation.data;
+}
+
+/**
+ * Picks the allow-listed success/failure URLs for an HTML form post. Hidden
+ * `_redirect` / `_redirect_error` inputs override the form configuration.
+ */
+function resolveRedirectTargets(
+  event: APIGatewayProxyEvent,
+  form: FormDefinition | undefined,
+  allowList: string
+): { success?: string; failure?: string } {
+  let bodyFields: Record<string, unknown> = {};
+  try {
+    const { data } = decodeRequestBody(event);
+    if (data && typeof data === 'object') {
+      bodyFields = data as Record<string, unknown>;
     }
+  } catch {
+    // Undecodable bodies still get the configured redirect targets
+  }
 
-    return result.MessageId;
-  } catch (error) {
-    console.error('SES Error:', error);
+  const pick = (...candidates: unknown[]) =>
+    candidates.find(
+      (candidate): candidate is string =>
+        typeof candidate === 'string' && isAllowedRedirect(candidate, allowList)
+    );
+
+  return {
+    success: pick(bodyFields._redirect, form?.redirect?.success),
+    failure: pick(bodyFields._redirect_error, form?.redirect?.failure),
+  };
+}
 
-    if (error instanceof Error) {
-      throw new EmailServiceError(`Failed to send email: ${error.message}`);
+/**
+ * Converts a JSON result into a 303 See Other redirect for no-JavaScript form posts
+ */
+function toRedirectResponse(
+  event: APIGatewayProxyEvent,
+  result: APIGatewayProxyResult
+): APIGatewayProxyResult {
+  const { EMAIL, DOMAIN, FORMS_CONFIG, REDIRECT_ALLOWLIST, TEMPLATES_DIR } = getEnvVars();
+  const origin = event.headers?.origin || event.headers?.Origin;
+
+  let form: FormDefinition | undefined;
+  try {
+    form = resolveForm(
+      event.pathParameters?.formId || DEFAULT_FORM_ID,
+      FORMS_CONFIG,
+      EMAIL || '',
+      TEMPLATES_DIR || undefined
+    );
+  } catch {
+    form = undefined;
+  }
+
+  const succeeded = result.statusCode >= 200 && result.statusCode < 300;
+  const targets = resolveRedirectTargets(event, form, REDIRECT_ALLOWLIST || DOMAIN);
+  const target = succeeded ? targets.success : targets.failure || targets.success;
+  if (!target) {
+    return result;
+  }
+
+  const location = new URL(target);
+  location.searchParams.set('status', succeeded ? 'success' : 'error');
+  if (!succeeded) {
+    try {
+      const payload = JSON.parse(result.body) as ErrorResponse;
+      location.searchParams.set('error', payload.error);
+    } catch {
+      location.searchParams.set('error', 'Request failed');
     }
+  }
+
+  return {
+    statusCode: 303,
+    headers: {
+      ...getCorsHeaders(DOMAIN, origin),
+      ...(result.headers?.['Retry-After'] && {
+        'Retry-After': String(result.headers['Retry-After']),
+      }),
+      'Content-Type': 'text/plain; charset=utf-8',
+      Location: location.toString(),
+    },
+    body: '',
+  };
+}
 
-    throw new EmailServiceError('Failed to send email due to unknown error');
+/**
+ * Reads the form token from the X-Form-Token header, or the hidden _formToken
+ * input of an HTML form
+ */
+function getFormToken(event: APIGatewayProxyEvent): string | undefined {
+  const header = getHeaderValue(event, FORM_TOKEN_HEADER);
+  if (header) {
+    return header;
   }
+
+  const { data } = decodeRequestBody(event);
+  const field =
+    data && typeof data === 'object' ? (data as Record<string, unknown>)[FORM_TOKEN_FIELD] : '';
+  return typeof field === 'string' && field.trim() ? field : undefined;
 }
 
 /**
- * Parses and validates the request body
+ * Answers GET /contact/token with a signed token for the form named in ?formId=
  */
-function parseRequestBody(body: string | null): ContactFormRequest {
-  if (!body) {
-    throw new ValidationError('Request body is required');
+function issueFormTokenResponse(event: APIGatewayProxyEvent): APIGatewayProxyResult {
+  const { EMAIL, DOMAIN, FORMS_CONFIG, TEMPLATES_DIR, FORM_TOKEN_SECRET, FORM_TOKEN_TTL_MS } =
+    getEnvVars();
+  const origin = event.headers?.origin || event.headers?.Origin;
+
+  if (!validateOrigin(origin, DOMAIN)) {
+    return generateErrorResponse(403, 'Forbidden', DOMAIN, 'Invalid origin', origin);
   }
 
-  let parsedBody: unknown;
+  const formId = event.queryStringParameters?.formId || DEFAULT_FORM_ID;
   try {
-    parsedBody = JSON.parse(body);
+    const [secret] = parseFormTokenSecrets(FORM_TOKEN_SECRET);
+    const form = resolveForm(formId, FORMS_CONFIG, EMAIL || '', TEMPLATES_DIR || undefined);
+    if (!form) {
+      return generateErrorResponse(404, 'Not found', DOMAIN, `Unknown form: ${formId}`, origin);
+    }
+    if (!secret || form.formToken?.enabled === false) {
+      return generateErrorResponse(
+        404,
+        'Not found',
+        DOMAIN,
+        `Form tokens are not enabled for form: ${formId}`,
+        origin
+      );
+    }
+
+    const { token, expiresAt } = issueFormToken(
+      form.id,
+      origin,
+      secret,
+      form.formToken?.ttlMs ??
+        parsePositiveInt(FORM_TOKEN_TTL_MS, DEFAULT_FORM_TOKEN_TTL_MS, 24 * 60 * 60 * 1000)
+    );
+    const response: FormTokenResponse = {
+      success: true,
+      token,
+      expiresAt: new Date(expiresAt).toISOString(),
+    };
+
+    return generateResponse(200, response, DOMAIN, {}, origin);
   } catch (error) {
-    throw new ValidationError('Invalid JSON in request body');
+    if (error instanceof ContactFormError) {
+      return generateContactFormErrorResponse(error, DOMAIN, origin);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Reads the proof-of-work solution from the X-Pow-Solution header, or the
+ * hidden _pow input of an HTML form
+ */
+function getPowSolution(event: APIGatewayProxyEvent): string | undefined {
+  const header = getHeaderValue(event, POW_HEADER);
+  if (header) {
+    return header;
   }
 
-  const validation = validateContactForm(parsedBody);
+  const { data } = decodeRequestBody(event);
+  const field =
+    data && typeof data === 'object' ? (data as Record<string, unknown>)[POW_FIELD] : '';
+  return typeof field === 'string' && field.trim() ? field : undefined;
+}
 
-  if (!validation.success) {
-    throw new ValidationError(validation.error);
+/**
+ * Proof-of-work difficulty for the client right now. Requests already counted
+ * for the submission being checked are passed as exclude, so it is compared
+ * with the difficulty its challenge was issued at.
+ */
+async function getPowDifficulty(
+  event: APIGatewayProxyEvent,
+  form: FormDefinition,
+  exclude = 0
+): Promise<number> {
+  const {
+    AWS_REGION,
+    RATE_LIMIT_MAX_REQUESTS,
+    RATE_LIMIT_WINDOW_MS,
+    RATE_LIMIT_TABLE,
+    RATE_LIMIT_PARTITION_KEY,
+    POW_DIFFICULTY,
+    POW_MAX_DIFFICULTY,
+  } = getEnvVars();
+
+  const rateLimitConfig = getRateLimitConfig(form, RATE_LIMIT_MAX_REQUESTS, RATE_LIMIT_WINDOW_MS);
+  const used = RATE_LIMIT_TABLE
+    ? await getRateLimitUsageDistributed(event, {
+        ...rateLimitConfig,
+        tableName: RATE_LIMIT_TABLE,
+        region: AWS_REGION,
+        partitionKeyName: RATE_LIMIT_PARTITION_KEY || 'id',
+        failOpen: true,
+      })
+    : getRateLimitUsage(event, rateLimitConfig);
+  const difficulty =
+    form.pow?.difficulty ??
+    parsePositiveInt(POW_DIFFICULTY, DEFAULT_POW_DIFFICULTY, MAX_POW_DIFFICULTY);
+  const maxDifficulty = Math.max(
+    difficulty,
+    form.pow?.maxDifficulty ??
+      parsePositiveInt(POW_MAX_DIFFICULTY, DEFAULT_POW_MAX_DIFFICULTY, MAX_POW_DIFFICULTY)
+  );
+
+  return getAdaptiveDifficulty(
+    { difficulty, maxDifficulty },
+    Math.max(used - exclude, 0),
+    rateLimitConfig.maxRequests
+  );
+}
+
+/**
+ * Answers GET /contact/challenge with a proof-of-work challenge for the form
+ * named in ?formId=. Clients close to the rate limit get harder challenges.
+ */
+async function issuePowChallengeResponse(
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> {
+  const { EMAIL, DOMAIN, FORMS_CONFIG, TEMPLATES_DIR, POW_SECRET } = getEnvVars();
+  const origin = event.headers?.origin || event.headers?.Origin;
+
+  if (!validateOrigin(origin, DOMAIN)) {
+    return generateErrorResponse(403, 'Forbidden', DOMAIN, 'Invalid origin', origin);
   }
 
-  return validation.data;
+  const formId = event.queryStringParameters?.formId || DEFAULT_FORM_ID;
+  try {
+    const [secret] = parsePowSecrets(POW_SECRET);
+    const form = resolveForm(formId, FORMS_CONFIG, EMAIL || '', TEMPLATES_DIR || undefined);
+    if (!form) {
+      return generateErrorResponse(404, 'Not found', DOMAIN, `Unknown form: ${formId}`, origin);
+    }
+    if (!secret || form.pow?.enabled === false) {
+      return generateErrorResponse(
+        404,
+        'Not found',
+        DOMAIN,
+        `Proof of work is not enabled for form: ${formId}`,
+        origin
+      );
+    }
+
+    const challenge = issuePowChallenge(
+      form.id,
+      getClientIp(event),
+      await getPowDifficulty(event, form),
+      secret
+    );
+    const response: PowChallengeResponse = {
+      success: true,
+      challenge: challenge.challenge,
+      difficulty: challenge.difficulty,
+      expiresAt: new Date(challenge.expiresAt).toISOString(),
+    };
+
+    return generateResponse(200, response, DOMAIN, {}, origin);
+  } catch (error) {
+    if (error instanceof ContactFormError) {
+      return generateContactFormErrorResponse(error, DOMAIN, origin);
+    }
+    throw error;
+  }
 }
 
 /**
- * Main Lambda handler for the contact form
+ * Runs the submission pipeline and returns the JSON API response
  */
-export const send = async (
+const processSubmission = async (
   event: APIGatewayProxyEvent,
-  context: Context
+  context: Context,
+  events: EventBatch
 ): Promise<APIGatewayProxyResult> => {
   // Enable callbackWaitsForEmptyEventLoop for better performance
   context.callbackWaitsForEmptyEventLoop = false;
@@ -294,12 +605,15 @@ export const send = async (
   // Get environment variables at runtime
   const {
     EMAIL,
+    SENDER_EMAIL,
     DOMAIN,
     AWS_REGION,
     RATE_LIMIT_MAX_REQUESTS,
     RATE_LIMIT_WINDOW_MS,
     RATE_LIMIT_TABLE,
     RATE_LIMIT_PARTITION_KEY,
+    SUPPRESSION_TABLE,
+    SUPPRESSION_PARTITION_KEY,
     RATE_LIMIT_FAIL_OPEN,
     IDEMPOTENCY_TTL_MS,
     IDEMPOTENCY_TABLE,
@@ -309,9 +623,30 @@ export const send = async (
     CAPTCHA_VERIFY_URL,
     CAPTCHA_FAIL_OPEN,
     CAPTCHA_TOKEN_HEADER,
+    CAPTCHA_PROVIDER,
+    CAPTCHA_MIN_SCORE,
+    CAPTCHA_ACTION,
+    CAPTCHA_HOSTNAMES,
+    CAPTCHA_MAX_TOKEN_AGE_MS,
+    FORM_TOKEN_SECRET,
+    FORM_TOKEN_MIN_FILL_MS,
+    POW_SECRET,
+    SPAM_QUARANTINE_SCORE,
+    SPAM_REJECT_SCORE,
+    SPAM_MODEL_PATH,
+    FORMS_CONFIG,
+    EMAIL_TRANSPORT,
+    SMTP_URL,
+    EMAIL_OUTPUT_DIR,
+    TEMPLATES_DIR,
+    DELIVERY_MODE,
+    SUBMISSION_URL_TEMPLATE,
+    SUBMISSIONS_TABLE,
+    SUBMISSIONS_PARTITION_KEY,
+    IP_HASH_SECRET,
+    QUEUE_URL,
   } = getEnvVars();
   const origin = event.headers?.origin || event.headers?.Origin;
-  const rateLimitConfig = getRateLimitConfig(RATE_LIMIT_MAX_REQUESTS, RATE_LIMIT_WINDOW_MS);
 
   if (!EMAIL) {
     return generateErrorResponse(
@@ -332,6 +667,14 @@ export const send = async (
     return generateResponse(200, { message: 'CORS preflight successful' }, DOMAIN, {}, origin);
   }
 
+  if (event.httpMethod === 'GET' && event.resource === '/contact/token') {
+    return issueFormTokenResponse(event);
+  }
+
+  if (event.httpMethod === 'GET' && event.resource === '/contact/challenge') {
+    return issuePowChallengeResponse(event);
+  }
+
   // Only allow POST requests
   if (event.httpMethod !== 'POST') {
     return generateErrorResponse(
@@ -343,7 +686,21 @@ export const send = async (
     );
   }
 
+  // Resolve the target form; POST /contact without a path parameter uses the default form
+  const formId = event.pathParameters?.formId || DEFAULT_FORM_ID;
+  const requestId = event.requestContext?.requestId || context.awsRequestId;
+  const emit = <T extends SubmissionEventType>(type: T, data: SubmissionEventData[T]) =>
+    events.add(createSubmissionEvent(type, formId, data, requestId));
+
   try {
+    // Unknown form IDs count against the default form's limit, so probing them is rate limited
+    const resolvedForm = resolveForm(formId, FORMS_CONFIG, EMAIL, TEMPLATES_DIR || undefined);
+    const rateLimitConfig = getRateLimitConfig(
+      resolvedForm,
+      RATE_LIMIT_MAX_REQUESTS,
+      RATE_LIMIT_WINDOW_MS
+    );
+
     // Rate limiting check
     const rateLimitPassed = RATE_LIMIT_TABLE
       ? await checkRateLimitDistributed(event, {
@@ -355,6 +712,7 @@ export const send = async (
         })
       : checkRateLimit(event, rateLimitConfig);
     if (!rateLimitPassed) {
+      emit('submission.rate_limited', {});
       return generateErrorResponse(
         429,
         'Too many requests',
@@ -369,14 +727,105 @@ export const send = async (
       return generateErrorResponse(403, 'Forbidden', DOMAIN, 'Invalid origin', origin);
     }
 
+    if (!resolvedForm) {
+      return generateErrorResponse(404, 'Not found', DOMAIN, `Unknown form: ${formId}`, origin);
+    }
+    const form = resolvedForm;
+
+    // Proof of work is checked before validation, so unsolved requests cost little
+    const powSecrets = parsePowSecrets(POW_SECRET);
+    if (powSecrets.length > 0 && form.pow?.enabled !== false) {
+      const powSolution = getPowSolution(event);
+      if (!powSolution) {
+        emit('submission.rejected', { reason: 'Missing proof of work', issues: [] });
+        return generateErrorResponse(
+          400,
+          'Proof of work required',
+          DOMAIN,
+          'Missing proof-of-work solution',
+          origin
+        );
+      }
+
+      try {
+        const claims = verifyPowSolution(powSolution, powSecrets, {
+          formId: form.id,
+          clientIp: getClientIp(event),
+          // The rate limit check above already counted this submission
+          minDifficulty: await getPowDifficulty(event, form, 1),
+        });
+        await consumePowChallenge(claims, {
+          tableName: IDEMPOTENCY_TABLE,
+          region: AWS_REGION,
+          partitionKeyName: IDEMPOTENCY_PARTITION_KEY || 'id',
+        });
+      } catch (error) {
+        if (!(error instanceof PowError)) {
+          throw error;
+        }
+
+        emit('submission.spam_flagged', {
+          reason: 'pow_failed',
+          action: 'reject',
+          failure: error.reason,
+        });
+        return generateErrorResponse(403, 'Forbidden', DOMAIN, error.message, origin);
+      }
+    }
+
     // Parse and validate request
-    const contactRequest = parseRequestBody(event.body);
+    const contactRequest = parseRequestBody(event, form);
+    const attachments = validateAttachments(decodeRequestBody(event).files, form.attachments);
+
+    // Signed form token: issued for this form and origin, used once, not submitted too quickly
+    const formTokenSecrets = parseFormTokenSecrets(FORM_TOKEN_SECRET);
+    if (formTokenSecrets.length > 0 && form.formToken?.enabled !== false) {
+      const formToken = getFormToken(event);
+      if (!formToken) {
+        emit('submission.rejected', { reason: 'Missing form token', issues: [] });
+        return generateErrorResponse(
+          400,
+          'Form token required',
+          DOMAIN,
+          'Missing form token',
+          origin
+        );
+      }
+
+      try {
+        const claims = verifyFormToken(formToken, formTokenSecrets, {
+          formId: form.id,
+          origin,
+          minFillMs:
+            form.formToken?.minFillMs ??
+            parsePositiveInt(FORM_TOKEN_MIN_FILL_MS, DEFAULT_MIN_FILL_MS, 10 * 60 * 1000),
+        });
+        await consumeFormToken(claims, {
+          tableName: IDEMPOTENCY_TABLE,
+          region: AWS_REGION,
+          partitionKeyName: IDEMPOTENCY_PARTITION_KEY || 'id',
+        });
+      } catch (error) {
+        if (!(error instanceof FormTokenError)) {
+          throw error;
+        }
+
+        emit('submission.spam_flagged', {
+          reason: 'form_token_failed',
+          action: 'reject',
+          failure: error.reason,
+        });
+        return generateErrorResponse(403, 'Forbidden', DOMAIN, error.message, origin);
+      }
+    }
 
     // Optional CAPTCHA verification for stronger bot protection.
-    if (CAPTCHA_SECRET) {
-      const tokenHeader = CAPTCHA_TOKEN_HEADER || 'x-captcha-token';
+    const captchaSecret = form.captcha?.secret || CAPTCHA_SECRET;
+    if (captchaSecret && form.captcha?.enabled !== false) {
+      const tokenHeader = form.captcha?.tokenHeader || CAPTCHA_TOKEN_HEADER || 'x-captcha-token';
       const captchaToken = getHeaderValue(event, tokenHeader);
       if (!captchaToken) {
+        emit('submission.rejected', { reason: 'Missing captcha token', issues: [] });
         return generateErrorResponse(
           400,
           'Captcha required',
@@ -386,18 +835,43 @@ export const send = async (
         );
       }
 
-      const sourceIp = event.requestContext?.identity?.sourceIp;
-      const captchaVerifyUrl =
-        CAPTCHA_VERIFY_URL || 'https://challenges.cloudflare.com/turnstile/v0/siteverify';
+      const provider = form.captcha?.provider ?? parseCaptchaProvider(CAPTCHA_PROVIDER);
+      const minScore = form.captcha?.minScore ?? parseScore(CAPTCHA_MIN_SCORE);
+      const hostnames =
+        form.captcha?.hostnames ??
+        (CAPTCHA_HOSTNAMES || '')
+          .split(',')
+          .map(host => host.trim().toLowerCase())
+          .filter(Boolean);
 
       try {
-        const captchaValid = await verifyCaptcha(
+        const captcha = await verifyCaptcha(
           captchaToken,
-          CAPTCHA_SECRET,
-          captchaVerifyUrl,
-          sourceIp
+          {
+            provider,
+            secret: captchaSecret,
+            verifyUrl: form.captcha?.verifyUrl || CAPTCHA_VERIFY_URL || undefined,
+            siteKey: form.captcha?.siteKey,
+            minScore,
+            action: form.captcha?.action || CAPTCHA_ACTION || undefined,
+            hostnames: hostnames.length > 0 ? hostnames : undefined,
+            maxTokenAgeMs:
+              form.captcha?.maxTokenAgeMs ??
+              parsePositiveInt(
+                CAPTCHA_MAX_TOKEN_AGE_MS,
+                DEFAULT_CAPTCHA_MAX_TOKEN_AGE_MS,
+                60 * 60 * 1000
+              ),
+          },
+          event.requestContext?.identity?.sourceIp
         );
-        if (!captchaValid) {
+        if (!captcha.success) {
+          console.warn('Captcha verification failed:', { formId: form.id, requestId, ...captcha });
+          emit('submission.spam_flagged', {
+            reason: 'captcha_failed',
+            action: 'reject',
+            errorCodes: captcha.errorCodes,
+          });
           return generateErrorResponse(
             403,
             'Forbidden',
@@ -408,7 +882,7 @@ export const send = async (
         }
       } catch (error) {
         console.error('Captcha verification error:', error);
-        if (!parseBoolean(CAPTCHA_FAIL_OPEN, false)) {
+        if (!(form.captcha?.failOpen ?? parseBoolean(CAPTCHA_FAIL_OPEN, false))) {
           return generateErrorResponse(
             503,
             'Service unavailable',
@@ -422,6 +896,7 @@ export const send = async (
 
     // Honeypot: silently succeed if the hidden field is filled (bot trap)
     if (contactRequest._honeypot) {
+      emit('submission.honeypot_trapped', {});
       return generateResponse(
         200,
         {
@@ -434,12 +909,28 @@ export const send = async (
       );
     }
 
-    // Security checks
-    if (
-      detectSuspiciousActivity(contactRequest.content) ||
-      detectSuspiciousActivity(contactRequest.name) ||
-      (contactRequest.subject && detectSuspiciousActivity(contactRequest.subject))
-    ) {
+    // Spam scoring: each matching rule adds to the score, the form's thresholds decide
+    const spam = scoreSubmission(
+      contactRequest,
+      resolveSpamPolicy(
+        form.spam,
+        {
+          quarantineScore: parsePositiveInt(SPAM_QUARANTINE_SCORE, DEFAULT_QUARANTINE_SCORE, 1000),
+          rejectScore: parsePositiveInt(SPAM_REJECT_SCORE, DEFAULT_REJECT_SCORE, 1000),
+        },
+        getSpamModel(SPAM_MODEL_PATH)
+      )
+    );
+    if (spam.score > 0) {
+      console.log('Spam score:', { formId: form.id, requestId, ...spam });
+    }
+    if (spam.action === 'reject') {
+      emit('submission.spam_flagged', {
+        reason: 'suspicious_content',
+        action: 'reject',
+        score: spam.score,
+        rules: spam.reasons.map(reason => reason.rule),
+      });
       return generateErrorResponse(
         400,
         'Invalid content',
@@ -450,12 +941,7 @@ export const send = async (
     }
 
     // Sanitize inputs
-    const sanitizedRequest: ContactFormRequest = {
-      email: contactRequest.email, // Email validation already handled by Zod
-      name: sanitizeInput(contactRequest.name),
-      content: sanitizeInput(contactRequest.content),
-      subject: contactRequest.subject ? sanitizeInput(contactRequest.subject) : undefined,
-    };
+    const sanitizedRequest = sanitizeRequest(contactRequest);
 
     // Optional idempotency prevents duplicate email sends on retries/double-submits.
     const idempotencyKey =
@@ -468,6 +954,7 @@ export const send = async (
       failOpen: parseBoolean(IDEMPOTENCY_FAIL_OPEN, true),
     });
     if (isDuplicateSubmission) {
+      emit('submission.duplicate', {});
       return generateResponse(
         200,
         {
@@ -482,21 +969,188 @@ export const send = async (
       );
     }
 
-    // Create email parameters
-    const emailParams = createEmailParams(sanitizedRequest, EMAIL);
+    const submissionId = randomUUID();
+    const receivedAt = new Date().toISOString();
+
+    // Archive before delivery so a lost email can still be recovered
+    const repository = getSubmissionRepository({
+      tableName: SUBMISSIONS_TABLE,
+      region: AWS_REGION,
+      partitionKeyName: SUBMISSIONS_PARTITION_KEY || 'id',
+    });
+    const archived = await archiveSubmission(repository, {
+      id: submissionId,
+      formId: form.id,
+      request: contactRequest,
+      metadata: {
+        origin,
+        // Only keyed hashes are stored; without a secret the IP is left out
+        ...(IP_HASH_SECRET && { ipHash: hashIpAddress(getClientIp(event), IP_HASH_SECRET) }),
+        userAgent: getHeaderValue(event, 'user-agent'),
+        requestId,
+        // Links the idempotency record to the sender for data subject requests
+        ...(idempotencyKey?.trim() && { idempotencyKey: idempotencyKey.trim() }),
+        spam,
+      },
+      attachments: attachments.map(attachment => ({
+        filename: attachment.filename,
+        contentType: attachment.contentType,
+        size: attachment.content.length,
+      })),
+      status: spam.action === 'quarantine' ? 'quarantined' : 'pending',
+      createdAt: receivedAt,
+      updatedAt: receivedAt,
+    });
+
+    // Quarantined submissions wait in the archive for review. Without one they only
+    // go to the form's recipients: no auto-reply, webhooks or chat notifiers.
+    const quarantined = spam.action === 'quarantine';
+    if (quarantined) {
+      emit('submission.spam_flagged', {
+        reason: 'suspicious_content',
+        action: 'quarantine',
+        score: spam.score,
+        rules: spam.reasons.map(reason => reason.rule),
+      });
+
+      if (archived) {
+        console.log('Contact form submission quarantined:', {
+          formId: form.id,
+          submissionId,
+          score: spam.score,
+        });
+
+        // Same answer as a delivered submission, so senders cannot probe the thresholds
+        return generateResponse(
+          200,
+          {
+            success: true,
+            message: 'Your message has been sent successfully!',
+            submissionId,
+          } as ContactFormResponse,
+          DOMAIN,
+          {},
+          origin
+        );
+      }
+
+      console.warn('Quarantine requires the submission archive; delivering to recipients only:', {
+        formId: form.id,
+        submissionId,
+        score: spam.score,
+      });
+    }
+
+    // Async mode hands the submission to the worker and answers right away. The worker
+    // resolves the form again, so quarantined submissions are sent here instead.
+    if (DELIVERY_MODE === 'async' && !quarantined) {
+      const queued = await enqueueSubmission(
+        contactRequest,
+        form,
+        attachments,
+        origin,
+        { submissionId, receivedAt, archived },
+        { queueUrl: QUEUE_URL, region: AWS_REGION }
+      );
+
+      if (queued) {
+        emit('submission.accepted', {
+          submissionId,
+          deliveryMode: 'async',
+          attachments: attachments.length,
+        });
+        console.log('Contact form submission queued:', {
+          formId: form.id,
+          submissionId,
+          attachments: attachments.length,
+          timestamp: new Date().toISOString(),
+        });
 
-    // Send email
-    const messageId = await sendEmail(emailParams, AWS_REGION);
+        return generateResponse(
+          202,
+          {
+            success: true,
+            message: 'Your message has been received and will be delivered shortly.',
+            submissionId,
+          } as ContactFormResponse,
+          DOMAIN,
+          {},
+          origin
+        );
+      }
+    }
+
+    // Send through the configured transport (SES by default)
+    const transport = getEmailTransport({
+      type: EMAIL_TRANSPORT,
+      region: AWS_REGION,
+      smtpUrl: SMTP_URL,
+      outputDir: EMAIL_OUTPUT_DIR,
+    });
+    const { messageId, matchedRules, autoReply, webhooks, notifications } = await deliverSubmission(
+      contactRequest,
+      quarantined
+        ? { ...form, autoReply: undefined, webhooks: undefined, notifiers: undefined }
+        : form,
+      {
+        submissionId,
+        receivedAt,
+        sender: form.from || SENDER_EMAIL || EMAIL,
+        origin,
+        submissionUrl: archived
+          ? resolveSubmissionUrl(SUBMISSION_URL_TEMPLATE, submissionId)
+          : undefined,
+        repository: archived ? repository : undefined,
+        attachments,
+        transport,
+        autoReplyRateLimit: {
+          tableName: RATE_LIMIT_TABLE,
+          region: AWS_REGION,
+          partitionKeyName: RATE_LIMIT_PARTITION_KEY || 'id',
+        },
+        suppression: {
+          tableName: SUPPRESSION_TABLE,
+          region: AWS_REGION,
+          partitionKeyName: SUPPRESSION_PARTITION_KEY || 'email',
+        },
+        getRemainingTimeInMillis: () => context.getRemainingTimeInMillis(),
+      }
+    ).catch(error => {
+      emit('submission.delivery_failed', {
+        submissionId,
+        deliveryMode: 'sync',
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    });
 
     // Success response
     const response: ContactFormResponse = {
       success: true,
       message: 'Your message has been sent successfully!',
       messageId,
+      submissionId,
     };
 
+    // Quarantined submissions already published spam_flagged
+    if (!quarantined) {
+      emit('submission.accepted', {
+        submissionId,
+        deliveryMode: 'sync',
+        messageId,
+        attachments: attachments.length,
+      });
+    }
+
     console.log('Contact form submitted successfully:', {
+      formId: form.id,
+      submissionId,
       messageId,
+      attachments: attachments.length,
+      routing: matchedRules,
+      autoReply,
+      webhooks,
+      notifications,
       email: sanitizedRequest.email,
       name: sanitizedRequest.name,
       timestamp: new Date().toISOString(),
@@ -504,8 +1158,37 @@ export const send = async (
 
     return generateResponse(200, response, DOMAIN, {}, origin);
   } catch (error) {
+    if (error instanceof ValidationError) {
+      emit('submission.rejected', {
+        reason: error.message,
+        issues: (error.issues ?? []).map(({ field, code }) => ({ field, code })),
+      });
+      return generateErrorResponse(
+        error.statusCode,
+        error.message,
+        DOMAIN,
+        undefined,
+        origin,
+        error.issues
+      );
+    }
+
+    if (error instanceof ThrottledEmailError) {
+      const response = generateErrorResponse(
+        error.statusCode,
+        error.message,
+        DOMAIN,
+        undefined,
+        origin
+      );
+      return {
+        ...response,
+        headers: { ...response.headers, 'Retry-After': String(error.retryAfterSeconds) },
+      };
+    }
+
     if (error instanceof ContactFormError) {
-      return generateErrorResponse(error.statusCode, error.message, DOMAIN, undefined, origin);
+      return generateContactFormErrorResponse(error, DOMAIN, origin);
     }
 
     // Handle unexpected errors
@@ -519,3 +1202,29 @@ export const send = async (
     );
   }
 };
+
+/**
+ * Main Lambda handler for the contact form
+ */
+export const send = async (
+  event: APIGatewayProxyEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> => {
+  const { AWS_REGION, EVENT_BUS_NAME, EVENT_SOURCE } = getEnvVars();
+  const events = createEventBatch(
+    getEventPublisher({ busName: EVENT_BUS_NAME, region: AWS_REGION, source: EVENT_SOURCE })
+  );
+
+  let result: APIGatewayProxyResult;
+  try {
+    result = await processSubmission(event, context, events);
+  } finally {
+    await events.flush();
+  }
+
+  if (event.httpMethod !== 'POST' || !isHtmlFormSubmission(event)) {
+    return result;
+  }
+
+  return toRedirectResponse(event, result);
+};
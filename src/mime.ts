@@ -0,0 +1,111 @@
+import { randomBytes } from 'crypto';
+import { Attachment } from './attachments';
+
+export interface MimeMessage {
+  from: string;
+  to: string[];
+  cc?: string[];
+  replyTo?: string[];
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: Attachment[];
+  date?: Date;
+}
+
+const CRLF = '\r\n';
+
+// Prevent header injection from any user-controlled value
+function stripLineBreaks(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ');
+}
+
+/**
+ * Encodes a header value as an RFC 2047 encoded-word when it is not plain ASCII
+ */
+export function encodeHeaderValue(value: string): string {
+  const clean = stripLineBreaks(value);
+  if (/^[\x20-\x7e]*$/.test(clean)) {
+    return clean;
+  }
+
+  return `=?UTF-8?B?${Buffer.from(clean, 'utf8').toString('base64')}?=`;
+}
+
+function toBase64Lines(content: Buffer | string): string {
+  const encoded = Buffer.isBuffer(content)
+    ? content.toString('base64')
+    : Buffer.from(content, 'utf8').toString('base64');
+
+  return encoded.match(/.{1,76}/g)?.join(CRLF) ?? '';
+}
+
+function createBoundary(label: string): string {
+  return `----=_${label}_${randomBytes(12).toString('hex')}`;
+}
+
+function buildBodyPart(contentType: string, content: string): string {
+  return [
+    `Content-Type: ${contentType}; charset=UTF-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    toBase64Lines(content),
+  ].join(CRLF);
+}
+
+function buildAttachmentPart(attachment: Attachment): string {
+  const filename = stripLineBreaks(attachment.filename).replace(/"/g, '');
+
+  return [
+    `Content-Type: ${attachment.contentType}; name="${filename}"`,
+    `Content-Disposition: attachment; filename="${filename}"`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    toBase64Lines(attachment.content),
+  ].join(CRLF);
+}
+
+function joinParts(boundary: string, parts: string[]): string {
+  return `${parts.map(part => `--${boundary}${CRLF}${part}${CRLF}`).join('')}--${boundary}--`;
+}
+
+/**
+ * Assembles an RFC 5322 message with text/HTML alternatives and optional attachments
+ */
+export function buildMimeMessage(message: MimeMessage): Buffer {
+  const headers = [
+    `From: ${stripLineBreaks(message.from)}`,
+    `To: ${message.to.map(stripLineBreaks).join(', ')}`,
+    ...(message.cc && message.cc.length > 0
+      ? [`Cc: ${message.cc.map(stripLineBreaks).join(', ')}`]
+      : []),
+    ...(message.replyTo && message.replyTo.length > 0
+      ? [`Reply-To: ${message.replyTo.map(stripLineBreaks).join(', ')}`]
+      : []),
+    `Subject: ${encodeHeaderValue(message.subject)}`,
+    `Date: ${(message.date ?? new Date()).toUTCString()}`,
+    'MIME-Version: 1.0',
+  ];
+
+  const alternativeBoundary = createBoundary('alt');
+  const bodyParts = [buildBodyPart('text/plain', message.text)];
+  if (message.html) {
+    bodyParts.push(buildBodyPart('text/html', message.html));
+  }
+  const body = `Content-Type: multipart/alternative; boundary="${alternativeBoundary}"${CRLF}${CRLF}${joinParts(alternativeBoundary, bodyParts)}`;
+
+  const attachments = message.attachments ?? [];
+  if (attachments.length === 0) {
+    return Buffer.from([...headers, body].join(CRLF) + CRLF, 'utf8');
+  }
+
+  const mixedBoundary = createBoundary('mixed');
+  const mixed = joinParts(mixedBoundary, [body, ...attachments.map(buildAttachmentPart)]);
+
+  return Buffer.from(
+    [...headers, `Content-Type: multipart/mixed; boundary="${mixedBoundary}"`, '', mixed].join(
+      CRLF
+    ) + CRLF,
+    'utf8'
+  );
+}
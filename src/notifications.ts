@@ -0,0 +1,127 @@
+import { SNSEvent } from 'aws-lambda';
+import { getSuppressionStore, SuppressionEntry } from './suppression';
+
+interface SesRecipient {
+  emailAddress: string;
+  action?: string;
+  status?: string;
+  diagnosticCode?: string;
+}
+
+export interface SesNotification {
+  // Identity notifications use notificationType, configuration set events use eventType
+  notificationType?: string;
+  eventType?: string;
+  bounce?: {
+    bounceType: string;
+    bounceSubType?: string;
+    bouncedRecipients: SesRecipient[];
+    timestamp?: string;
+    feedbackId?: string;
+  };
+  complaint?: {
+    complainedRecipients: SesRecipient[];
+    complaintFeedbackType?: string;
+    complaintSubType?: string | null;
+    timestamp?: string;
+    feedbackId?: string;
+  };
+  mail?: {
+    messageId?: string;
+    source?: string;
+  };
+}
+
+// Get environment variables (read at runtime for testing flexibility)
+const getEnvVars = () => ({
+  AWS_REGION: process.env.AWS_REGION || 'us-east-1',
+  SUPPRESSION_TABLE: process.env.SUPPRESSION_TABLE,
+  SUPPRESSION_PARTITION_KEY: process.env.SUPPRESSION_PARTITION_KEY,
+});
+
+/**
+ * Parses an SNS message body; undefined when it is not an SES notification
+ */
+export function parseSesNotification(message: string): SesNotification | undefined {
+  let notification: SesNotification;
+  try {
+    notification = JSON.parse(message) as SesNotification;
+  } catch {
+    return undefined;
+  }
+
+  if (!notification || typeof notification !== 'object') {
+    return undefined;
+  }
+
+  return notification.notificationType || notification.eventType ? notification : undefined;
+}
+
+/**
+ * Lists the addresses a notification should suppress. Only permanent bounces
+ * count; transient and undetermined bounces may succeed on a later send.
+ */
+export function getSuppressionEntries(
+  notification: SesNotification,
+  now: Date = new Date()
+): SuppressionEntry[] {
+  const type = notification.notificationType ?? notification.eventType;
+
+  if (type === 'Bounce' && notification.bounce?.bounceType === 'Permanent') {
+    const { bounce } = notification;
+    return (bounce.bouncedRecipients ?? []).map(recipient => ({
+      email: recipient.emailAddress,
+      reason: 'bounce',
+      suppressedAt: bounce.timestamp ?? now.toISOString(),
+      ...(bounce.bounceSubType && { detail: bounce.bounceSubType }),
+    }));
+  }
+
+  if (type === 'Complaint' && notification.complaint) {
+    const { complaint } = notification;
+    return (complaint.complainedRecipients ?? []).map(recipient => ({
+      email: recipient.emailAddress,
+      reason: 'complaint',
+      suppressedAt: complaint.timestamp ?? now.toISOString(),
+      ...(complaint.complaintFeedbackType && { detail: complaint.complaintFeedbackType }),
+    }));
+  }
+
+  return [];
+}
+
+/**
+ * Consumes SES bounce and complaint notifications published to SNS and adds
+ * the affected addresses to the suppression list. Messages that are not SES
+ * notifications are skipped; store failures throw so Lambda retries the event.
+ */
+export const receive = async (event: SNSEvent): Promise<void> => {
+  const { AWS_REGION, SUPPRESSION_TABLE, SUPPRESSION_PARTITION_KEY } = getEnvVars();
+  const store = getSuppressionStore({
+    tableName: SUPPRESSION_TABLE,
+    region: AWS_REGION,
+    partitionKeyName: SUPPRESSION_PARTITION_KEY || 'email',
+  });
+
+  for (const record of event.Records) {
+    const notification = parseSesNotification(record.Sns.Message);
+    if (!notification) {
+      console.warn('Skipping SNS message that is not an SES notification:', {
+        messageId: record.Sns.MessageId,
+      });
+      continue;
+    }
+
+    const entries = getSuppressionEntries(notification);
+    for (const entry of entries) {
+      await store.suppress(entry);
+    }
+
+    console.log('SES notification processed:', {
+      type: notification.notificationType ?? notification.eventType,
+      mailMessageId: notification.mail?.messageId,
+      suppressed: entries.length,
+      store: store.name,
+    });
+  }
+};
@@ -0,0 +1,205 @@
+import { z } from 'zod';
+import { RetryOptions } from './retry';
+import { ContactFormRequest } from './types';
+import { logPostFailure, postJson, WebhookOutcome } from './webhooks';
+
+// Long enough to be useful, short enough to stay within Slack and Discord limits after escaping
+export const MESSAGE_PREVIEW_LENGTH = 500;
+
+export const notifierConfigSchema = z.object({
+  type: z.enum(['slack', 'discord']),
+  // Slack incoming webhook or Discord channel webhook; each posts to one channel
+  webhookUrl: z
+    .string()
+    .url()
+    .refine(url => new URL(url).protocol === 'https:', 'Notifier webhooks must use https'),
+  timeoutMs: z.number().int().positive().max(10000).default(5000),
+  maxAttempts: z.number().int().min(1).max(5).default(3),
+});
+
+export const notifiersConfigSchema = z.array(notifierConfigSchema).max(5);
+
+export type NotifierConfig = z.infer<typeof notifierConfigSchema>;
+
+export interface NotificationDetails {
+  request: ContactFormRequest;
+  formId: string;
+  submissionId: string;
+  // Link to the stored submission, when one is available
+  submissionUrl?: string;
+}
+
+// Zero-width space: breaks mention and formatting syntax without visibly changing the text
+const ZWSP = '\u200b';
+
+const broadcastMentions = /@(everyone|here|channel)\b/gi;
+
+/**
+ * Fills "{submissionId}" in a link template such as SUBMISSION_URL_TEMPLATE
+ */
+export function resolveSubmissionUrl(
+  template: string | undefined,
+  submissionId: string
+): string | undefined {
+  return template
+    ? template.replace(/{submissionId}/g, encodeURIComponent(submissionId))
+    : undefined;
+}
+
+export function truncate(value: string, maxLength: number): string {
+  return value.length > maxLength ? `${value.slice(0, maxLength - 1).trimEnd()}…` : value;
+}
+
+/**
+ * Escapes text for Slack mrkdwn. &, < and > are the only characters Slack
+ * escapes; encoding them disables <!channel>, <@user> and <url|link> syntax.
+ * Slack has no escape for formatting markers, so a zero-width space keeps
+ * *, _, ~ and ` from opening a span, and one after @ breaks @channel-style
+ * mentions.
+ */
+export function escapeSlackText(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/[*_~`]/g, marker => `${ZWSP}${marker}`)
+    .replace(broadcastMentions, `@${ZWSP}$1`);
+}
+
+/**
+ * Escapes text for Discord markdown with backslashes, including the < of
+ * <@user>, <#channel> and <@&role> mentions, and breaks @everyone and @here.
+ * Payloads also disable mention parsing through allowed_mentions.
+ */
+export function escapeDiscordText(value: string): string {
+  return value
+    .replace(/[\\*_~`|>#\-[\]()<:]/g, character => `\\${character}`)
+    .replace(/@(everyone|here)\b/gi, `@${ZWSP}$1`);
+}
+
+/**
+ * Builds a Slack Block Kit message
+ */
+export function createSlackMessage(details: NotificationDetails): Record<string, unknown> {
+  const { request, formId, submissionId, submissionUrl } = details;
+  const name = escapeSlackText(request.name);
+  const email = escapeSlackText(request.email);
+  const subject = escapeSlackText(request.subject ?? '(no subject)');
+
+  return {
+    text: `New contact form submission from ${name}`,
+    blocks: [
+      {
+        type: 'header',
+        text: { type: 'plain_text', text: 'New contact form submission', emoji: false },
+      },
+      {
+        type: 'section',
+        fields: [
+          { type: 'mrkdwn', text: `*Name*\n${name}` },
+          // The address is validated, so it is safe inside the link target
+          { type: 'mrkdwn', text: `*Email*\n<mailto:${request.email}|${email}>` },
+          { type: 'mrkdwn', text: `*Subject*\n${subject}` },
+          { type: 'mrkdwn', text: `*Form*\n${escapeSlackText(formId)}` },
+        ],
+      },
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: escapeSlackText(truncate(request.content, MESSAGE_PREVIEW_LENGTH)),
+        },
+      },
+      {
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: `Submission ${submissionId}` }],
+      },
+      ...(submissionUrl
+        ? [
+            {
+              type: 'actions',
+              elements: [
+                {
+                  type: 'button',
+                  text: { type: 'plain_text', text: 'View submission' },
+                  url: submissionUrl,
+                },
+              ],
+            },
+          ]
+        : []),
+    ],
+  };
+}
+
+/**
+ * Builds a Discord message with one embed
+ */
+export function createDiscordMessage(details: NotificationDetails): Record<string, unknown> {
+  const { request, formId, submissionId, submissionUrl } = details;
+  const email = escapeDiscordText(request.email);
+
+  return {
+    allowed_mentions: { parse: [] },
+    embeds: [
+      {
+        title: 'New contact form submission',
+        ...(submissionUrl && { url: submissionUrl }),
+        description: escapeDiscordText(truncate(request.content, MESSAGE_PREVIEW_LENGTH)),
+        fields: [
+          { name: 'Name', value: escapeDiscordText(request.name), inline: true },
+          {
+            name: 'Email',
+            value: `[${email}](<mailto:${encodeURI(request.email)}>)`,
+            inline: true,
+          },
+          {
+            name: 'Subject',
+            value: escapeDiscordText(request.subject ?? '(no subject)'),
+            inline: false,
+          },
+        ],
+        footer: { text: `Form ${formId} · Submission ${submissionId}` },
+      },
+    ],
+  };
+}
+
+/**
+ * Posts the notification to one channel. Failures are logged and reported, never thrown.
+ */
+export async function sendNotification(
+  notifier: NotifierConfig,
+  details: NotificationDetails,
+  retry: Partial<RetryOptions> = {}
+): Promise<WebhookOutcome> {
+  const message =
+    notifier.type === 'slack' ? createSlackMessage(details) : createDiscordMessage(details);
+
+  try {
+    await postJson(notifier.webhookUrl, JSON.stringify(message), () => ({}), notifier.timeoutMs, {
+      ...retry,
+      maxAttempts: notifier.maxAttempts,
+    });
+    return 'delivered';
+  } catch (error) {
+    logPostFailure(
+      `${notifier.type} notification`,
+      notifier.webhookUrl,
+      details.submissionId,
+      error
+    );
+    return 'failed';
+  }
+}
+
+/**
+ * Notifies every channel the form selected, in parallel
+ */
+export async function sendNotifications(
+  notifiers: NotifierConfig[],
+  details: NotificationDetails,
+  retry: Partial<RetryOptions> = {}
+): Promise<WebhookOutcome[]> {
+  return Promise.all(notifiers.map(notifier => sendNotification(notifier, details, retry)));
+}
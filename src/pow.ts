@@ -0,0 +1,255 @@
+import { createHash, randomBytes } from 'crypto';
+import { z } from 'zod';
+import { ContactFormError } from './errors';
+import { checkAndStoreIdempotencyKey, hashIpAddress } from './security';
+import { openSignedPayload, parseSigningSecrets, signPayload } from './signing';
+
+export const POW_HEADER = 'x-pow-solution';
+// Hidden input for HTML forms, which cannot set headers
+export const POW_FIELD = '_pow';
+
+// Leading zero bits of SHA-256; 16 bits take about a second in a browser
+export const DEFAULT_POW_DIFFICULTY = 16;
+// Reached when the client is about to hit the rate limit
+export const DEFAULT_POW_MAX_DIFFICULTY = 22;
+export const MAX_POW_DIFFICULTY = 32;
+// Solving starts on page load, submitting may come much later
+export const DEFAULT_POW_TTL_MS = 30 * 60 * 1000;
+
+export const powSettingsSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    difficulty: z.number().int().min(1).max(MAX_POW_DIFFICULTY).optional(),
+    maxDifficulty: z.number().int().min(1).max(MAX_POW_DIFFICULTY).optional(),
+  })
+  .refine(
+    settings =>
+      settings.difficulty === undefined ||
+      settings.maxDifficulty === undefined ||
+      settings.difficulty <= settings.maxDifficulty,
+    { message: 'difficulty must not exceed maxDifficulty', path: ['difficulty'] }
+  );
+
+export type PowSettings = z.infer<typeof powSettingsSchema>;
+
+export type PowFailure =
+  | 'malformed'
+  | 'invalid_signature'
+  | 'wrong_form'
+  | 'wrong_client'
+  | 'expired'
+  | 'too_easy'
+  | 'unsolved'
+  | 'reused';
+
+/**
+ * The proof-of-work solution is not acceptable; answered with 403
+ */
+export class PowError extends ContactFormError {
+  public readonly reason: PowFailure;
+
+  constructor(message: string, reason: PowFailure) {
+    super(message, 403);
+    this.name = 'PowError';
+    this.reason = reason;
+  }
+}
+
+export interface PowChallenge {
+  challenge: string;
+  difficulty: number;
+  expiresAt: number;
+}
+
+export interface PowClaims {
+  formId: string;
+  difficulty: number;
+  expiresAt: number;
+  nonce: string;
+}
+
+export interface PowDifficultyRange {
+  difficulty: number;
+  maxDifficulty: number;
+}
+
+export interface PowStoreConfig {
+  tableName?: string;
+  region: string;
+  partitionKeyName: string;
+}
+
+const claimsSchema = z.object({
+  f: z.string(),
+  // Keyed hash of the client IP the challenge was issued to
+  c: z.string(),
+  d: z.number().int().min(1).max(MAX_POW_DIFFICULTY),
+  exp: z.number().int(),
+  n: z.string().min(16),
+});
+
+/**
+ * Reads POW_SECRET; comma-separated secrets allow rotation
+ */
+export function parsePowSecrets(raw: string | undefined): string[] {
+  return parseSigningSecrets(raw, 'POW_SECRET');
+}
+
+function getClientHash(clientIp: string, secret: string): string {
+  return hashIpAddress(clientIp, secret).slice(0, 32);
+}
+
+function countLeadingZeroBits(digest: Buffer): number {
+  let bits = 0;
+  for (const byte of digest) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
+
+/**
+ * Difficulty for a client that has made `used` of `limit` requests in the
+ * current rate limit window. It stays at the base difficulty up to half the
+ * limit, then rises linearly to maxDifficulty at the limit.
+ */
+export function getAdaptiveDifficulty(
+  range: PowDifficultyRange,
+  used: number,
+  limit: number
+): number {
+  const { difficulty, maxDifficulty } = range;
+  if (limit <= 0 || maxDifficulty <= difficulty) {
+    return Math.max(difficulty, maxDifficulty);
+  }
+
+  // Share of the upper half of the limit that is used, kept in integers
+  const overHalf = 2 * Math.min(used, limit) - limit;
+  if (overHalf <= 0) {
+    return difficulty;
+  }
+
+  return difficulty + Math.ceil((overHalf * (maxDifficulty - difficulty)) / limit);
+}
+
+/**
+ * Issues a challenge for one submission of formId from clientIp
+ */
+export function issuePowChallenge(
+  formId: string,
+  clientIp: string,
+  difficulty: number,
+  secret: string,
+  ttlMs: number = DEFAULT_POW_TTL_MS,
+  now: number = Date.now()
+): PowChallenge {
+  const expiresAt = now + ttlMs;
+  const challenge = signPayload(
+    {
+      f: formId,
+      c: getClientHash(clientIp, secret),
+      d: difficulty,
+      exp: expiresAt,
+      n: randomBytes(16).toString('base64url'),
+    },
+    secret
+  );
+
+  return { challenge, difficulty, expiresAt };
+}
+
+/**
+ * Whether SHA-256 of "challenge:counter" starts with `difficulty` zero bits
+ */
+export function isPowSolved(challenge: string, counter: string, difficulty: number): boolean {
+  const digest = createHash('sha256').update(`${challenge}:${counter}`).digest();
+  return countLeadingZeroBits(digest) >= difficulty;
+}
+
+/**
+ * Finds a solution the same way the browser solver does (for tests and
+ * server-side clients)
+ */
+export function solvePowChallenge(challenge: string, difficulty: number): string {
+  for (let counter = 0; ; counter++) {
+    if (isPowSolved(challenge, String(counter), difficulty)) {
+      return `${challenge}:${counter}`;
+    }
+  }
+}
+
+/**
+ * Checks a "challenge:counter" solution: the challenge signature, form, client,
+ * expiry, difficulty and the work itself. minDifficulty is what the client would
+ * be issued now, so easy challenges stocked up early cannot outlast the adaptive
+ * difficulty. Reuse is checked separately by consumePowChallenge.
+ */
+export function verifyPowSolution(
+  solution: string,
+  secrets: string[],
+  check: { formId: string; clientIp: string; minDifficulty?: number; now?: number }
+): PowClaims {
+  const separator = solution.lastIndexOf(':');
+  const challenge = solution.slice(0, separator).trim();
+  const counter = solution.slice(separator + 1).trim();
+  if (separator < 0 || !/^\d{1,16}$/.test(counter)) {
+    throw new PowError('Malformed proof of work', 'malformed');
+  }
+
+  const opened = openSignedPayload(challenge, secrets);
+  if (!opened.success) {
+    throw new PowError(
+      opened.reason === 'malformed' ? 'Malformed proof of work' : 'Invalid proof of work',
+      opened.reason
+    );
+  }
+
+  const claims = claimsSchema.safeParse(opened.data);
+  if (!claims.success) {
+    throw new PowError('Malformed proof of work', 'malformed');
+  }
+  const parsed = claims.data;
+
+  if (parsed.f !== check.formId) {
+    throw new PowError('Challenge was issued for another form', 'wrong_form');
+  }
+  // Any secret that verified the signature also keyed the client hash
+  if (!secrets.some(secret => getClientHash(check.clientIp, secret) === parsed.c)) {
+    throw new PowError('Challenge was issued to another client', 'wrong_client');
+  }
+  if ((check.now ?? Date.now()) >= parsed.exp) {
+    throw new PowError('Challenge has expired', 'expired');
+  }
+  if (parsed.d < (check.minDifficulty ?? 0)) {
+    throw new PowError('Challenge is too easy, request a new one', 'too_easy');
+  }
+  if (!isPowSolved(challenge, counter, parsed.d)) {
+    throw new PowError('Challenge is not solved', 'unsolved');
+  }
+
+  return { formId: parsed.f, difficulty: parsed.d, expiresAt: parsed.exp, nonce: parsed.n };
+}
+
+/**
+ * Marks the challenge as used until it expires, in the idempotency store. A
+ * store error counts as reuse, so a solved challenge cannot be replayed while
+ * the table is unavailable.
+ */
+export async function consumePowChallenge(
+  claims: PowClaims,
+  config: PowStoreConfig,
+  now: number = Date.now()
+): Promise<void> {
+  const reused = await checkAndStoreIdempotencyKey(`pow:${claims.nonce}`, {
+    ...config,
+    ttlMs: Math.max(claims.expiresAt - now, 1000),
+    failOpen: false,
+  });
+
+  if (reused) {
+    throw new PowError('Challenge has already been used', 'reused');
+  }
+}
@@ -0,0 +1,201 @@
+import { randomUUID } from 'crypto';
+import { AuditAction, AuditStore, hashEmailAddress, writeAuditEntry } from './audit';
+import { ConfigurationError } from './errors';
+import {
+  deleteIdempotencyRecords,
+  deleteRateLimitKeys,
+  findIdempotencyRecords,
+  findRecipientRateLimitKeys,
+  KeyTableConfig,
+  StoredKey,
+} from './security';
+import { SubmissionRecord, SubmissionRepository } from './submissions';
+import { normalizeEmailAddress, SuppressionEntry, SuppressionStore } from './suppression';
+
+// Page size when collecting every submission for an address
+const SUBJECT_PAGE_SIZE = 100;
+
+export interface DataSubjectStores {
+  // Undefined when the submission archive is off
+  repository?: SubmissionRepository;
+  suppression: SuppressionStore;
+  idempotency: KeyTableConfig;
+  rateLimit: KeyTableConfig;
+  audit: AuditStore;
+  // Keys the address hash in audit records; required for access and erasure requests
+  hashSecret?: string;
+}
+
+export interface DataSubjectBundle {
+  email: string;
+  generatedAt: string;
+  submissions: SubmissionRecord[];
+  suppression: SuppressionEntry | null;
+  idempotencyRecords: StoredKey[];
+  rateLimitKeys: StoredKey[];
+}
+
+export interface DataSubjectCounts extends Record<string, number> {
+  submissions: number;
+  suppression: number;
+  idempotencyRecords: number;
+  rateLimitKeys: number;
+}
+
+export type ErasureCounts = Omit<DataSubjectCounts, 'suppression'>;
+
+export interface ErasureResult {
+  auditId: string;
+  // Records anonymized or deleted per store
+  counts: ErasureCounts;
+  // Records kept on purpose. The suppression entry is what stops further mail to
+  // the address, so it stays under legitimate interest.
+  retained: { suppression: number };
+}
+
+async function findSubmissions(
+  repository: SubmissionRepository | undefined,
+  email: string
+): Promise<SubmissionRecord[]> {
+  if (!repository) {
+    return [];
+  }
+
+  const records: SubmissionRecord[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await repository.list({ email, limit: SUBJECT_PAGE_SIZE, cursor });
+    records.push(...page.items);
+    cursor = page.cursor;
+  } while (cursor);
+
+  return records;
+}
+
+// Audit records hold a keyed hash of the address, never a plain one
+function requireHashSecret(stores: DataSubjectStores): string {
+  if (!stores.hashSecret) {
+    throw new ConfigurationError('IP_HASH_SECRET must be set for data subject requests');
+  }
+
+  return stores.hashSecret;
+}
+
+async function audit(
+  stores: DataSubjectStores,
+  action: AuditAction,
+  email: string,
+  actor: string,
+  counts: Record<string, number>,
+  now: Date
+): Promise<string> {
+  const id = randomUUID();
+  await writeAuditEntry(stores.audit, {
+    id,
+    action,
+    subjectHash: hashEmailAddress(email, requireHashSecret(stores)),
+    actor,
+    createdAt: now.toISOString(),
+    counts,
+  });
+
+  return id;
+}
+
+function countBundle(bundle: DataSubjectBundle): DataSubjectCounts {
+  return {
+    submissions: bundle.submissions.length,
+    suppression: bundle.suppression ? 1 : 0,
+    idempotencyRecords: bundle.idempotencyRecords.length,
+    rateLimitKeys: bundle.rateLimitKeys.length,
+  };
+}
+
+/**
+ * Gathers everything stored about an address: archived submissions, the
+ * suppression entry, idempotency records referenced by those submissions and
+ * per-recipient rate limit counters. IP-based counters are not linked to an
+ * address and expire with their window.
+ */
+export async function collectSubjectData(
+  email: string,
+  stores: DataSubjectStores,
+  now: Date = new Date()
+): Promise<DataSubjectBundle> {
+  const address = normalizeEmailAddress(email);
+  const submissions = await findSubmissions(stores.repository, address);
+  const idempotencyKeys = [
+    ...new Set(submissions.flatMap(record => record.metadata.idempotencyKey ?? [])),
+  ];
+
+  const [suppression, idempotencyRecords, rateLimitKeys] = await Promise.all([
+    stores.suppression.get(address),
+    findIdempotencyRecords(idempotencyKeys, stores.idempotency),
+    findRecipientRateLimitKeys(address, stores.rateLimit),
+  ]);
+
+  return {
+    email: address,
+    generatedAt: now.toISOString(),
+    submissions,
+    suppression: suppression ?? null,
+    idempotencyRecords,
+    rateLimitKeys,
+  };
+}
+
+/**
+ * Answers an access request with the bundle and records that it was served
+ */
+export async function exportSubjectData(
+  email: string,
+  stores: DataSubjectStores,
+  actor: string,
+  now: Date = new Date()
+): Promise<DataSubjectBundle & { auditId: string }> {
+  requireHashSecret(stores);
+  const bundle = await collectSubjectData(email, stores, now);
+  const auditId = await audit(stores, 'access', bundle.email, actor, countBundle(bundle), now);
+
+  return { ...bundle, auditId };
+}
+
+/**
+ * Anonymizes archived submissions in place (form, status and timestamps stay
+ * for reporting) and deletes idempotency records and rate limit counters, then
+ * writes an audit record without the address. The suppression entry is kept, so
+ * a bounced or complaining address is never mailed again.
+ * Erasure is idempotent, so a failed run can simply be repeated.
+ */
+export async function eraseSubjectData(
+  email: string,
+  stores: DataSubjectStores,
+  actor: string,
+  now: Date = new Date()
+): Promise<ErasureResult> {
+  // Checked up front, so nothing is erased without an audit record
+  requireHashSecret(stores);
+  const bundle = await collectSubjectData(email, stores, now);
+  const erasedAt = now.toISOString();
+
+  let submissions = 0;
+  for (const record of bundle.submissions) {
+    submissions += (await stores.repository?.anonymize(record.id, erasedAt)) ? 1 : 0;
+  }
+
+  const [idempotencyRecords, rateLimitKeys] = await Promise.all([
+    deleteIdempotencyRecords(
+      bundle.idempotencyRecords.map(record => record.key),
+      stores.idempotency
+    ),
+    deleteRateLimitKeys(
+      bundle.rateLimitKeys.map(record => record.key),
+      stores.rateLimit
+    ),
+  ]);
+
+  const counts = { submissions, idempotencyRecords, rateLimitKeys };
+  const auditId = await audit(stores, 'erasure', bundle.email, actor, counts, now);
+
+  return { auditId, counts, retained: { suppression: bundle.suppression ? 1 : 0 } };
+}
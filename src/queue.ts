@@ -0,0 +1,156 @@
+import { SQSClient, SendMessageCommand } from '@aws-sdk/client-sqs';
+import { Attachment } from './attachments';
+import { ConfigurationError, ContactFormError } from './errors';
+import { ContactFormRequest } from './types';
+
+export const SUBMISSION_JOB_VERSION = 1;
+
+// SQS rejects message bodies above 256 KiB
+export const MAX_QUEUE_MESSAGE_BYTES = 256 * 1024;
+
+export interface QueuedAttachment {
+  filename: string;
+  contentType: string;
+  // Base64-encoded file content
+  content: string;
+}
+
+export interface SubmissionJob {
+  version: number;
+  submissionId: string;
+  formId: string;
+  request: ContactFormRequest;
+  origin?: string;
+  attachments: QueuedAttachment[];
+  receivedAt: string;
+  // Whether the handler saved the submission to the archive
+  archived?: boolean;
+}
+
+export interface SubmissionQueue {
+  readonly name: string;
+  enqueue(job: SubmissionJob): Promise<void>;
+}
+
+export interface QueueConfig {
+  queueUrl?: string;
+  region: string;
+}
+
+let queueOverride: SubmissionQueue | undefined;
+const sqsClients = new Map<string, SQSClient>();
+
+export function toQueuedAttachments(attachments: Attachment[]): QueuedAttachment[] {
+  return attachments.map(attachment => ({
+    filename: attachment.filename,
+    contentType: attachment.contentType,
+    content: attachment.content.toString('base64'),
+  }));
+}
+
+export function fromQueuedAttachments(attachments: QueuedAttachment[]): Attachment[] {
+  return attachments.map(attachment => ({
+    filename: attachment.filename,
+    contentType: attachment.contentType,
+    content: Buffer.from(attachment.content, 'base64'),
+  }));
+}
+
+export function serializeJob(job: SubmissionJob): string {
+  return JSON.stringify(job);
+}
+
+/**
+ * Parses a queue message body, rejecting anything that is not a submission job
+ */
+export function parseJob(body: string): SubmissionJob {
+  let job: Partial<SubmissionJob>;
+  try {
+    job = JSON.parse(body) as Partial<SubmissionJob>;
+  } catch {
+    throw new ContactFormError('Queue message is not valid JSON');
+  }
+
+  if (
+    job?.version !== SUBMISSION_JOB_VERSION ||
+    typeof job.submissionId !== 'string' ||
+    typeof job.formId !== 'string' ||
+    !job.request ||
+    !Array.isArray(job.attachments)
+  ) {
+    throw new ContactFormError('Queue message is not a submission job');
+  }
+
+  return job as SubmissionJob;
+}
+
+// Shared across invocations, like the EventBridge clients
+function getSqsClient(region: string): SQSClient {
+  const existing = sqsClients.get(region);
+  if (existing) {
+    return existing;
+  }
+
+  const client = new SQSClient({ region });
+  sqsClients.set(region, client);
+  return client;
+}
+
+/**
+ * Amazon SQS queue; the worker consumes it and a redrive policy moves
+ * repeatedly failing messages to the dead-letter queue
+ */
+export function createSqsQueue(queueUrl: string, region: string): SubmissionQueue {
+  return {
+    name: 'sqs',
+    async enqueue(job) {
+      await getSqsClient(region).send(
+        new SendMessageCommand({
+          QueueUrl: queueUrl,
+          MessageBody: serializeJob(job),
+          MessageAttributes: {
+            formId: { DataType: 'String', StringValue: job.formId },
+          },
+        })
+      );
+    },
+  };
+}
+
+/**
+ * In-memory stand-in that records jobs instead of sending them
+ */
+export function createMemoryQueue(): SubmissionQueue & { jobs: SubmissionJob[] } {
+  const jobs: SubmissionJob[] = [];
+
+  return {
+    name: 'memory',
+    jobs,
+    async enqueue(job) {
+      // Round-trip through JSON so tests see exactly what SQS would deliver
+      jobs.push(parseJob(serializeJob(job)));
+    },
+  };
+}
+
+/**
+ * Returns the override queue if one is set, otherwise the SQS queue at QUEUE_URL
+ */
+export function getSubmissionQueue(config: QueueConfig): SubmissionQueue {
+  if (queueOverride) {
+    return queueOverride;
+  }
+
+  if (!config.queueUrl) {
+    throw new ConfigurationError('QUEUE_URL must be set when DELIVERY_MODE is async');
+  }
+
+  return createSqsQueue(config.queueUrl, config.region);
+}
+
+/**
+ * Replace the configured queue (for tests and local tooling); pass undefined to reset
+ */
+export function setSubmissionQueue(queue: SubmissionQueue | undefined): void {
+  queueOverride = queue;
+}
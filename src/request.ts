@@ -0,0 +1,217 @@
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { ValidationError } from './errors';
+
+export type BodyKind = 'json' | 'urlencoded' | 'multipart';
+
+export interface UploadedFile {
+  fieldName: string;
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface DecodedBody {
+  kind: BodyKind;
+  data: unknown;
+  files: UploadedFile[];
+}
+
+const MAX_MULTIPART_PARTS = 100;
+
+// Decoding is memoized per event so redirect handling and validation share one parse.
+const decodedBodies = new WeakMap<APIGatewayProxyEvent, DecodedBody>();
+
+export function getHeaderValue(
+  event: APIGatewayProxyEvent,
+  headerName: string
+): string | undefined {
+  const target = headerName.toLowerCase();
+  const match = Object.entries(event.headers || {}).find(([key]) => key.toLowerCase() === target);
+  const value = match?.[1];
+
+  return typeof value === 'string' ? value : undefined;
+}
+
+function parseHeaderParams(value: string): { value: string; params: Record<string, string> } {
+  const [first, ...rest] = value.split(';');
+  const params: Record<string, string> = {};
+
+  for (const segment of rest) {
+    const separator = segment.indexOf('=');
+    if (separator === -1) {
+      continue;
+    }
+
+    const key = segment.slice(0, separator).trim().toLowerCase();
+    const rawValue = segment.slice(separator + 1).trim();
+    params[key] = rawValue.replace(/^"(.*)"$/, '$1');
+  }
+
+  return { value: first.trim().toLowerCase(), params };
+}
+
+/**
+ * Determines the body kind from the Content-Type header. Unknown or missing
+ * types fall back to JSON to preserve the original API contract.
+ */
+export function getBodyKind(event: APIGatewayProxyEvent): BodyKind {
+  const contentType = getHeaderValue(event, 'content-type');
+  if (!contentType) {
+    return 'json';
+  }
+
+  const { value } = parseHeaderParams(contentType);
+  if (value === 'application/x-www-form-urlencoded') {
+    return 'urlencoded';
+  }
+
+  if (value === 'multipart/form-data') {
+    return 'multipart';
+  }
+
+  return 'json';
+}
+
+/**
+ * HTML form posts (no JavaScript) expect a redirect instead of a JSON body
+ */
+export function isHtmlFormSubmission(event: APIGatewayProxyEvent): boolean {
+  return getBodyKind(event) !== 'json';
+}
+
+function getRawBody(event: APIGatewayProxyEvent): Buffer {
+  return Buffer.from(event.body || '', event.isBase64Encoded ? 'base64' : 'utf8');
+}
+
+// Repeated keys (e.g. checkbox groups) become arrays
+function appendValue(target: Record<string, unknown>, key: string, value: string): void {
+  if (!Object.prototype.hasOwnProperty.call(target, key)) {
+    target[key] = value;
+    return;
+  }
+
+  const existing = target[key];
+  target[key] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+}
+
+function parseUrlEncoded(raw: Buffer): Record<string, unknown> {
+  const data: Record<string, unknown> = Object.create(null);
+  for (const [key, value] of new URLSearchParams(raw.toString('utf8'))) {
+    appendValue(data, key, value);
+  }
+
+  return { ...data };
+}
+
+function parseMultipart(
+  raw: Buffer,
+  contentType: string
+): { data: Record<string, unknown>; files: UploadedFile[] } {
+  const { params } = parseHeaderParams(contentType);
+  const boundary = params.boundary;
+  if (!boundary) {
+    throw new ValidationError('Missing multipart boundary');
+  }
+
+  const delimiter = Buffer.from(`--${boundary}`);
+  const data: Record<string, unknown> = Object.create(null);
+  const files: UploadedFile[] = [];
+
+  let position = raw.indexOf(delimiter);
+  if (position === -1) {
+    throw new ValidationError('Malformed multipart body');
+  }
+
+  let parts = 0;
+  while (position !== -1) {
+    const partStart = position + delimiter.length;
+
+    // "--" after the delimiter marks the end of the body
+    if (raw.subarray(partStart, partStart + 2).toString() === '--') {
+      break;
+    }
+
+    const next = raw.indexOf(delimiter, partStart);
+    if (next === -1) {
+      throw new ValidationError('Malformed multipart body');
+    }
+
+    parts++;
+    if (parts > MAX_MULTIPART_PARTS) {
+      throw new ValidationError('Too many multipart parts');
+    }
+
+    // Each part is CRLF, headers, blank line, content, CRLF
+    const part = raw.subarray(partStart + 2, next - 2);
+    const headerEnd = part.indexOf('\r\n\r\n');
+    if (headerEnd === -1) {
+      throw new ValidationError('Malformed multipart body');
+    }
+
+    const headers: Record<string, string> = {};
+    for (const line of part.subarray(0, headerEnd).toString('utf8').split('\r\n')) {
+      const separator = line.indexOf(':');
+      if (separator > 0) {
+        headers[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+      }
+    }
+
+    const content = part.subarray(headerEnd + 4);
+    const disposition = parseHeaderParams(headers['content-disposition'] || '');
+    const fieldName = disposition.params.name;
+
+    if (disposition.value === 'form-data' && fieldName) {
+      if (disposition.params.filename !== undefined) {
+        // Browsers send an empty file part when no file was chosen
+        if (disposition.params.filename || content.length > 0) {
+          files.push({
+            fieldName,
+            filename: disposition.params.filename,
+            contentType: headers['content-type'] || 'application/octet-stream',
+            content: Buffer.from(content),
+          });
+        }
+      } else {
+        appendValue(data, fieldName, content.toString('utf8'));
+      }
+    }
+
+    position = next;
+  }
+
+  return { data: { ...data }, files };
+}
+
+/**
+ * Decodes the request body according to its content type, honoring isBase64Encoded
+ */
+export function decodeRequestBody(event: APIGatewayProxyEvent): DecodedBody {
+  const cached = decodedBodies.get(event);
+  if (cached) {
+    return cached;
+  }
+
+  if (!event.body) {
+    throw new ValidationError('Request body is required');
+  }
+
+  const kind = getBodyKind(event);
+  const raw = getRawBody(event);
+  let decoded: DecodedBody;
+
+  if (kind === 'urlencoded') {
+    decoded = { kind, data: parseUrlEncoded(raw), files: [] };
+  } else if (kind === 'multipart') {
+    const { data, files } = parseMultipart(raw, getHeaderValue(event, 'content-type') || '');
+    decoded = { kind, data, files };
+  } else {
+    try {
+      decoded = { kind, data: JSON.parse(raw.toString('utf8')), files: [] };
+    } catch {
+      throw new ValidationError('Invalid JSON in request body');
+    }
+  }
+
+  decodedBodies.set(event, decoded);
+  return decoded;
+}
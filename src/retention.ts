@@ -0,0 +1,232 @@
+import { Context } from 'aws-lambda';
+import { ContactFormError } from './errors';
+import { FormConfig, FormRetentionSettings, parseFormsConfig } from './forms';
+import { getSubmissionRepository, SubmissionRepository } from './submissions';
+
+// Get environment variables (read at runtime for testing flexibility)
+const getEnvVars = () => ({
+  AWS_REGION: process.env.AWS_REGION || 'us-east-1',
+  SUBMISSIONS_TABLE: process.env.SUBMISSIONS_TABLE,
+  SUBMISSIONS_PARTITION_KEY: process.env.SUBMISSIONS_PARTITION_KEY,
+  FORMS_CONFIG: process.env.FORMS_CONFIG,
+  RETENTION_DAYS: process.env.RETENTION_DAYS,
+  RETENTION_ACTION: process.env.RETENTION_ACTION,
+  RETENTION_DRY_RUN: process.env.RETENTION_DRY_RUN,
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RETENTION_PAGE_SIZE = 100;
+// Stop starting new work when less time than this is left; the next run picks up the rest
+const RETENTION_TIME_RESERVE_MS = 10_000;
+// Dry runs list at most this many IDs per policy
+export const DRY_RUN_SAMPLE_SIZE = 50;
+
+export interface RetentionPolicy extends FormRetentionSettings {
+  // Undefined for the default policy, which covers forms without their own
+  formId?: string;
+}
+
+export interface RetentionPolicyReport {
+  formId: string;
+  days: number;
+  action: FormRetentionSettings['action'];
+  cutoff: string;
+  // Expired records found
+  matched: number;
+  // Records deleted or anonymized (always 0 in a dry run)
+  processed: number;
+  sampleIds?: string[];
+}
+
+export interface RetentionReport {
+  dryRun: boolean;
+  startedAt: string;
+  // False when the run stopped early to stay inside the Lambda timeout
+  complete: boolean;
+  policies: RetentionPolicyReport[];
+}
+
+export interface PurgeOptions {
+  dryRun?: boolean;
+  now?: Date;
+  getRemainingTimeInMillis?: () => number;
+}
+
+/**
+ * Reads the default policy from RETENTION_DAYS and RETENTION_ACTION; without
+ * RETENTION_DAYS, forms without their own policy are kept indefinitely
+ */
+export function parseDefaultRetention(
+  days: string | undefined,
+  action: string | undefined
+): FormRetentionSettings | undefined {
+  if (!days || !days.trim()) {
+    return undefined;
+  }
+
+  const parsedDays = Number(days);
+  if (!Number.isInteger(parsedDays) || parsedDays < 1 || parsedDays > 3650) {
+    throw new ContactFormError('RETENTION_DAYS must be a whole number of days between 1 and 3650');
+  }
+
+  const parsedAction = action?.trim() || 'delete';
+  if (parsedAction !== 'delete' && parsedAction !== 'anonymize') {
+    throw new ContactFormError('RETENTION_ACTION must be delete or anonymize');
+  }
+
+  return { days: parsedDays, action: parsedAction };
+}
+
+/**
+ * Lists the per-form policies from FORMS_CONFIG, followed by the default policy
+ */
+export function resolveRetentionPolicies(
+  forms: Record<string, FormConfig>,
+  defaultPolicy?: FormRetentionSettings
+): RetentionPolicy[] {
+  const policies: RetentionPolicy[] = Object.entries(forms).flatMap(([formId, config]) =>
+    config.retention ? [{ formId, ...config.retention }] : []
+  );
+
+  return defaultPolicy ? [...policies, defaultPolicy] : policies;
+}
+
+async function findExpiredIds(
+  repository: SubmissionRepository,
+  policy: RetentionPolicy,
+  cutoff: string,
+  excludedForms: Set<string>
+): Promise<string[]> {
+  const ids: string[] = [];
+  let cursor: string | undefined;
+
+  // IDs are collected before anything changes, so deletes cannot shift the cursor
+  do {
+    const page = await repository.list({
+      formId: policy.formId,
+      to: cutoff,
+      limit: RETENTION_PAGE_SIZE,
+      cursor,
+    });
+    for (const record of page.items) {
+      if (excludedForms.has(record.formId)) {
+        continue;
+      }
+      if (policy.action === 'anonymize' && record.metadata.erasedAt) {
+        continue;
+      }
+      ids.push(record.id);
+    }
+    cursor = page.cursor;
+  } while (cursor);
+
+  return ids;
+}
+
+/**
+ * Deletes or anonymizes archived submissions older than their form's
+ * retention period. A dry run only reports what would be purged.
+ */
+export async function purgeExpiredSubmissions(
+  repository: SubmissionRepository,
+  policies: RetentionPolicy[],
+  options: PurgeOptions = {}
+): Promise<RetentionReport> {
+  const now = options.now ?? new Date();
+  const dryRun = options.dryRun ?? false;
+  const hasTime = () =>
+    (options.getRemainingTimeInMillis?.() ?? Infinity) > RETENTION_TIME_RESERVE_MS;
+  // The default policy must not touch forms that have their own
+  const formsWithPolicies = new Set(policies.flatMap(policy => policy.formId ?? []));
+  const report: RetentionReport = {
+    dryRun,
+    startedAt: now.toISOString(),
+    complete: true,
+    policies: [],
+  };
+
+  for (const policy of policies) {
+    if (!hasTime()) {
+      report.complete = false;
+      break;
+    }
+
+    const cutoff = new Date(now.getTime() - policy.days * DAY_MS).toISOString();
+    const ids = await findExpiredIds(
+      repository,
+      policy,
+      cutoff,
+      policy.formId ? new Set() : formsWithPolicies
+    );
+    const entry: RetentionPolicyReport = {
+      formId: policy.formId ?? '*',
+      days: policy.days,
+      action: policy.action,
+      cutoff,
+      matched: ids.length,
+      processed: 0,
+    };
+    report.policies.push(entry);
+
+    if (dryRun) {
+      entry.sampleIds = ids.slice(0, DRY_RUN_SAMPLE_SIZE);
+      continue;
+    }
+
+    for (const id of ids) {
+      if (!hasTime()) {
+        report.complete = false;
+        break;
+      }
+
+      const processed =
+        policy.action === 'anonymize'
+          ? await repository.anonymize(id, now.toISOString())
+          : await repository.delete(id);
+      entry.processed += processed ? 1 : 0;
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Scheduled handler that applies the retention policies to the submission
+ * archive. Set RETENTION_DRY_RUN=true, or invoke with {"dryRun": true}, to
+ * only log what would be purged.
+ */
+export const purge = async (
+  event?: { dryRun?: boolean },
+  context?: Context
+): Promise<RetentionReport> => {
+  const {
+    AWS_REGION,
+    SUBMISSIONS_TABLE,
+    SUBMISSIONS_PARTITION_KEY,
+    FORMS_CONFIG,
+    RETENTION_DAYS,
+    RETENTION_ACTION,
+    RETENTION_DRY_RUN,
+  } = getEnvVars();
+
+  const repository = getSubmissionRepository({
+    tableName: SUBMISSIONS_TABLE,
+    region: AWS_REGION,
+    partitionKeyName: SUBMISSIONS_PARTITION_KEY || 'id',
+  });
+  if (!repository) {
+    throw new ContactFormError('SUBMISSIONS_TABLE is not configured');
+  }
+
+  const policies = resolveRetentionPolicies(
+    parseFormsConfig(FORMS_CONFIG),
+    parseDefaultRetention(RETENTION_DAYS, RETENTION_ACTION)
+  );
+  const report = await purgeExpiredSubmissions(repository, policies, {
+    dryRun: event?.dryRun ?? RETENTION_DRY_RUN?.trim().toLowerCase() === 'true',
+    getRemainingTimeInMillis: context && (() => context.getRemainingTimeInMillis()),
+  });
+
+  console.log('Retention run finished:', report);
+  return report;
+};
@@ -0,0 +1,159 @@
+export type ErrorClass = 'throttled' | 'retryable' | 'permanent';
+
+interface ProviderErrorShape {
+  name?: string;
+  code?: string;
+  responseCode?: number;
+  $metadata?: { httpStatusCode?: number };
+  $retryable?: { throttling?: boolean };
+}
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  // Throttling backs off from a larger base so the sending rate can recover
+  throttledBaseDelayMs: number;
+  maxDelayMs: number;
+  // Time kept free for building the response after the last attempt
+  reserveMs: number;
+  getRemainingTimeInMillis?: () => number;
+  // Defaults to classifyEmailError
+  classify?: (error: unknown) => ErrorClass;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 3,
+  baseDelayMs: 100,
+  throttledBaseDelayMs: 500,
+  maxDelayMs: 2000,
+  reserveMs: 3000,
+};
+
+const throttledCodes = new Set([
+  'Throttling',
+  'ThrottlingException',
+  'TooManyRequestsException',
+  'LimitExceededException',
+  'RequestThrottled',
+]);
+
+const retryableCodes = new Set([
+  'ServiceUnavailable',
+  'ServiceUnavailableException',
+  'InternalFailure',
+  'InternalServerError',
+  'InternalServiceError',
+  'RequestTimeout',
+  'RequestTimeoutException',
+  'TimeoutError',
+  'NetworkingError',
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'EPIPE',
+  'ESOCKET',
+  'ECONNECTION',
+]);
+
+/**
+ * Sorts provider errors (SES v1/v2 SDK errors, SMTP and network errors) into
+ * throttled, retryable and permanent groups. Unrecognized errors are treated as
+ * permanent so an ambiguous failure is never sent twice.
+ */
+export function classifyEmailError(error: unknown): ErrorClass {
+  if (!error || typeof error !== 'object') {
+    return 'permanent';
+  }
+
+  const { name, code, responseCode, $metadata, $retryable } = error as ProviderErrorShape;
+  const status = $metadata?.httpStatusCode;
+
+  if (
+    (name && throttledCodes.has(name)) ||
+    (code && throttledCodes.has(code)) ||
+    status === 429 ||
+    $retryable?.throttling
+  ) {
+    return 'throttled';
+  }
+
+  if (
+    (name && retryableCodes.has(name)) ||
+    (code && retryableCodes.has(code)) ||
+    (status !== undefined && status >= 500) ||
+    $retryable !== undefined ||
+    // SMTP 4xx replies are transient by definition
+    (responseCode !== undefined && responseCode >= 400 && responseCode < 500)
+  ) {
+    return 'retryable';
+  }
+
+  return 'permanent';
+}
+
+/**
+ * Full-jitter exponential backoff: a random delay up to base * 2^(attempt - 1)
+ */
+export function getBackoffDelay(
+  attempt: number,
+  errorClass: ErrorClass,
+  options: RetryOptions
+): number {
+  const base = errorClass === 'throttled' ? options.throttledBaseDelayMs : options.baseDelayMs;
+  const ceiling = Math.min(options.maxDelayMs, base * 2 ** (attempt - 1));
+  const random = options.random ?? Math.random;
+
+  return Math.floor(random() * ceiling);
+}
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+export class RetryExhaustedError extends Error {
+  constructor(
+    public readonly cause: unknown,
+    public readonly errorClass: ErrorClass,
+    public readonly attempts: number
+  ) {
+    super(cause instanceof Error ? cause.message : String(cause));
+    this.name = 'RetryExhaustedError';
+  }
+}
+
+/**
+ * Runs the operation, retrying throttled and retryable failures with backoff
+ * while the Lambda has time left for another attempt. Throws a
+ * RetryExhaustedError carrying the last error and its classification.
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  overrides: Partial<RetryOptions> = {}
+): Promise<T> {
+  const options = { ...DEFAULT_RETRY_OPTIONS, ...overrides };
+  const sleep = options.sleep ?? defaultSleep;
+
+  for (let attempt = 1; ; attempt++) {
+    const startedAt = Date.now();
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      const errorClass = (options.classify ?? classifyEmailError)(error);
+      if (errorClass === 'permanent' || attempt >= options.maxAttempts) {
+        throw new RetryExhaustedError(error, errorClass, attempt);
+      }
+
+      const delay = getBackoffDelay(attempt, errorClass, options);
+      const attemptDuration = Date.now() - startedAt;
+      const remaining = options.getRemainingTimeInMillis?.();
+      // Assume the next attempt takes as long as this one did
+      if (remaining !== undefined && remaining - delay - attemptDuration < options.reserveMs) {
+        throw new RetryExhaustedError(error, errorClass, attempt);
+      }
+
+      console.warn('Retrying after failure:', { attempt, errorClass, delay });
+      await sleep(delay);
+    }
+  }
+}
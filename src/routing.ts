@@ -0,0 +1,181 @@
+import { z } from 'zod';
+import { ContactFormRequest, FieldValue } from './types';
+
+const emailListSchema = z.array(z.string().trim().email()).min(1).max(50);
+
+export const routingConditionSchema = z
+  .object({
+    // Any submitted field name, or one of: origin, emailDomain, formId
+    field: z.string().min(1).max(64),
+    equals: z.string().optional(),
+    contains: z.string().min(1).optional(),
+    endsWith: z.string().min(1).optional(),
+    in: z.array(z.string()).min(1).max(100).optional(),
+    matches: z.string().min(1).max(200).optional(),
+  })
+  .superRefine((condition, ctx) => {
+    const operators = ['equals', 'contains', 'endsWith', 'in', 'matches'] as const;
+    const used = operators.filter(operator => condition[operator] !== undefined);
+
+    if (used.length !== 1) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Conditions need exactly one of ${operators.join(', ')}`,
+      });
+    }
+
+    if (condition.matches !== undefined) {
+      try {
+        new RegExp(condition.matches, 'i');
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'matches is not a valid RegExp' });
+      }
+    }
+  });
+
+export const routingRuleSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100).optional(),
+    when: z.array(routingConditionSchema).max(20).default([]),
+    mode: z.enum(['add', 'set']).default('add'),
+    to: emailListSchema.optional(),
+    cc: emailListSchema.optional(),
+    bcc: emailListSchema.optional(),
+    stop: z.boolean().default(false),
+  })
+  .refine(rule => rule.to || rule.cc || rule.bcc, 'Rules need to, cc or bcc recipients');
+
+export const routingRulesSchema = z.array(routingRuleSchema).max(50);
+
+export type RoutingCondition = z.infer<typeof routingConditionSchema>;
+export type RoutingRule = z.infer<typeof routingRuleSchema>;
+
+export interface RoutingInput {
+  request: ContactFormRequest;
+  formId: string;
+  origin?: string;
+}
+
+export interface RoutedRecipients {
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  matchedRules: string[];
+}
+
+function getRoutingValues(input: RoutingInput): Record<string, FieldValue | undefined> {
+  const { request } = input;
+
+  return {
+    ...(request.fields ?? {}),
+    name: request.name,
+    email: request.email,
+    subject: request.subject,
+    content: request.content,
+    emailDomain: request.email.split('@').pop(),
+    origin: input.origin,
+    formId: input.formId,
+  };
+}
+
+function matchesValue(condition: RoutingCondition, value: string): boolean {
+  const actual = value.toLowerCase();
+
+  if (condition.equals !== undefined) {
+    return actual === condition.equals.toLowerCase();
+  }
+  if (condition.contains !== undefined) {
+    return actual.includes(condition.contains.toLowerCase());
+  }
+  if (condition.endsWith !== undefined) {
+    return actual.endsWith(condition.endsWith.toLowerCase());
+  }
+  if (condition.in !== undefined) {
+    return condition.in.some(candidate => candidate.toLowerCase() === actual);
+  }
+  if (condition.matches !== undefined) {
+    return new RegExp(condition.matches, 'i').test(value);
+  }
+
+  return false;
+}
+
+/**
+ * Tests one condition. Multi-value fields match when any of their values does.
+ */
+export function matchesCondition(
+  condition: RoutingCondition,
+  values: Record<string, FieldValue | undefined>
+): boolean {
+  const value = Object.prototype.hasOwnProperty.call(values, condition.field)
+    ? values[condition.field]
+    : undefined;
+
+  if (value === undefined) {
+    return false;
+  }
+
+  const candidates = Array.isArray(value) ? value : [String(value)];
+  return candidates.some(candidate => matchesValue(condition, candidate));
+}
+
+function unique(addresses: string[], exclude: Set<string>): string[] {
+  const result: string[] = [];
+
+  for (const address of addresses) {
+    const key = address.toLowerCase();
+    if (!exclude.has(key)) {
+      exclude.add(key);
+      result.push(address);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Applies routing rules in order to the form's recipients. "add" rules append
+ * recipients, "set" rules replace the lists they name, and "stop" ends
+ * evaluation. An address appears only once, in the first of To, CC and BCC.
+ */
+export function routeRecipients(
+  recipients: string[],
+  rules: RoutingRule[] | undefined,
+  input: RoutingInput
+): RoutedRecipients {
+  let to = [...recipients];
+  let cc: string[] = [];
+  let bcc: string[] = [];
+  const matchedRules: string[] = [];
+  const values = getRoutingValues(input);
+
+  for (const [index, rule] of (rules ?? []).entries()) {
+    if (!rule.when.every(condition => matchesCondition(condition, values))) {
+      continue;
+    }
+
+    matchedRules.push(rule.name ?? `rule-${index + 1}`);
+
+    if (rule.mode === 'set') {
+      to = rule.to ?? to;
+      cc = rule.cc ?? cc;
+      bcc = rule.bcc ?? bcc;
+    } else {
+      to = [...to, ...(rule.to ?? [])];
+      cc = [...cc, ...(rule.cc ?? [])];
+      bcc = [...bcc, ...(rule.bcc ?? [])];
+    }
+
+    if (rule.stop) {
+      break;
+    }
+  }
+
+  const seen = new Set<string>();
+  return {
+    to: unique(to, seen),
+    cc: unique(cc, seen),
+    bcc: unique(bcc, seen),
+    matchedRules,
+  };
+}
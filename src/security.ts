@@ -1,18 +1,42 @@
+import { createHmac } from 'crypto';
 import { APIGatewayProxyEvent } from 'aws-lambda';
-import { DynamoDBClient, PutItemCommand, UpdateItemCommand } from '@aws-sdk/client-dynamodb';
-
-interface RateLimitConfig {
+import {
+  AttributeValue,
+  DeleteItemCommand,
+  DynamoDBClient,
+  GetItemCommand,
+  PutItemCommand,
+  ScanCommand,
+  UpdateItemCommand,
+} from '@aws-sdk/client-dynamodb';
+import { ContactFormRequest, FieldValue } from './types';
+
+export interface RateLimitConfig {
   maxRequests: number;
   windowMs: number;
+  // Optional namespace so each form keeps its own counters per IP
+  scope?: string;
 }
 
-interface DistributedRateLimitConfig extends RateLimitConfig {
+export interface DistributedRateLimitConfig extends RateLimitConfig {
   tableName: string;
   region: string;
   partitionKeyName: string;
   failOpen: boolean;
 }
 
+export interface KeyTableConfig {
+  tableName?: string;
+  region: string;
+  partitionKeyName: string;
+}
+
+export interface StoredKey {
+  key: string;
+  // Unix seconds
+  expiresAt?: number;
+}
+
 interface IdempotencyConfig {
   ttlMs: number;
   tableName?: string;
@@ -34,7 +58,10 @@ if (process.env.NODE_ENV !== 'test' && !process.env.RATE_LIMIT_TABLE) {
   );
 }
 
-function getClientIp(event: APIGatewayProxyEvent): string {
+/**
+ * Client IP from X-Forwarded-For or the API Gateway request context
+ */
+export function getClientIp(event: APIGatewayProxyEvent): string {
   const forwardedFor = event.headers?.['x-forwarded-for'] || event.headers?.['X-Forwarded-For'];
   if (forwardedFor) {
     const firstIp = forwardedFor.split(',')[0]?.trim();
@@ -57,6 +84,15 @@ function getClientIp(event: APIGatewayProxyEvent): string {
   return httpSourceIp || 'unknown';
 }
 
+function getRateLimitKey(event: APIGatewayProxyEvent, scope?: string): string {
+  const clientIp = getClientIp(event);
+  return scope ? `${scope}#${clientIp}` : clientIp;
+}
+
+function getRecipientRateLimitKey(recipient: string, scope?: string): string {
+  return `${scope || 'recipient'}#${recipient.trim().toLowerCase()}`;
+}
+
 function normalizeAllowedOrigins(allowedDomain: string): string[] {
   return allowedDomain
     .split(',')
@@ -64,7 +100,10 @@ function normalizeAllowedOrigins(allowedDomain: string): string[] {
     .filter(Boolean);
 }
 
-function getDynamoClient(region: string): DynamoDBClient {
+/**
+ * Returns a DynamoDB client for the region, shared across invocations
+ */
+export function getDynamoClient(region: string): DynamoDBClient {
   const existing = dynamoClients.get(region);
   if (existing) {
     return existing;
@@ -91,7 +130,7 @@ function cleanupIdempotencyCache(now: number): void {
   }
 }
 
-function isConditionalCheckFailure(error: unknown): boolean {
+export function isConditionalCheckFailure(error: unknown): boolean {
   return (
     typeof error === 'object' &&
     error !== null &&
@@ -159,11 +198,7 @@ export async function checkAndStoreIdempotencyKey(
   }
 }
 
-/**
- * Simple rate limiting based on IP address
- */
-export function checkRateLimit(event: APIGatewayProxyEvent, config: RateLimitConfig): boolean {
-  const clientIP = getClientIp(event);
+function consumeRateLimit(key: string, config: RateLimitConfig): boolean {
   const now = Date.now();
 
   // Opportunistic cleanup keeps memory bounded without a separate scheduler.
@@ -171,11 +206,11 @@ export function checkRateLimit(event: APIGatewayProxyEvent, config: RateLimitCon
     cleanupRateLimit(config.windowMs);
   }
 
-  const existing = requestCounts.get(clientIP);
+  const existing = requestCounts.get(key);
 
   if (!existing || now - existing.windowStart > config.windowMs) {
     // New window or first request
-    requestCounts.set(clientIP, { count: 1, windowStart: now });
+    requestCounts.set(key, { count: 1, windowStart: now });
     return true;
   }
 
@@ -188,19 +223,39 @@ export function checkRateLimit(event: APIGatewayProxyEvent, config: RateLimitCon
 }
 
 /**
- * Distributed rate limiting backed by DynamoDB.
- * Table requirements:
- * - Partition key (string): default attribute name `id`
- * - TTL attribute (number): `expiresAt` (optional but recommended)
+ * Simple rate limiting based on IP address
  */
-export async function checkRateLimitDistributed(
-  event: APIGatewayProxyEvent,
+export function checkRateLimit(event: APIGatewayProxyEvent, config: RateLimitConfig): boolean {
+  return consumeRateLimit(getRateLimitKey(event, config.scope), config);
+}
+
+/**
+ * Requests the client has made in the current window, without counting this one
+ */
+export function getRateLimitUsage(event: APIGatewayProxyEvent, config: RateLimitConfig): number {
+  const existing = requestCounts.get(getRateLimitKey(event, config.scope));
+  if (!existing || Date.now() - existing.windowStart > config.windowMs) {
+    return 0;
+  }
+
+  return existing.count;
+}
+
+/**
+ * Rate limiting per email recipient (e.g. auto-replies), so one address cannot
+ * be flooded from many client IPs
+ */
+export function checkRecipientRateLimit(recipient: string, config: RateLimitConfig): boolean {
+  return consumeRateLimit(getRecipientRateLimitKey(recipient, config.scope), config);
+}
+
+async function consumeRateLimitDistributed(
+  rateLimitKey: string,
   config: DistributedRateLimitConfig
 ): Promise<boolean> {
-  const clientIp = getClientIp(event);
   const now = Date.now();
   const windowBucket = Math.floor(now / config.windowMs);
-  const key = `${clientIp}#${windowBucket}`;
+  const key = `${rateLimitKey}#${windowBucket}`;
   const expiresAt = Math.floor(now / 1000) + Math.ceil((config.windowMs * 2) / 1000);
 
   try {
@@ -234,6 +289,174 @@ export async function checkRateLimitDistributed(
   }
 }
 
+/**
+ * Distributed rate limiting backed by DynamoDB.
+ * Table requirements:
+ * - Partition key (string): default attribute name `id`
+ * - TTL attribute (number): `expiresAt` (optional but recommended)
+ */
+export async function checkRateLimitDistributed(
+  event: APIGatewayProxyEvent,
+  config: DistributedRateLimitConfig
+): Promise<boolean> {
+  return consumeRateLimitDistributed(getRateLimitKey(event, config.scope), config);
+}
+
+/**
+ * Distributed variant of getRateLimitUsage; store errors count as no usage
+ */
+export async function getRateLimitUsageDistributed(
+  event: APIGatewayProxyEvent,
+  config: DistributedRateLimitConfig
+): Promise<number> {
+  const windowBucket = Math.floor(Date.now() / config.windowMs);
+
+  try {
+    const result = await getDynamoClient(config.region).send(
+      new GetItemCommand({
+        TableName: config.tableName,
+        Key: {
+          [config.partitionKeyName]: {
+            S: `${getRateLimitKey(event, config.scope)}#${windowBucket}`,
+          },
+        },
+      })
+    );
+
+    return Number(result.Item?.count?.N ?? '0');
+  } catch (error) {
+    console.error('Distributed rate limit error:', error);
+    return 0;
+  }
+}
+
+/**
+ * Distributed variant of checkRecipientRateLimit using the same table
+ */
+export async function checkRecipientRateLimitDistributed(
+  recipient: string,
+  config: DistributedRateLimitConfig
+): Promise<boolean> {
+  return consumeRateLimitDistributed(getRecipientRateLimitKey(recipient, config.scope), config);
+}
+
+async function deleteTableKeys(keys: string[], config: KeyTableConfig & { tableName: string }) {
+  let deleted = 0;
+  for (const key of keys) {
+    const result = await getDynamoClient(config.region).send(
+      new DeleteItemCommand({
+        TableName: config.tableName,
+        Key: { [config.partitionKeyName]: { S: key } },
+        ReturnValues: 'ALL_OLD',
+      })
+    );
+    deleted += result.Attributes ? 1 : 0;
+  }
+
+  return deleted;
+}
+
+/**
+ * Looks up idempotency records by key, for data-subject access requests
+ */
+export async function findIdempotencyRecords(
+  keys: string[],
+  config: KeyTableConfig
+): Promise<StoredKey[]> {
+  const { tableName } = config;
+  if (!tableName) {
+    return keys.flatMap(key => {
+      const expiresAt = idempotencyCache.get(key);
+      return expiresAt ? [{ key, expiresAt: Math.floor(expiresAt / 1000) }] : [];
+    });
+  }
+
+  const records: StoredKey[] = [];
+  for (const key of keys) {
+    const result = await getDynamoClient(config.region).send(
+      new GetItemCommand({
+        TableName: tableName,
+        Key: { [config.partitionKeyName]: { S: key } },
+      })
+    );
+    if (result.Item) {
+      records.push({ key, expiresAt: Number(result.Item.expiresAt?.N) || undefined });
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Deletes idempotency records and returns how many existed
+ */
+export async function deleteIdempotencyRecords(
+  keys: string[],
+  config: KeyTableConfig
+): Promise<number> {
+  const { tableName } = config;
+  if (!tableName) {
+    return keys.filter(key => idempotencyCache.delete(key)).length;
+  }
+
+  return deleteTableKeys(keys, { ...config, tableName });
+}
+
+/**
+ * Finds the per-recipient rate limit counters (e.g. auto-replies) for an
+ * address. The DynamoDB variant scans the table, which TTL keeps small.
+ */
+export async function findRecipientRateLimitKeys(
+  email: string,
+  config: KeyTableConfig
+): Promise<StoredKey[]> {
+  const recipient = email.trim().toLowerCase();
+  const { tableName } = config;
+  if (!tableName) {
+    return [...requestCounts.keys()]
+      .filter(key => key.endsWith(`#${recipient}`))
+      .map(key => ({ key }));
+  }
+
+  const keys: StoredKey[] = [];
+  let startKey: Record<string, AttributeValue> | undefined;
+  do {
+    const result = await getDynamoClient(config.region).send(
+      new ScanCommand({
+        TableName: tableName,
+        // Distributed keys look like "<scope>#<recipient>#<window>"
+        FilterExpression: 'contains(#pk, :recipient)',
+        ProjectionExpression: '#pk, expiresAt',
+        ExpressionAttributeNames: { '#pk': config.partitionKeyName },
+        ExpressionAttributeValues: { ':recipient': { S: `#${recipient}#` } },
+        ExclusiveStartKey: startKey,
+      })
+    );
+
+    for (const item of result.Items ?? []) {
+      const key = item[config.partitionKeyName]?.S;
+      if (key) {
+        keys.push({ key, expiresAt: Number(item.expiresAt?.N) || undefined });
+      }
+    }
+    startKey = result.LastEvaluatedKey;
+  } while (startKey);
+
+  return keys;
+}
+
+/**
+ * Deletes rate limit counters and returns how many existed
+ */
+export async function deleteRateLimitKeys(keys: string[], config: KeyTableConfig): Promise<number> {
+  const { tableName } = config;
+  if (!tableName) {
+    return keys.filter(key => requestCounts.delete(key)).length;
+  }
+
+  return deleteTableKeys(keys, { ...config, tableName });
+}
+
 /**
  * Clean up old rate limit entries (should be called periodically)
  */
@@ -265,6 +488,51 @@ export function sanitizeInput(input: string): string {
     .trim();
 }
 
+/**
+ * Sanitize every string in a set of custom field values
+ */
+export function sanitizeFields(
+  fields: Record<string, FieldValue> | undefined
+): Record<string, FieldValue> | undefined {
+  if (!fields) {
+    return undefined;
+  }
+
+  return Object.fromEntries(
+    Object.entries(fields).map(([key, value]) => {
+      if (typeof value === 'string') {
+        return [key, sanitizeInput(value)];
+      }
+      if (Array.isArray(value)) {
+        return [key, value.map(item => sanitizeInput(item))];
+      }
+      return [key, value];
+    })
+  );
+}
+
+/**
+ * HTML-escape every free-text value of a submission; the email address is
+ * already validated
+ */
+export function sanitizeRequest(request: ContactFormRequest): ContactFormRequest {
+  return {
+    email: request.email,
+    name: sanitizeInput(request.name),
+    content: sanitizeInput(request.content),
+    subject: request.subject ? sanitizeInput(request.subject) : undefined,
+    fields: sanitizeFields(request.fields),
+  };
+}
+
+/**
+ * Keyed one-way hash for storing client IPs. There is no unkeyed variant: the
+ * whole IPv4 range can be hashed in minutes, so a plain hash reveals the IP.
+ */
+export function hashIpAddress(ip: string, secret: string): string {
+  return createHmac('sha256', secret).update(ip).digest('hex');
+}
+
 /**
  * Validate origin against allowed domains
  */
@@ -304,6 +572,30 @@ export function validateOrigin(origin: string | undefined, allowedDomain: string
   });
 }
 
+/**
+ * Check a post-submit redirect target against the allow-list. Unlike CORS
+ * origins, a bare "*" never allows arbitrary targets (open redirect).
+ */
+export function isAllowedRedirect(target: string, allowList: string): boolean {
+  let targetUrl: URL;
+  try {
+    targetUrl = new URL(target);
+  } catch {
+    return false;
+  }
+
+  if (targetUrl.protocol !== 'https:' && targetUrl.protocol !== 'http:') {
+    return false;
+  }
+
+  const allowedOrigins = normalizeAllowedOrigins(allowList).filter(entry => entry !== '*');
+  if (allowedOrigins.length === 0) {
+    return false;
+  }
+
+  return validateOrigin(targetUrl.origin, allowedOrigins.join(','));
+}
+
 /**
  * Check if the request contains suspicious patterns
  */
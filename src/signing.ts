@@ -0,0 +1,63 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { ConfigurationError } from './errors';
+
+const MIN_SECRET_LENGTH = 32;
+
+export type SignedPayloadResult =
+  | { success: true; data: unknown }
+  | { success: false; reason: 'malformed' | 'invalid_signature' };
+
+/**
+ * Reads a signing secret variable. Several comma-separated secrets allow
+ * rotation: the first signs, all of them verify.
+ */
+export function parseSigningSecrets(raw: string | undefined, variable: string): string[] {
+  const secrets = (raw ?? '')
+    .split(',')
+    .map(secret => secret.trim())
+    .filter(Boolean);
+
+  if (secrets.some(secret => secret.length < MIN_SECRET_LENGTH)) {
+    throw new ConfigurationError(
+      `${variable} values must be at least ${MIN_SECRET_LENGTH} characters`
+    );
+  }
+  return secrets;
+}
+
+function sign(payload: string, secret: string): Buffer {
+  return createHmac('sha256', secret).update(payload).digest();
+}
+
+/**
+ * Serializes data as base64url JSON followed by its HMAC-SHA256 signature
+ */
+export function signPayload(data: unknown, secret: string): string {
+  const payload = Buffer.from(JSON.stringify(data)).toString('base64url');
+  return `${payload}.${sign(payload, secret).toString('base64url')}`;
+}
+
+/**
+ * Checks the signature against every secret and decodes the JSON payload
+ */
+export function openSignedPayload(token: string, secrets: string[]): SignedPayloadResult {
+  const [payload, signature, ...rest] = token.trim().split('.');
+  if (!payload || !signature || rest.length > 0) {
+    return { success: false, reason: 'malformed' };
+  }
+
+  const provided = Buffer.from(signature, 'base64url');
+  const signed = secrets.some(secret => {
+    const expected = sign(payload, secret);
+    return provided.length === expected.length && timingSafeEqual(provided, expected);
+  });
+  if (!signed) {
+    return { success: false, reason: 'invalid_signature' };
+  }
+
+  try {
+    return { success: true, data: JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) };
+  } catch {
+    return { success: false, reason: 'malformed' };
+  }
+}
@@ -0,0 +1,302 @@
+import { z } from 'zod';
+import { classifySpam, getRequestText, SpamModel } from './classifier';
+import { detectSuspiciousActivity } from './security';
+import { ContactFormRequest } from './types';
+
+export const BUILTIN_SPAM_RULES = [
+  'markup',
+  'links',
+  'link_in_name',
+  'url_only',
+  'keywords',
+  'repeated_characters',
+  'classifier',
+] as const;
+
+export type BuiltinSpamRule = (typeof BUILTIN_SPAM_RULES)[number];
+
+// Score added per hit; markup alone is enough to reject, as before scoring existed
+export const DEFAULT_SPAM_WEIGHTS: Record<BuiltinSpamRule, number> = {
+  markup: 10,
+  links: 1,
+  link_in_name: 5,
+  url_only: 4,
+  keywords: 2,
+  repeated_characters: 2,
+  classifier: 5,
+};
+
+export const DEFAULT_SPAM_KEYWORDS = [
+  'seo',
+  'backlinks',
+  'search engine optimization',
+  'first page of google',
+  'web traffic',
+  'guest post',
+  'bitcoin',
+  'crypto',
+  'cryptocurrency',
+  'forex',
+  'casino',
+  'viagra',
+];
+
+export const DEFAULT_QUARANTINE_SCORE = 5;
+export const DEFAULT_REJECT_SCORE = 10;
+// Links beyond this many each count as one hit
+export const DEFAULT_MAX_LINKS = 2;
+// Classifier probability from which the classifier rule matches
+export const DEFAULT_CLASSIFIER_THRESHOLD = 0.9;
+
+const ruleIdPattern = /^[a-z0-9_-]{1,64}$/;
+
+function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const spamSettingsSchema = z
+  .object({
+    quarantineScore: z.number().positive().max(1000).optional(),
+    rejectScore: z.number().positive().max(1000).optional(),
+    // Weight per hit for built-in rules; 0 turns a rule off
+    weights: z.record(z.enum(BUILTIN_SPAM_RULES), z.number().min(0).max(100)).optional(),
+    // Replaces the default keyword list
+    keywords: z.array(z.string().trim().toLowerCase().min(1).max(100)).max(200).optional(),
+    maxLinks: z.number().int().min(0).max(50).optional(),
+    classifierThreshold: z.number().min(0.5).max(1).optional(),
+    // Extra rules matched case-insensitively against every text field
+    patterns: z
+      .array(
+        z.object({
+          id: z.string().regex(ruleIdPattern, 'Rule IDs may only contain a-z, 0-9, _ and -'),
+          pattern: z.string().min(1).max(500).refine(isValidPattern, 'Invalid regular expression'),
+          weight: z.number().min(0).max(100),
+        })
+      )
+      .max(50)
+      .optional(),
+  })
+  .refine(
+    settings =>
+      settings.quarantineScore === undefined ||
+      settings.rejectScore === undefined ||
+      settings.quarantineScore <= settings.rejectScore,
+    { message: 'quarantineScore must not exceed rejectScore', path: ['quarantineScore'] }
+  );
+
+export type SpamSettings = z.infer<typeof spamSettingsSchema>;
+
+export type SpamAction = 'accept' | 'quarantine' | 'reject';
+
+export interface SpamReason {
+  rule: string;
+  score: number;
+  detail: string;
+}
+
+export interface SpamAssessment {
+  score: number;
+  action: SpamAction;
+  // Rules that added to the score, in evaluation order
+  reasons: SpamReason[];
+  // Classifier spam probability, when a model is loaded
+  probability?: number;
+}
+
+export interface SpamRule {
+  id: string;
+  weight: number;
+  // Resolves the number of hits and a description, or undefined when the rule does not match
+  evaluate(text: SpamText): { hits: number; detail: string } | undefined;
+}
+
+interface SpamText {
+  name: string;
+  content: string;
+  // Every text value, including subject and custom fields
+  all: string[];
+  probability?: number;
+}
+
+export interface SpamPolicy {
+  quarantineScore: number;
+  rejectScore: number;
+  rules: SpamRule[];
+  model?: SpamModel;
+}
+
+export interface SpamThresholds {
+  quarantineScore?: number;
+  rejectScore?: number;
+}
+
+const linkPattern = /\bhttps?:\/\/[^\s<>"]+|\bwww\.[^\s<>"]+/gi;
+const urlOnlyPattern = /^(?:https?:\/\/|www\.)\S+$/i;
+const repeatedCharacterPattern = /(\S)\1{9,}/;
+
+function escapePattern(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function buildKeywordRule(keywords: string[], weight: number): SpamRule {
+  const patterns = [...new Set(keywords)].map(keyword => ({
+    keyword,
+    pattern: new RegExp(`(?:^|[^\\p{L}\\p{N}])${escapePattern(keyword)}(?![\\p{L}\\p{N}])`, 'iu'),
+  }));
+
+  return {
+    id: 'keywords',
+    weight,
+    evaluate(text) {
+      const found = patterns
+        .filter(({ pattern }) => text.all.some(value => pattern.test(value)))
+        .map(({ keyword }) => keyword);
+
+      return found.length > 0
+        ? { hits: found.length, detail: `Keywords: ${found.join(', ')}` }
+        : undefined;
+    },
+  };
+}
+
+function buildBuiltinRules(
+  weights: Record<BuiltinSpamRule, number>,
+  keywords: string[],
+  maxLinks: number,
+  classifierThreshold: number
+): SpamRule[] {
+  return [
+    {
+      id: 'markup',
+      weight: weights.markup,
+      evaluate: text =>
+        text.all.some(value => detectSuspiciousActivity(value))
+          ? { hits: 1, detail: 'HTML or script markup' }
+          : undefined,
+    },
+    {
+      id: 'links',
+      weight: weights.links,
+      evaluate(text) {
+        const count = text.all.reduce(
+          (total, value) => total + (value.match(linkPattern)?.length ?? 0),
+          0
+        );
+        return count > maxLinks ? { hits: count - maxLinks, detail: `${count} links` } : undefined;
+      },
+    },
+    {
+      id: 'link_in_name',
+      weight: weights.link_in_name,
+      evaluate: text =>
+        text.name.match(linkPattern) ? { hits: 1, detail: 'Link in name' } : undefined,
+    },
+    {
+      id: 'url_only',
+      weight: weights.url_only,
+      evaluate: text =>
+        urlOnlyPattern.test(text.content.trim())
+          ? { hits: 1, detail: 'Message is only a link' }
+          : undefined,
+    },
+    buildKeywordRule(keywords, weights.keywords),
+    {
+      id: 'repeated_characters',
+      weight: weights.repeated_characters,
+      evaluate: text =>
+        text.all.some(value => repeatedCharacterPattern.test(value))
+          ? { hits: 1, detail: 'Repeated characters' }
+          : undefined,
+    },
+    {
+      id: 'classifier',
+      weight: weights.classifier,
+      evaluate: text =>
+        text.probability !== undefined && text.probability >= classifierThreshold
+          ? { hits: 1, detail: `Classifier: ${Math.round(text.probability * 100)}% spam` }
+          : undefined,
+    },
+  ];
+}
+
+/**
+ * Combines a form's spam settings with the default thresholds (SPAM_QUARANTINE_SCORE
+ * and SPAM_REJECT_SCORE) into the rules to evaluate. The classifier rule only
+ * runs when a model is given.
+ */
+export function resolveSpamPolicy(
+  settings: SpamSettings | undefined,
+  defaults: SpamThresholds = {},
+  model?: SpamModel
+): SpamPolicy {
+  const weights = { ...DEFAULT_SPAM_WEIGHTS, ...settings?.weights };
+  const patterns = (settings?.patterns ?? []).map(({ id, pattern, weight }): SpamRule => {
+    const regex = new RegExp(pattern, 'i');
+    return {
+      id,
+      weight,
+      evaluate: text =>
+        text.all.some(value => regex.test(value))
+          ? { hits: 1, detail: `Matched pattern ${id}` }
+          : undefined,
+    };
+  });
+
+  return {
+    quarantineScore:
+      settings?.quarantineScore ?? defaults.quarantineScore ?? DEFAULT_QUARANTINE_SCORE,
+    rejectScore: settings?.rejectScore ?? defaults.rejectScore ?? DEFAULT_REJECT_SCORE,
+    rules: [
+      ...buildBuiltinRules(
+        weights,
+        settings?.keywords ?? DEFAULT_SPAM_KEYWORDS,
+        settings?.maxLinks ?? DEFAULT_MAX_LINKS,
+        settings?.classifierThreshold ?? DEFAULT_CLASSIFIER_THRESHOLD
+      ),
+      ...patterns,
+    ].filter(rule => rule.weight > 0),
+    ...(model && { model }),
+  };
+}
+
+/**
+ * Scores a submission against the policy's rules; the total decides whether it
+ * is accepted, quarantined for review or rejected
+ */
+export function scoreSubmission(request: ContactFormRequest, policy: SpamPolicy): SpamAssessment {
+  const all = getRequestText(request);
+  const text: SpamText = {
+    name: request.name,
+    content: request.content,
+    all,
+    ...(policy.model && { probability: classifySpam(policy.model, all.join('\n')) }),
+  };
+
+  const reasons: SpamReason[] = [];
+  for (const rule of policy.rules) {
+    const result = rule.evaluate(text);
+    if (result && result.hits > 0) {
+      reasons.push({ rule: rule.id, score: rule.weight * result.hits, detail: result.detail });
+    }
+  }
+
+  const score = reasons.reduce((total, reason) => total + reason.score, 0);
+  const action: SpamAction =
+    score >= policy.rejectScore
+      ? 'reject'
+      : score >= policy.quarantineScore
+        ? 'quarantine'
+        : 'accept';
+
+  return {
+    score,
+    action,
+    reasons,
+    ...(text.probability !== undefined && { probability: text.probability }),
+  };
+}
@@ -0,0 +1,586 @@
+import {
+  AttributeValue,
+  DeleteItemCommand,
+  GetItemCommand,
+  PutItemCommand,
+  QueryCommand,
+  ScanCommand,
+  UpdateItemCommand,
+} from '@aws-sdk/client-dynamodb';
+import { z } from 'zod';
+import { SpamLabel } from './classifier';
+import { ValidationError } from './errors';
+import { getDynamoClient, isConditionalCheckFailure } from './security';
+import { SpamAssessment } from './spam';
+import { normalizeEmailAddress } from './suppression';
+import { ContactFormRequest } from './types';
+
+// Quarantined submissions scored as likely spam and were not delivered
+export type DeliveryStatus = 'pending' | 'sent' | 'failed' | 'quarantined';
+
+export interface SubmissionMetadata {
+  origin?: string;
+  ipHash?: string;
+  userAgent?: string;
+  requestId?: string;
+  // Lets a data-subject request find the idempotency record
+  idempotencyKey?: string;
+  // Spam score breakdown at submission time
+  spam?: SpamAssessment;
+  // Set once personal data has been erased
+  erasedAt?: string;
+}
+
+export interface StoredAttachment {
+  filename: string;
+  contentType: string;
+  size: number;
+}
+
+export interface SubmissionRecord {
+  id: string;
+  formId: string;
+  // Validated values as submitted, not HTML-escaped
+  request: ContactFormRequest;
+  metadata: SubmissionMetadata;
+  // File contents are not archived
+  attachments: StoredAttachment[];
+  status: DeliveryStatus;
+  createdAt: string;
+  updatedAt: string;
+  messageId?: string;
+  error?: string;
+  // Set by an admin to train the spam classifier
+  label?: SpamLabel;
+}
+
+export interface DeliveryStatusUpdate {
+  status: DeliveryStatus;
+  messageId?: string;
+  error?: string;
+}
+
+export interface SubmissionQuery {
+  formId?: string;
+  status?: DeliveryStatus;
+  email?: string;
+  label?: SpamLabel;
+  // Inclusive ISO 8601 bounds on createdAt
+  from?: string;
+  to?: string;
+  limit: number;
+  // Opaque value from the previous page
+  cursor?: string;
+}
+
+export interface SubmissionPage {
+  items: SubmissionRecord[];
+  // Present while more results may follow
+  cursor?: string;
+}
+
+export interface SubmissionRepository {
+  readonly name: string;
+  save(record: SubmissionRecord): Promise<void>;
+  get(id: string): Promise<SubmissionRecord | undefined>;
+  updateStatus(id: string, update: DeliveryStatusUpdate): Promise<void>;
+  // The memory repository sorts all matches newest first. DynamoDB scans in table
+  // order and only sorts within each page.
+  list(query: SubmissionQuery): Promise<SubmissionPage>;
+  // Resolves false when the submission does not exist
+  delete(id: string): Promise<boolean>;
+  // Replaces personal data in place; resolves false when the submission does not exist
+  anonymize(id: string, erasedAt: string): Promise<boolean>;
+  // Sets or, with undefined, clears the training label; resolves false when the submission does not exist
+  setLabel(id: string, label: SpamLabel | undefined): Promise<boolean>;
+}
+
+export interface SubmissionRepositoryConfig {
+  tableName?: string;
+  region: string;
+  partitionKeyName: string;
+  // Global secondary index on email (partition) and createdAt (sort)
+  emailIndexName?: string;
+}
+
+export const ERASED_VALUE = '[erased]';
+
+let repositoryOverride: SubmissionRepository | undefined;
+
+// Upper bound on Scan calls per page when filters discard most items
+const MAX_SCAN_REQUESTS_PER_PAGE = 10;
+
+function encodeCursor(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function decodeCursor<T>(cursor: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): T {
+  let value: unknown;
+  try {
+    value = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new ValidationError('Invalid cursor');
+  }
+
+  const parsed = schema.safeParse(value);
+  if (!parsed.success) {
+    throw new ValidationError('Invalid cursor');
+  }
+  return parsed.data;
+}
+
+// Offset into the sorted matches of the memory repository
+const offsetCursorSchema = z.number().int().nonnegative();
+
+// LastEvaluatedKey of the table or the email index; every key attribute is a string
+const dynamoCursorSchema = z
+  .record(z.string().min(1).max(255), z.object({ S: z.string().min(1).max(2048) }).strict())
+  .refine(key => Object.keys(key).length > 0 && Object.keys(key).length <= 3);
+
+function matchesQuery(record: SubmissionRecord, query: SubmissionQuery): boolean {
+  return (
+    (!query.formId || record.formId === query.formId) &&
+    (!query.status || record.status === query.status) &&
+    (!query.label || record.label === query.label) &&
+    (!query.email ||
+      normalizeEmailAddress(record.request.email) === normalizeEmailAddress(query.email)) &&
+    (!query.from || record.createdAt >= query.from) &&
+    (!query.to || record.createdAt <= query.to)
+  );
+}
+
+function applyStatusUpdate(
+  record: SubmissionRecord,
+  update: DeliveryStatusUpdate,
+  now: string
+): void {
+  record.status = update.status;
+  record.updatedAt = now;
+  if (update.messageId) {
+    record.messageId = update.messageId;
+  }
+  if (update.status === 'failed') {
+    record.error = update.error;
+  } else {
+    delete record.error;
+  }
+}
+
+/**
+ * Strips personal data from a record, keeping what aggregate reporting needs:
+ * form, status, timestamps, origin and attachment types and sizes
+ */
+export function anonymizeRecord(record: SubmissionRecord, erasedAt: string): SubmissionRecord {
+  return {
+    id: record.id,
+    formId: record.formId,
+    request: { name: ERASED_VALUE, email: ERASED_VALUE, content: ERASED_VALUE },
+    metadata: {
+      ...(record.metadata.origin && { origin: record.metadata.origin }),
+      ...(record.metadata.requestId && { requestId: record.metadata.requestId }),
+      erasedAt,
+    },
+    attachments: record.attachments.map(attachment => ({
+      ...attachment,
+      filename: ERASED_VALUE,
+    })),
+    status: record.status,
+    createdAt: record.createdAt,
+    updatedAt: erasedAt,
+    ...(record.messageId && { messageId: record.messageId }),
+    ...(record.label && { label: record.label }),
+  };
+}
+
+/**
+ * In-memory repository for tests and local tooling
+ */
+export function createMemorySubmissionRepository(): SubmissionRepository & {
+  records: Map<string, SubmissionRecord>;
+} {
+  const records = new Map<string, SubmissionRecord>();
+
+  return {
+    name: 'memory',
+    records,
+    async save(record) {
+      records.set(record.id, structuredClone(record));
+    },
+    async get(id) {
+      const record = records.get(id);
+      return record && structuredClone(record);
+    },
+    async updateStatus(id, update) {
+      const record = records.get(id);
+      if (!record) {
+        throw new Error(`Submission not found: ${id}`);
+      }
+      applyStatusUpdate(record, update, new Date().toISOString());
+    },
+    async list(query) {
+      const offset = query.cursor ? decodeCursor(query.cursor, offsetCursorSchema) : 0;
+
+      const matches = [...records.values()]
+        .filter(record => matchesQuery(record, query))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt) || a.id.localeCompare(b.id));
+      const end = offset + query.limit;
+
+      return {
+        items: matches.slice(offset, end).map(record => structuredClone(record)),
+        ...(end < matches.length && { cursor: encodeCursor(end) }),
+      };
+    },
+    async delete(id) {
+      return records.delete(id);
+    },
+    async anonymize(id, erasedAt) {
+      const record = records.get(id);
+      if (!record) {
+        return false;
+      }
+
+      records.set(id, anonymizeRecord(record, erasedAt));
+      return true;
+    },
+    async setLabel(id, label) {
+      const record = records.get(id);
+      if (!record) {
+        return false;
+      }
+
+      if (label) {
+        record.label = label;
+      } else {
+        delete record.label;
+      }
+      return true;
+    },
+  };
+}
+
+function toItem(
+  record: SubmissionRecord,
+  partitionKeyName: string
+): Record<string, AttributeValue> {
+  return {
+    [partitionKeyName]: { S: record.id },
+    formId: { S: record.formId },
+    // Top-level for lookups by address
+    email: { S: normalizeEmailAddress(record.request.email) },
+    status: { S: record.status },
+    createdAt: { S: record.createdAt },
+    updatedAt: { S: record.updatedAt },
+    ...(record.messageId && { messageId: { S: record.messageId } }),
+    ...(record.error && { error: { S: record.error } }),
+    ...(record.label && { label: { S: record.label } }),
+    submission: {
+      S: JSON.stringify({
+        request: record.request,
+        metadata: record.metadata,
+        attachments: record.attachments,
+      }),
+    },
+  };
+}
+
+function fromItem(
+  item: Record<string, AttributeValue>,
+  partitionKeyName: string
+): SubmissionRecord {
+  const submission = JSON.parse(item.submission?.S ?? '{}') as Pick<
+    SubmissionRecord,
+    'request' | 'metadata' | 'attachments'
+  >;
+
+  return {
+    id: item[partitionKeyName]?.S ?? '',
+    formId: item.formId?.S ?? '',
+    request: submission.request,
+    metadata: submission.metadata ?? {},
+    attachments: submission.attachments ?? [],
+    status: (item.status?.S ?? 'pending') as DeliveryStatus,
+    createdAt: item.createdAt?.S ?? '',
+    updatedAt: item.updatedAt?.S ?? '',
+    ...(item.messageId?.S && { messageId: item.messageId.S }),
+    ...(item.error?.S && { error: item.error.S }),
+    ...(item.label?.S && { label: item.label.S as SpamLabel }),
+  };
+}
+
+/**
+ * DynamoDB archive keyed by submission ID. Fields, metadata and attachment
+ * details are stored as one JSON attribute; status columns stay top-level so
+ * they can be updated in place. Searches by email query the email index when
+ * one is configured and scan the table otherwise.
+ */
+export function createDynamoSubmissionRepository(
+  tableName: string,
+  region: string,
+  partitionKeyName: string = 'id',
+  emailIndexName?: string
+): SubmissionRepository {
+  const repository: SubmissionRepository = {
+    name: 'dynamodb',
+    async save(record) {
+      await getDynamoClient(region).send(
+        new PutItemCommand({
+          TableName: tableName,
+          Item: toItem(record, partitionKeyName),
+          ConditionExpression: 'attribute_not_exists(#pk)',
+          ExpressionAttributeNames: { '#pk': partitionKeyName },
+        })
+      );
+    },
+    async get(id) {
+      const result = await getDynamoClient(region).send(
+        new GetItemCommand({
+          TableName: tableName,
+          Key: { [partitionKeyName]: { S: id } },
+        })
+      );
+
+      return result.Item ? fromItem(result.Item, partitionKeyName) : undefined;
+    },
+    async updateStatus(id, update) {
+      const values: Record<string, AttributeValue> = {
+        ':status': { S: update.status },
+        ':now': { S: new Date().toISOString() },
+      };
+      const assignments = ['#status = :status', 'updatedAt = :now'];
+      if (update.messageId) {
+        values[':messageId'] = { S: update.messageId };
+        assignments.push('messageId = :messageId');
+      }
+      if (update.status === 'failed' && update.error) {
+        values[':error'] = { S: update.error };
+        assignments.push('#error = :error');
+      }
+      const removal = update.status === 'failed' ? '' : ' REMOVE #error';
+
+      await getDynamoClient(region).send(
+        new UpdateItemCommand({
+          TableName: tableName,
+          Key: { [partitionKeyName]: { S: id } },
+          UpdateExpression: `SET ${assignments.join(', ')}${removal}`,
+          // Never create a partial record for an unknown ID
+          ConditionExpression: 'attribute_exists(#pk)',
+          ExpressionAttributeNames: {
+            '#pk': partitionKeyName,
+            '#status': 'status',
+            ...((update.status !== 'failed' || update.error) && { '#error': 'error' }),
+          },
+          ExpressionAttributeValues: values,
+        })
+      );
+    },
+    async list(query) {
+      const names: Record<string, string> = {};
+      const values: Record<string, AttributeValue> = {};
+      const keyConditions: string[] = [];
+      const filters: string[] = [];
+      const addCondition = (
+        target: string[],
+        attribute: string,
+        operator: string,
+        value: string,
+        key: string
+      ) => {
+        names[`#${key}`] = attribute;
+        values[`:${key}`] = { S: value };
+        target.push(`#${key} ${operator} :${key}`);
+      };
+
+      // The email index is keyed on email and createdAt, so those become key conditions
+      const useIndex = Boolean(emailIndexName && query.email);
+      const rangeConditions = useIndex ? keyConditions : filters;
+
+      if (query.formId) {
+        addCondition(filters, 'formId', '=', query.formId, 'formId');
+      }
+      if (query.status) {
+        addCondition(filters, 'status', '=', query.status, 'status');
+      }
+      if (query.label) {
+        addCondition(filters, 'label', '=', query.label, 'label');
+      }
+      if (query.email) {
+        addCondition(rangeConditions, 'email', '=', normalizeEmailAddress(query.email), 'email');
+      }
+      if (query.from && query.to && useIndex) {
+        names['#createdAt'] = 'createdAt';
+        values[':from'] = { S: query.from };
+        values[':to'] = { S: query.to };
+        keyConditions.push('#createdAt BETWEEN :from AND :to');
+      } else {
+        if (query.from) {
+          addCondition(rangeConditions, 'createdAt', '>=', query.from, 'from');
+        }
+        if (query.to) {
+          addCondition(rangeConditions, 'createdAt', '<=', query.to, 'to');
+        }
+      }
+
+      const items: SubmissionRecord[] = [];
+      let startKey: Record<string, AttributeValue> | undefined = query.cursor
+        ? decodeCursor(query.cursor, dynamoCursorSchema)
+        : undefined;
+
+      // Limit counts items read before filtering, so keep reading until the page fills
+      for (let request = 0; request < MAX_SCAN_REQUESTS_PER_PAGE; request++) {
+        const input = {
+          TableName: tableName,
+          Limit: query.limit - items.length,
+          ExclusiveStartKey: startKey,
+          ...(filters.length > 0 && { FilterExpression: filters.join(' AND ') }),
+          ...(Object.keys(names).length > 0 && {
+            ExpressionAttributeNames: names,
+            ExpressionAttributeValues: values,
+          }),
+        };
+        const result = await getDynamoClient(region).send(
+          useIndex
+            ? new QueryCommand({
+                ...input,
+                IndexName: emailIndexName,
+                KeyConditionExpression: keyConditions.join(' AND '),
+                ScanIndexForward: false,
+              })
+            : new ScanCommand(input)
+        );
+
+        items.push(...(result.Items ?? []).map(item => fromItem(item, partitionKeyName)));
+        startKey = result.LastEvaluatedKey;
+        if (!startKey || items.length >= query.limit) {
+          break;
+        }
+      }
+
+      return {
+        // Scan order is arbitrary; newest first within the page
+        items: items.sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+        ...(startKey && { cursor: encodeCursor(startKey) }),
+      };
+    },
+    async delete(id) {
+      const result = await getDynamoClient(region).send(
+        new DeleteItemCommand({
+          TableName: tableName,
+          Key: { [partitionKeyName]: { S: id } },
+          ReturnValues: 'ALL_OLD',
+        })
+      );
+
+      return result.Attributes !== undefined;
+    },
+    async anonymize(id, erasedAt) {
+      const record = await repository.get(id);
+      if (!record) {
+        return false;
+      }
+
+      const item = toItem(anonymizeRecord(record, erasedAt), partitionKeyName);
+      // Without an email attribute the record also drops out of the email index
+      delete item.email;
+
+      await getDynamoClient(region).send(
+        new PutItemCommand({
+          TableName: tableName,
+          Item: item,
+          ConditionExpression: 'attribute_exists(#pk)',
+          ExpressionAttributeNames: { '#pk': partitionKeyName },
+        })
+      );
+      return true;
+    },
+    async setLabel(id, label) {
+      try {
+        await getDynamoClient(region).send(
+          new UpdateItemCommand({
+            TableName: tableName,
+            Key: { [partitionKeyName]: { S: id } },
+            UpdateExpression: label ? 'SET #label = :label' : 'REMOVE #label',
+            ConditionExpression: 'attribute_exists(#pk)',
+            ExpressionAttributeNames: { '#pk': partitionKeyName, '#label': 'label' },
+            ...(label && { ExpressionAttributeValues: { ':label': { S: label } } }),
+          })
+        );
+        return true;
+      } catch (error) {
+        if (isConditionalCheckFailure(error)) {
+          return false;
+        }
+        throw error;
+      }
+    },
+  };
+
+  return repository;
+}
+
+/**
+ * Returns the override repository if one is set, otherwise the DynamoDB
+ * repository when SUBMISSIONS_TABLE is configured. Undefined disables the archive.
+ */
+export function getSubmissionRepository(
+  config: SubmissionRepositoryConfig
+): SubmissionRepository | undefined {
+  if (repositoryOverride) {
+    return repositoryOverride;
+  }
+
+  return config.tableName
+    ? createDynamoSubmissionRepository(
+        config.tableName,
+        config.region,
+        config.partitionKeyName,
+        config.emailIndexName
+      )
+    : undefined;
+}
+
+/**
+ * Replace the configured repository (for tests and local tooling); pass undefined to reset
+ */
+export function setSubmissionRepository(repository: SubmissionRepository | undefined): void {
+  repositoryOverride = repository;
+}
+
+/**
+ * Saves the submission; returns false instead of throwing so an archive
+ * outage never blocks delivery
+ */
+export async function archiveSubmission(
+  repository: SubmissionRepository | undefined,
+  record: SubmissionRecord
+): Promise<boolean> {
+  if (!repository) {
+    return false;
+  }
+
+  try {
+    await repository.save(record);
+    return true;
+  } catch (error) {
+    console.error(`Submission repository (${repository.name}) error:`, error);
+    return false;
+  }
+}
+
+/**
+ * Records a delivery outcome; failures are logged and never thrown
+ */
+export async function recordDeliveryStatus(
+  repository: SubmissionRepository | undefined,
+  id: string,
+  update: DeliveryStatusUpdate
+): Promise<void> {
+  if (!repository) {
+    return;
+  }
+
+  try {
+    await repository.updateStatus(id, update);
+  } catch (error) {
+    console.error(`Submission repository (${repository.name}) status update error:`, error);
+  }
+}
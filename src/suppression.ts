@@ -0,0 +1,160 @@
+import { DeleteItemCommand, GetItemCommand, PutItemCommand } from '@aws-sdk/client-dynamodb';
+import { getDynamoClient } from './security';
+
+export type SuppressionReason = 'bounce' | 'complaint' | 'manual';
+
+export interface SuppressionEntry {
+  email: string;
+  reason: SuppressionReason;
+  suppressedAt: string;
+  // Bounce subtype or complaint feedback type reported by SES
+  detail?: string;
+}
+
+export interface SuppressionStore {
+  readonly name: string;
+  isSuppressed(email: string): Promise<boolean>;
+  suppress(entry: SuppressionEntry): Promise<void>;
+  get(email: string): Promise<SuppressionEntry | undefined>;
+  // Resolves false when the address was not suppressed
+  remove(email: string): Promise<boolean>;
+}
+
+export interface SuppressionConfig {
+  tableName?: string;
+  region: string;
+  partitionKeyName: string;
+}
+
+export function normalizeEmailAddress(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * In-memory suppression list. Entries only live as long as the Lambda instance.
+ */
+export function createMemorySuppressionStore(): SuppressionStore & {
+  entries: Map<string, SuppressionEntry>;
+} {
+  const entries = new Map<string, SuppressionEntry>();
+
+  return {
+    name: 'memory',
+    entries,
+    async isSuppressed(email) {
+      return entries.has(normalizeEmailAddress(email));
+    },
+    async suppress(entry) {
+      const email = normalizeEmailAddress(entry.email);
+      entries.set(email, { ...entry, email });
+    },
+    async get(email) {
+      const entry = entries.get(normalizeEmailAddress(email));
+      return entry && { ...entry };
+    },
+    async remove(email) {
+      return entries.delete(normalizeEmailAddress(email));
+    },
+  };
+}
+
+/**
+ * DynamoDB suppression list keyed by the normalized address, shared by the
+ * contact handler, the queue worker and the SES notification handler
+ */
+export function createDynamoSuppressionStore(
+  tableName: string,
+  region: string,
+  partitionKeyName: string = 'email'
+): SuppressionStore {
+  return {
+    name: 'dynamodb',
+    async isSuppressed(email) {
+      const result = await getDynamoClient(region).send(
+        new GetItemCommand({
+          TableName: tableName,
+          Key: { [partitionKeyName]: { S: normalizeEmailAddress(email) } },
+          ProjectionExpression: '#pk',
+          ExpressionAttributeNames: { '#pk': partitionKeyName },
+        })
+      );
+
+      return result.Item !== undefined;
+    },
+    async suppress(entry) {
+      await getDynamoClient(region).send(
+        new PutItemCommand({
+          TableName: tableName,
+          Item: {
+            [partitionKeyName]: { S: normalizeEmailAddress(entry.email) },
+            reason: { S: entry.reason },
+            suppressedAt: { S: entry.suppressedAt },
+            ...(entry.detail && { detail: { S: entry.detail } }),
+          },
+        })
+      );
+    },
+    async get(email) {
+      const result = await getDynamoClient(region).send(
+        new GetItemCommand({
+          TableName: tableName,
+          Key: { [partitionKeyName]: { S: normalizeEmailAddress(email) } },
+        })
+      );
+      if (!result.Item) {
+        return undefined;
+      }
+
+      return {
+        email: normalizeEmailAddress(email),
+        reason: (result.Item.reason?.S ?? 'manual') as SuppressionReason,
+        suppressedAt: result.Item.suppressedAt?.S ?? '',
+        ...(result.Item.detail?.S && { detail: result.Item.detail.S }),
+      };
+    },
+    async remove(email) {
+      const result = await getDynamoClient(region).send(
+        new DeleteItemCommand({
+          TableName: tableName,
+          Key: { [partitionKeyName]: { S: normalizeEmailAddress(email) } },
+          ReturnValues: 'ALL_OLD',
+        })
+      );
+
+      return result.Attributes !== undefined;
+    },
+  };
+}
+
+const defaultStore = createMemorySuppressionStore();
+let storeOverride: SuppressionStore | undefined;
+
+/**
+ * Returns the override store if one is set, then the DynamoDB store when a
+ * table is configured, otherwise the shared in-memory store
+ */
+export function getSuppressionStore(config?: SuppressionConfig): SuppressionStore {
+  if (storeOverride) {
+    return storeOverride;
+  }
+
+  if (config?.tableName) {
+    return createDynamoSuppressionStore(config.tableName, config.region, config.partitionKeyName);
+  }
+
+  return defaultStore;
+}
+
+/**
+ * Replace the suppression store (for tests and local tooling); pass undefined to reset
+ */
+export function setSuppressionStore(store: SuppressionStore | undefined): void {
+  storeOverride = store;
+}
+
+/**
+ * Reset the shared in-memory suppression list (for testing purposes)
+ */
+export function resetSuppressionStore(): void {
+  defaultStore.entries.clear();
+}
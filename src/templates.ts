@@ -0,0 +1,375 @@
+import { readFileSync } from 'fs';
+import { isAbsolute, join, relative, resolve } from 'path';
+import { z } from 'zod';
+import { ConfigurationError } from './errors';
+import { FieldValue } from './types';
+import { formatFieldValue } from './fields';
+import { sanitizeInput } from './security';
+
+export type TemplateMode = 'text' | 'html';
+
+export type TemplateContext = Record<string, unknown>;
+
+export interface TemplateSources {
+  text?: string;
+  html?: string;
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'value'; path: string; raw: boolean; filters: string[] }
+  | { type: 'if'; path: string; body: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; path: string; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+interface Scope {
+  value: unknown;
+  index?: number;
+}
+
+export class TemplateError extends ConfigurationError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+const filters = ['nl2br'];
+const tagPattern = /\{\{\{\s*([^}]*?)\s*\}\}\}|\{\{\s*([^}]*?)\s*\}\}/g;
+const pathPattern = /^(this|@index|[a-zA-Z_][\w]*)(\.[a-zA-Z_][\w]*)*$/;
+
+// Parsed templates and template files are reused across invocations
+const compiledTemplates = new Map<string, TemplateNode[]>();
+const templateFiles = new Map<string, string>();
+
+function parsePath(expression: string): string {
+  if (!pathPattern.test(expression)) {
+    throw new TemplateError(`Invalid template expression: ${expression}`);
+  }
+
+  return expression;
+}
+
+function parseValueTag(expression: string, raw: boolean): TemplateNode {
+  const [path, ...filterNames] = expression.split('|').map(part => part.trim());
+
+  for (const filter of filterNames) {
+    if (!filters.includes(filter)) {
+      throw new TemplateError(`Unknown template filter: ${filter}`);
+    }
+  }
+
+  return { type: 'value', path: parsePath(path), raw, filters: filterNames };
+}
+
+function parse(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: Array<{ node: Extract<TemplateNode, { type: 'if' | 'each' }>; inElse: boolean }> =
+    [];
+  const current = () => {
+    const top = stack[stack.length - 1];
+    if (!top) {
+      return root;
+    }
+    return top.inElse ? top.node.otherwise : top.node.body;
+  };
+
+  let lastIndex = 0;
+  for (const match of source.matchAll(tagPattern)) {
+    if (match.index > lastIndex) {
+      current().push({ type: 'text', value: source.slice(lastIndex, match.index) });
+    }
+    lastIndex = match.index + match[0].length;
+
+    if (match[1] !== undefined) {
+      current().push(parseValueTag(match[1], true));
+      continue;
+    }
+
+    const tag = match[2];
+    if (tag.startsWith('!')) {
+      continue;
+    }
+
+    const block = tag.match(/^#(if|each)\s+(\S+)$/);
+    if (block) {
+      const node: Extract<TemplateNode, { type: 'if' | 'each' }> = {
+        type: block[1] as 'if' | 'each',
+        path: parsePath(block[2]),
+        body: [],
+        otherwise: [],
+      };
+      current().push(node);
+      stack.push({ node, inElse: false });
+      continue;
+    }
+
+    if (tag === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) {
+        throw new TemplateError('Unexpected {{else}} in template');
+      }
+      top.inElse = true;
+      continue;
+    }
+
+    const close = tag.match(/^\/(if|each)$/);
+    if (close) {
+      const top = stack.pop();
+      if (!top || top.node.type !== close[1]) {
+        throw new TemplateError(`Unexpected {{/${close[1]}}} in template`);
+      }
+      continue;
+    }
+
+    current().push(parseValueTag(tag, false));
+  }
+
+  if (lastIndex < source.length) {
+    current().push({ type: 'text', value: source.slice(lastIndex) });
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw new TemplateError(`Unclosed {{#${unclosed.node.type}}} in template`);
+  }
+
+  return root;
+}
+
+/**
+ * Parses a template, throwing a TemplateError on syntax errors
+ */
+export function compileTemplate(source: string): void {
+  if (!compiledTemplates.has(source)) {
+    compiledTemplates.set(source, parse(source));
+  }
+}
+
+function lookup(path: string, scopes: Scope[]): unknown {
+  const innermost = scopes[scopes.length - 1];
+  if (path === '@index') {
+    return innermost.index;
+  }
+
+  const [head, ...rest] = path.split('.');
+  let value: unknown;
+
+  if (head === 'this') {
+    value = innermost.value;
+  } else {
+    // Names resolve against the innermost scope that defines them
+    const scope = [...scopes]
+      .reverse()
+      .find(
+        candidate =>
+          candidate.value !== null &&
+          typeof candidate.value === 'object' &&
+          Object.prototype.hasOwnProperty.call(candidate.value, head)
+      );
+    value = scope ? (scope.value as Record<string, unknown>)[head] : undefined;
+  }
+
+  for (const key of rest) {
+    if (value === null || typeof value !== 'object') {
+      return undefined;
+    }
+    value = Object.prototype.hasOwnProperty.call(value, key)
+      ? (value as Record<string, unknown>)[key]
+      : undefined;
+  }
+
+  return value;
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  if (
+    typeof value === 'string' ||
+    typeof value === 'number' ||
+    typeof value === 'boolean' ||
+    Array.isArray(value)
+  ) {
+    return formatFieldValue(value as FieldValue);
+  }
+
+  return '';
+}
+
+function renderValue(
+  node: Extract<TemplateNode, { type: 'value' }>,
+  scopes: Scope[],
+  mode: TemplateMode
+): string {
+  let output = stringify(lookup(node.path, scopes));
+  const escape = mode === 'html' && !node.raw;
+
+  if (escape) {
+    output = sanitizeInput(output);
+  }
+
+  for (const filter of node.filters) {
+    if (filter === 'nl2br' && mode === 'html') {
+      output = output.replace(/\r?\n/g, '<br>');
+    }
+  }
+
+  return output;
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: Scope[], mode: TemplateMode): string {
+  let output = '';
+
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      output += node.value;
+    } else if (node.type === 'value') {
+      output += renderValue(node, scopes, mode);
+    } else if (node.type === 'if') {
+      const branch = isTruthy(lookup(node.path, scopes)) ? node.body : node.otherwise;
+      output += renderNodes(branch, scopes, mode);
+    } else {
+      const items = lookup(node.path, scopes);
+      if (!Array.isArray(items) || items.length === 0) {
+        output += renderNodes(node.otherwise, scopes, mode);
+        continue;
+      }
+
+      items.forEach((item, index) => {
+        output += renderNodes(node.body, [...scopes, { value: item, index }], mode);
+      });
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Renders a template. HTML mode escapes every {{value}}; {{{value}}} and text
+ * mode output values as-is.
+ */
+export function renderTemplate(
+  source: string,
+  context: TemplateContext,
+  mode: TemplateMode
+): string {
+  compileTemplate(source);
+  return renderNodes(compiledTemplates.get(source) ?? [], [{ value: context }], mode);
+}
+
+/**
+ * Reads a template file relative to the templates directory. Paths that
+ * resolve outside the directory are rejected.
+ */
+export function loadTemplateFile(path: string, baseDir: string): string {
+  const root = resolve(baseDir);
+  const target = resolve(join(root, path));
+  const relativePath = relative(root, target);
+
+  if (!relativePath || relativePath.startsWith('..') || isAbsolute(relativePath)) {
+    throw new TemplateError(`Template path is outside the templates directory: ${path}`);
+  }
+
+  const cached = templateFiles.get(target);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  let source: string;
+  try {
+    source = readFileSync(target, 'utf8');
+  } catch {
+    throw new TemplateError(`Template file could not be read: ${path}`);
+  }
+
+  compileTemplate(source);
+  templateFiles.set(target, source);
+  return source;
+}
+
+export const templateSourceSchema = z
+  .string()
+  .max(100 * 1024)
+  .superRefine((source, ctx) => {
+    try {
+      compileTemplate(source);
+    } catch (error) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: error instanceof Error ? error.message : 'Invalid template',
+      });
+    }
+  });
+
+export const templatesConfigSchema = z
+  .object({
+    text: templateSourceSchema.optional(),
+    html: templateSourceSchema.optional(),
+    textFile: z.string().min(1).max(200).optional(),
+    htmlFile: z.string().min(1).max(200).optional(),
+  })
+  .superRefine((templates, ctx) => {
+    if (templates.text !== undefined && templates.textFile !== undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Use either text or textFile' });
+    }
+
+    if (templates.html !== undefined && templates.htmlFile !== undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Use either html or htmlFile' });
+    }
+  });
+
+export type TemplatesConfig = z.infer<typeof templatesConfigSchema>;
+
+/**
+ * Resolves configured templates to their sources, reading any template files
+ */
+export function resolveTemplateSources(
+  config: TemplatesConfig | undefined,
+  templatesDir: string
+): TemplateSources | undefined {
+  if (!config) {
+    return undefined;
+  }
+
+  return {
+    text: config.textFile ? loadTemplateFile(config.textFile, templatesDir) : config.text,
+    html: config.htmlFile ? loadTemplateFile(config.htmlFile, templatesDir) : config.html,
+  };
+}
+
+export const DEFAULT_TEXT_TEMPLATE = `New contact form submission:
+
+Name: {{name}}
+Email: {{email}}
+Subject: {{subject}}{{#each fields}}
+{{label}}: {{value}}{{/each}}
+
+Message:
+{{content}}
+
+---
+This message was sent via the contact form.`;
+
+export const DEFAULT_HTML_TEMPLATE = `<html>
+<body>
+  <h2>New Contact Form Submission</h2>
+  <p><strong>Name:</strong> {{name}}</p>
+  <p><strong>Email:</strong> <a href="mailto:{{email}}">{{email}}</a></p>
+  <p><strong>Subject:</strong> {{subject}}</p>{{#each fields}}
+  <p><strong>{{label}}:</strong> {{value | nl2br}}</p>{{/each}}
+
+  <h3>Message:</h3>
+  <div style="background-color: #f5f5f5; padding: 15px; border-left: 3px solid #007bff;">
+    {{content | nl2br}}
+  </div>
+
+  <hr>
+  <p><em>This message was sent via the contact form.</em></p>
+</body>
+</html>`;
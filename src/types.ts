@@ -1,21 +1,68 @@
+export type FieldValue = string | number | boolean | string[];
+
 export interface ContactFormRequest {
   email: string;
   name: string;
   content: string;
   subject?: string;
   _honeypot?: string;
+  fields?: Record<string, FieldValue>;
 }
 
 export interface ContactFormResponse {
   success: boolean;
   message: string;
   messageId?: string;
+  // Set instead of messageId when delivery is queued (DELIVERY_MODE=async)
+  submissionId?: string;
+}
+
+export interface FormTokenResponse {
+  success: true;
+  // Sent back in the X-Form-Token header or the _formToken field
+  token: string;
+  expiresAt: string;
+}
+
+export interface PowChallengeResponse {
+  success: true;
+  challenge: string;
+  // Leading zero bits the SHA-256 of "challenge:counter" must have
+  difficulty: number;
+  expiresAt: string;
+}
+
+export type ValidationIssueCode =
+  | 'required'
+  | 'invalid_type'
+  | 'invalid_email'
+  | 'invalid_url'
+  | 'invalid_format'
+  | 'invalid_option'
+  | 'too_short'
+  | 'too_long'
+  | 'too_small'
+  | 'too_big'
+  | 'too_few'
+  | 'too_many'
+  | 'invalid_file_type'
+  | 'invalid';
+
+export interface ValidationIssue {
+  field: string;
+  path: Array<string | number>;
+  code: ValidationIssueCode;
+  message: string;
+  minimum?: number;
+  maximum?: number;
+  options?: string[];
 }
 
 export interface ErrorResponse {
   success: false;
   error: string;
   details?: string;
+  issues?: ValidationIssue[];
 }
 
 export interface ApiResponse {
@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { ContactFormRequest } from './types';
+import { ContactFormRequest, ValidationIssue, ValidationIssueCode } from './types';
 
 export const contactFormSchema = z.object({
   email: z
@@ -29,17 +29,77 @@ export const contactFormSchema = z.object({
 
 export type ContactFormSchema = z.infer<typeof contactFormSchema>;
 
+/**
+ * ISO 8601 timestamp with any offset, normalized to UTC like stored timestamps
+ * so the two compare as strings
+ */
+export const isoTimestampSchema = z
+  .string()
+  .datetime({ offset: true, message: 'Must be an ISO 8601 timestamp' })
+  .transform(value => new Date(value).toISOString());
+
+function getIssueCode(issue: z.ZodIssue): ValidationIssueCode {
+  switch (issue.code) {
+    case z.ZodIssueCode.invalid_type:
+      return issue.received === 'undefined' ? 'required' : 'invalid_type';
+    case z.ZodIssueCode.invalid_string:
+      if (issue.validation === 'email') {
+        return 'invalid_email';
+      }
+      return issue.validation === 'url' ? 'invalid_url' : 'invalid_format';
+    case z.ZodIssueCode.invalid_enum_value:
+      return 'invalid_option';
+    case z.ZodIssueCode.too_small:
+      if (issue.type === 'string') {
+        return 'too_short';
+      }
+      return issue.type === 'array' ? 'too_few' : 'too_small';
+    case z.ZodIssueCode.too_big:
+      if (issue.type === 'string') {
+        return 'too_long';
+      }
+      return issue.type === 'array' ? 'too_many' : 'too_big';
+    default:
+      return 'invalid';
+  }
+}
+
+/**
+ * Converts Zod issues into the field-level shape returned to API clients
+ */
+export function toValidationIssues(error: z.ZodError): ValidationIssue[] {
+  return error.errors.map(issue => {
+    // Array element errors (e.g. multiselect options) are reported against the field itself
+    const field = String(issue.path[0] ?? '');
+
+    return {
+      field,
+      path: issue.path,
+      code: getIssueCode(issue),
+      message: issue.message,
+      ...(issue.code === z.ZodIssueCode.too_small && { minimum: Number(issue.minimum) }),
+      ...(issue.code === z.ZodIssueCode.too_big && { maximum: Number(issue.maximum) }),
+      ...(issue.code === z.ZodIssueCode.invalid_enum_value && {
+        options: issue.options.map(String),
+      }),
+    };
+  });
+}
+
 export function validateContactForm(
-  data: unknown
-): { success: true; data: ContactFormRequest } | { success: false; error: string } {
+  data: unknown,
+  schema: z.ZodType<ContactFormRequest, z.ZodTypeDef, unknown> = contactFormSchema
+):
+  | { success: true; data: ContactFormRequest }
+  | { success: false; error: string; issues: ValidationIssue[] } {
   try {
-    const result = contactFormSchema.parse(data);
+    const result = schema.parse(data);
     return { success: true, data: result as ContactFormRequest };
   } catch (error) {
     if (error instanceof z.ZodError) {
       const errorMessage = error.errors.map(err => err.message).join(', ');
-      return { success: false, error: errorMessage };
+      return { success: false, error: errorMessage, issues: toValidationIssues(error) };
     }
-    return { success: false, error: 'Invalid request data' };
+    return { success: false, error: 'Invalid request data', issues: [] };
   }
 }
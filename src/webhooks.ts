@@ -0,0 +1,210 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import { ErrorClass, RetryExhaustedError, RetryOptions, withRetry } from './retry';
+import { sanitizeRequest } from './security';
+import { ContactFormRequest } from './types';
+
+export const WEBHOOK_EVENT = 'submission.received';
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const WEBHOOK_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export const webhookConfigSchema = z.object({
+  url: z
+    .string()
+    .url()
+    .refine(url => /^https?:$/.test(new URL(url).protocol), 'Webhook URLs must use http(s)'),
+  // Every secret signs the request; list the new one first while rotating
+  secrets: z.array(z.string().min(16)).min(1).max(3),
+  timeoutMs: z.number().int().positive().max(10000).default(5000),
+  maxAttempts: z.number().int().min(1).max(5).default(3),
+});
+
+export const webhooksConfigSchema = z.array(webhookConfigSchema).max(5);
+
+export type WebhookConfig = z.infer<typeof webhookConfigSchema>;
+
+export interface WebhookPayload {
+  event: typeof WEBHOOK_EVENT;
+  submissionId: string;
+  formId: string;
+  origin?: string;
+  timestamp: string;
+  data: ContactFormRequest;
+}
+
+export type WebhookOutcome = 'delivered' | 'failed';
+
+class WebhookResponseError extends Error {
+  constructor(public readonly status: number) {
+    super(`Webhook responded with HTTP ${status}`);
+    this.name = 'WebhookResponseError';
+  }
+}
+
+/**
+ * 429 is throttling, 5xx and network failures or timeouts are retryable, and
+ * any other response means the receiver rejected the payload
+ */
+export function classifyWebhookError(error: unknown): ErrorClass {
+  if (error instanceof WebhookResponseError) {
+    if (error.status === 429) {
+      return 'throttled';
+    }
+    return error.status >= 500 ? 'retryable' : 'permanent';
+  }
+
+  return 'retryable';
+}
+
+function computeSignature(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Builds the signature header value "t=<unix seconds>,v1=<hex>[,v1=<hex>...]",
+ * with one HMAC-SHA256 of "<t>.<body>" per secret
+ */
+export function signWebhookPayload(body: string, secrets: string[], timestamp: number): string {
+  const signatures = secrets.map(secret => `v1=${computeSignature(secret, timestamp, body)}`);
+  return [`t=${timestamp}`, ...signatures].join(',');
+}
+
+/**
+ * Receiver-side check: the timestamp must be recent and at least one v1
+ * signature must match one of the receiver's secrets
+ */
+export function verifyWebhookSignature(
+  body: string,
+  header: string,
+  secrets: string[],
+  now: number = Date.now(),
+  toleranceSeconds: number = WEBHOOK_SIGNATURE_TOLERANCE_SECONDS
+): boolean {
+  const parts = header.split(',').map(part => part.trim().split('='));
+  const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+  if (!Number.isInteger(timestamp) || Math.abs(now / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value ?? '');
+  return secrets.some(secret => {
+    const expected = Buffer.from(computeSignature(secret, timestamp, body));
+    return signatures.some(signature => {
+      const actual = Buffer.from(signature);
+      return actual.length === expected.length && timingSafeEqual(actual, expected);
+    });
+  });
+}
+
+/**
+ * Builds the webhook body from the sanitized submission
+ */
+export function createWebhookPayload(
+  request: ContactFormRequest,
+  submissionId: string,
+  formId: string,
+  origin: string | undefined,
+  timestamp: string
+): WebhookPayload {
+  return {
+    event: WEBHOOK_EVENT,
+    submissionId,
+    formId,
+    ...(origin && { origin }),
+    timestamp,
+    data: sanitizeRequest(request),
+  };
+}
+
+/**
+ * POSTs a JSON body, retrying timeouts, network errors, 429 and 5xx responses.
+ * Headers are rebuilt for every attempt. Throws a RetryExhaustedError.
+ */
+export async function postJson(
+  url: string,
+  body: string,
+  getHeaders: () => Record<string, string>,
+  timeoutMs: number,
+  retry: Partial<RetryOptions> = {}
+): Promise<void> {
+  await withRetry(
+    async () => {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...getHeaders() },
+        body,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+
+      if (!response.ok) {
+        throw new WebhookResponseError(response.status);
+      }
+    },
+    { ...retry, classify: classifyWebhookError }
+  );
+}
+
+/**
+ * Logs a failed POST without the URL path, which may embed a token
+ */
+export function logPostFailure(
+  label: string,
+  url: string,
+  submissionId: string,
+  error: unknown
+): void {
+  const cause = error instanceof RetryExhaustedError ? error.cause : error;
+  console.error(`${label} delivery failed:`, {
+    host: new URL(url).host,
+    submissionId,
+    attempts: error instanceof RetryExhaustedError ? error.attempts : 1,
+    error: cause instanceof Error ? cause.message : String(cause),
+  });
+}
+
+/**
+ * POSTs the payload to one target, re-signing every attempt so the timestamp
+ * stays fresh. Failures are logged and reported, never thrown.
+ */
+export async function sendWebhook(
+  target: WebhookConfig,
+  payload: WebhookPayload,
+  retry: Partial<RetryOptions> = {}
+): Promise<WebhookOutcome> {
+  const body = JSON.stringify(payload);
+
+  try {
+    await postJson(
+      target.url,
+      body,
+      () => ({
+        'User-Agent': 'serverless-contact-form-webhook/1',
+        'X-Webhook-Event': payload.event,
+        'X-Webhook-Id': payload.submissionId,
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+          body,
+          target.secrets,
+          Math.floor(Date.now() / 1000)
+        ),
+      }),
+      target.timeoutMs,
+      { ...retry, maxAttempts: target.maxAttempts }
+    );
+
+    return 'delivered';
+  } catch (error) {
+    logPostFailure('Webhook', target.url, payload.submissionId, error);
+    return 'failed';
+  }
+}
+
+/**
+ * Sends the payload to every target in parallel
+ */
+export async function sendWebhooks(
+  targets: WebhookConfig[],
+  payload: WebhookPayload,
+  retry: Partial<RetryOptions> = {}
+): Promise<WebhookOutcome[]> {
+  return Promise.all(targets.map(target => sendWebhook(target, payload, retry)));
+}
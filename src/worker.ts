@@ -0,0 +1,169 @@
+import { Context, SQSBatchItemFailure, SQSBatchResponse, SQSEvent, SQSRecord } from 'aws-lambda';
+import { deliverSubmission } from './delivery';
+import { ContactFormError } from './errors';
+import { createEventBatch, createSubmissionEvent, getEventPublisher } from './events';
+import { resolveForm } from './forms';
+import { resolveSubmissionUrl } from './notifiers';
+import { fromQueuedAttachments, parseJob, SubmissionJob } from './queue';
+import { getSubmissionRepository } from './submissions';
+import { getEmailTransport } from './transport';
+
+// Matches the redrive policy in serverless.yml
+const DEFAULT_MAX_RECEIVE_COUNT = 5;
+
+// Get environment variables (read at runtime for testing flexibility)
+const getEnvVars = () => ({
+  EMAIL: process.env.EMAIL,
+  SENDER_EMAIL: process.env.SENDER_EMAIL,
+  AWS_REGION: process.env.AWS_REGION || 'us-east-1',
+  FORMS_CONFIG: process.env.FORMS_CONFIG,
+  TEMPLATES_DIR: process.env.TEMPLATES_DIR,
+  EMAIL_TRANSPORT: process.env.EMAIL_TRANSPORT,
+  SMTP_URL: process.env.SMTP_URL,
+  EMAIL_OUTPUT_DIR: process.env.EMAIL_OUTPUT_DIR,
+  RATE_LIMIT_TABLE: process.env.RATE_LIMIT_TABLE,
+  RATE_LIMIT_PARTITION_KEY: process.env.RATE_LIMIT_PARTITION_KEY,
+  SUPPRESSION_TABLE: process.env.SUPPRESSION_TABLE,
+  SUPPRESSION_PARTITION_KEY: process.env.SUPPRESSION_PARTITION_KEY,
+  SUBMISSION_URL_TEMPLATE: process.env.SUBMISSION_URL_TEMPLATE,
+  SUBMISSIONS_TABLE: process.env.SUBMISSIONS_TABLE,
+  SUBMISSIONS_PARTITION_KEY: process.env.SUBMISSIONS_PARTITION_KEY,
+  EVENT_BUS_NAME: process.env.EVENT_BUS_NAME,
+  EVENT_SOURCE: process.env.EVENT_SOURCE,
+  QUEUE_MAX_RECEIVE_COUNT: process.env.QUEUE_MAX_RECEIVE_COUNT,
+});
+
+/**
+ * Delivers one queued submission; throws so SQS retries the message
+ */
+async function processRecord(
+  record: SQSRecord,
+  job: SubmissionJob,
+  context?: Context
+): Promise<void> {
+  const {
+    EMAIL,
+    SENDER_EMAIL,
+    AWS_REGION,
+    FORMS_CONFIG,
+    TEMPLATES_DIR,
+    EMAIL_TRANSPORT,
+    SMTP_URL,
+    EMAIL_OUTPUT_DIR,
+    RATE_LIMIT_TABLE,
+    RATE_LIMIT_PARTITION_KEY,
+    SUPPRESSION_TABLE,
+    SUPPRESSION_PARTITION_KEY,
+    SUBMISSION_URL_TEMPLATE,
+    SUBMISSIONS_TABLE,
+    SUBMISSIONS_PARTITION_KEY,
+  } = getEnvVars();
+
+  if (!EMAIL) {
+    throw new ContactFormError('EMAIL environment variable is not configured');
+  }
+
+  const form = resolveForm(job.formId, FORMS_CONFIG, EMAIL, TEMPLATES_DIR || undefined);
+  if (!form) {
+    throw new ContactFormError(`Unknown form: ${job.formId}`);
+  }
+
+  const transport = getEmailTransport({
+    type: EMAIL_TRANSPORT,
+    region: AWS_REGION,
+    smtpUrl: SMTP_URL,
+    outputDir: EMAIL_OUTPUT_DIR,
+  });
+  const { messageId, matchedRules, autoReply, webhooks, notifications } = await deliverSubmission(
+    job.request,
+    form,
+    {
+      submissionId: job.submissionId,
+      receivedAt: job.receivedAt,
+      sender: form.from || SENDER_EMAIL || EMAIL,
+      origin: job.origin,
+      submissionUrl: job.archived
+        ? resolveSubmissionUrl(SUBMISSION_URL_TEMPLATE, job.submissionId)
+        : undefined,
+      repository: job.archived
+        ? getSubmissionRepository({
+            tableName: SUBMISSIONS_TABLE,
+            region: AWS_REGION,
+            partitionKeyName: SUBMISSIONS_PARTITION_KEY || 'id',
+          })
+        : undefined,
+      attachments: fromQueuedAttachments(job.attachments),
+      transport,
+      autoReplyRateLimit: {
+        tableName: RATE_LIMIT_TABLE,
+        region: AWS_REGION,
+        partitionKeyName: RATE_LIMIT_PARTITION_KEY || 'id',
+      },
+      suppression: {
+        tableName: SUPPRESSION_TABLE,
+        region: AWS_REGION,
+        partitionKeyName: SUPPRESSION_PARTITION_KEY || 'email',
+      },
+      getRemainingTimeInMillis: context && (() => context.getRemainingTimeInMillis()),
+    }
+  );
+
+  console.log('Queued submission delivered:', {
+    formId: form.id,
+    submissionId: job.submissionId,
+    messageId,
+    routing: matchedRules,
+    autoReply,
+    webhooks,
+    notifications,
+    attempt: Number(record.attributes?.ApproximateReceiveCount || 1),
+    queuedAt: job.receivedAt,
+  });
+}
+
+/**
+ * SQS worker that sends queued submissions. Failed records are reported
+ * individually so only they are retried; after the queue's maxReceiveCount
+ * they move to the dead-letter queue. The delivery_failed event is only
+ * published for that last attempt, not for every retry.
+ */
+export const deliver = async (event: SQSEvent, context?: Context): Promise<SQSBatchResponse> => {
+  const { AWS_REGION, EVENT_BUS_NAME, EVENT_SOURCE, QUEUE_MAX_RECEIVE_COUNT } = getEnvVars();
+  const maxReceiveCount = Number(QUEUE_MAX_RECEIVE_COUNT) || DEFAULT_MAX_RECEIVE_COUNT;
+  const events = createEventBatch(
+    getEventPublisher({ busName: EVENT_BUS_NAME, region: AWS_REGION, source: EVENT_SOURCE })
+  );
+  const batchItemFailures: SQSBatchItemFailure[] = [];
+
+  for (const record of event.Records) {
+    const attempt = Number(record.attributes?.ApproximateReceiveCount || 1);
+    let job: SubmissionJob | undefined;
+    try {
+      job = parseJob(record.body);
+      await processRecord(record, job, context);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('Queued submission delivery failed:', {
+        messageId: record.messageId,
+        attempt,
+        error: message,
+      });
+      batchItemFailures.push({ itemIdentifier: record.messageId });
+
+      if (job && attempt >= maxReceiveCount) {
+        events.add(
+          createSubmissionEvent('submission.delivery_failed', job.formId, {
+            submissionId: job.submissionId,
+            deliveryMode: 'async',
+            error: message,
+            attempt,
+          })
+        );
+      }
+    }
+  }
+
+  // One PutEvents call per batch rather than per record
+  await events.flush();
+  return { batchItemFailures };
+};
@@ -0,0 +1,460 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createHmac } from 'crypto';
+import { APIGatewayProxyEvent, Context } from 'aws-lambda';
+import { handle, parseSubmissionQuery } from '../src/admin';
+import { createMemoryAuditStore, setAuditStore } from '../src/audit';
+import {
+  createMemorySubmissionRepository,
+  setSubmissionRepository,
+  SubmissionRecord,
+} from '../src/submissions';
+import { createMemorySuppressionStore, setSuppressionStore } from '../src/suppression';
+
+const readToken = 'support-token-0123456789-abcdefghij';
+const adminToken = 'admin-token-0123456789-abcdefghijk';
+const jwtSecret = 'jwt-secret-0123456789-abcdefghij';
+
+const createEvent = (overrides: Partial<APIGatewayProxyEvent> = {}): APIGatewayProxyEvent =>
+  ({
+    body: null,
+    headers: { Authorization: `Bearer ${readToken}` },
+    multiValueHeaders: {},
+    httpMethod: 'GET',
+    isBase64Encoded: false,
+    path: '/admin/submissions',
+    pathParameters: null,
+    queryStringParameters: null,
+    multiValueQueryStringParameters: null,
+    stageVariables: null,
+    requestContext: {} as APIGatewayProxyEvent['requestContext'],
+    resource: '/admin/submissions',
+    ...overrides,
+  }) as APIGatewayProxyEvent;
+
+const context = { callbackWaitsForEmptyEventLoop: true } as Context;
+
+const createRecord = (id: string, overrides: Partial<SubmissionRecord> = {}): SubmissionRecord => ({
+  id,
+  formId: 'support',
+  request: { name: 'Jane Doe', email: 'jane@example.com', content: 'Please call me back.' },
+  metadata: {},
+  attachments: [],
+  status: 'sent',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const signJwt = (claims: Record<string, unknown>) => {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const unsigned = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}`;
+  return `${unsigned}.${createHmac('sha256', jwtSecret).update(unsigned).digest('base64url')}`;
+};
+
+describe('Admin API', () => {
+  let repository: ReturnType<typeof createMemorySubmissionRepository>;
+
+  beforeEach(async () => {
+    process.env.ADMIN_API_TOKENS = JSON.stringify([
+      { name: 'support', token: readToken, scopes: ['submissions:read'] },
+      {
+        name: 'admin',
+        token: adminToken,
+        scopes: [
+          'submissions:read',
+          'submissions:export',
+          'submissions:delete',
+          'submissions:label',
+          'privacy:access',
+          'privacy:erase',
+        ],
+      },
+    ]);
+    process.env.ADMIN_JWT_SECRET = jwtSecret;
+    process.env.ADMIN_DOMAIN = 'https://admin.example.com';
+
+    repository = createMemorySubmissionRepository();
+    setSubmissionRepository(repository);
+    await repository.save(createRecord('id-1'));
+    await repository.save(
+      createRecord('id-2', { createdAt: '2024-02-01T00:00:00.000Z', status: 'failed' })
+    );
+  });
+
+  it('should list submissions with filters and CORS headers for the admin origin', async () => {
+    const result = await handle(
+      createEvent({
+        headers: { Authorization: `Bearer ${readToken}`, origin: 'https://admin.example.com' },
+        queryStringParameters: { status: 'failed', from: '2024-01-15T00:00:00+02:00' },
+      }),
+      context
+    );
+
+    expect(result.statusCode).toBe(200);
+    expect(result.headers).toMatchObject({
+      'Access-Control-Allow-Origin': 'https://admin.example.com',
+      'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,OPTIONS',
+    });
+    const body = JSON.parse(result.body);
+    expect(body.success).toBe(true);
+    expect(body.submissions.map((record: SubmissionRecord) => record.id)).toEqual(['id-2']);
+    expect(body).not.toHaveProperty('cursor');
+  });
+
+  it('should page through results', async () => {
+    const first = JSON.parse(
+      (await handle(createEvent({ queryStringParameters: { limit: '1' } }), context)).body
+    );
+    const second = JSON.parse(
+      (
+        await handle(
+          createEvent({ queryStringParameters: { limit: '1', cursor: first.cursor } }),
+          context
+        )
+      ).body
+    );
+
+    expect(first.submissions[0].id).toBe('id-2');
+    expect(second.submissions[0].id).toBe('id-1');
+  });
+
+  it('should reject invalid filters with field issues', async () => {
+    const result = await handle(
+      createEvent({ queryStringParameters: { limit: '500', from: 'yesterday' } }),
+      context
+    );
+
+    expect(result.statusCode).toBe(400);
+    const body = JSON.parse(result.body);
+    expect(body.issues.map((issue: { field: string }) => issue.field).sort()).toEqual([
+      'from',
+      'limit',
+    ]);
+  });
+
+  it('should return a single submission or 404', async () => {
+    const found = await handle(createEvent({ pathParameters: { id: 'id-1' } }), context);
+    expect(found.statusCode).toBe(200);
+    expect(JSON.parse(found.body).submission.request.email).toBe('jane@example.com');
+
+    const missing = await handle(createEvent({ pathParameters: { id: 'nope' } }), context);
+    expect(missing.statusCode).toBe(404);
+  });
+
+  it('should require the delete scope to delete', async () => {
+    const event = createEvent({ httpMethod: 'DELETE', pathParameters: { id: 'id-1' } });
+
+    const forbidden = await handle(event, context);
+    expect(forbidden.statusCode).toBe(403);
+    expect(JSON.parse(forbidden.body).error).toBe('Missing scope: submissions:delete');
+    expect(repository.records.has('id-1')).toBe(true);
+
+    const deleted = await handle(
+      { ...event, headers: { authorization: `Bearer ${adminToken}` } },
+      context
+    );
+    expect(deleted.statusCode).toBe(200);
+    expect(repository.records.has('id-1')).toBe(false);
+
+    const again = await handle(
+      { ...event, headers: { authorization: `Bearer ${adminToken}` } },
+      context
+    );
+    expect(again.statusCode).toBe(404);
+  });
+
+  it('should label submissions for classifier training', async () => {
+    const createLabelEvent = (id: string, body: unknown, token = adminToken) =>
+      createEvent({
+        httpMethod: 'PUT',
+        resource: '/admin/submissions/{id}/label',
+        path: `/admin/submissions/${id}/label`,
+        pathParameters: { id },
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+    const forbidden = await handle(createLabelEvent('id-1', { label: 'spam' }, readToken), context);
+    expect(forbidden.statusCode).toBe(403);
+    expect(JSON.parse(forbidden.body).error).toBe('Missing scope: submissions:label');
+
+    const labelled = await handle(createLabelEvent('id-1', { label: 'spam' }), context);
+    expect(labelled.statusCode).toBe(200);
+    expect(JSON.parse(labelled.body)).toEqual({ success: true, label: 'spam' });
+    expect(repository.records.get('id-1')?.label).toBe('spam');
+
+    const listed = await handle(createEvent({ queryStringParameters: { label: 'spam' } }), context);
+    expect(
+      JSON.parse(listed.body).submissions.map((record: SubmissionRecord) => record.id)
+    ).toEqual(['id-1']);
+
+    await handle(createLabelEvent('id-1', { label: null }), context);
+    expect(repository.records.get('id-1')).not.toHaveProperty('label');
+
+    const invalid = await handle(createLabelEvent('id-1', { label: 'maybe' }), context);
+    expect(invalid.statusCode).toBe(400);
+    expect(JSON.parse(invalid.body).issues[0].field).toBe('label');
+
+    const missing = await handle(createLabelEvent('nope', { label: 'ham' }), context);
+    expect(missing.statusCode).toBe(404);
+  });
+
+  it('should export CSV files with the export scope', async () => {
+    const event = createEvent({
+      resource: '/admin/submissions/export',
+      queryStringParameters: { formId: 'support', columns: 'id,status,name' },
+    });
+
+    expect((await handle(event, context)).statusCode).toBe(403);
+
+    const result = await handle(
+      { ...event, headers: { Authorization: `Bearer ${adminToken}` } },
+      context
+    );
+    expect(result.statusCode).toBe(200);
+    expect(result.headers).toMatchObject({
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Access-Control-Expose-Headers': 'Content-Disposition, X-Export-Cursor',
+    });
+    expect(result.headers?.['Content-Disposition']).toMatch(
+      /^attachment; filename="submissions-support-\d{4}-\d{2}-\d{2}\.csv"$/
+    );
+    expect(result.headers).not.toHaveProperty('X-Export-Cursor');
+    expect(result.body).toBe(
+      '\ufeffid,status,name\r\nid-2,failed,Jane Doe\r\nid-1,sent,Jane Doe\r\n'
+    );
+  });
+
+  it('should export NDJSON and reject unknown columns', async () => {
+    const headers = { Authorization: `Bearer ${adminToken}` };
+    const ndjson = await handle(
+      createEvent({
+        resource: '/admin/submissions/export',
+        headers,
+        queryStringParameters: { format: 'ndjson', columns: 'id', to: '2024-01-15T00:00:00Z' },
+      }),
+      context
+    );
+    expect(ndjson.headers?.['Content-Type']).toBe('application/x-ndjson; charset=utf-8');
+    expect(ndjson.body).toBe('{"id":"id-1"}\n');
+
+    const invalid = await handle(
+      createEvent({
+        resource: '/admin/submissions/export',
+        headers,
+        queryStringParameters: { columns: 'metadata' },
+      }),
+      context
+    );
+    expect(invalid.statusCode).toBe(400);
+    expect(JSON.parse(invalid.body).error).toBe('Unknown export column: metadata');
+  });
+
+  it('should accept scoped JWTs', async () => {
+    const token = signJwt({
+      sub: 'alice',
+      scope: 'submissions:read submissions:delete',
+      exp: Math.floor(Date.now() / 1000) + 60,
+    });
+
+    const result = await handle(
+      createEvent({
+        httpMethod: 'DELETE',
+        pathParameters: { id: 'id-2' },
+        headers: { Authorization: `Bearer ${token}` },
+      }),
+      context
+    );
+
+    expect(result.statusCode).toBe(200);
+    expect(repository.records.has('id-2')).toBe(false);
+  });
+
+  it('should challenge missing or invalid credentials', async () => {
+    const missing = await handle(createEvent({ headers: {} }), context);
+    expect(missing.statusCode).toBe(401);
+    expect(missing.headers).toMatchObject({ 'WWW-Authenticate': 'Bearer' });
+
+    const invalid = await handle(
+      createEvent({ headers: { Authorization: 'Bearer not-a-real-token' } }),
+      context
+    );
+    expect(invalid.statusCode).toBe(401);
+  });
+
+  it('should fail closed when authentication or the archive is not configured', async () => {
+    setSubmissionRepository(undefined);
+    expect((await handle(createEvent(), context)).statusCode).toBe(503);
+
+    delete process.env.ADMIN_API_TOKENS;
+    delete process.env.ADMIN_JWT_SECRET;
+    expect((await handle(createEvent(), context)).statusCode).toBe(500);
+  });
+
+  it('should not show admin authentication configuration details to callers', async () => {
+    process.env.ADMIN_API_TOKENS = JSON.stringify([
+      { name: 'support', token: 'short', scopes: ['submissions:read'] },
+    ]);
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    for (const tokens of [process.env.ADMIN_API_TOKENS, '{', undefined]) {
+      if (tokens === undefined) {
+        delete process.env.ADMIN_API_TOKENS;
+        delete process.env.ADMIN_JWT_SECRET;
+      } else {
+        process.env.ADMIN_API_TOKENS = tokens;
+      }
+
+      const result = await handle(createEvent(), context);
+      expect(result.statusCode).toBe(500);
+      expect(JSON.parse(result.body)).toEqual({ success: false, error: 'Internal server error' });
+      expect(result.body).not.toContain('ADMIN_API_TOKENS');
+    }
+    expect(consoleSpy).toHaveBeenCalledWith(
+      'Configuration error:',
+      expect.stringContaining('ADMIN_API_TOKENS is invalid')
+    );
+    consoleSpy.mockRestore();
+  });
+
+  it('should answer preflight requests and reject unsupported methods', async () => {
+    const preflight = await handle(
+      createEvent({ httpMethod: 'OPTIONS', headers: { origin: 'https://admin.example.com' } }),
+      context
+    );
+    expect(preflight.statusCode).toBe(200);
+
+    const blocked = await handle(
+      createEvent({ httpMethod: 'OPTIONS', headers: { origin: 'https://evil.example.com' } }),
+      context
+    );
+    expect(blocked.statusCode).toBe(403);
+
+    expect((await handle(createEvent({ httpMethod: 'DELETE' }), context)).statusCode).toBe(405);
+  });
+
+  describe('data subject requests', () => {
+    const createPrivacyEvent = (route: 'access' | 'erasure', body: unknown, token = adminToken) =>
+      createEvent({
+        httpMethod: 'POST',
+        resource: `/admin/privacy/${route}`,
+        path: `/admin/privacy/${route}`,
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+    let audit: ReturnType<typeof createMemoryAuditStore>;
+    let suppression: ReturnType<typeof createMemorySuppressionStore>;
+
+    beforeEach(async () => {
+      process.env.IP_HASH_SECRET = 'audit-hash-secret';
+      audit = createMemoryAuditStore();
+      setAuditStore(audit);
+      suppression = createMemorySuppressionStore();
+      setSuppressionStore(suppression);
+      await suppression.suppress({
+        email: 'jane@example.com',
+        reason: 'bounce',
+        suppressedAt: '2024-01-01T00:00:00.000Z',
+      });
+    });
+
+    afterEach(() => {
+      delete process.env.IP_HASH_SECRET;
+      setAuditStore(undefined);
+      setSuppressionStore(undefined);
+    });
+
+    it('should return the stored data for an address', async () => {
+      const result = await handle(
+        createPrivacyEvent('access', { email: 'Jane@Example.com' }),
+        context
+      );
+
+      expect(result.statusCode).toBe(200);
+      const { data } = JSON.parse(result.body);
+      expect(data.submissions).toHaveLength(2);
+      expect(data.suppression).toMatchObject({ reason: 'bounce' });
+      expect(audit.entries).toEqual([
+        expect.objectContaining({ id: data.auditId, action: 'access', actor: 'admin' }),
+      ]);
+    });
+
+    it('should erase the data for an address', async () => {
+      const result = await handle(
+        createPrivacyEvent('erasure', { email: 'jane@example.com' }),
+        context
+      );
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body)).toMatchObject({
+        success: true,
+        counts: { submissions: 2 },
+        retained: { suppression: 1 },
+      });
+      expect(repository.records.get('id-1')?.request.email).toBe('[erased]');
+      expect(suppression.entries.size).toBe(1);
+      expect(audit.entries[0]).toMatchObject({ action: 'erasure', actor: 'admin' });
+    });
+
+    it('should refuse requests it cannot audit with a keyed hash', async () => {
+      delete process.env.IP_HASH_SECRET;
+
+      const result = await handle(
+        createPrivacyEvent('erasure', { email: 'jane@example.com' }),
+        context
+      );
+
+      expect(result.statusCode).toBe(500);
+      expect(JSON.parse(result.body).error).toBe('Internal server error');
+      expect(repository.records.get('id-1')?.request.email).toBe('jane@example.com');
+      expect(audit.entries).toHaveLength(0);
+    });
+
+    it('should work without the submission archive', async () => {
+      setSubmissionRepository(undefined);
+
+      const result = await handle(
+        createPrivacyEvent('erasure', { email: 'jane@example.com' }),
+        context
+      );
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body)).toMatchObject({
+        counts: { submissions: 0 },
+        retained: { suppression: 1 },
+      });
+    });
+
+    it('should require the privacy scopes and a valid address', async () => {
+      const forbidden = await handle(
+        createPrivacyEvent('erasure', { email: 'jane@example.com' }, readToken),
+        context
+      );
+      expect(forbidden.statusCode).toBe(403);
+      expect(suppression.entries.size).toBe(1);
+
+      const invalid = await handle(createPrivacyEvent('access', { email: 'nope' }), context);
+      expect(invalid.statusCode).toBe(400);
+      expect(JSON.parse(invalid.body).issues).toEqual([
+        expect.objectContaining({ field: 'email' }),
+      ]);
+      expect(audit.entries).toHaveLength(0);
+    });
+  });
+
+  describe('parseSubmissionQuery', () => {
+    it('should normalize timestamps to UTC and apply the default limit', () => {
+      expect(
+        parseSubmissionQuery({ from: '2024-01-01T02:00:00+02:00', email: ' a@b.co ' })
+      ).toEqual({
+        from: '2024-01-01T00:00:00.000Z',
+        email: 'a@b.co',
+        limit: 25,
+      });
+      expect(() =>
+        parseSubmissionQuery({ from: '2024-02-01T00:00:00Z', to: '2024-01-01T00:00:00Z' })
+      ).toThrow('from must not be after to');
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  attachmentSettingsSchema,
+  detectMimeType,
+  MAX_ATTACHMENT_BYTES,
+  sanitizeFilename,
+  validateAttachments,
+} from '../src/attachments';
+import { ValidationError } from '../src/errors';
+
+const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x01]);
+const pdf = Buffer.from('%PDF-1.7\n%binary');
+const exe = Buffer.from([0x4d, 0x5a, 0x90, 0x00, 0x03, 0x00]);
+
+const settings = attachmentSettingsSchema.parse({ maxFiles: 2, maxFileSize: 64, maxTotalSize: 80 });
+
+describe('Attachments', () => {
+  describe('detectMimeType', () => {
+    it('should detect common types from magic bytes', () => {
+      expect(detectMimeType(png)).toBe('image/png');
+      expect(detectMimeType(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe('image/jpeg');
+      expect(detectMimeType(Buffer.from('GIF89a....'))).toBe('image/gif');
+      expect(detectMimeType(Buffer.from('RIFF\0\0\0\0WEBPVP8 '))).toBe('image/webp');
+      expect(detectMimeType(pdf)).toBe('application/pdf');
+      expect(detectMimeType(Buffer.from([0x50, 0x4b, 0x03, 0x04]))).toBe('application/zip');
+    });
+
+    it('should distinguish plain text from binary data', () => {
+      expect(detectMimeType(Buffer.from('Steps to reproduce:\r\n1. Open app\n'))).toBe(
+        'text/plain'
+      );
+      expect(detectMimeType(Buffer.from('Grüße'))).toBe('text/plain');
+      expect(detectMimeType(exe)).toBe('application/octet-stream');
+      expect(detectMimeType(Buffer.from([0xc3, 0x28]))).toBe('application/octet-stream');
+    });
+  });
+
+  describe('sanitizeFilename', () => {
+    it('should strip paths and unsafe characters', () => {
+      expect(sanitizeFilename('C:\\Users\\me\\screen shot (1).png')).toBe('screen shot (1).png');
+      expect(sanitizeFilename('../../etc/passwd')).toBe('passwd');
+      expect(sanitizeFilename('a"b\r\nc.txt')).toBe('a_b__c.txt');
+      expect(sanitizeFilename('...')).toBe('attachment');
+    });
+  });
+
+  describe('validateAttachments', () => {
+    it('should return no attachments when no files were uploaded', () => {
+      expect(validateAttachments([], undefined)).toEqual([]);
+    });
+
+    it('should reject files for forms without attachment settings', () => {
+      expect(() =>
+        validateAttachments(
+          [{ fieldName: 'file', filename: 'a.png', contentType: 'image/png', content: png }],
+          undefined
+        )
+      ).toThrow('Attachments are not accepted for this form');
+    });
+
+    it('should use the detected type rather than the claimed one', () => {
+      const [attachment] = validateAttachments(
+        [{ fieldName: 'file', filename: 'scan.pdf', contentType: 'image/png', content: pdf }],
+        settings
+      );
+
+      expect(attachment.contentType).toBe('application/pdf');
+      expect(attachment.filename).toBe('scan.pdf');
+    });
+
+    it('should report count, size and type violations together', () => {
+      try {
+        validateAttachments(
+          [
+            { fieldName: 'file', filename: 'a.png', contentType: 'image/png', content: png },
+            {
+              fieldName: 'file',
+              filename: 'fake.png',
+              contentType: 'image/png',
+              content: exe,
+            },
+            {
+              fieldName: 'file',
+              filename: 'big.txt',
+              contentType: 'text/plain',
+              content: Buffer.from('x'.repeat(65)),
+            },
+          ],
+          settings
+        );
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(ValidationError);
+        const codes = (error as ValidationError).issues.map(issue => issue.code);
+        expect(codes).toEqual(['too_many', 'invalid_file_type', 'too_big', 'too_big']);
+      }
+    });
+  });
+
+  describe('attachmentSettingsSchema', () => {
+    it('should keep size limits within what fits in a Lambda request', () => {
+      expect(attachmentSettingsSchema.parse({})).toMatchObject({
+        maxFileSize: MAX_ATTACHMENT_BYTES,
+        maxTotalSize: MAX_ATTACHMENT_BYTES,
+      });
+      // Base64 of the largest accepted upload still fits in a 6 MB request event
+      expect(Math.ceil(MAX_ATTACHMENT_BYTES / 3) * 4).toBeLessThan(6 * 1024 * 1024);
+      expect(
+        attachmentSettingsSchema.safeParse({ maxFileSize: MAX_ATTACHMENT_BYTES + 1 }).success
+      ).toBe(false);
+      expect(attachmentSettingsSchema.safeParse({ maxTotalSize: 7 * 1024 * 1024 }).success).toBe(
+        false
+      );
+    });
+  });
+});
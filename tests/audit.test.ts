@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createHash } from 'crypto';
+import { PutItemCommand } from '@aws-sdk/client-dynamodb';
+import {
+  AuditEntry,
+  createDynamoAuditStore,
+  createMemoryAuditStore,
+  getAuditStore,
+  hashEmailAddress,
+  setAuditStore,
+  writeAuditEntry,
+} from '../src/audit';
+
+const mockSend = vi.fn();
+
+vi.mock('@aws-sdk/client-dynamodb', () => ({
+  DynamoDBClient: vi.fn(() => ({ send: mockSend })),
+  PutItemCommand: vi.fn(input => ({ input })),
+}));
+
+const entry: AuditEntry = {
+  id: 'audit-1',
+  action: 'erasure',
+  subjectHash: 'abc',
+  actor: 'support',
+  createdAt: '2024-03-01T00:00:00.000Z',
+  counts: { submissions: 2, suppression: 0 },
+};
+
+describe('Audit Log', () => {
+  beforeEach(() => {
+    mockSend.mockReset();
+    setAuditStore(undefined);
+  });
+
+  it('should hash normalized addresses with the secret as key', () => {
+    const keyed = hashEmailAddress('Jane@Example.com ', 'secret');
+
+    expect(keyed).toMatch(/^[a-f0-9]{64}$/);
+    expect(hashEmailAddress('jane@example.com', 'secret')).toBe(keyed);
+    expect(hashEmailAddress('jane@example.com', 'other-secret')).not.toBe(keyed);
+    expect(keyed).not.toBe(createHash('sha256').update('jane@example.com').digest('hex'));
+  });
+
+  it('should log entries before storing them', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const store = createMemoryAuditStore();
+
+    await writeAuditEntry(store, entry);
+
+    expect(store.entries).toEqual([entry]);
+    expect(log).toHaveBeenCalledWith('Audit record:', entry);
+    log.mockRestore();
+  });
+
+  it('should append entries to DynamoDB without overwriting', async () => {
+    mockSend.mockResolvedValue({});
+
+    await createDynamoAuditStore('audit', 'us-east-1', 'pk').record(entry);
+
+    expect(vi.mocked(PutItemCommand).mock.lastCall![0]).toMatchObject({
+      TableName: 'audit',
+      Item: {
+        pk: { S: 'audit-1' },
+        action: { S: 'erasure' },
+        counts: { M: { submissions: { N: '2' }, suppression: { N: '0' } } },
+      },
+      ConditionExpression: 'attribute_not_exists(#pk)',
+    });
+  });
+
+  it('should pick the override, DynamoDB or shared memory store', () => {
+    const config = { region: 'us-east-1', partitionKeyName: 'id' };
+    expect(getAuditStore(config).name).toBe('memory');
+    expect(getAuditStore({ ...config, tableName: 'audit' }).name).toBe('dynamodb');
+
+    const store = createMemoryAuditStore();
+    setAuditStore(store);
+    expect(getAuditStore({ ...config, tableName: 'audit' })).toBe(store);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { createHmac } from 'crypto';
+import { authenticateAdmin, parseAdminTokens, requireScope, verifyJwt } from '../src/auth';
+import { AuthenticationError, AuthorizationError, ContactFormError } from '../src/errors';
+
+const secret = 'jwt-secret-0123456789-abcdefghij';
+const now = 1_700_000_000_000;
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const signJwt = (claims: Record<string, unknown>, header: Record<string, unknown> = {}) => {
+  const unsigned = `${encode({ alg: 'HS256', typ: 'JWT', ...header })}.${encode(claims)}`;
+  const signature = createHmac('sha256', secret).update(unsigned).digest('base64url');
+  return `${unsigned}.${signature}`;
+};
+
+const tokens = JSON.stringify([
+  { name: 'support', token: 'support-token-0123456789-abcdefghij', scopes: ['submissions:read'] },
+]);
+
+describe('Admin Authentication', () => {
+  describe('parseAdminTokens', () => {
+    it('should reject malformed or weak token configuration', () => {
+      expect(parseAdminTokens(undefined)).toEqual([]);
+      expect(() => parseAdminTokens('{')).toThrow('ADMIN_API_TOKENS is not valid JSON');
+      expect(() =>
+        parseAdminTokens(
+          JSON.stringify([{ name: 'x', token: 'short', scopes: ['submissions:read'] }])
+        )
+      ).toThrow('Admin tokens must be at least 32 characters');
+      expect(() =>
+        parseAdminTokens(
+          JSON.stringify([{ name: 'x', token: 'a'.repeat(32), scopes: ['everything'] }])
+        )
+      ).toThrow(ContactFormError);
+    });
+  });
+
+  describe('verifyJwt', () => {
+    const exp = now / 1000 + 300;
+
+    it('should accept a valid token and check issuer and audience', () => {
+      const token = signJwt({ sub: 'alice', exp, iss: 'idp', aud: ['admin', 'other'] });
+
+      expect(verifyJwt(token, secret, { issuer: 'idp', audience: 'admin', now }).sub).toBe('alice');
+      expect(() => verifyJwt(token, secret, { issuer: 'other', now })).toThrow(
+        'Invalid token issuer'
+      );
+      expect(() => verifyJwt(token, secret, { audience: 'nobody', now })).toThrow(
+        'Invalid token audience'
+      );
+    });
+
+    it('should reject bad signatures, other algorithms and expired tokens', () => {
+      const token = signJwt({ exp });
+      const [header, payload] = token.split('.');
+
+      expect(() => verifyJwt(`${header}.${payload}.AAAA`, secret, { now })).toThrow(
+        'Invalid token signature'
+      );
+      expect(() => verifyJwt(token, 'another-secret', { now })).toThrow(AuthenticationError);
+      expect(() => verifyJwt(signJwt({ exp }, { alg: 'none' }), secret, { now })).toThrow(
+        'Unsupported token algorithm'
+      );
+      expect(() => verifyJwt(signJwt({}), secret, { now })).toThrow('Token expired');
+      expect(() => verifyJwt(signJwt({ exp: now / 1000 - 120 }), secret, { now })).toThrow(
+        'Token expired'
+      );
+      expect(() => verifyJwt(signJwt({ exp, nbf: now / 1000 + 120 }), secret, { now })).toThrow(
+        'Token not yet valid'
+      );
+    });
+  });
+
+  describe('authenticateAdmin', () => {
+    it('should resolve static tokens and JWT scopes', () => {
+      const config = { tokens, jwtSecret: secret };
+
+      expect(authenticateAdmin('Bearer support-token-0123456789-abcdefghij', config, now)).toEqual({
+        subject: 'support',
+        scopes: ['submissions:read'],
+        method: 'token',
+      });
+      expect(
+        authenticateAdmin(
+          `bearer ${signJwt({ sub: 'bob', exp: now / 1000 + 60, scope: 'submissions:read submissions:delete' })}`,
+          config,
+          now
+        )
+      ).toEqual({
+        subject: 'bob',
+        scopes: ['submissions:read', 'submissions:delete'],
+        method: 'jwt',
+      });
+    });
+
+    it('should accept scp as a list or a string and reject other types', () => {
+      const config = { jwtSecret: secret };
+      const bearer = (scp: unknown) =>
+        `Bearer ${signJwt({ sub: 'bob', exp: now / 1000 + 60, scp })}`;
+
+      expect(authenticateAdmin(bearer(['submissions:read']), config, now).scopes).toEqual([
+        'submissions:read',
+      ]);
+      expect(
+        authenticateAdmin(bearer('submissions:read privacy:access'), config, now).scopes
+      ).toEqual(['submissions:read', 'privacy:access']);
+      for (const scp of [{ 0: 'privacy:erase' }, [1, 2], true]) {
+        expect(() => authenticateAdmin(bearer(scp), config, now)).toThrow('Invalid token claims');
+      }
+    });
+
+    it('should require configured, well-formed credentials', () => {
+      expect(() => authenticateAdmin('Bearer anything', {}, now)).toThrow(
+        'Admin API authentication is not configured'
+      );
+      expect(() => authenticateAdmin(undefined, { tokens }, now)).toThrow(AuthenticationError);
+      expect(() => authenticateAdmin('Basic dXNlcjpwYXNz', { tokens }, now)).toThrow(
+        'Authentication required'
+      );
+      expect(() => authenticateAdmin('Bearer wrong-token', { tokens }, now)).toThrow(
+        'Invalid token'
+      );
+    });
+  });
+
+  describe('requireScope', () => {
+    it('should throw when the scope is missing', () => {
+      const principal = {
+        subject: 'support',
+        scopes: ['submissions:read'],
+        method: 'token' as const,
+      };
+
+      expect(() => requireScope(principal, 'submissions:read')).not.toThrow();
+      expect(() => requireScope(principal, 'submissions:delete')).toThrow(AuthorizationError);
+    });
+  });
+});
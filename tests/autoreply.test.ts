@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  AutoReplySettings,
+  autoReplyConfigSchema,
+  createAutoReplyMessage,
+  resolveAutoReplySettings,
+  sendAutoReply,
+} from '../src/autoreply';
+import {
+  createMemorySuppressionStore,
+  resetSuppressionStore,
+  setSuppressionStore,
+} from '../src/suppression';
+import { createMemoryTransport, EmailTransport } from '../src/transport';
+import { resetRateLimit } from '../src/security';
+
+const request = {
+  name: 'Jane <Doe>',
+  email: 'jane@example.com',
+  content: 'First line\nSecond line',
+  subject: 'Pricing',
+};
+
+const context = {
+  formId: 'sales',
+  name: request.name,
+  email: request.email,
+  subject: '[Sales] Pricing',
+  content: request.content,
+  fields: [],
+  values: {},
+  attachments: [],
+};
+
+const settings: AutoReplySettings = {
+  from: 'no-reply@example.com',
+  replyTo: ['support@example.com'],
+  includeMessage: false,
+  rateLimit: { maxRequests: 2, windowMs: 60000 },
+};
+
+const rateLimit = { region: 'us-east-1', partitionKeyName: 'id' };
+
+describe('Auto-reply', () => {
+  beforeEach(() => {
+    resetRateLimit();
+    setSuppressionStore(undefined);
+    resetSuppressionStore();
+  });
+
+  describe('autoReplyConfigSchema', () => {
+    it('should apply defaults and require a sender', () => {
+      const config = autoReplyConfigSchema.parse({ from: 'no-reply@example.com' });
+
+      expect(config).toMatchObject({
+        enabled: true,
+        includeMessage: false,
+        rateLimit: { maxRequests: 3, windowMs: 24 * 60 * 60 * 1000 },
+      });
+      expect(autoReplyConfigSchema.safeParse({}).success).toBe(false);
+      expect(
+        autoReplyConfigSchema.safeParse({ from: 'no-reply@example.com', subject: '{{#if x}}' })
+          .success
+      ).toBe(false);
+    });
+
+    it('should resolve disabled configuration to undefined', () => {
+      const config = autoReplyConfigSchema.parse({ from: 'a@example.com', enabled: false });
+
+      expect(resolveAutoReplySettings(config, '/tmp')).toBeUndefined();
+      expect(resolveAutoReplySettings(undefined, '/tmp')).toBeUndefined();
+    });
+  });
+
+  describe('createAutoReplyMessage', () => {
+    it('should address the submitter with the configured sender and reply-to', () => {
+      const message = createAutoReplyMessage(request, settings, context);
+
+      expect(message.from).toBe('no-reply@example.com');
+      expect(message.to).toEqual(['jane@example.com']);
+      expect(message.replyTo).toEqual(['support@example.com']);
+      expect(message.subject).toBe('We received your message');
+      expect(message.text).toContain('Hi Jane <Doe>,');
+      expect(message.text).not.toContain('First line');
+      expect(message.html).toContain('<p>Hi Jane &lt;Doe&gt;,</p>');
+    });
+
+    it('should quote the submitted message when enabled', () => {
+      const message = createAutoReplyMessage(
+        request,
+        { ...settings, includeMessage: true },
+        context
+      );
+
+      expect(message.text).toContain('> First line\n> Second line');
+      expect(message.html).toContain('First line<br>Second line');
+    });
+
+    it('should render custom subject and body templates', () => {
+      const message = createAutoReplyMessage(
+        request,
+        {
+          ...settings,
+          subject: 'Re: {{subject}}',
+          templates: { text: 'Thanks {{name}}', html: '<b>{{name}}</b>' },
+        },
+        context
+      );
+
+      expect(message.subject).toBe('Re: [Sales] Pricing');
+      expect(message.text).toBe('Thanks Jane <Doe>');
+      expect(message.html).toBe('<b>Jane &lt;Doe&gt;</b>');
+    });
+  });
+
+  describe('sendAutoReply', () => {
+    it('should send through the transport', async () => {
+      const transport = createMemoryTransport();
+
+      await expect(sendAutoReply(request, settings, context, transport, rateLimit)).resolves.toBe(
+        'sent'
+      );
+      expect(transport.messages).toHaveLength(1);
+    });
+
+    it('should limit replies per recipient', async () => {
+      const transport = createMemoryTransport();
+      const other = { ...request, email: 'limit@example.com' };
+
+      await sendAutoReply(other, settings, context, transport, rateLimit);
+      await sendAutoReply(other, settings, context, transport, rateLimit);
+
+      await expect(sendAutoReply(other, settings, context, transport, rateLimit)).resolves.toBe(
+        'rate_limited'
+      );
+      expect(transport.messages).toHaveLength(2);
+    });
+
+    it('should skip suppressed addresses', async () => {
+      const store = createMemorySuppressionStore();
+      await store.suppress({
+        email: 'JANE@example.com',
+        reason: 'bounce',
+        suppressedAt: new Date().toISOString(),
+      });
+      setSuppressionStore(store);
+      const transport = createMemoryTransport();
+
+      await expect(sendAutoReply(request, settings, context, transport, rateLimit)).resolves.toBe(
+        'suppressed'
+      );
+      expect(transport.messages).toHaveLength(0);
+    });
+
+    it('should report failures instead of throwing', async () => {
+      const transport: EmailTransport = {
+        name: 'broken',
+        send: async () => {
+          throw new Error('SMTP down');
+        },
+      };
+      const other = { ...request, email: 'failure@example.com' };
+
+      await expect(sendAutoReply(other, settings, context, transport, rateLimit)).resolves.toBe(
+        'failed'
+      );
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  captchaSettingsSchema,
+  getCaptchaVerifyUrl,
+  parseCaptchaProvider,
+  verifyCaptcha,
+} from '../src/captcha';
+import { ConfigurationError } from '../src/errors';
+
+const now = Date.parse('2024-06-01T12:00:00.000Z');
+
+const stubProvider = (payload: Record<string, unknown>, status = 200) => {
+  const fetchMock = vi.fn().mockResolvedValue({
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => payload,
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+describe('CAPTCHA Verification', () => {
+  beforeEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should post the token to the provider endpoint', async () => {
+    const fetchMock = stubProvider({ success: true, hostname: 'example.com' });
+
+    const result = await verifyCaptcha(
+      'token-value',
+      { provider: 'turnstile', secret: 'captcha-secret' },
+      '203.0.113.7',
+      now
+    );
+
+    expect(result).toEqual({
+      success: true,
+      provider: 'turnstile',
+      errorCodes: [],
+      hostname: 'example.com',
+    });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://challenges.cloudflare.com/turnstile/v0/siteverify');
+    expect(String(init.body)).toBe(
+      'secret=captcha-secret&response=token-value&remoteip=203.0.113.7'
+    );
+  });
+
+  it('should use each provider endpoint unless overridden', () => {
+    expect(getCaptchaVerifyUrl({ provider: 'hcaptcha' })).toBe(
+      'https://api.hcaptcha.com/siteverify'
+    );
+    expect(getCaptchaVerifyUrl({ provider: 'recaptcha-v3' })).toBe(
+      'https://www.google.com/recaptcha/api/siteverify'
+    );
+    expect(
+      getCaptchaVerifyUrl({ provider: 'recaptcha-v2', verifyUrl: 'https://proxy.example/verify' })
+    ).toBe('https://proxy.example/verify');
+  });
+
+  it('should keep provider error codes of rejected tokens', async () => {
+    stubProvider({ success: false, 'error-codes': ['timeout-or-duplicate'] });
+
+    const result = await verifyCaptcha('token', { provider: 'recaptcha-v2', secret: 's' });
+
+    expect(result).toMatchObject({ success: false, errorCodes: ['timeout-or-duplicate'] });
+  });
+
+  it('should check the reCAPTCHA v3 score and action', async () => {
+    const check = { provider: 'recaptcha-v3' as const, secret: 's', action: 'contact' };
+
+    stubProvider({ success: true, score: 0.9, action: 'contact' });
+    expect((await verifyCaptcha('token', check)).success).toBe(true);
+
+    stubProvider({ success: true, score: 0.3, action: 'login' });
+    expect((await verifyCaptcha('token', check)).errorCodes).toEqual([
+      'action-mismatch',
+      'score-too-low',
+    ]);
+
+    stubProvider({ success: true, score: 0.6, action: 'contact' });
+    expect((await verifyCaptcha('token', { ...check, minScore: 0.7 })).success).toBe(false);
+
+    stubProvider({ success: true, action: 'contact' });
+    expect((await verifyCaptcha('token', check)).errorCodes).toEqual(['missing-score']);
+  });
+
+  it('should invert hCaptcha risk scores and send the site key', async () => {
+    const fetchMock = stubProvider({ success: true, score: 0.8 });
+
+    const result = await verifyCaptcha('token', {
+      provider: 'hcaptcha',
+      secret: 's',
+      siteKey: 'site-key',
+      minScore: 0.5,
+    });
+
+    expect(result).toMatchObject({ success: false, errorCodes: ['score-too-low'] });
+    expect(result.score).toBeCloseTo(0.2);
+    expect(String(fetchMock.mock.calls[0][1].body)).toContain('sitekey=site-key');
+
+    stubProvider({ success: true });
+    expect((await verifyCaptcha('token', { provider: 'hcaptcha', secret: 's' })).success).toBe(
+      true
+    );
+  });
+
+  it('should ignore actions reCAPTCHA v2 does not report', async () => {
+    stubProvider({ success: true, action: 'something', score: 0.1 });
+
+    const result = await verifyCaptcha('token', {
+      provider: 'recaptcha-v2',
+      secret: 's',
+      action: 'contact',
+    });
+
+    expect(result).toEqual({ success: true, provider: 'recaptcha-v2', errorCodes: [] });
+  });
+
+  it('should check the hostname and token age', async () => {
+    const check = {
+      provider: 'turnstile' as const,
+      secret: 's',
+      hostnames: ['www.example.com'],
+      maxTokenAgeMs: 60_000,
+    };
+
+    stubProvider({
+      success: true,
+      hostname: 'WWW.example.com',
+      challenge_ts: '2024-06-01T11:59:30.000Z',
+    });
+    expect((await verifyCaptcha('token', check, undefined, now)).success).toBe(true);
+
+    stubProvider({
+      success: true,
+      hostname: 'evil.example',
+      challenge_ts: '2024-06-01T11:58:00.000Z',
+    });
+    expect((await verifyCaptcha('token', check, undefined, now)).errorCodes).toEqual([
+      'hostname-mismatch',
+      'token-too-old',
+    ]);
+
+    stubProvider({ success: true });
+    expect((await verifyCaptcha('token', check, undefined, now)).errorCodes).toEqual([
+      'hostname-mismatch',
+      'missing-challenge-ts',
+    ]);
+  });
+
+  it('should only require the solve time when a token age limit is set', async () => {
+    const check = { provider: 'turnstile' as const, secret: 's' };
+
+    stubProvider({ success: true });
+    expect((await verifyCaptcha('token', check, undefined, now)).success).toBe(true);
+
+    stubProvider({ success: true });
+    expect(
+      await verifyCaptcha('token', { ...check, maxTokenAgeMs: 60_000 }, undefined, now)
+    ).toMatchObject({ success: false, errorCodes: ['missing-challenge-ts'] });
+  });
+
+  it('should throw when the provider answers with a server error', async () => {
+    stubProvider({}, 500);
+
+    await expect(verifyCaptcha('token', { provider: 'turnstile', secret: 's' })).rejects.toThrow(
+      'Captcha provider answered with HTTP 500'
+    );
+  });
+
+  it('should fail verification when the provider answers with a client error', async () => {
+    stubProvider({}, 400);
+
+    await expect(verifyCaptcha('token', { provider: 'turnstile', secret: 's' })).resolves.toEqual({
+      success: false,
+      provider: 'turnstile',
+      errorCodes: ['http-400'],
+    });
+  });
+
+  it('should parse provider names and settings', () => {
+    expect(parseCaptchaProvider(undefined)).toBe('turnstile');
+    expect(parseCaptchaProvider(' reCAPTCHA-v3 ')).toBe('recaptcha-v3');
+    expect(() => parseCaptchaProvider('friendly')).toThrow('Unknown CAPTCHA provider: friendly');
+    expect(() => parseCaptchaProvider('friendly')).toThrow(ConfigurationError);
+    expect(
+      captchaSettingsSchema.parse({ provider: 'hcaptcha', hostnames: [' Example.com '] })
+    ).toEqual({ provider: 'hcaptcha', hostnames: ['example.com'] });
+    expect(captchaSettingsSchema.safeParse({ minScore: 2 }).success).toBe(false);
+    expect(captchaSettingsSchema.safeParse({ provider: 'other' }).success).toBe(false);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  classifySpam,
+  collectLabelledSubmissions,
+  getSpamModel,
+  parseSpamModel,
+  parseTrainingLine,
+  setSpamModel,
+  tokenize,
+  TrainingExample,
+  trainSpamModel,
+} from '../src/classifier';
+import { createMemorySubmissionRepository, SubmissionRecord } from '../src/submissions';
+
+const trainingExamples: TrainingExample[] = [
+  { label: 'spam', text: 'Boost your SEO ranking today, cheap backlinks guaranteed' },
+  { label: 'spam', text: 'Cheap backlinks and guaranteed first page ranking for your site' },
+  { label: 'spam', text: 'Guaranteed ranking boost, order cheap SEO backlinks now' },
+  { label: 'spam', text: 'Earn crypto daily with our guaranteed investment bot' },
+  { label: 'ham', text: 'Hi, could you send me the price list for your catering service?' },
+  { label: 'ham', text: 'We would like to book a table for six next Friday evening' },
+  { label: 'ham', text: 'Could you tell me if the catering service covers weddings?' },
+  { label: 'ham', text: 'Is the table by the window free on Friday? Thanks, Anna' },
+];
+
+const createRecord = (id: string, overrides: Partial<SubmissionRecord> = {}): SubmissionRecord => ({
+  id,
+  formId: 'default',
+  request: { name: 'Jane Doe', email: 'jane@example.com', content: `Message ${id}` },
+  metadata: {},
+  attachments: [],
+  status: 'sent',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('Spam Classifier', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'contact-form-model-'));
+    setSpamModel(undefined);
+  });
+
+  afterEach(() => {
+    setSpamModel(undefined);
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should tokenize words and link hosts once each', () => {
+    expect(
+      tokenize('Visit https://www.Spam.example/offer and www.other.example/x — BUY buy a ok!')
+    ).toEqual(['__link__', 'host:spam.example', 'host:other.example', 'visit', 'and', 'buy', 'ok']);
+  });
+
+  it('should tell spam from ham after training', () => {
+    const model = trainSpamModel(trainingExamples, { minCount: 1 });
+
+    expect(classifySpam(model, 'Guaranteed cheap backlinks for your ranking')).toBeGreaterThan(0.9);
+    expect(classifySpam(model, 'Can I book the catering service for Friday?')).toBeLessThan(0.1);
+    // Only unseen words leaves the class priors, which are balanced here
+    expect(classifySpam(model, 'Lorem ipsum dolor')).toBeCloseTo(0.5);
+  });
+
+  it('should prune rare tokens and cap the vocabulary', () => {
+    const model = trainSpamModel(trainingExamples, {
+      maxTokens: 3,
+      now: new Date('2024-05-01T00:00:00.000Z'),
+    });
+
+    expect(model).toMatchObject({
+      version: 1,
+      trainedAt: '2024-05-01T00:00:00.000Z',
+      documents: { ham: 4, spam: 4 },
+    });
+    expect(model.tokens).toEqual({
+      guaranteed: [0, 4],
+      backlinks: [0, 3],
+      cheap: [0, 3],
+    });
+    expect(Object.keys(trainSpamModel(trainingExamples).tokens)).not.toContain('anna');
+  });
+
+  it('should need both classes to train', () => {
+    expect(() => trainSpamModel(trainingExamples.slice(0, 4))).toThrow(
+      'Training needs at least one ham and one spam example'
+    );
+  });
+
+  it('should parse training lines as text or submission fields', () => {
+    expect(parseTrainingLine('{"label":"spam","text":"Cheap SEO"}')).toEqual({
+      label: 'spam',
+      text: 'Cheap SEO',
+    });
+    expect(
+      parseTrainingLine('{"label":"ham","name":"Anna","subject":"Hours","content":"Open Sunday?"}')
+    ).toEqual({ label: 'ham', text: 'Anna\nHours\nOpen Sunday?' });
+    expect(() => parseTrainingLine('{"label":"maybe","text":"x"}')).toThrow(
+      'Invalid training example'
+    );
+    expect(() => parseTrainingLine('{"label":"ham"}')).toThrow(
+      'Each example needs text or content'
+    );
+    expect(() => parseTrainingLine('nope')).toThrow('Training line is not valid JSON');
+  });
+
+  it('should validate model files', () => {
+    const model = trainSpamModel(trainingExamples);
+
+    expect(parseSpamModel(JSON.stringify(model))).toEqual(model);
+    expect(() => parseSpamModel('{"version":2}')).toThrow('Spam model is invalid: version');
+    expect(() => parseSpamModel('{')).toThrow('Spam model is not valid JSON');
+  });
+
+  it('should load the model file once and keep failures off', () => {
+    const path = join(directory, 'model.json');
+    writeFileSync(path, JSON.stringify(trainSpamModel(trainingExamples)));
+
+    const model = getSpamModel(path);
+    rmSync(path);
+    expect(model?.documents).toEqual({ ham: 4, spam: 4 });
+    expect(getSpamModel(path)).toBe(model);
+    expect(getSpamModel(undefined)).toBeUndefined();
+
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(getSpamModel(join(directory, 'missing.json'))).toBeUndefined();
+    expect(getSpamModel(join(directory, 'missing.json'))).toBeUndefined();
+    expect(error).toHaveBeenCalledTimes(1);
+    error.mockRestore();
+
+    setSpamModel(null);
+    expect(getSpamModel(path)).toBeUndefined();
+  });
+
+  it('should collect labelled submissions that still have their content', async () => {
+    const repository = createMemorySubmissionRepository();
+    await repository.save(createRecord('ham-1', { label: 'ham' }));
+    await repository.save(createRecord('spam-1', { label: 'spam' }));
+    await repository.save(createRecord('unlabelled'));
+    await repository.save(
+      createRecord('erased', { label: 'spam', metadata: { erasedAt: '2024-02-01T00:00:00Z' } })
+    );
+
+    expect(await collectLabelledSubmissions(repository)).toEqual([
+      { label: 'ham', text: 'Jane Doe\nMessage ham-1' },
+      { label: 'spam', text: 'Jane Doe\nMessage spam-1' },
+    ]);
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PassThrough } from 'stream';
+import { parseSpamModel } from '../src/classifier';
+import { runCli } from '../src/cli';
+import { createMemorySubmissionRepository, setSubmissionRepository } from '../src/submissions';
+
+const createIo = () => {
+  const stdout = new PassThrough();
+  const stderr = new PassThrough();
+  const read = (stream: PassThrough) => () => String(stream.read() ?? '');
+
+  return { io: { stdout, stderr }, output: read(stdout), errors: read(stderr) };
+};
+
+describe('CLI', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = mkdtempSync(join(tmpdir(), 'contact-form-cli-'));
+
+    const repository = createMemorySubmissionRepository();
+    setSubmissionRepository(repository);
+    await repository.save({
+      id: 'id-1',
+      formId: 'sales',
+      request: {
+        name: 'Jane Doe',
+        email: 'jane@example.com',
+        content: 'Interested in a demo.',
+        fields: { company: '@Acme' },
+      },
+      metadata: {},
+      attachments: [],
+      status: 'sent',
+      createdAt: '2024-01-03T00:00:00.000Z',
+      updatedAt: '2024-01-03T00:00:00.000Z',
+    });
+  });
+
+  afterEach(() => {
+    delete process.env.RETENTION_DAYS;
+    setSubmissionRepository(undefined);
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should export the form fields of a form to a CSV file', async () => {
+    process.env.FORMS_CONFIG = JSON.stringify({
+      sales: {
+        recipients: ['sales@example.com'],
+        fields: [{ name: 'company', type: 'text' }],
+      },
+    });
+    const file = join(directory, 'leads.csv');
+    const { io, errors } = createIo();
+
+    const code = await runCli(
+      ['export', '--form', 'sales', '--from', '2024-01-01T00:00:00Z', '--output', file],
+      io
+    );
+
+    expect(code).toBe(0);
+    expect(errors()).toBe('Exported 1 submissions\n');
+    expect(readFileSync(file, 'utf8').split('\r\n')).toEqual([
+      '\ufeffid,createdAt,formId,status,name,email,subject,content,fields.company',
+      "id-1,2024-01-03T00:00:00.000Z,sales,sent,Jane Doe,jane@example.com,,Interested in a demo.,'@Acme",
+      '',
+    ]);
+  });
+
+  it('should write NDJSON with selected columns to stdout', async () => {
+    const { io, output } = createIo();
+
+    const code = await runCli(['export', '--format', 'ndjson', '--columns', 'id,email'], io);
+
+    expect(code).toBe(0);
+    expect(output()).toBe('{"id":"id-1","email":"jane@example.com"}\n');
+  });
+
+  it('should report invalid options and unknown commands', async () => {
+    const invalid = createIo();
+    expect(await runCli(['export', '--columns', 'secret'], invalid.io)).toBe(1);
+    expect(invalid.errors()).toBe('Error: Unknown export column: secret\n');
+
+    const unknown = createIo();
+    expect(await runCli(['import'], unknown.io)).toBe(1);
+    expect(unknown.errors()).toContain('Usage:');
+  });
+
+  it('should purge expired submissions or report them in a dry run', async () => {
+    process.env.RETENTION_DAYS = '30';
+    const dryRun = createIo();
+
+    expect(await runCli(['purge', '--dry-run'], dryRun.io)).toBe(0);
+    expect(JSON.parse(dryRun.output())).toMatchObject({
+      dryRun: true,
+      policies: [{ formId: '*', matched: 1, processed: 0, sampleIds: ['id-1'] }],
+    });
+
+    const purged = createIo();
+    expect(await runCli(['purge'], purged.io)).toBe(0);
+    expect(JSON.parse(purged.output()).policies[0].processed).toBe(1);
+  });
+
+  it('should refuse to purge without a policy', async () => {
+    const { io, errors } = createIo();
+
+    expect(await runCli(['purge'], io)).toBe(1);
+    expect(errors()).toBe('Error: No retention policies are configured\n');
+  });
+
+  it('should train a spam model from NDJSON files and labelled submissions', async () => {
+    const training = join(directory, 'training.ndjson');
+    writeFileSync(
+      training,
+      [
+        '{"label":"spam","text":"Cheap backlinks for your SEO ranking"}',
+        '',
+        '{"label":"spam","content":"Guaranteed SEO ranking, cheap backlinks"}',
+        '{"label":"ham","subject":"Demo","content":"Interested in a demo of your product"}',
+      ].join('\n')
+    );
+    const repository = createMemorySubmissionRepository();
+    setSubmissionRepository(repository);
+    await repository.save({
+      id: 'labelled',
+      formId: 'default',
+      request: { name: 'Joe', email: 'joe@example.com', content: 'Can we book a product demo?' },
+      metadata: {},
+      attachments: [],
+      status: 'sent',
+      createdAt: '2024-01-03T00:00:00.000Z',
+      updatedAt: '2024-01-03T00:00:00.000Z',
+      label: 'ham',
+    });
+    const output = join(directory, 'models', 'spam.json');
+    const { io, errors } = createIo();
+
+    const code = await runCli(['train', training, '--archive', '--output', output], io);
+
+    expect(code).toBe(0);
+    expect(errors()).toBe(`Trained on 2 ham and 2 spam messages; 7 tokens written to ${output}\n`);
+    const model = parseSpamModel(readFileSync(output, 'utf8'));
+    expect(model.tokens).toMatchObject({ backlinks: [0, 2], demo: [2, 0] });
+  });
+
+  it('should report invalid training input', async () => {
+    const training = join(directory, 'training.ndjson');
+    writeFileSync(training, '{"label":"spam","text":"Cheap SEO"}\n{"label":"unsure"}\n');
+
+    const invalid = createIo();
+    expect(await runCli(['train', training], invalid.io)).toBe(1);
+    expect(invalid.errors()).toContain(`${training}:2: Invalid training example`);
+
+    const empty = createIo();
+    expect(await runCli(['train'], empty.io)).toBe(1);
+    expect(empty.errors()).toBe('Error: Pass at least one training file or --archive\n');
+
+    const oneClass = createIo();
+    writeFileSync(training, '{"label":"spam","text":"Cheap SEO"}\n');
+    expect(await runCli(['train', training, '--min-count', '0'], oneClass.io)).toBe(1);
+    expect(oneClass.errors()).toBe('Error: --min-count must be a positive whole number\n');
+  });
+
+  it('should require the submission archive', async () => {
+    setSubmissionRepository(undefined);
+    const { io, errors } = createIo();
+
+    expect(await runCli(['export'], io)).toBe(1);
+    expect(errors()).toBe('Error: SUBMISSIONS_TABLE is not configured\n');
+  });
+});
@@ -1,5 +1,15 @@
 import { describe, it, expect } from 'vitest';
-import { ContactFormError, ValidationError, EmailServiceError } from '../src/errors';
+import {
+  ContactFormError,
+  ValidationError,
+  EmailServiceError,
+  ThrottledEmailError,
+  TransientEmailError,
+  PermanentEmailError,
+  AuthenticationError,
+  AuthorizationError,
+  ConfigurationError,
+} from '../src/errors';
 
 describe('Custom Error Classes', () => {
   describe('ContactFormError', () => {
@@ -56,6 +66,22 @@ describe('Custom Error Classes', () => {
 
       expect(error instanceof ContactFormError).toBe(true);
     });
+
+    it('should carry field-level issues', () => {
+      const issues = [
+        {
+          field: 'name',
+          path: ['name'],
+          code: 'too_short' as const,
+          message: 'Name must be at least 2 characters long',
+          minimum: 2,
+        },
+      ];
+      const error = new ValidationError('Name must be at least 2 characters long', issues);
+
+      expect(error.issues).toEqual(issues);
+      expect(new ValidationError('No issues').issues).toEqual([]);
+    });
   });
 
   describe('EmailServiceError', () => {
@@ -98,6 +124,44 @@ describe('Custom Error Classes', () => {
     });
   });
 
+  describe('Email error groups', () => {
+    it('should map each group to its own status code', () => {
+      const throttled = new ThrottledEmailError('Slow down', 45);
+      const transient = new TransientEmailError('Try again');
+      const permanent = new PermanentEmailError('Rejected');
+
+      expect(throttled.statusCode).toBe(503);
+      expect(throttled.retryAfterSeconds).toBe(45);
+      expect(new ThrottledEmailError('Slow down').retryAfterSeconds).toBe(30);
+      expect(transient.statusCode).toBe(502);
+      expect(permanent.statusCode).toBe(500);
+      expect(throttled.name).toBe('ThrottledEmailError');
+      expect(throttled instanceof EmailServiceError).toBe(true);
+      expect(transient instanceof EmailServiceError).toBe(true);
+      expect(permanent instanceof EmailServiceError).toBe(true);
+    });
+  });
+
+  describe('Admin auth errors', () => {
+    it('should use 401 for missing credentials and 403 for missing scopes', () => {
+      expect(new AuthenticationError().statusCode).toBe(401);
+      expect(new AuthenticationError().message).toBe('Authentication required');
+      expect(new AuthorizationError().statusCode).toBe(403);
+      expect(new AuthorizationError('Missing scope').name).toBe('AuthorizationError');
+    });
+  });
+
+  describe('ConfigurationError', () => {
+    it('should be a non-operational 500', () => {
+      const error = new ConfigurationError('FORMS_CONFIG is not valid JSON');
+
+      expect(error.name).toBe('ConfigurationError');
+      expect(error.statusCode).toBe(500);
+      expect(error.isOperational).toBe(false);
+      expect(error instanceof ContactFormError).toBe(true);
+    });
+  });
+
   describe('Error serialization', () => {
     it('should serialize ContactFormError properties', () => {
       const error = new ContactFormError('Serialization test', 400);
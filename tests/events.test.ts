@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
+import {
+  batchEventEntries,
+  createCaptureEventPublisher,
+  createEventBatch,
+  createEventBridgePublisher,
+  createSubmissionEvent,
+  EVENT_SCHEMA_VERSION,
+  getEventPublisher,
+  MAX_EVENT_BATCH_BYTES,
+  setEventPublisher,
+} from '../src/events';
+
+const mockSend = vi.fn();
+
+vi.mock('@aws-sdk/client-eventbridge', () => ({
+  EventBridgeClient: vi.fn(() => ({ send: mockSend })),
+  PutEventsCommand: vi.fn(input => ({ input })),
+}));
+
+const createEvents = (count: number) =>
+  Array.from({ length: count }, (_, index) =>
+    createSubmissionEvent('submission.duplicate', `form-${index}`, {}, 'request-1')
+  );
+
+describe('Domain Events', () => {
+  beforeEach(() => {
+    mockSend.mockReset();
+    setEventPublisher(undefined);
+  });
+
+  it('should create versioned events', () => {
+    const event = createSubmissionEvent(
+      'submission.spam_flagged',
+      'sales',
+      { reason: 'captcha_failed', action: 'reject' },
+      undefined,
+      new Date('2024-01-01T00:00:00.000Z')
+    );
+
+    expect(event).toEqual({
+      schemaVersion: EVENT_SCHEMA_VERSION,
+      id: expect.stringMatching(/^[0-9a-f-]{36}$/),
+      type: 'submission.spam_flagged',
+      occurredAt: '2024-01-01T00:00:00.000Z',
+      formId: 'sales',
+      data: { reason: 'captcha_failed', action: 'reject' },
+    });
+  });
+
+  it('should split entries by count and size', () => {
+    const small = { Source: 'contact-form', Detail: '{}' };
+    expect(batchEventEntries(Array(23).fill(small)).map(batch => batch.length)).toEqual([
+      10, 10, 3,
+    ]);
+
+    const large = { Source: 'contact-form', Detail: 'x'.repeat(100 * 1024) };
+    expect(batchEventEntries([large, large, large]).map(batch => batch.length)).toEqual([2, 1]);
+    expect(() => batchEventEntries([{ Detail: 'x'.repeat(MAX_EVENT_BATCH_BYTES + 1) }])).toThrow(
+      'Event exceeds the EventBridge size limit'
+    );
+  });
+
+  it('should publish batches to the configured bus', async () => {
+    mockSend.mockResolvedValue({ FailedEntryCount: 0, Entries: [] });
+
+    await createEventBridgePublisher('contact-events', 'eu-west-1').publish(createEvents(12));
+
+    expect(mockSend).toHaveBeenCalledTimes(2);
+    const [entry] = vi.mocked(PutEventsCommand).mock.calls[0][0].Entries!;
+    expect(entry).toMatchObject({
+      EventBusName: 'contact-events',
+      Source: 'contact-form',
+      DetailType: 'Submission Duplicate',
+    });
+    expect(JSON.parse(entry.Detail!)).toMatchObject({ type: 'submission.duplicate' });
+  });
+
+  it('should reuse one client per region across publishers', async () => {
+    mockSend.mockResolvedValue({ FailedEntryCount: 0, Entries: [] });
+
+    await createEventBridgePublisher('contact-events', 'ap-south-1').publish(createEvents(1));
+    await createEventBridgePublisher('other-events', 'ap-south-1').publish(createEvents(1));
+
+    const clients = vi
+      .mocked(EventBridgeClient)
+      .mock.calls.filter(([config]) => config?.region === 'ap-south-1');
+    expect(clients).toHaveLength(1);
+    expect(mockSend).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report entries the bus rejects', async () => {
+    mockSend.mockResolvedValue({
+      FailedEntryCount: 1,
+      Entries: [{ EventId: 'a' }, { ErrorCode: 'ThrottlingException', ErrorMessage: 'Slow down' }],
+    });
+
+    await expect(
+      createEventBridgePublisher('contact-events', 'eu-west-1', 'acme.contact').publish(
+        createEvents(2)
+      )
+    ).rejects.toThrow('EventBridge rejected 1 events (ThrottlingException: Slow down)');
+    expect(vi.mocked(PutEventsCommand).mock.lastCall![0].Entries![0].Source).toBe('acme.contact');
+  });
+
+  it('should buffer events and swallow publisher errors on flush', async () => {
+    const publisher = createCaptureEventPublisher();
+    const batch = createEventBatch(publisher);
+    createEvents(3).forEach(event => batch.add(event));
+
+    await batch.flush();
+    await batch.flush();
+    expect(publisher.batches).toBe(1);
+    expect(publisher.events).toHaveLength(3);
+
+    const failing = createEventBatch({
+      name: 'broken',
+      publish: async () => {
+        throw new Error('Bus unavailable');
+      },
+    });
+    failing.add(createEvents(1)[0]);
+    await expect(failing.flush()).resolves.toBeUndefined();
+  });
+
+  it('should pick the override, EventBridge or no-op publisher', () => {
+    expect(getEventPublisher({ region: 'us-east-1' }).name).toBe('noop');
+    expect(getEventPublisher({ busName: 'bus', region: 'us-east-1' }).name).toBe('eventbridge');
+
+    const publisher = createCaptureEventPublisher();
+    setEventPublisher(publisher);
+    expect(getEventPublisher({ busName: 'bus', region: 'us-east-1' })).toBe(publisher);
+  });
+});
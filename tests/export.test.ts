@@ -0,0 +1,210 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  escapeCsvCell,
+  EXPORT_PAGE_SIZE,
+  exportSubmissions,
+  formatExportRecord,
+  parseExportRequest,
+  resolveExportColumns,
+} from '../src/export';
+import { createMemorySubmissionRepository, SubmissionRecord } from '../src/submissions';
+
+const createRecord = (id: string, overrides: Partial<SubmissionRecord> = {}): SubmissionRecord => ({
+  id,
+  formId: 'sales',
+  request: {
+    name: 'Jane Doe',
+    email: 'jane@example.com',
+    content: 'Line one\nline "two"',
+    fields: { company: '=HYPERLINK("http://evil.example")', seats: -5, products: ['a', 'b'] },
+  },
+  metadata: { origin: 'https://example.com' },
+  attachments: [],
+  status: 'sent',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const collect = async (iterator: AsyncIterable<{ data: string }>) => {
+  let output = '';
+  for await (const chunk of iterator) {
+    output += chunk.data;
+  }
+  return output;
+};
+
+describe('Submission Export', () => {
+  describe('escapeCsvCell', () => {
+    it('should quote separators, quotes and line breaks', () => {
+      expect(escapeCsvCell('plain')).toBe('plain');
+      expect(escapeCsvCell('a,b')).toBe('"a,b"');
+      expect(escapeCsvCell('say "hi"')).toBe('"say ""hi"""');
+      expect(escapeCsvCell('one\r\ntwo')).toBe('"one\r\ntwo"');
+      expect(escapeCsvCell(undefined)).toBe('');
+      expect(escapeCsvCell(['x', 'y'])).toBe('x; y');
+    });
+
+    it('should neutralize formula triggers', () => {
+      expect(escapeCsvCell('=1+1')).toBe("'=1+1");
+      expect(escapeCsvCell('+44 20 7946 0000')).toBe("'+44 20 7946 0000");
+      expect(escapeCsvCell('-2+3')).toBe("'-2+3");
+      expect(escapeCsvCell('@SUM(A1)')).toBe("'@SUM(A1)");
+      expect(escapeCsvCell('\t=cmd')).toBe("'\t=cmd");
+      expect(escapeCsvCell('=HYPERLINK("x","y")')).toBe('"\'=HYPERLINK(""x"",""y"")"');
+      expect(escapeCsvCell(-5)).toBe('-5');
+    });
+  });
+
+  describe('resolveExportColumns', () => {
+    it('should default to the standard columns plus the form fields', () => {
+      expect(
+        resolveExportColumns(undefined, [
+          { name: 'company', type: 'text' },
+          { name: 'seats', type: 'number' },
+        ])
+      ).toEqual([...DEFAULT_EXPORT_COLUMNS, 'fields.company', 'fields.seats']);
+    });
+
+    it('should accept known and custom field columns only', () => {
+      expect(resolveExportColumns(' email, fields.company ,name')).toEqual([
+        'email',
+        'fields.company',
+        'name',
+      ]);
+      expect(() => resolveExportColumns('email,password,fields.')).toThrow(
+        'Unknown export column: password, fields.'
+      );
+      expect(() => resolveExportColumns(' , ')).toThrow('No columns selected');
+    });
+  });
+
+  describe('parseExportRequest', () => {
+    it('should default to CSV and validate the date range', () => {
+      expect(parseExportRequest({ formId: 'sales' })).toEqual({ format: 'csv', formId: 'sales' });
+      expect(() => parseExportRequest({ format: 'xlsx' })).toThrow();
+      expect(() =>
+        parseExportRequest({ from: '2024-02-01T00:00:00Z', to: '2024-01-01T00:00:00Z' })
+      ).toThrow('from must not be after to');
+    });
+  });
+
+  describe('formatExportRecord', () => {
+    const columns = [
+      'id',
+      'content',
+      'fields.company',
+      'fields.seats',
+      'fields.products',
+      'fields.x',
+    ];
+
+    it('should format escaped CSV rows', () => {
+      expect(formatExportRecord(createRecord('id-1'), 'csv', columns)).toBe(
+        'id-1,"Line one\nline ""two""","\'=HYPERLINK(""http://evil.example"")",-5,a; b,\r\n'
+      );
+    });
+
+    it('should keep native values in NDJSON', () => {
+      const line = formatExportRecord(createRecord('id-1'), 'ndjson', columns);
+
+      expect(line.endsWith('\n')).toBe(true);
+      expect(JSON.parse(line)).toEqual({
+        id: 'id-1',
+        content: 'Line one\nline "two"',
+        'fields.company': '=HYPERLINK("http://evil.example")',
+        'fields.seats': -5,
+        'fields.products': ['a', 'b'],
+        'fields.x': null,
+      });
+    });
+  });
+
+  describe('exportSubmissions', () => {
+    it('should stream every page of matching submissions', async () => {
+      const repository = createMemorySubmissionRepository();
+      for (let index = 0; index < EXPORT_PAGE_SIZE + 5; index++) {
+        await repository.save(createRecord(`id-${index}`));
+      }
+      await repository.save(createRecord('other', { formId: 'support' }));
+
+      const chunks = [];
+      for await (const chunk of exportSubmissions(repository, {
+        format: 'csv',
+        formId: 'sales',
+        columns: ['id', 'formId'],
+      })) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks.map(chunk => chunk.records)).toEqual([EXPORT_PAGE_SIZE, 5]);
+      expect(chunks[0].cursor).toBeDefined();
+      expect(chunks[1].cursor).toBeUndefined();
+      const lines = chunks
+        .map(chunk => chunk.data)
+        .join('')
+        .split('\r\n');
+      expect(lines[0]).toBe('\ufeffid,formId');
+      expect(lines.filter(line => line.endsWith(',sales'))).toHaveLength(EXPORT_PAGE_SIZE + 5);
+      expect(lines.join('\n')).not.toContain('support');
+    });
+
+    it('should omit the BOM and header when resuming from a cursor', async () => {
+      const repository = createMemorySubmissionRepository();
+      await repository.save(createRecord('id-1'));
+      await repository.save(createRecord('id-2', { createdAt: '2024-01-02T00:00:00.000Z' }));
+      const { cursor } = await repository.list({ limit: 1 });
+
+      await expect(
+        collect(exportSubmissions(repository, { format: 'csv', columns: ['id'] }, cursor))
+      ).resolves.toBe('id-1\r\n');
+      await expect(
+        collect(exportSubmissions(repository, { format: 'ndjson', columns: ['id'] }))
+      ).resolves.toBe('{"id":"id-2"}\n{"id":"id-1"}\n');
+    });
+
+    it('should stop before a row would pass maxBytes and resume after the last row', async () => {
+      const repository = createMemorySubmissionRepository();
+      for (let index = 0; index < 10; index++) {
+        await repository.save(createRecord(`id-${index}`));
+      }
+      const options = { format: 'ndjson' as const, columns: ['id'] };
+      const rowBytes = Buffer.byteLength('{"id":"id-0"}\n');
+
+      const chunks = [];
+      for await (const chunk of exportSubmissions(repository, {
+        ...options,
+        maxBytes: rowBytes * 3 + 5,
+      })) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0].records).toBe(3);
+      expect(Buffer.byteLength(chunks[0].data)).toBe(rowBytes * 3);
+      const rest = await collect(exportSubmissions(repository, options, chunks[0].cursor));
+      expect(rest.split('\n', 1)[0]).toBe('{"id":"id-3"}');
+      expect(chunks[0].data + rest).toBe(await collect(exportSubmissions(repository, options)));
+    });
+
+    it('should export a row larger than maxBytes on its own', async () => {
+      const repository = createMemorySubmissionRepository();
+      await repository.save(createRecord('id-1'));
+      await repository.save(createRecord('id-2'));
+
+      const chunks = [];
+      for await (const chunk of exportSubmissions(repository, {
+        format: 'csv',
+        columns: ['id'],
+        maxBytes: 1,
+      })) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0]).toMatchObject({ data: '\ufeffid\r\nid-1\r\n', records: 1 });
+      expect(chunks[0].cursor).toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildFormSchema,
+  describeFields,
+  fieldDefinitionsSchema,
+  FieldDefinition,
+  formatFieldValue,
+} from '../src/fields';
+import { validateContactForm, contactFormSchema } from '../src/validation';
+
+const baseSubmission = {
+  name: 'John Doe',
+  email: 'john@example.com',
+  content: 'This is a test message with enough content.',
+};
+
+const definitions: FieldDefinition[] = [
+  { name: 'company', type: 'text', label: 'Company', required: true, min: 2, max: 50 },
+  { name: 'phone', type: 'phone', label: 'Phone' },
+  { name: 'budget', type: 'select', label: 'Budget', options: ['<10k', '10k-50k', '>50k'] },
+  { name: 'products', type: 'multiselect', options: ['api', 'sdk', 'support'], max: 2 },
+  { name: 'seats', type: 'number', min: 1, max: 500 },
+  { name: 'consent', type: 'checkbox', label: 'Consent', required: true },
+  { name: 'ref', type: 'text', pattern: '^[A-Z]{3}-\\d{3}$', patternMessage: 'Bad reference' },
+];
+
+describe('Custom Field Definitions', () => {
+  describe('fieldDefinitionsSchema', () => {
+    it('should accept valid definitions', () => {
+      expect(fieldDefinitionsSchema.safeParse(definitions).success).toBe(true);
+    });
+
+    it('should reject reserved, duplicate and malformed definitions', () => {
+      expect(fieldDefinitionsSchema.safeParse([{ name: 'email', type: 'text' }]).success).toBe(
+        false
+      );
+      expect(
+        fieldDefinitionsSchema.safeParse([
+          { name: 'company', type: 'text' },
+          { name: 'company', type: 'text' },
+        ]).success
+      ).toBe(false);
+      expect(fieldDefinitionsSchema.safeParse([{ name: 'plan', type: 'select' }]).success).toBe(
+        false
+      );
+      expect(
+        fieldDefinitionsSchema.safeParse([{ name: 'ref', type: 'text', pattern: '(' }]).success
+      ).toBe(false);
+    });
+  });
+
+  describe('buildFormSchema', () => {
+    const schema = buildFormSchema(definitions);
+
+    it('should return the core schema when no fields are defined', () => {
+      expect(buildFormSchema()).toBe(contactFormSchema);
+    });
+
+    it('should collect custom values under fields', () => {
+      const result = validateContactForm(
+        {
+          ...baseSubmission,
+          company: '  Acme Inc ',
+          budget: '10k-50k',
+          products: 'api',
+          seats: '25',
+          consent: 'on',
+          ref: 'ABC-123',
+          unknown: 'dropped',
+        },
+        schema
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.name).toBe('John Doe');
+        expect(result.data.fields).toEqual({
+          company: 'Acme Inc',
+          budget: '10k-50k',
+          products: ['api'],
+          seats: 25,
+          consent: true,
+          ref: 'ABC-123',
+        });
+      }
+    });
+
+    it('should treat empty optional inputs as missing', () => {
+      const result = validateContactForm(
+        { ...baseSubmission, company: 'Acme', consent: true, phone: '', seats: '' },
+        schema
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.fields).toEqual({ company: 'Acme', consent: true });
+      }
+    });
+
+    it('should report labelled errors for invalid custom values', () => {
+      const result = validateContactForm(
+        {
+          ...baseSubmission,
+          phone: 'call me',
+          budget: 'millions',
+          products: ['api', 'sdk', 'support'],
+          seats: 0,
+          consent: false,
+          ref: 'abc',
+        },
+        schema
+      );
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain('Company is required');
+        expect(result.error).toContain('Phone must be a valid phone number');
+        expect(result.error).toContain('Budget must be one of the listed options');
+        expect(result.error).toContain('products allows at most 2 selection(s)');
+        expect(result.error).toContain('seats must be at least 1');
+        expect(result.error).toContain('Consent must be checked');
+        expect(result.error).toContain('Bad reference');
+      }
+    });
+
+    it('should only accept numbers and numeric strings for number fields', () => {
+      const seats = (value: unknown) =>
+        validateContactForm(
+          { ...baseSubmission, company: 'Acme', consent: true, seats: value },
+          schema
+        );
+
+      for (const value of [[], true, [5], 'ten', '5 seats', {}]) {
+        const result = seats(value);
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error).toContain('seats must be a number');
+        }
+      }
+      expect(seats(' 12 ')).toMatchObject({ success: true, data: { fields: { seats: 12 } } });
+      expect(seats(7.5).success).toBe(true);
+    });
+
+    it('should still enforce the core contact fields', () => {
+      const result = validateContactForm(
+        { ...baseSubmission, name: 'J', company: 'Acme', consent: true },
+        schema
+      );
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain('Name must be at least 2 characters long');
+      }
+    });
+  });
+
+  describe('describeFields', () => {
+    it('should list submitted fields with labels in definition order', () => {
+      expect(
+        describeFields(definitions, { seats: 3, company: 'Acme', products: ['api', 'sdk'] })
+      ).toEqual([
+        { name: 'company', label: 'Company', value: 'Acme' },
+        { name: 'products', label: 'products', value: 'api, sdk' },
+        { name: 'seats', label: 'seats', value: '3' },
+      ]);
+    });
+
+    it('should format booleans readably', () => {
+      expect(formatFieldValue(true)).toBe('Yes');
+      expect(formatFieldValue(false)).toBe('No');
+      expect(describeFields(undefined, { company: 'Acme' })).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { z } from 'zod';
+import {
+  DEFAULT_FORM_ID,
+  parseFormsConfig,
+  registerForm,
+  renderSubject,
+  resolveForm,
+} from '../src/forms';
+import { ContactFormError } from '../src/errors';
+import { contactFormSchema } from '../src/validation';
+
+const formsConfig = JSON.stringify({
+  support: {
+    recipients: ['support@example.com'],
+    subject: '[Support] {{subject}}',
+  },
+  sales: {
+    recipients: ['sales@example.com', 'leads@example.com'],
+    rateLimit: { maxRequests: 2 },
+    captcha: { enabled: false },
+  },
+});
+
+describe('Form Registry', () => {
+  describe('parseFormsConfig', () => {
+    it('should return an empty registry when config is missing', () => {
+      expect(parseFormsConfig(undefined)).toEqual({});
+      expect(parseFormsConfig('  ')).toEqual({});
+    });
+
+    it('should parse a valid config', () => {
+      const forms = parseFormsConfig(formsConfig);
+
+      expect(Object.keys(forms)).toEqual(['support', 'sales']);
+      expect(forms.sales.rateLimit?.maxRequests).toBe(2);
+    });
+
+    it('should reject invalid JSON', () => {
+      expect(() => parseFormsConfig('{not json')).toThrow('FORMS_CONFIG is not valid JSON');
+    });
+
+    it('should reject invalid recipients and form IDs', () => {
+      expect(() => parseFormsConfig(JSON.stringify({ support: { recipients: ['nope'] } }))).toThrow(
+        ContactFormError
+      );
+      expect(() => parseFormsConfig(JSON.stringify({ 'bad id!': {} }))).toThrow(
+        /FORMS_CONFIG is invalid/
+      );
+    });
+
+    it('should reject invalid or conflicting templates', () => {
+      expect(() =>
+        parseFormsConfig(JSON.stringify({ support: { templates: { text: '{{#if name}}' } } }))
+      ).toThrow('Unclosed {{#if}} in template');
+      expect(() =>
+        parseFormsConfig(
+          JSON.stringify({ support: { templates: { html: '<p></p>', htmlFile: 'a.html' } } })
+        )
+      ).toThrow('Use either html or htmlFile');
+    });
+  });
+
+  describe('resolveForm', () => {
+    it('should build the default form from the EMAIL recipient', () => {
+      const form = resolveForm(DEFAULT_FORM_ID, undefined, 'owner@example.com');
+
+      expect(form).toBeDefined();
+      expect(form?.recipients).toEqual(['owner@example.com']);
+      expect(form?.schema).toBe(contactFormSchema);
+    });
+
+    it('should resolve named forms from config', () => {
+      const form = resolveForm('sales', formsConfig, 'owner@example.com');
+
+      expect(form?.id).toBe('sales');
+      expect(form?.recipients).toEqual(['sales@example.com', 'leads@example.com']);
+      expect(form?.captcha?.enabled).toBe(false);
+    });
+
+    it('should load template files from the templates directory', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'contact-form-templates-'));
+      writeFileSync(join(dir, 'support.txt'), 'Support request from {{name}}');
+
+      try {
+        const config = JSON.stringify({
+          support: { templates: { textFile: 'support.txt', html: '<p>{{name}}</p>' } },
+        });
+        const form = resolveForm('support', config, 'owner@example.com', dir);
+
+        expect(form?.templates).toEqual({
+          text: 'Support request from {{name}}',
+          html: '<p>{{name}}</p>',
+        });
+        expect(() =>
+          resolveForm(
+            'escape',
+            JSON.stringify({ escape: { templates: { textFile: '../secret.txt' } } }),
+            'owner@example.com',
+            dir
+          )
+        ).toThrow('outside the templates directory');
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should return undefined for unknown forms', () => {
+      expect(resolveForm('careers', formsConfig, 'owner@example.com')).toBeUndefined();
+      expect(resolveForm('toString', formsConfig, 'owner@example.com')).toBeUndefined();
+    });
+
+    it('should prefer programmatically registered forms', () => {
+      const schema = contactFormSchema.extend({ company: z.string().optional() });
+      registerForm({ id: 'sales', recipients: ['code@example.com'], schema });
+
+      const form = resolveForm('sales', formsConfig, 'owner@example.com');
+
+      expect(form?.recipients).toEqual(['code@example.com']);
+      expect(form?.schema).toBe(schema);
+    });
+
+    it('should reject invalid IDs on registration', () => {
+      expect(() =>
+        registerForm({ id: '../etc', recipients: ['a@example.com'], schema: contactFormSchema })
+      ).toThrow('Invalid form ID');
+    });
+  });
+
+  describe('renderSubject', () => {
+    const request = {
+      name: 'Jane Doe',
+      email: 'jane@example.com',
+      content: 'Hello there, this is a message.',
+      subject: 'Pricing',
+    };
+
+    it('should fall back to the submitted subject without a template', () => {
+      expect(renderSubject(undefined, request, 'sales')).toBe('Pricing');
+      expect(renderSubject(undefined, { ...request, subject: undefined }, 'sales')).toBe(
+        'New Contact Form Submission'
+      );
+    });
+
+    it('should interpolate known placeholders and keep unknown ones', () => {
+      expect(
+        renderSubject('[{{formId}}] {{ subject }} from {{name}} {{other}}', request, 'sales')
+      ).toBe('[sales] Pricing from Jane Doe {{other}}');
+    });
+  });
+});
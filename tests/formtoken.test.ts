@@ -0,0 +1,158 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  consumeFormToken,
+  DEFAULT_FORM_TOKEN_TTL_MS,
+  FormTokenError,
+  formTokenSettingsSchema,
+  issueFormToken,
+  parseFormTokenSecrets,
+  verifyFormToken,
+} from '../src/formtoken';
+
+const mockSend = vi.fn();
+
+vi.mock('@aws-sdk/client-dynamodb', async importOriginal => ({
+  ...(await importOriginal<typeof import('@aws-sdk/client-dynamodb')>()),
+  DynamoDBClient: vi.fn(() => ({ send: mockSend })),
+}));
+
+const secret = 'form-token-secret-0123456789abcdef';
+const oldSecret = 'previous-token-secret-0123456789ab';
+const issuedAt = Date.parse('2024-06-01T12:00:00.000Z');
+const origin = 'https://example.com';
+
+const failureOf = (run: () => unknown): string | undefined => {
+  try {
+    run();
+  } catch (error) {
+    return error instanceof FormTokenError ? error.reason : 'other';
+  }
+  return undefined;
+};
+
+describe('Form Tokens', () => {
+  it('should issue tokens that verify for the same form and origin', () => {
+    const { token, expiresAt } = issueFormToken('sales', origin, secret, undefined, issuedAt);
+
+    expect(expiresAt).toBe(issuedAt + DEFAULT_FORM_TOKEN_TTL_MS);
+    expect(
+      verifyFormToken(token, [secret], {
+        formId: 'sales',
+        origin,
+        minFillMs: 3000,
+        now: issuedAt + 5000,
+      })
+    ).toEqual({
+      formId: 'sales',
+      origin,
+      issuedAt,
+      expiresAt,
+      nonce: expect.any(String),
+    });
+  });
+
+  it('should give every token its own nonce', () => {
+    const first = issueFormToken('sales', origin, secret, undefined, issuedAt);
+    const second = issueFormToken('sales', origin, secret, undefined, issuedAt);
+
+    expect(first.token).not.toBe(second.token);
+  });
+
+  it('should refuse tampered, foreign and malformed tokens', () => {
+    const { token } = issueFormToken('sales', origin, secret, undefined, issuedAt);
+    const check = { formId: 'sales', origin, minFillMs: 0, now: issuedAt + 1000 };
+    const [payload, signature] = token.split('.');
+    const forged = Buffer.from(
+      JSON.stringify({ f: 'support', o: origin, iat: issuedAt, exp: issuedAt + 1e6, n: 'x' })
+    ).toString('base64url');
+
+    expect(failureOf(() => verifyFormToken(`${forged}.${signature}`, [secret], check))).toBe(
+      'invalid_signature'
+    );
+    expect(failureOf(() => verifyFormToken(token, [oldSecret], check))).toBe('invalid_signature');
+    expect(failureOf(() => verifyFormToken(payload, [secret], check))).toBe('malformed');
+    expect(failureOf(() => verifyFormToken(`${token}.extra`, [secret], check))).toBe('malformed');
+    expect(failureOf(() => verifyFormToken(token, [secret], { ...check, formId: 'other' }))).toBe(
+      'wrong_form'
+    );
+    expect(
+      failureOf(() =>
+        verifyFormToken(token, [secret], { ...check, origin: 'https://evil.example' })
+      )
+    ).toBe('wrong_origin');
+    expect(failureOf(() => verifyFormToken(token, [secret], { ...check, origin: undefined }))).toBe(
+      'wrong_origin'
+    );
+  });
+
+  it('should refuse expired tokens and submissions faster than the minimum fill time', () => {
+    const { token } = issueFormToken('sales', undefined, secret, 60_000, issuedAt);
+    const check = { formId: 'sales', minFillMs: 3000 };
+
+    expect(
+      failureOf(() => verifyFormToken(token, [secret], { ...check, now: issuedAt + 2999 }))
+    ).toBe('too_fast');
+    expect(
+      failureOf(() => verifyFormToken(token, [secret], { ...check, now: issuedAt + 3000 }))
+    ).toBe(undefined);
+    expect(
+      failureOf(() => verifyFormToken(token, [secret], { ...check, now: issuedAt + 60_000 }))
+    ).toBe('expired');
+  });
+
+  it('should verify with any configured secret during rotation', () => {
+    const { token } = issueFormToken('sales', origin, oldSecret, undefined, issuedAt);
+
+    expect(
+      verifyFormToken(token, [secret, oldSecret], {
+        formId: 'sales',
+        origin,
+        minFillMs: 0,
+        now: issuedAt,
+      }).formId
+    ).toBe('sales');
+  });
+
+  it('should parse comma-separated secrets and reject short ones', () => {
+    expect(parseFormTokenSecrets(undefined)).toEqual([]);
+    expect(parseFormTokenSecrets(` ${secret} , ${oldSecret},`)).toEqual([secret, oldSecret]);
+    expect(() => parseFormTokenSecrets(`${secret},short`)).toThrow(
+      'FORM_TOKEN_SECRET values must be at least 32 characters'
+    );
+  });
+
+  it('should accept each token only once', async () => {
+    const { token } = issueFormToken('sales', origin, secret);
+    const claims = verifyFormToken(token, [secret], { formId: 'sales', origin, minFillMs: 0 });
+    const store = { region: 'us-east-1', partitionKeyName: 'id' };
+
+    await expect(consumeFormToken(claims, store)).resolves.toBeUndefined();
+    await expect(consumeFormToken(claims, store)).rejects.toMatchObject({
+      name: 'FormTokenError',
+      reason: 'reused',
+      statusCode: 403,
+    });
+  });
+
+  it('should refuse tokens while the store is unavailable', async () => {
+    const { token } = issueFormToken('sales', origin, secret);
+    const claims = verifyFormToken(token, [secret], { formId: 'sales', origin, minFillMs: 0 });
+    mockSend.mockRejectedValue(new Error('Table unavailable'));
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(
+      consumeFormToken(claims, {
+        tableName: 'idempotency',
+        region: 'us-east-1',
+        partitionKeyName: 'id',
+      })
+    ).rejects.toMatchObject({ reason: 'reused' });
+    error.mockRestore();
+  });
+
+  it('should validate form token settings', () => {
+    expect(formTokenSettingsSchema.safeParse({ minFillMs: 0, ttlMs: 600_000 }).success).toBe(true);
+    expect(formTokenSettingsSchema.safeParse({ ttlMs: 1000 }).success).toBe(false);
+    expect(formTokenSettingsSchema.safeParse({ minFillMs: -1 }).success).toBe(false);
+  });
+});
@@ -1,7 +1,14 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { SESClient, SendEmailCommand } from '@aws-sdk/client-ses';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SESClient, SendEmailCommand, SendRawEmailCommand } from '@aws-sdk/client-ses';
 import { send } from '../src/handler';
 import { resetRateLimit } from '../src/security';
+import { createMemoryTransport, resetEmailTransport, setEmailTransport } from '../src/transport';
+import { resetSuppressionStore, setSuppressionStore } from '../src/suppression';
+import { createMemoryQueue, setSubmissionQueue } from '../src/queue';
+import { createMemorySubmissionRepository, setSubmissionRepository } from '../src/submissions';
+import { createCaptureEventPublisher, setEventPublisher } from '../src/events';
+import { setSpamModel, trainSpamModel } from '../src/classifier';
+import { solvePowChallenge } from '../src/pow';
 import { APIGatewayProxyEvent, Context } from 'aws-lambda';
 
 // Mock AWS SES
@@ -10,6 +17,7 @@ vi.mock('@aws-sdk/client-ses', () => ({
     send: vi.fn(),
   })),
   SendEmailCommand: vi.fn(),
+  SendRawEmailCommand: vi.fn(),
 }));
 
 beforeEach(() => {
@@ -24,13 +32,40 @@ beforeEach(() => {
   delete process.env.CAPTCHA_VERIFY_URL;
   delete process.env.CAPTCHA_FAIL_OPEN;
   delete process.env.CAPTCHA_TOKEN_HEADER;
+  delete process.env.CAPTCHA_PROVIDER;
+  delete process.env.CAPTCHA_MIN_SCORE;
+  delete process.env.CAPTCHA_ACTION;
+  delete process.env.CAPTCHA_HOSTNAMES;
+  delete process.env.CAPTCHA_MAX_TOKEN_AGE_MS;
+  delete process.env.FORM_TOKEN_SECRET;
+  delete process.env.FORM_TOKEN_TTL_MS;
+  delete process.env.FORM_TOKEN_MIN_FILL_MS;
+  delete process.env.POW_SECRET;
+  delete process.env.POW_DIFFICULTY;
+  delete process.env.POW_MAX_DIFFICULTY;
   delete process.env.IDEMPOTENCY_TABLE;
   delete process.env.IDEMPOTENCY_TTL_MS;
   delete process.env.IDEMPOTENCY_PARTITION_KEY;
   delete process.env.IDEMPOTENCY_FAIL_OPEN;
-
-  // Reset rate limiting state
+  delete process.env.FORMS_CONFIG;
+  delete process.env.REDIRECT_ALLOWLIST;
+  delete process.env.EMAIL_TRANSPORT;
+  delete process.env.SENDER_EMAIL;
+  delete process.env.DELIVERY_MODE;
+  delete process.env.QUEUE_URL;
+  delete process.env.SUBMISSION_URL_TEMPLATE;
+  delete process.env.IP_HASH_SECRET;
+
+  // Reset rate limiting state and any injected email transport
   resetRateLimit();
+  setEmailTransport(undefined);
+  resetEmailTransport();
+  setSuppressionStore(undefined);
+  resetSuppressionStore();
+  setSubmissionQueue(undefined);
+  setSubmissionRepository(undefined);
+  setEventPublisher(undefined);
+  setSpamModel(undefined);
 });
 
 // Helper function to create mock API Gateway event
@@ -239,6 +274,13 @@ describe('Handler', () => {
       const body = JSON.parse(result.body);
       expect(body.success).toBe(false);
       expect(body.error).toContain('Name must be at least 2 characters long');
+      expect(body.issues).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ field: 'name', code: 'too_short', minimum: 2 }),
+          expect.objectContaining({ field: 'email', code: 'invalid_email' }),
+          expect.objectContaining({ field: 'content', code: 'too_short', minimum: 10 }),
+        ])
+      );
     });
 
     it('should handle missing request body', async () => {
@@ -302,6 +344,98 @@ describe('Handler', () => {
       expect(body.error).toContain('Failed to send email');
     });
 
+    it('should return 503 with Retry-After when SES keeps throttling', async () => {
+      const throttling = Object.assign(new Error('Maximum sending rate exceeded.'), {
+        name: 'Throttling',
+      });
+      const mockSESClient = { send: vi.fn().mockRejectedValue(throttling) };
+      vi.mocked(SESClient).mockImplementation(() => mockSESClient as unknown as SESClient);
+      const random = vi.spyOn(Math, 'random').mockReturnValue(0);
+
+      const event = createMockEvent({
+        body: JSON.stringify({
+          name: 'John Doe',
+          email: 'john@example.com',
+          content: 'This message meets SES throttling on every attempt.',
+        }),
+        requestContext: {
+          ...createMockEvent().requestContext,
+          identity: {
+            ...createMockEvent().requestContext.identity,
+            sourceIp: '192.168.1.206',
+          },
+        },
+      });
+
+      const result = await send(event, mockContext);
+
+      expect(result.statusCode).toBe(503);
+      expect(result.headers?.['Retry-After']).toBe('30');
+      expect(mockSESClient.send).toHaveBeenCalledTimes(3);
+      expect(JSON.parse(result.body).error).toContain('Maximum sending rate exceeded');
+      random.mockRestore();
+    });
+
+    it('should retry transient SES failures and return 502 when they persist', async () => {
+      const unavailable = Object.assign(new Error('Service is unavailable'), {
+        name: 'ServiceUnavailable',
+      });
+      const mockSESClient = {
+        send: vi
+          .fn()
+          .mockRejectedValueOnce(unavailable)
+          .mockResolvedValueOnce({ MessageId: 'retried-message-id' }),
+      };
+      vi.mocked(SESClient).mockImplementation(() => mockSESClient as unknown as SESClient);
+      const random = vi.spyOn(Math, 'random').mockReturnValue(0);
+
+      const recovered = await send(
+        createMockEvent({
+          body: JSON.stringify({
+            name: 'John Doe',
+            email: 'john@example.com',
+            content: 'This message succeeds on the second attempt.',
+          }),
+          requestContext: {
+            ...createMockEvent().requestContext,
+            identity: {
+              ...createMockEvent().requestContext.identity,
+              sourceIp: '192.168.1.207',
+            },
+          },
+        }),
+        mockContext
+      );
+
+      expect(recovered.statusCode).toBe(200);
+      expect(JSON.parse(recovered.body).messageId).toBe('retried-message-id');
+
+      mockSESClient.send.mockReset().mockRejectedValue(unavailable);
+      const failed = await send(
+        createMockEvent({
+          body: JSON.stringify({
+            name: 'John Doe',
+            email: 'john@example.com',
+            content: 'This message fails on every attempt.',
+          }),
+          requestContext: {
+            ...createMockEvent().requestContext,
+            identity: {
+              ...createMockEvent().requestContext.identity,
+              sourceIp: '192.168.1.208',
+            },
+          },
+        }),
+        { ...mockContext, getRemainingTimeInMillis: () => 1000 }
+      );
+
+      expect(failed.statusCode).toBe(502);
+      expect(failed.headers?.['Retry-After']).toBeUndefined();
+      // Not enough time left in the invocation for a second attempt
+      expect(mockSESClient.send).toHaveBeenCalledTimes(1);
+      random.mockRestore();
+    });
+
     it('should handle rate limiting', async () => {
       const mockSESResponse = {
         MessageId: 'test-message-id-rate-limit',
@@ -621,7 +755,7 @@ describe('Handler', () => {
 
       const fetchMock = vi.fn().mockResolvedValue({
         ok: true,
-        json: async () => ({ success: true }),
+        json: async () => ({ success: true, challenge_ts: new Date().toISOString() }),
       });
       vi.stubGlobal('fetch', fetchMock);
 
@@ -646,5 +780,1640 @@ describe('Handler', () => {
       expect(result.statusCode).toBe(200);
       expect(mockSESClient.send).toHaveBeenCalledTimes(1);
     });
+
+    it('should log provider error codes and failed checks', async () => {
+      process.env.CAPTCHA_SECRET = 'captcha-secret';
+      process.env.CAPTCHA_PROVIDER = 'recaptcha-v3';
+      process.env.CAPTCHA_HOSTNAMES = 'www.example.com';
+      const fetchMock = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          success: true,
+          score: 0.2,
+          hostname: 'www.example.com',
+          challenge_ts: new Date().toISOString(),
+        }),
+      });
+      vi.stubGlobal('fetch', fetchMock);
+      const publisher = createCaptureEventPublisher();
+      setEventPublisher(publisher);
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const result = await send(
+        createMockEvent({
+          headers: { 'x-captcha-token': 'token-value' },
+          body: JSON.stringify({
+            name: 'John Doe',
+            email: 'john@example.com',
+            content: 'This is a test message with sufficient content length.',
+          }),
+        }),
+        mockContext
+      );
+
+      expect(result.statusCode).toBe(403);
+      expect(fetchMock.mock.calls[0][0]).toBe('https://www.google.com/recaptcha/api/siteverify');
+      expect(warn).toHaveBeenCalledWith(
+        'Captcha verification failed:',
+        expect.objectContaining({ provider: 'recaptcha-v3', errorCodes: ['score-too-low'] })
+      );
+      expect(publisher.events[0].data).toEqual({
+        reason: 'captcha_failed',
+        action: 'reject',
+        errorCodes: ['score-too-low'],
+      });
+      warn.mockRestore();
+    });
+
+    it('should not show an unknown captcha provider to clients', async () => {
+      process.env.CAPTCHA_SECRET = 'captcha-secret';
+      process.env.CAPTCHA_PROVIDER = 'friendly';
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      const result = await send(
+        createMockEvent({
+          headers: { 'x-captcha-token': 'token-value' },
+          body: JSON.stringify({
+            name: 'John Doe',
+            email: 'john@example.com',
+            content: 'This is a test message with sufficient content length.',
+          }),
+        }),
+        mockContext
+      );
+
+      expect(result.statusCode).toBe(500);
+      expect(JSON.parse(result.body)).toEqual({ success: false, error: 'Internal server error' });
+      expect(consoleSpy).toHaveBeenCalledWith(
+        'Configuration error:',
+        'Unknown CAPTCHA provider: friendly'
+      );
+      consoleSpy.mockRestore();
+    });
+
+    it('should answer 503 when the captcha provider fails', async () => {
+      process.env.CAPTCHA_SECRET = 'captcha-secret';
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 502 }));
+
+      const result = await send(
+        createMockEvent({
+          headers: { 'x-captcha-token': 'token-value' },
+          body: JSON.stringify({
+            name: 'John Doe',
+            email: 'john@example.com',
+            content: 'This is a test message with sufficient content length.',
+          }),
+        }),
+        mockContext
+      );
+
+      expect(result.statusCode).toBe(503);
+      expect(JSON.parse(result.body).details).toBe('Captcha verification unavailable');
+    });
+
+    it('should route named forms to their configured recipients and subject', async () => {
+      process.env.FORMS_CONFIG = JSON.stringify({
+        sales: {
+          recipients: ['sales@example.com'],
+          subject: '[Sales] {{subject}}',
+        },
+      });
+
+      const mockSESClient = {
+        send: vi.fn().mockResolvedValue({ MessageId: 'sales-message-id' }),
+      };
+      vi.mocked(SESClient).mockImplementation(() => mockSESClient as unknown as SESClient);
+
+      const event = createMockEvent({
+        path: '/contact/sales',
+        pathParameters: { formId: 'sales' },
+        body: JSON.stringify({
+          name: 'John Doe',
+          email: 'john@example.com',
+          content: 'This is a test message with sufficient content length.',
+          subject: 'Pricing',
+        }),
+      });
+
+      const result = await send(event, mockContext);
+
+      expect(result.statusCode).toBe(200);
+      const params = vi.mocked(SendEmailCommand).mock.calls[0][0];
+      expect(params.Source).toBe('test@example.com');
+      expect(params.Destination?.ToAddresses).toEqual(['sales@example.com']);
+      expect(params.Message?.Subject?.Data).toBe('[Sales] Pricing');
+    });
+
+    it('should return 404 for unknown form IDs', async () => {
+      const event = createMockEvent({
+        path: '/contact/unknown',
+        pathParameters: { formId: 'unknown' },
+        body: JSON.stringify({
+          name: 'John Doe',
+          email: 'john@example.com',
+          content: 'This is a test message with sufficient content length.',
+        }),
+      });
+
+      const result = await send(event, mockContext);
+
+      expect(result.statusCode).toBe(404);
+      const body = JSON.parse(result.body);
+      expect(body.error).toBe('Not found');
+    });
+
+    it('should check the origin and rate limit before looking up the form', async () => {
+      process.env.DOMAIN = 'https://example.com';
+      const probe = (origin: string) =>
+        send(
+          createMockEvent({
+            headers: { origin },
+            pathParameters: { formId: 'unknown' },
+            body: '{}',
+          }),
+          mockContext
+        );
+
+      expect((await probe('https://evil.example')).statusCode).toBe(403);
+      const results = [];
+      for (let attempt = 0; attempt < 5; attempt++) {
+        results.push((await probe('https://example.com')).statusCode);
+      }
+      expect(results).toEqual([404, 404, 404, 404, 429]);
+    });
+
+    it('should not show FORMS_CONFIG errors to clients', async () => {
+      process.env.FORMS_CONFIG = JSON.stringify({ sales: { recipients: ['not-an-email'] } });
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      const result = await send(
+        createMockEvent({ pathParameters: { formId: 'sales' }, body: '{}' }),
+        mockContext
+      );
+
+      expect(result.statusCode).toBe(500);
+      expect(JSON.parse(result.body)).toEqual({ success: false, error: 'Internal server error' });
+      expect(consoleSpy).toHaveBeenCalledWith(
+        'Configuration error:',
+        expect.stringContaining('FORMS_CONFIG is invalid')
+      );
+      consoleSpy.mockRestore();
+    });
+
+    it('should apply per-form rate limits independently of the default form', async () => {
+      process.env.FORMS_CONFIG = JSON.stringify({
+        careers: {
+          recipients: ['jobs@example.com'],
+          rateLimit: { maxRequests: 1 },
+        },
+      });
+
+      const mockSESClient = {
+        send: vi.fn().mockResolvedValue({ MessageId: 'careers-message-id' }),
+      };
+      vi.mocked(SESClient).mockImplementation(() => mockSESClient as unknown as SESClient);
+
+      const body = JSON.stringify({
+        name: 'John Doe',
+        email: 'john@example.com',
+        content: 'This is a test message with sufficient content length.',
+      });
+      const careersEvent = createMockEvent({ body, pathParameters: { formId: 'careers' } });
+
+      expect((await send(careersEvent, mockContext)).statusCode).toBe(200);
+      expect((await send(careersEvent, mockContext)).statusCode).toBe(429);
+      expect((await send(createMockEvent({ body }), mockContext)).statusCode).toBe(200);
+    });
+
+    it('should skip captcha for forms that disable it', async () => {
+      process.env.CAPTCHA_SECRET = 'captcha-secret';
+      process.env.FORMS_CONFIG = JSON.stringify({
+        support: { recipients: ['support@example.com'], captcha: { enabled: false } },
+      });
+
+      const mockSESClient = {
+        send: vi.fn().mockResolvedValue({ MessageId: 'support-message-id' }),
+      };
+      vi.mocked(SESClient).mockImplementation(() => mockSESClient as unknown as SESClient);
+
+      const event = createMockEvent({
+        pathParameters: { formId: 'support' },
+        body: JSON.stringify({
+          name: 'John Doe',
+          email: 'john@example.com',
+          content: 'This is a test message with sufficient content length.',
+        }),
+      });
+
+      const result = await send(event, mockContext);
+
+      expect(result.statusCode).toBe(200);
+    });
+
+    it('should include custom fields in the email bodies', async () => {
+      process.env.FORMS_CONFIG = JSON.stringify({
+        sales: {
+          recipients: ['sales@example.com'],
+          fields: [
+            { name: 'company', type: 'text', label: 'Company', required: true },
+            { name: 'budget', type: 'select', label: 'Budget', options: ['small', 'large'] },
+          ],
+        },
+      });
+
+      const mockSESClient = {
+        send: vi.fn().mockResolvedValue({ MessageId: 'fields-message-id' }),
+      };
+      vi.mocked(SESClient).mockImplementation(() => mockSESClient as unknown as SESClient);
+
+      const event = createMockEvent({
+        pathParameters: { formId: 'sales' },
+        body: JSON.stringify({
+          name: 'John Doe',
+          email: 'john@example.com',
+          content: 'This is a test message with sufficient content length.',
+          company: 'Smith & Sons',
+          budget: 'large',
+        }),
+      });
+
+      const result = await send(event, mockContext);
+
+      expect(result.statusCode).toBe(200);
+      const params = vi.mocked(SendEmailCommand).mock.calls[0][0];
+      expect(params.Message?.Body?.Text?.Data).toContain('Company: Smith & Sons');
+      expect(params.Message?.Body?.Text?.Data).toContain('Budget: large');
+      expect(params.Message?.Body?.Html?.Data).toContain(
+        '<p><strong>Company:</strong> Smith &amp; Sons</p>'
+      );
+    });
+
+    it('should render per-form templates', async () => {
+      process.env.FORMS_CONFIG = JSON.stringify({
+        sales: {
+          recipients: ['sales@example.com'],
+          fields: [{ name: 'company', type: 'text', label: 'Company' }],
+          templates: {
+            text: 'Lead from {{name}}{{#if values.company}} at {{values.company}}{{/if}}',
+            html: '<h1>{{name}}</h1>{{#each fields}}<p>{{label}}: {{value}}</p>{{/each}}',
+          },
+        },
+      });
+
+      const transport = createMemoryTransport();
+      setEmailTransport(transport);
+
+      const event = createMockEvent({
+        pathParameters: { formId: 'sales' },
+        body: JSON.stringify({
+          name: "Jane O'Hara",
+          email: 'jane@example.com',
+          content: 'This is a test message with sufficient content length.',
+          company: 'Smith & Sons',
+        }),
+      });
+
+      const result = await send(event, mockContext);
+
+      expect(result.statusCode).toBe(200);
+      expect(transport.messages[0].text).toBe("Lead from Jane O'Hara at Smith & Sons");
+      expect(transport.messages[0].html).toBe(
+        '<h1>Jane O&#39;Hara</h1><p>Company: Smith &amp; Sons</p>'
+      );
+    });
+
+    it('should call form webhooks with a signed payload after sending', async () => {
+      process.env.FORMS_CONFIG = JSON.stringify({
+        leads: {
+          recipients: ['sales@example.com'],
+          webhooks: [
+            { url: 'https://hooks.example.com/leads', secrets: ['whsec_0123456789abcdef'] },
+          ],
+        },
+      });
+
+      const transport = createMemoryTransport();
+      setEmailTransport(transport);
+      const fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 204 });
+      vi.stubGlobal('fetch', fetchMock);
+
+      const result = await send(
+        createMockEvent({
+          pathParameters: { formId: 'leads' },
+          body: JSON.stringify({
+            name: 'Jane Doe',
+            email: 'jane@example.com',
+            content: 'Leads & partners: this message should reach the webhook.',
+          }),
+        }),
+        mockContext
+      );
+
+      expect(result.statusCode).toBe(200);
+      const { submissionId } = JSON.parse(result.body);
+      expect(submissionId).toMatch(/^[0-9a-f-]{36}$/);
+      expect(transport.messages).toHaveLength(1);
+
+      const [url, init] = fetchMock.mock.lastCall!;
+      expect(url).toBe('https://hooks.example.com/leads');
+      expect(init.headers['X-Webhook-Signature']).toMatch(/^t=\d+,v1=[a-f0-9]{64}$/);
+      expect(JSON.parse(init.body)).toMatchObject({
+        event: 'submission.received',
+        submissionId,
+        formId: 'leads',
+        data: {
+          name: 'Jane Doe',
+          email: 'jane@example.com',
+          content: 'Leads &amp; partners: this message should reach the webhook.',
+        },
+      });
+    });
+
+    it('should archive submissions and record the delivery status', async () => {
+      process.env.IP_HASH_SECRET = 'ip-hash-secret';
+      const repository = createMemorySubmissionRepository();
+      setSubmissionRepository(repository);
+      setEmailTransport(createMemoryTransport());
+
+      const result = await send(
+        createMockEvent({
+          headers: {
+            'User-Agent': 'Archive Test Browser',
+            Origin: 'https://example.com',
+            'Idempotency-Key': ' archive-key ',
+          },
+          body: JSON.stringify({
+            name: 'Archie Ive',
+            email: 'archie@example.com',
+            content: 'Please keep a copy of this message around.',
+          }),
+          requestContext: {
+            ...createMockEvent().requestContext,
+            requestId: 'api-request-1',
+            identity: {
+              ...createMockEvent().requestContext.identity,
+              sourceIp: '192.168.1.220',
+            },
+          },
+        }),
+        mockContext
+      );
+
+      expect(result.statusCode).toBe(200);
+      const { submissionId, messageId } = JSON.parse(result.body);
+      const record = repository.records.get(submissionId);
+      expect(record).toMatchObject({
+        formId: 'default',
+        request: { name: 'Archie Ive', email: 'archie@example.com' },
+        metadata: {
+          origin: 'https://example.com',
+          userAgent: 'Archive Test Browser',
+          requestId: 'api-request-1',
+          idempotencyKey: 'archive-key',
+        },
+        status: 'sent',
+        messageId,
+      });
+      expect(record?.metadata.ipHash).toMatch(/^[a-f0-9]{64}$/);
+      expect(record?.metadata.ipHash).not.toContain('192.168');
+
+      // Without a secret only a plain hash would be possible, so none is stored
+      delete process.env.IP_HASH_SECRET;
+      const unkeyed = await send(
+        createMockEvent({
+          body: JSON.stringify({
+            name: 'Archie Ive',
+            email: 'archie@example.com',
+            content: 'Archived without an IP hash because no secret is set.',
+          }),
+        }),
+        mockContext
+      );
+      const unkeyedRecord = repository.records.get(JSON.parse(unkeyed.body).submissionId);
+      expect(unkeyedRecord?.metadata).not.toHaveProperty('ipHash');
+    });
+
+    it('should mark archived submissions as failed when sending fails', async () => {
+      const repository = createMemorySubmissionRepository();
+      setSubmissionRepository(repository);
+      setEmailTransport({
+        name: 'broken',
+        send: async () => {
+          throw new Error('Message rejected');
+        },
+      });
+
+      const result = await send(
+        createMockEvent({
+          body: JSON.stringify({
+            name: 'Archie Ive',
+            email: 'archie@example.com',
+            content: 'This message will not make it to the inbox.',
+          }),
+          requestContext: {
+            ...createMockEvent().requestContext,
+            identity: {
+              ...createMockEvent().requestContext.identity,
+              sourceIp: '192.168.1.221',
+            },
+          },
+        }),
+        mockContext
+      );
+
+      expect(result.statusCode).toBe(500);
+      const [record] = repository.records.values();
+      expect(record).toMatchObject({
+        status: 'failed',
+        error: 'Failed to send email: Message rejected',
+      });
+    });
+
+    it('should still deliver when the archive is unavailable', async () => {
+      const transport = createMemoryTransport();
+      setEmailTransport(transport);
+      setSubmissionRepository({
+        name: 'broken',
+        save: async () => {
+          throw new Error('DynamoDB unavailable');
+        },
+        get: async () => undefined,
+        updateStatus: vi.fn(),
+        list: async () => ({ items: [] }),
+        delete: async () => false,
+        anonymize: async () => false,
+        setLabel: async () => false,
+      });
+
+      const result = await send(
+        createMockEvent({
+          body: JSON.stringify({
+            name: 'Archie Ive',
+            email: 'archie@example.com',
+            content: 'The archive is down but email still works.',
+          }),
+          requestContext: {
+            ...createMockEvent().requestContext,
+            identity: {
+              ...createMockEvent().requestContext.identity,
+              sourceIp: '192.168.1.222',
+            },
+          },
+        }),
+        mockContext
+      );
+
+      expect(result.statusCode).toBe(200);
+      expect(transport.messages).toHaveLength(1);
+    });
+
+    it('should send an auto-reply to the submitter after delivery', async () => {
+      process.env.FORMS_CONFIG = JSON.stringify({
+        support: {
+          recipients: ['support@example.com'],
+          autoReply: {
+            from: 'no-reply@example.com',
+            replyTo: ['support@example.com'],
+            subject: 'Re: {{subject}}',
+            includeMessage: true,
+            rateLimit: { maxRequests: 1 },
+          },
+        },
+      });
+
+      const transport = createMemoryTransport();
+      setEmailTransport(transport);
+
+      const submit = (content: string, sourceIp: string) =>
+        send(
+          createMockEvent({
+            pathParameters: { formId: 'support' },
+            body: JSON.stringify({
+              name: 'Jane Doe',
+              email: 'autoreply@example.com',
+              subject: 'Order status',
+              content,
+            }),
+            requestContext: {
+              ...createMockEvent().requestContext,
+              identity: { ...createMockEvent().requestContext.identity, sourceIp },
+            },
+          }),
+          mockContext
+        );
+
+      const first = await submit('Where is my order? It has been two weeks now.', '10.0.0.1');
+      const second = await submit('Following up on my order from two weeks ago.', '10.0.0.2');
+
+      expect(first.statusCode).toBe(200);
+      expect(second.statusCode).toBe(200);
+      expect(transport.messages.map(message => message.to)).toEqual([
+        ['support@example.com'],
+        ['autoreply@example.com'],
+        ['support@example.com'],
+      ]);
+      expect(transport.messages[1]).toMatchObject({
+        from: 'no-reply@example.com',
+        replyTo: ['support@example.com'],
+        subject: 'Re: Order status',
+      });
+      expect(transport.messages[1].text).toContain('> Where is my order?');
+    });
+
+    it('should not auto-reply to honeypot submissions', async () => {
+      process.env.FORMS_CONFIG = JSON.stringify({
+        default: { autoReply: { from: 'no-reply@example.com' } },
+      });
+
+      const transport = createMemoryTransport();
+      setEmailTransport(transport);
+
+      const event = createMockEvent({
+        body: JSON.stringify({
+          name: 'Bot',
+          email: 'victim@example.com',
+          content: 'This is a test message with sufficient content length.',
+          _honeypot: 'filled by bot',
+        }),
+      });
+
+      const result = await send(event, mockContext);
+
+      expect(result.statusCode).toBe(200);
+      expect(transport.messages).toHaveLength(0);
+    });
+
+    it('should route recipients and use the configured sender', async () => {
+      process.env.SENDER_EMAIL = 'forms@example.com';
+      process.env.FORMS_CONFIG = JSON.stringify({
+        default: {
+          routing: [
+            {
+              when: [{ field: 'subject', contains: 'billing' }],
+              mode: 'set',
+              to: ['finance@example.com'],
+            },
+            { when: [{ field: 'emailDomain', equals: 'bigcorp.com' }], cc: ['am@example.com'] },
+            { bcc: ['archive@example.com'] },
+          ],
+        },
+      });
+
+      const transport = createMemoryTransport();
+      setEmailTransport(transport);
+
+      const event = createMockEvent({
+        body: JSON.stringify({
+          name: 'Jane Doe',
+          email: 'jane@bigcorp.com',
+          subject: 'Billing question',
+          content: 'This is a test message with sufficient content length.',
+        }),
+      });
+
+      const result = await send(event, mockContext);
+
+      expect(result.statusCode).toBe(200);
+      expect(transport.messages[0]).toMatchObject({
+        from: 'forms@example.com',
+        to: ['finance@example.com'],
+        cc: ['am@example.com'],
+        bcc: ['archive@example.com'],
+      });
+    });
+
+    it('should queue submissions and return 202 in async mode', async () => {
+      process.env.DELIVERY_MODE = 'async';
+      const queue = createMemoryQueue();
+      setSubmissionQueue(queue);
+      const transport = createMemoryTransport();
+      setEmailTransport(transport);
+
+      const event = createMockEvent({
+        body: JSON.stringify({
+          name: 'John Doe',
+          email: 'john@example.com',
+          content: 'This message should be delivered by the queue worker.',
+        }),
+      });
+
+      const result = await send(event, mockContext);
+
+      expect(result.statusCode).toBe(202);
+      const body = JSON.parse(result.body);
+      expect(body.success).toBe(true);
+      expect(body.submissionId).toMatch(/^[0-9a-f-]{36}$/);
+      expect(transport.messages).toHaveLength(0);
+      expect(queue.jobs).toHaveLength(1);
+      expect(queue.jobs[0]).toMatchObject({
+        submissionId: body.submissionId,
+        formId: 'default',
+        request: { email: 'john@example.com' },
+      });
+    });
+
+    it('should return 503 when the queue is unavailable', async () => {
+      process.env.DELIVERY_MODE = 'async';
+      setSubmissionQueue({
+        name: 'broken',
+        enqueue: async () => {
+          throw new Error('SQS unavailable');
+        },
+      });
+
+      const event = createMockEvent({
+        body: JSON.stringify({
+          name: 'John Doe',
+          email: 'john@example.com',
+          content: 'This message cannot be queued right now, sadly.',
+        }),
+      });
+
+      const result = await send(event, mockContext);
+
+      expect(result.statusCode).toBe(503);
+      expect(JSON.parse(result.body).error).toBe('Submission queue unavailable');
+    });
+
+    it('should not show a missing queue URL to clients', async () => {
+      process.env.DELIVERY_MODE = 'async';
+      setSubmissionQueue(undefined);
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      const event = createMockEvent({
+        body: JSON.stringify({
+          name: 'John Doe',
+          email: 'john@example.com',
+          content: 'This message has nowhere to be queued at the moment.',
+        }),
+      });
+
+      const result = await send(event, mockContext);
+
+      expect(result.statusCode).toBe(500);
+      expect(JSON.parse(result.body)).toEqual({ success: false, error: 'Internal server error' });
+      expect(consoleSpy).toHaveBeenCalledWith(
+        'Configuration error:',
+        'QUEUE_URL must be set when DELIVERY_MODE is async'
+      );
+      consoleSpy.mockRestore();
+    });
+
+    it('should reject suspicious content in custom fields', async () => {
+      process.env.FORMS_CONFIG = JSON.stringify({
+        sales: {
+          recipients: ['sales@example.com'],
+          fields: [{ name: 'company', type: 'text' }],
+        },
+      });
+
+      const event = createMockEvent({
+        pathParameters: { formId: 'sales' },
+        body: JSON.stringify({
+          name: 'John Doe',
+          email: 'john@example.com',
+          content: 'This is a test message with sufficient content length.',
+          company: '<script>alert(1)</script>',
+        }),
+      });
+
+      const result = await send(event, mockContext);
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).error).toBe('Invalid content');
+    });
+
+    it('should redirect urlencoded submissions to the allow-listed success URL', async () => {
+      process.env.REDIRECT_ALLOWLIST = 'https://example.com';
+
+      const mockSESClient = {
+        send: vi.fn().mockResolvedValue({ MessageId: 'form-post-message-id' }),
+      };
+      vi.mocked(SESClient).mockImplementation(() => mockSESClient as unknown as SESClient);
+
+      const event = createMockEvent({
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+          name: 'John Doe',
+          email: 'john@example.com',
+          content: 'This is a test message with sufficient content length.',
+          _redirect: 'https://example.com/thanks',
+          _redirect_error: 'https://example.com/contact',
+        }).toString(),
+      });
+
+      const result = await send(event, mockContext);
+
+      expect(result.statusCode).toBe(303);
+      expect(result.headers?.Location).toBe('https://example.com/thanks?status=success');
+      expect(mockSESClient.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should redirect failed form posts to the failure URL with the error', async () => {
+      process.env.FORMS_CONFIG = JSON.stringify({
+        support: {
+          recipients: ['support@example.com'],
+          redirect: {
+            success: 'https://example.com/thanks',
+            failure: 'https://example.com/oops',
+          },
+        },
+      });
+      process.env.REDIRECT_ALLOWLIST = 'https://example.com';
+
+      const event = createMockEvent({
+        pathParameters: { formId: 'support' },
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: 'name=J&email=john%40example.com&content=short',
+      });
+
+      const result = await send(event, mockContext);
+
+      expect(result.statusCode).toBe(303);
+      const location = new URL(String(result.headers?.Location));
+      expect(location.origin + location.pathname).toBe('https://example.com/oops');
+      expect(location.searchParams.get('status')).toBe('error');
+      expect(location.searchParams.get('error')).toContain('Name must be at least 2 characters');
+    });
+
+    it('should ignore redirect targets outside the allow-list', async () => {
+      process.env.DOMAIN = 'https://example.com';
+
+      const event = createMockEvent({
+        headers: {
+          origin: 'https://example.com',
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: 'name=J&_redirect_error=https%3A%2F%2Fevil.com%2F',
+      });
+
+      const result = await send(event, mockContext);
+
+      expect(result.statusCode).toBe(400);
+      expect(result.headers?.Location).toBeUndefined();
+    });
+
+    it('should accept base64-encoded multipart submissions', async () => {
+      const mockSESClient = {
+        send: vi.fn().mockResolvedValue({ MessageId: 'multipart-message-id' }),
+      };
+      vi.mocked(SESClient).mockImplementation(() => mockSESClient as unknown as SESClient);
+
+      const boundary = 'XyZboundary';
+      const body = [
+        ['name', 'John Doe'],
+        ['email', 'john@example.com'],
+        ['content', 'This is a test message with sufficient content length.'],
+      ]
+        .map(
+          ([name, value]) =>
+            `--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`
+        )
+        .join('');
+
+      const event = createMockEvent({
+        headers: { 'content-type': `multipart/form-data; boundary=${boundary}` },
+        isBase64Encoded: true,
+        body: Buffer.from(`${body}--${boundary}--\r\n`).toString('base64'),
+      });
+
+      const result = await send(event, mockContext);
+
+      // No allow-listed redirect target, so the JSON response is returned as-is
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).messageId).toBe('multipart-message-id');
+    });
+
+    it('should send validated attachments as a raw MIME message', async () => {
+      process.env.FORMS_CONFIG = JSON.stringify({
+        support: {
+          recipients: ['support@example.com'],
+          attachments: { maxFiles: 2, allowedTypes: ['image/png'] },
+        },
+      });
+
+      const mockSESClient = {
+        send: vi.fn().mockResolvedValue({ MessageId: 'raw-message-id' }),
+      };
+      vi.mocked(SESClient).mockImplementation(() => mockSESClient as unknown as SESClient);
+
+      const boundary = 'AttachBoundary';
+      const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x01, 0x02]);
+      const fields = [
+        ['name', 'John Doe'],
+        ['email', 'john@example.com'],
+        ['content', 'The app crashes, screenshot attached.'],
+      ]
+        .map(
+          ([name, value]) =>
+            `--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`
+        )
+        .join('');
+      const body = Buffer.concat([
+        Buffer.from(fields),
+        Buffer.from(
+          `--${boundary}\r\nContent-Disposition: form-data; name="screenshot"; filename="crash.png"\r\nContent-Type: application/octet-stream\r\n\r\n`
+        ),
+        png,
+        Buffer.from(`\r\n--${boundary}--\r\n`),
+      ]);
+
+      const event = createMockEvent({
+        pathParameters: { formId: 'support' },
+        headers: { 'Content-Type': `multipart/form-data; boundary=${boundary}` },
+        isBase64Encoded: true,
+        body: body.toString('base64'),
+      });
+
+      const result = await send(event, mockContext);
+
+      expect(result.statusCode).toBe(200);
+      expect(SendEmailCommand).not.toHaveBeenCalled();
+      const params = vi.mocked(SendRawEmailCommand).mock.calls[0][0];
+      expect(params.Destinations).toEqual(['support@example.com']);
+      const raw = Buffer.from(params.RawMessage?.Data as Uint8Array).toString();
+      expect(raw).toContain('Content-Type: image/png; name="crash.png"');
+      expect(raw).toContain(png.toString('base64'));
+    });
+
+    it('should reject attachments with a disallowed detected type', async () => {
+      process.env.FORMS_CONFIG = JSON.stringify({
+        support: {
+          recipients: ['support@example.com'],
+          attachments: { allowedTypes: ['image/png'] },
+        },
+      });
+
+      const boundary = 'AttachBoundary';
+      const body = [
+        ['name', 'John Doe'],
+        ['email', 'john@example.com'],
+        ['content', 'The app crashes, screenshot attached.'],
+      ]
+        .map(
+          ([name, value]) =>
+            `--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`
+        )
+        .join('')
+        .concat(
+          `--${boundary}\r\nContent-Disposition: form-data; name="screenshot"; filename="crash.png"\r\nContent-Type: image/png\r\n\r\nnot really a png\r\n--${boundary}--\r\n`
+        );
+
+      const event = createMockEvent({
+        pathParameters: { formId: 'support' },
+        headers: { 'Content-Type': `multipart/form-data; boundary=${boundary}` },
+        body,
+      });
+
+      const result = await send(event, mockContext);
+
+      expect(result.statusCode).toBe(400);
+      const responseBody = JSON.parse(result.body);
+      expect(responseBody.issues[0]).toMatchObject({
+        field: 'screenshot',
+        code: 'invalid_file_type',
+      });
+    });
+
+    it('should deliver through an injected transport without SES', async () => {
+      const transport = createMemoryTransport();
+      setEmailTransport(transport);
+
+      const event = createMockEvent({
+        body: JSON.stringify({
+          name: 'John Doe',
+          email: 'john@example.com',
+          content: 'This is a test message with sufficient content length.',
+        }),
+      });
+
+      const result = await send(event, mockContext);
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).messageId).toBe('memory-1');
+      expect(vi.mocked(SESClient)).not.toHaveBeenCalled();
+      expect(transport.messages[0]).toMatchObject({
+        from: 'test@example.com',
+        to: ['test@example.com'],
+        replyTo: ['john@example.com'],
+        subject: 'New Contact Form Submission',
+      });
+    });
+
+    it('should return 500 for an unknown EMAIL_TRANSPORT', async () => {
+      process.env.EMAIL_TRANSPORT = 'pigeon';
+
+      const event = createMockEvent({
+        body: JSON.stringify({
+          name: 'John Doe',
+          email: 'john@example.com',
+          content: 'Checking what happens with a misconfigured transport.',
+        }),
+      });
+
+      const result = await send(event, mockContext);
+
+      expect(result.statusCode).toBe(500);
+      expect(JSON.parse(result.body).error).toBe('Internal server error');
+    });
+
+    it('should build the configured transport once per container', async () => {
+      const mockSESClient = { send: vi.fn().mockResolvedValue({ MessageId: 'reused-id' }) };
+      vi.mocked(SESClient).mockImplementation(() => mockSESClient as unknown as SESClient);
+      const body = JSON.stringify({
+        name: 'John Doe',
+        email: 'john@example.com',
+        content: 'This is a test message with sufficient content length.',
+      });
+
+      expect((await send(createMockEvent({ body }), mockContext)).statusCode).toBe(200);
+      expect((await send(createMockEvent({ body }), mockContext)).statusCode).toBe(200);
+      expect(vi.mocked(SESClient)).toHaveBeenCalledTimes(1);
+      expect(mockSESClient.send).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('domain events', () => {
+    const createSubmission = (body: Record<string, unknown>, sourceIp: string) =>
+      createMockEvent({
+        body: JSON.stringify({
+          name: 'John Doe',
+          email: 'john@example.com',
+          content: 'This is a test message with sufficient content length.',
+          ...body,
+        }),
+        requestContext: {
+          ...createMockEvent().requestContext,
+          identity: { ...createMockEvent().requestContext.identity, sourceIp },
+        },
+      });
+
+    it('should publish an accepted event after delivery', async () => {
+      const publisher = createCaptureEventPublisher();
+      setEventPublisher(publisher);
+      setEmailTransport(createMemoryTransport());
+
+      const result = await send(createSubmission({}, '10.20.0.1'), mockContext);
+      const { submissionId } = JSON.parse(result.body);
+
+      expect(publisher.batches).toBe(1);
+      expect(publisher.events).toEqual([
+        {
+          schemaVersion: '1.0',
+          id: expect.any(String),
+          type: 'submission.accepted',
+          occurredAt: expect.any(String),
+          formId: 'default',
+          requestId: 'request-id',
+          data: {
+            submissionId,
+            deliveryMode: 'sync',
+            messageId: 'memory-1',
+            attachments: 0,
+          },
+        },
+      ]);
+    });
+
+    it('should publish rejected, spam, honeypot and rate limit outcomes', async () => {
+      const publisher = createCaptureEventPublisher();
+      setEventPublisher(publisher);
+      setEmailTransport(createMemoryTransport());
+      process.env.RATE_LIMIT_MAX_REQUESTS = '3';
+
+      await send(createSubmission({ email: 'not-an-email' }, '10.20.0.2'), mockContext);
+      await send(
+        createSubmission({ content: '<script>alert(1)</script>' }, '10.20.0.2'),
+        mockContext
+      );
+      await send(createSubmission({ _honeypot: 'bot' }, '10.20.0.2'), mockContext);
+      await send(createSubmission({}, '10.20.0.2'), mockContext);
+      delete process.env.RATE_LIMIT_MAX_REQUESTS;
+
+      expect(publisher.events.map(event => event.type)).toEqual([
+        'submission.rejected',
+        'submission.spam_flagged',
+        'submission.honeypot_trapped',
+        'submission.rate_limited',
+      ]);
+      expect(publisher.events[0].data).toEqual({
+        reason: expect.any(String),
+        issues: [{ field: 'email', code: 'invalid_email' }],
+      });
+      expect(publisher.events[1].data).toEqual({
+        reason: 'suspicious_content',
+        action: 'reject',
+        score: 10,
+        rules: ['markup'],
+      });
+    });
+
+    it('should publish duplicate and delivery failure outcomes', async () => {
+      const publisher = createCaptureEventPublisher();
+      setEventPublisher(publisher);
+      setEmailTransport({
+        name: 'broken',
+        send: async () => {
+          throw new Error('Transport offline');
+        },
+      });
+
+      const event = createSubmission({}, '10.20.0.3');
+      event.headers = { 'Idempotency-Key': 'events-key' };
+      const failed = await send(event, mockContext);
+      await send(event, mockContext);
+
+      expect(failed.statusCode).toBeGreaterThanOrEqual(500);
+      expect(publisher.events.map(entry => entry.type)).toEqual([
+        'submission.delivery_failed',
+        'submission.duplicate',
+      ]);
+      expect(publisher.events[0].data).toMatchObject({
+        deliveryMode: 'sync',
+        error: 'Failed to send email: Transport offline',
+      });
+    });
+
+    it('should not fail the request when publishing fails', async () => {
+      setEventPublisher({
+        name: 'broken',
+        publish: async () => {
+          throw new Error('Bus unavailable');
+        },
+      });
+      setEmailTransport(createMemoryTransport());
+
+      const result = await send(createSubmission({}, '10.20.0.4'), mockContext);
+
+      expect(result.statusCode).toBe(200);
+    });
+  });
+
+  describe('spam scoring', () => {
+    const spamContent =
+      'Boost your SEO and web traffic: https://a.example https://b.example https://c.example';
+    const createSubmission = (body: Record<string, unknown>, sourceIp: string) =>
+      createMockEvent({
+        body: JSON.stringify({
+          name: 'Sam Spammer',
+          email: 'sam@example.com',
+          content: 'This is a test message with sufficient content length.',
+          ...body,
+        }),
+        requestContext: {
+          ...createMockEvent().requestContext,
+          identity: { ...createMockEvent().requestContext.identity, sourceIp },
+        },
+      });
+
+    it('should quarantine likely spam in the archive without delivering it', async () => {
+      const repository = createMemorySubmissionRepository();
+      const transport = createMemoryTransport();
+      const publisher = createCaptureEventPublisher();
+      setSubmissionRepository(repository);
+      setEmailTransport(transport);
+      setEventPublisher(publisher);
+      const log = vi.spyOn(console, 'log');
+
+      const result = await send(
+        createSubmission({ content: spamContent }, '10.30.0.1'),
+        mockContext
+      );
+
+      expect(result.statusCode).toBe(200);
+      expect(transport.messages).toHaveLength(0);
+      const { submissionId } = JSON.parse(result.body);
+      const record = repository.records.get(submissionId);
+      expect(record?.status).toBe('quarantined');
+      expect(record?.metadata.spam).toEqual({
+        score: 5,
+        action: 'quarantine',
+        reasons: [
+          { rule: 'links', score: 1, detail: '3 links' },
+          { rule: 'keywords', score: 4, detail: 'Keywords: seo, web traffic' },
+        ],
+      });
+      expect(log).toHaveBeenCalledWith(
+        'Spam score:',
+        expect.objectContaining({ formId: 'default', score: 5, action: 'quarantine' })
+      );
+      expect(publisher.events.map(event => [event.type, event.data])).toEqual([
+        [
+          'submission.spam_flagged',
+          {
+            reason: 'suspicious_content',
+            action: 'quarantine',
+            score: 5,
+            rules: ['links', 'keywords'],
+          },
+        ],
+      ]);
+      log.mockRestore();
+    });
+
+    it('should only notify the recipients of quarantined submissions without an archive', async () => {
+      process.env.FORMS_CONFIG = JSON.stringify({
+        default: {
+          autoReply: { from: 'no-reply@example.com' },
+          webhooks: [
+            { url: 'https://hooks.example.com/leads', secrets: ['whsec_0123456789abcdef'] },
+          ],
+        },
+      });
+      process.env.DELIVERY_MODE = 'async';
+      const queue = createMemoryQueue();
+      setSubmissionQueue(queue);
+      const transport = createMemoryTransport();
+      setEmailTransport(transport);
+      const publisher = createCaptureEventPublisher();
+      setEventPublisher(publisher);
+      const fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 204 });
+      vi.stubGlobal('fetch', fetchMock);
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const result = await send(
+        createSubmission({ content: spamContent }, '10.30.0.2'),
+        mockContext
+      );
+
+      expect(result.statusCode).toBe(200);
+      expect(queue.jobs).toHaveLength(0);
+      expect(transport.messages).toHaveLength(1);
+      expect(transport.messages[0].to).toEqual(['test@example.com']);
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(publisher.events.map(event => event.type)).toEqual(['submission.spam_flagged']);
+      expect(warn).toHaveBeenCalledWith(
+        'Quarantine requires the submission archive; delivering to recipients only:',
+        expect.objectContaining({ score: 5 })
+      );
+      warn.mockRestore();
+    });
+
+    it('should store the score of accepted submissions', async () => {
+      const repository = createMemorySubmissionRepository();
+      setSubmissionRepository(repository);
+      setEmailTransport(createMemoryTransport());
+
+      const result = await send(createSubmission({}, '10.30.0.3'), mockContext);
+
+      const { submissionId } = JSON.parse(result.body);
+      expect(repository.records.get(submissionId)).toMatchObject({
+        status: 'sent',
+        metadata: { spam: { score: 0, action: 'accept', reasons: [] } },
+      });
+    });
+
+    it('should apply per-form rules and thresholds', async () => {
+      process.env.FORMS_CONFIG = JSON.stringify({
+        default: {
+          spam: {
+            rejectScore: 6,
+            weights: { links: 3 },
+            patterns: [{ id: 'telegram', pattern: 't\\.me/', weight: 6 }],
+          },
+        },
+      });
+      setEmailTransport(createMemoryTransport());
+
+      const links = await send(
+        createSubmission({ content: spamContent }, '10.30.0.4'),
+        mockContext
+      );
+      const telegram = await send(
+        createSubmission(
+          { content: 'Contact me on t.me/spammer for a great deal today.' },
+          '10.30.0.5'
+        ),
+        mockContext
+      );
+      delete process.env.FORMS_CONFIG;
+
+      expect(links.statusCode).toBe(400);
+      expect(JSON.parse(links.body).details).toBe('Suspicious content detected');
+      expect(telegram.statusCode).toBe(400);
+    });
+
+    it('should feed the classifier probability into the score', async () => {
+      setSpamModel(
+        trainSpamModel(
+          [
+            { label: 'spam', text: 'Guaranteed returns on your crypto wallet' },
+            { label: 'spam', text: 'Guaranteed returns, invest in our wallet today' },
+            { label: 'ham', text: 'Could you send me your opening hours?' },
+            { label: 'ham', text: 'Please send me the opening hours for Sunday' },
+          ],
+          { minCount: 1 }
+        )
+      );
+      const repository = createMemorySubmissionRepository();
+      setSubmissionRepository(repository);
+      setEmailTransport(createMemoryTransport());
+
+      const result = await send(
+        createSubmission(
+          { content: 'Guaranteed returns: invest in our wallet today.' },
+          '10.30.0.7'
+        ),
+        mockContext
+      );
+
+      const { submissionId } = JSON.parse(result.body);
+      const record = repository.records.get(submissionId);
+      expect(record?.status).toBe('quarantined');
+      expect(record?.metadata.spam?.probability).toBeGreaterThan(0.9);
+      expect(record?.metadata.spam?.reasons.map(reason => reason.rule)).toEqual(['classifier']);
+    });
+
+    it('should read the default thresholds from the environment', async () => {
+      process.env.SPAM_REJECT_SCORE = '4';
+      setEmailTransport(createMemoryTransport());
+
+      const result = await send(
+        createSubmission(
+          { content: 'Buy crypto and bitcoin today, great casino offers inside!' },
+          '10.30.0.6'
+        ),
+        mockContext
+      );
+      delete process.env.SPAM_REJECT_SCORE;
+
+      expect(result.statusCode).toBe(400);
+    });
+  });
+
+  describe('form tokens', () => {
+    const tokenSecret = 'form-token-secret-0123456789abcdef';
+    const origin = 'https://example.com';
+
+    const requestToken = async (formId?: string, headers: Record<string, string> = { origin }) =>
+      send(
+        createMockEvent({
+          httpMethod: 'GET',
+          path: '/contact/token',
+          resource: '/contact/token',
+          headers,
+          queryStringParameters: formId ? { formId } : null,
+        }),
+        mockContext
+      );
+
+    const createSubmission = (
+      sourceIp: string,
+      token?: string,
+      overrides: Partial<APIGatewayProxyEvent> = {}
+    ) =>
+      createMockEvent({
+        headers: { origin, ...(token && { 'x-form-token': token }) },
+        body: JSON.stringify({
+          name: 'John Doe',
+          email: 'john@example.com',
+          content: 'This is a test message with sufficient content length.',
+        }),
+        requestContext: {
+          ...createMockEvent().requestContext,
+          identity: { ...createMockEvent().requestContext.identity, sourceIp },
+        },
+        ...overrides,
+      });
+
+    beforeEach(() => {
+      process.env.FORM_TOKEN_SECRET = tokenSecret;
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2024-06-01T12:00:00.000Z'));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should issue a token and accept it once after the minimum fill time', async () => {
+      const transport = createMemoryTransport();
+      setEmailTransport(transport);
+
+      const issued = await requestToken();
+      expect(issued.statusCode).toBe(200);
+      expect(issued.headers?.['Access-Control-Allow-Methods']).toBe('GET,POST,OPTIONS');
+      const { token, expiresAt } = JSON.parse(issued.body);
+      expect(expiresAt).toBe('2024-06-01T14:00:00.000Z');
+
+      vi.setSystemTime(new Date('2024-06-01T12:00:05.000Z'));
+      const accepted = await send(createSubmission('10.40.0.1', token), mockContext);
+      expect(accepted.statusCode).toBe(200);
+      expect(transport.messages).toHaveLength(1);
+
+      const replayed = await send(createSubmission('10.40.0.1', token), mockContext);
+      expect(replayed.statusCode).toBe(403);
+      expect(JSON.parse(replayed.body).details).toBe('Form token has already been used');
+    });
+
+    it('should require a token when a secret is configured', async () => {
+      const publisher = createCaptureEventPublisher();
+      setEventPublisher(publisher);
+
+      const result = await send(createSubmission('10.40.0.2'), mockContext);
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).error).toBe('Form token required');
+      expect(publisher.events[0]).toMatchObject({
+        type: 'submission.rejected',
+        data: { reason: 'Missing form token' },
+      });
+    });
+
+    it('should reject submissions faster than the minimum fill time', async () => {
+      const publisher = createCaptureEventPublisher();
+      setEventPublisher(publisher);
+      process.env.FORM_TOKEN_MIN_FILL_MS = '10000';
+      const { token } = JSON.parse((await requestToken()).body);
+
+      vi.setSystemTime(new Date('2024-06-01T12:00:05.000Z'));
+      const result = await send(createSubmission('10.40.0.3', token), mockContext);
+
+      expect(result.statusCode).toBe(403);
+      expect(JSON.parse(result.body).details).toBe('Form submitted too quickly');
+      expect(publisher.events[0]).toMatchObject({
+        type: 'submission.spam_flagged',
+        data: { reason: 'form_token_failed', action: 'reject', failure: 'too_fast' },
+      });
+    });
+
+    it('should reject expired tokens and tokens for another form or origin', async () => {
+      process.env.FORMS_CONFIG = JSON.stringify({
+        sales: { recipients: ['sales@example.com'] },
+      });
+      const { token: defaultToken } = JSON.parse((await requestToken()).body);
+      const { token: salesToken } = JSON.parse((await requestToken('sales')).body);
+      vi.setSystemTime(new Date('2024-06-01T12:00:05.000Z'));
+
+      const wrongForm = await send(createSubmission('10.40.0.4', salesToken), mockContext);
+      expect(JSON.parse(wrongForm.body).details).toBe('Form token was issued for another form');
+
+      const wrongOrigin = await send(
+        createSubmission('10.40.0.4', defaultToken, {
+          headers: { origin: 'https://other.example.com', 'x-form-token': defaultToken },
+        }),
+        mockContext
+      );
+      expect(JSON.parse(wrongOrigin.body).details).toBe('Form token was issued for another origin');
+
+      vi.setSystemTime(new Date('2024-06-01T14:00:00.000Z'));
+      const expired = await send(createSubmission('10.40.0.4', defaultToken), mockContext);
+      expect(expired.statusCode).toBe(403);
+      expect(JSON.parse(expired.body).details).toBe('Form token has expired');
+    });
+
+    it('should not show secret length errors to clients', async () => {
+      process.env.FORM_TOKEN_SECRET = 'too-short';
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      for (const result of [
+        await requestToken(),
+        await send(createSubmission('10.40.0.6', 'token'), mockContext),
+      ]) {
+        expect(result.statusCode).toBe(500);
+        expect(JSON.parse(result.body)).toEqual({ success: false, error: 'Internal server error' });
+      }
+      expect(consoleSpy).toHaveBeenCalledWith(
+        'Configuration error:',
+        'FORM_TOKEN_SECRET values must be at least 32 characters'
+      );
+      consoleSpy.mockRestore();
+    });
+
+    it('should read the token from a hidden form field', async () => {
+      setEmailTransport(createMemoryTransport());
+      const { token } = JSON.parse((await requestToken()).body);
+      vi.setSystemTime(new Date('2024-06-01T12:00:05.000Z'));
+
+      const result = await send(
+        createSubmission('10.40.0.5', undefined, {
+          headers: { origin, 'content-type': 'application/x-www-form-urlencoded' },
+          body: new URLSearchParams({
+            name: 'John Doe',
+            email: 'john@example.com',
+            content: 'This is a test message with sufficient content length.',
+            _formToken: token,
+          }).toString(),
+        }),
+        mockContext
+      );
+
+      expect(result.statusCode).toBe(200);
+    });
+
+    it('should apply form settings and work alongside captcha', async () => {
+      setEmailTransport(createMemoryTransport());
+      process.env.CAPTCHA_SECRET = 'captcha-secret';
+      process.env.FORMS_CONFIG = JSON.stringify({
+        quick: { recipients: ['quick@example.com'], formToken: { minFillMs: 0 } },
+        open: { recipients: ['open@example.com'], formToken: { enabled: false } },
+      });
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue({
+          ok: true,
+          json: async () => ({ success: true, challenge_ts: new Date().toISOString() }),
+        })
+      );
+
+      const { token } = JSON.parse((await requestToken('quick')).body);
+      const quick = await send(
+        createSubmission('10.40.0.6', token, {
+          headers: { origin, 'x-form-token': token, 'x-captcha-token': 'captcha' },
+          pathParameters: { formId: 'quick' },
+        }),
+        mockContext
+      );
+      expect(quick.statusCode).toBe(200);
+
+      expect((await requestToken('open')).statusCode).toBe(404);
+      const open = await send(
+        createSubmission('10.40.0.6', undefined, {
+          headers: { origin, 'x-captcha-token': 'captcha' },
+          pathParameters: { formId: 'open' },
+        }),
+        mockContext
+      );
+      expect(open.statusCode).toBe(200);
+    });
+
+    it('should not issue tokens for unknown forms or without a secret', async () => {
+      expect((await requestToken('missing')).statusCode).toBe(404);
+
+      delete process.env.FORM_TOKEN_SECRET;
+      const result = await requestToken();
+      expect(result.statusCode).toBe(404);
+      expect(JSON.parse(result.body).details).toBe('Form tokens are not enabled for form: default');
+    });
+  });
+
+  describe('proof of work', () => {
+    const createChallengeEvent = (sourceIp: string, formId?: string) =>
+      createMockEvent({
+        httpMethod: 'GET',
+        path: '/contact/challenge',
+        resource: '/contact/challenge',
+        queryStringParameters: formId ? { formId } : null,
+        requestContext: {
+          ...createMockEvent().requestContext,
+          identity: { ...createMockEvent().requestContext.identity, sourceIp },
+        },
+      });
+
+    const solve = async (sourceIp: string, formId?: string) => {
+      const result = await send(createChallengeEvent(sourceIp, formId), mockContext);
+      const { challenge, difficulty } = JSON.parse(result.body);
+      return { difficulty, solution: solvePowChallenge(challenge, difficulty) };
+    };
+
+    const createSubmission = (
+      sourceIp: string,
+      solution?: string,
+      overrides: Partial<APIGatewayProxyEvent> = {}
+    ) =>
+      createMockEvent({
+        headers: solution ? { 'x-pow-solution': solution } : {},
+        body: JSON.stringify({
+          name: 'John Doe',
+          email: 'john@example.com',
+          content: 'This is a test message with sufficient content length.',
+        }),
+        requestContext: {
+          ...createMockEvent().requestContext,
+          identity: { ...createMockEvent().requestContext.identity, sourceIp },
+        },
+        ...overrides,
+      });
+
+    beforeEach(() => {
+      process.env.POW_SECRET = 'proof-of-work-secret-0123456789abcdef';
+      process.env.POW_DIFFICULTY = '4';
+      process.env.POW_MAX_DIFFICULTY = '8';
+    });
+
+    it('should accept a solved challenge once', async () => {
+      const transport = createMemoryTransport();
+      setEmailTransport(transport);
+
+      const { difficulty, solution } = await solve('10.50.0.1');
+      expect(difficulty).toBe(4);
+
+      const accepted = await send(createSubmission('10.50.0.1', solution), mockContext);
+      expect(accepted.statusCode).toBe(200);
+      expect(transport.messages).toHaveLength(1);
+
+      const replayed = await send(createSubmission('10.50.0.1', solution), mockContext);
+      expect(replayed.statusCode).toBe(403);
+      expect(JSON.parse(replayed.body).details).toBe('Challenge has already been used');
+    });
+
+    it('should check the solution before validating the submission', async () => {
+      const publisher = createCaptureEventPublisher();
+      setEventPublisher(publisher);
+
+      const result = await send(
+        createSubmission('10.50.0.2', undefined, { body: JSON.stringify({ email: 'x' }) }),
+        mockContext
+      );
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).error).toBe('Proof of work required');
+      expect(publisher.events[0]).toMatchObject({
+        type: 'submission.rejected',
+        data: { reason: 'Missing proof of work' },
+      });
+    });
+
+    it('should reject solutions from another client', async () => {
+      const publisher = createCaptureEventPublisher();
+      setEventPublisher(publisher);
+      const { solution } = await solve('10.50.0.3');
+
+      const result = await send(createSubmission('10.50.0.4', solution), mockContext);
+
+      expect(result.statusCode).toBe(403);
+      expect(publisher.events[0]).toMatchObject({
+        type: 'submission.spam_flagged',
+        data: { reason: 'pow_failed', action: 'reject', failure: 'wrong_client' },
+      });
+    });
+
+    it('should raise the difficulty as a client nears the rate limit', async () => {
+      setEmailTransport(createMemoryTransport());
+      process.env.RATE_LIMIT_MAX_REQUESTS = '4';
+
+      const difficulties: number[] = [];
+      for (let attempt = 0; attempt < 4; attempt++) {
+        const { difficulty, solution } = await solve('10.50.0.5');
+        difficulties.push(difficulty);
+        expect((await send(createSubmission('10.50.0.5', solution), mockContext)).statusCode).toBe(
+          200
+        );
+      }
+      delete process.env.RATE_LIMIT_MAX_REQUESTS;
+
+      expect(difficulties).toEqual([4, 4, 4, 6]);
+    });
+
+    it('should refuse easy challenges fetched before the difficulty rose', async () => {
+      setEmailTransport(createMemoryTransport());
+      const publisher = createCaptureEventPublisher();
+      setEventPublisher(publisher);
+      process.env.RATE_LIMIT_MAX_REQUESTS = '4';
+
+      const stock = [];
+      for (let attempt = 0; attempt < 4; attempt++) {
+        stock.push(await solve('10.50.0.7'));
+      }
+      expect(stock.map(({ difficulty }) => difficulty)).toEqual([4, 4, 4, 4]);
+
+      const statuses = [];
+      for (const { solution } of stock) {
+        statuses.push(
+          (await send(createSubmission('10.50.0.7', solution), mockContext)).statusCode
+        );
+      }
+      delete process.env.RATE_LIMIT_MAX_REQUESTS;
+
+      expect(statuses).toEqual([200, 200, 200, 403]);
+      expect(publisher.events.at(-1)).toMatchObject({
+        type: 'submission.spam_flagged',
+        data: { reason: 'pow_failed', failure: 'too_easy' },
+      });
+    });
+
+    it('should read the solution from a hidden form field and honor form settings', async () => {
+      setEmailTransport(createMemoryTransport());
+      process.env.FORMS_CONFIG = JSON.stringify({
+        hard: { recipients: ['hard@example.com'], pow: { difficulty: 6 } },
+        open: { recipients: ['open@example.com'], pow: { enabled: false } },
+      });
+
+      const { difficulty, solution } = await solve('10.50.0.6', 'hard');
+      expect(difficulty).toBe(6);
+      const hard = await send(
+        createSubmission('10.50.0.6', undefined, {
+          headers: { 'content-type': 'application/x-www-form-urlencoded' },
+          pathParameters: { formId: 'hard' },
+          body: new URLSearchParams({
+            name: 'John Doe',
+            email: 'john@example.com',
+            content: 'This is a test message with sufficient content length.',
+            _pow: solution,
+          }).toString(),
+        }),
+        mockContext
+      );
+      expect(hard.statusCode).toBe(200);
+
+      expect((await send(createChallengeEvent('10.50.0.6', 'open'), mockContext)).statusCode).toBe(
+        404
+      );
+      const open = await send(
+        createSubmission('10.50.0.6', undefined, { pathParameters: { formId: 'open' } }),
+        mockContext
+      );
+      expect(open.statusCode).toBe(200);
+    });
   });
 });
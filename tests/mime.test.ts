@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { buildMimeMessage, encodeHeaderValue } from '../src/mime';
+
+describe('MIME Builder', () => {
+  describe('encodeHeaderValue', () => {
+    it('should keep ASCII and encode everything else', () => {
+      expect(encodeHeaderValue('Hello')).toBe('Hello');
+      expect(encodeHeaderValue('Grüße')).toBe(
+        `=?UTF-8?B?${Buffer.from('Grüße').toString('base64')}?=`
+      );
+    });
+
+    it('should strip line breaks to prevent header injection', () => {
+      expect(encodeHeaderValue('Hi\r\nBcc: victim@example.com')).toBe('Hi Bcc: victim@example.com');
+    });
+  });
+
+  describe('buildMimeMessage', () => {
+    const base = {
+      from: 'sender@example.com',
+      to: ['team@example.com', 'ops@example.com'],
+      replyTo: ['visitor@example.com'],
+      subject: 'New Contact Form Submission',
+      text: 'Plain body',
+      html: '<p>HTML body</p>',
+      date: new Date('2024-01-01T00:00:00Z'),
+    };
+
+    it('should build a multipart/alternative message without attachments', () => {
+      const raw = buildMimeMessage(base).toString();
+
+      expect(raw).toContain('From: sender@example.com\r\n');
+      expect(raw).toContain('To: team@example.com, ops@example.com\r\n');
+      expect(raw).toContain('Reply-To: visitor@example.com\r\n');
+      expect(raw).toContain('Date: Mon, 01 Jan 2024 00:00:00 GMT\r\n');
+      expect(raw).toContain('Content-Type: multipart/alternative;');
+      expect(raw).not.toContain('multipart/mixed');
+      expect(raw).toContain(Buffer.from('Plain body').toString('base64'));
+      expect(raw).toContain(Buffer.from('<p>HTML body</p>').toString('base64'));
+    });
+
+    it('should attach files in a multipart/mixed envelope', () => {
+      const content = Buffer.from('%PDF-1.7 test');
+      const raw = buildMimeMessage({
+        ...base,
+        attachments: [{ filename: 'scan.pdf', contentType: 'application/pdf', content }],
+      }).toString();
+
+      const boundary = raw.match(/multipart\/mixed; boundary="([^"]+)"/)?.[1];
+      expect(boundary).toBeDefined();
+      expect(raw).toContain(`--${boundary}\r\nContent-Type: multipart/alternative;`);
+      expect(raw).toContain('Content-Type: application/pdf; name="scan.pdf"');
+      expect(raw).toContain('Content-Disposition: attachment; filename="scan.pdf"');
+      expect(raw).toContain(content.toString('base64'));
+      expect(raw.trimEnd().endsWith(`--${boundary}--`)).toBe(true);
+    });
+
+    it('should wrap base64 content at 76 characters', () => {
+      const raw = buildMimeMessage({
+        ...base,
+        attachments: [
+          { filename: 'a.txt', contentType: 'text/plain', content: Buffer.alloc(300, 'a') },
+        ],
+      }).toString();
+
+      const longest = Math.max(...raw.split('\r\n').map(line => line.length));
+      expect(longest).toBeLessThanOrEqual(100);
+    });
+  });
+});
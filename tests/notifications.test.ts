@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { SNSEvent } from 'aws-lambda';
+import { GetItemCommand, PutItemCommand } from '@aws-sdk/client-dynamodb';
+import { getSuppressionEntries, parseSesNotification, receive } from '../src/notifications';
+import {
+  createDynamoSuppressionStore,
+  createMemorySuppressionStore,
+  resetSuppressionStore,
+  setSuppressionStore,
+} from '../src/suppression';
+
+const mockSend = vi.fn();
+
+vi.mock('@aws-sdk/client-dynamodb', () => ({
+  DynamoDBClient: vi.fn(() => ({ send: mockSend })),
+  GetItemCommand: vi.fn(input => ({ input })),
+  PutItemCommand: vi.fn(input => ({ input })),
+  UpdateItemCommand: vi.fn(input => ({ input })),
+}));
+
+// Recorded SES notification bodies, as delivered in the SNS Message field
+const loadPayload = (name: string): string =>
+  readFileSync(join(__dirname, 'fixtures', 'ses', `${name}.json`), 'utf8');
+
+const createEvent = (...messages: string[]): SNSEvent => ({
+  Records: messages.map((message, index) => ({
+    EventVersion: '1.0',
+    EventSubscriptionArn: 'arn:aws:sns:us-east-1:123456789012:ses-notifications:sub',
+    EventSource: 'aws:sns',
+    Sns: {
+      SignatureVersion: '1',
+      Timestamp: '2024-03-12T09:15:43.000Z',
+      Signature: 'signature',
+      SigningCertUrl: 'https://sns.us-east-1.amazonaws.com/cert.pem',
+      MessageId: `sns-${index + 1}`,
+      Message: message,
+      MessageAttributes: {},
+      Type: 'Notification',
+      UnsubscribeUrl: 'https://sns.us-east-1.amazonaws.com/unsubscribe',
+      TopicArn: 'arn:aws:sns:us-east-1:123456789012:ses-notifications',
+      Subject: '',
+    },
+  })),
+});
+
+describe('SES Notifications', () => {
+  beforeEach(() => {
+    delete process.env.SUPPRESSION_TABLE;
+    delete process.env.SUPPRESSION_PARTITION_KEY;
+    setSuppressionStore(undefined);
+    resetSuppressionStore();
+    mockSend.mockReset();
+  });
+
+  describe('getSuppressionEntries', () => {
+    it('should suppress permanently bounced recipients', () => {
+      const notification = parseSesNotification(loadPayload('bounce-permanent'))!;
+
+      expect(getSuppressionEntries(notification)).toEqual([
+        {
+          email: 'Nobody@Example.com',
+          reason: 'bounce',
+          suppressedAt: '2024-03-12T09:15:42.000Z',
+          detail: 'General',
+        },
+      ]);
+    });
+
+    it('should ignore transient bounces and deliveries', () => {
+      expect(getSuppressionEntries(parseSesNotification(loadPayload('bounce-transient'))!)).toEqual(
+        []
+      );
+      expect(getSuppressionEntries(parseSesNotification(loadPayload('delivery'))!)).toEqual([]);
+    });
+
+    it('should suppress complainants with the feedback type', () => {
+      const notification = parseSesNotification(loadPayload('complaint'))!;
+
+      expect(getSuppressionEntries(notification)).toEqual([
+        {
+          email: 'angry@example.net',
+          reason: 'complaint',
+          suppressedAt: '2024-03-12T11:30:00.000Z',
+          detail: 'abuse',
+        },
+      ]);
+    });
+
+    it('should read configuration set events', () => {
+      const notification = parseSesNotification(loadPayload('event-bounce'))!;
+
+      expect(getSuppressionEntries(notification).map(entry => entry.email)).toEqual([
+        'gone@example.com',
+        'also-gone@example.com',
+      ]);
+    });
+  });
+
+  describe('parseSesNotification', () => {
+    it('should reject messages that are not SES notifications', () => {
+      expect(parseSesNotification('not json')).toBeUndefined();
+      expect(parseSesNotification('"text"')).toBeUndefined();
+      expect(parseSesNotification('{"hello":"world"}')).toBeUndefined();
+    });
+  });
+
+  describe('receive', () => {
+    it('should record bounces and complaints in the suppression store', async () => {
+      const store = createMemorySuppressionStore();
+      setSuppressionStore(store);
+
+      await receive(
+        createEvent(
+          loadPayload('bounce-permanent'),
+          loadPayload('bounce-transient'),
+          loadPayload('complaint'),
+          'not json'
+        )
+      );
+
+      expect([...store.entries.keys()]).toEqual(['nobody@example.com', 'angry@example.net']);
+      await expect(store.isSuppressed('full@example.com')).resolves.toBe(false);
+    });
+
+    it('should write to DynamoDB when SUPPRESSION_TABLE is set', async () => {
+      process.env.SUPPRESSION_TABLE = 'suppression-table';
+      mockSend.mockResolvedValue({});
+
+      await receive(createEvent(loadPayload('complaint')));
+
+      expect(vi.mocked(PutItemCommand).mock.lastCall![0]).toEqual({
+        TableName: 'suppression-table',
+        Item: {
+          email: { S: 'angry@example.net' },
+          reason: { S: 'complaint' },
+          suppressedAt: { S: '2024-03-12T11:30:00.000Z' },
+          detail: { S: 'abuse' },
+        },
+      });
+    });
+
+    it('should throw when the store fails so Lambda retries', async () => {
+      process.env.SUPPRESSION_TABLE = 'suppression-table';
+      mockSend.mockRejectedValue(new Error('DynamoDB unavailable'));
+
+      await expect(receive(createEvent(loadPayload('bounce-permanent')))).rejects.toThrow(
+        'DynamoDB unavailable'
+      );
+    });
+  });
+
+  describe('createDynamoSuppressionStore', () => {
+    it('should look up normalized addresses', async () => {
+      const store = createDynamoSuppressionStore('suppression-table', 'us-east-1', 'pk');
+      mockSend.mockResolvedValueOnce({ Item: { pk: { S: 'jane@example.com' } } });
+      mockSend.mockResolvedValueOnce({});
+
+      await expect(store.isSuppressed(' Jane@Example.com ')).resolves.toBe(true);
+      await expect(store.isSuppressed('other@example.com')).resolves.toBe(false);
+      expect(vi.mocked(GetItemCommand).mock.calls[0][0]).toMatchObject({
+        TableName: 'suppression-table',
+        Key: { pk: { S: 'jane@example.com' } },
+      });
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createDiscordMessage,
+  createSlackMessage,
+  escapeDiscordText,
+  escapeSlackText,
+  MESSAGE_PREVIEW_LENGTH,
+  NotificationDetails,
+  notifierConfigSchema,
+  resolveSubmissionUrl,
+  sendNotifications,
+  truncate,
+} from '../src/notifiers';
+
+const details: NotificationDetails = {
+  request: {
+    name: 'Jane_Doe',
+    email: 'jane_doe@example.com',
+    subject: 'Hi @channel <!here>',
+    content: '*Urgent* please read <@U123> and @everyone',
+  },
+  formId: 'support',
+  submissionId: 'c0ffee00-0000-4000-8000-000000000001',
+  submissionUrl: 'https://admin.example.com/submissions/c0ffee00-0000-4000-8000-000000000001',
+};
+
+const noDelay = { sleep: async () => {} };
+
+describe('Chat Notifiers', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('escapeSlackText', () => {
+    it('should neutralize control sequences, mentions and formatting', () => {
+      const escaped = escapeSlackText('<!channel> <@U123> a & b *bold* @here');
+
+      expect(escaped).not.toMatch(/<|>/);
+      expect(escaped).toContain('&lt;!channel&gt;');
+      expect(escaped).toContain('a &amp; b');
+      expect(escaped).toContain('\u200b*bold\u200b*');
+      expect(escaped).toContain('@\u200bhere');
+      expect(escaped.replace(/\u200b/g, '')).toBe(
+        '&lt;!channel&gt; &lt;@U123&gt; a &amp; b *bold* @here'
+      );
+    });
+  });
+
+  describe('escapeDiscordText', () => {
+    it('should backslash-escape markdown and break mentions', () => {
+      expect(escapeDiscordText('**bold** _it_ `code` ||spoiler||')).toBe(
+        '\\*\\*bold\\*\\* \\_it\\_ \\`code\\` \\|\\|spoiler\\|\\|'
+      );
+      expect(escapeDiscordText('<@123> <#456> <@&789>')).toBe(
+        '\\<@123\\> \\<\\#456\\> \\<@&789\\>'
+      );
+      expect(escapeDiscordText('[x](https://evil.example)')).toBe(
+        '\\[x\\]\\(https\\://evil.example\\)'
+      );
+      expect(escapeDiscordText('@everyone @here')).toBe('@\u200beveryone @\u200bhere');
+    });
+  });
+
+  describe('truncate', () => {
+    it('should shorten long messages with an ellipsis', () => {
+      expect(truncate('short', 10)).toBe('short');
+      expect(truncate('a'.repeat(20), 10)).toBe(`${'a'.repeat(9)}…`);
+    });
+  });
+
+  describe('resolveSubmissionUrl', () => {
+    it('should fill the submission ID when a template is configured', () => {
+      expect(resolveSubmissionUrl('https://admin.example.com/s/{submissionId}', 'a b')).toBe(
+        'https://admin.example.com/s/a%20b'
+      );
+      expect(resolveSubmissionUrl(undefined, 'abc')).toBeUndefined();
+    });
+  });
+
+  describe('createSlackMessage', () => {
+    it('should build escaped Block Kit content with a mailto link and submission button', () => {
+      const message = createSlackMessage(details);
+      const serialized = JSON.stringify(message);
+
+      expect(serialized).not.toContain('<!here>');
+      expect(serialized).not.toContain('<@U123>');
+      expect(serialized).toContain('<mailto:jane_doe@example.com|jane\u200b_doe@example.com>');
+      expect(serialized).toContain('"url":"https://admin.example.com/submissions/');
+      expect(message.text).toBe('New contact form submission from Jane\u200b_Doe');
+    });
+
+    it('should omit the button without a stored submission and truncate the message', () => {
+      const message = createSlackMessage({
+        ...details,
+        submissionUrl: undefined,
+        request: { ...details.request, content: 'x'.repeat(MESSAGE_PREVIEW_LENGTH + 100) },
+      });
+      const blocks = message.blocks as Array<{ type: string; text?: { text: string } }>;
+
+      expect(blocks.map(block => block.type)).toEqual(['header', 'section', 'section', 'context']);
+      expect(blocks[2].text?.text).toHaveLength(MESSAGE_PREVIEW_LENGTH);
+    });
+  });
+
+  describe('createDiscordMessage', () => {
+    it('should build an escaped embed with mentions disabled', () => {
+      const message = createDiscordMessage(details);
+      const [embed] = message.embeds as Array<Record<string, unknown>>;
+      const fields = embed.fields as Array<{ name: string; value: string }>;
+
+      expect(message.allowed_mentions).toEqual({ parse: [] });
+      expect(embed.url).toBe(details.submissionUrl);
+      expect(embed.description).toBe('\\*Urgent\\* please read \\<@U123\\> and @\u200beveryone');
+      expect(fields.find(field => field.name === 'Email')?.value).toBe(
+        '[jane\\_doe@example.com](<mailto:jane_doe@example.com>)'
+      );
+      expect(fields.find(field => field.name === 'Subject')?.value).toBe('Hi @channel \\<!here\\>');
+    });
+  });
+
+  describe('sendNotifications', () => {
+    it('should post each platform its own format and report outcomes', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce({ ok: true, status: 200 })
+        .mockResolvedValueOnce({ ok: false, status: 404 });
+      vi.stubGlobal('fetch', fetchMock);
+
+      const outcomes = await sendNotifications(
+        [
+          notifierConfigSchema.parse({
+            type: 'slack',
+            webhookUrl: 'https://hooks.slack.com/services/T000/B000/XXXX',
+          }),
+          notifierConfigSchema.parse({
+            type: 'discord',
+            webhookUrl: 'https://discord.com/api/webhooks/1/token',
+          }),
+        ],
+        details,
+        noDelay
+      );
+
+      expect(outcomes).toEqual(['delivered', 'failed']);
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toHaveProperty('blocks');
+      expect(JSON.parse(fetchMock.mock.calls[1][1].body)).toHaveProperty('embeds');
+    });
+
+    it('should require https webhook URLs', () => {
+      expect(
+        notifierConfigSchema.safeParse({ type: 'slack', webhookUrl: 'http://hooks.slack.com/x' })
+          .success
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  consumePowChallenge,
+  getAdaptiveDifficulty,
+  isPowSolved,
+  issuePowChallenge,
+  parsePowSecrets,
+  PowError,
+  powSettingsSchema,
+  solvePowChallenge,
+  verifyPowSolution,
+} from '../src/pow';
+
+const mockSend = vi.fn();
+
+vi.mock('@aws-sdk/client-dynamodb', async importOriginal => ({
+  ...(await importOriginal<typeof import('@aws-sdk/client-dynamodb')>()),
+  DynamoDBClient: vi.fn(() => ({ send: mockSend })),
+}));
+
+const secret = 'proof-of-work-secret-0123456789abcdef';
+const otherSecret = 'another-pow-secret-0123456789abcdefgh';
+const issuedAt = Date.parse('2024-06-01T12:00:00.000Z');
+const clientIp = '203.0.113.7';
+const check = { formId: 'sales', clientIp, now: issuedAt + 1000 };
+
+const failureOf = (run: () => unknown): string | undefined => {
+  try {
+    run();
+  } catch (error) {
+    return error instanceof PowError ? error.reason : 'other';
+  }
+  return undefined;
+};
+
+describe('Proof of Work', () => {
+  it('should accept a solved challenge for the same form and client', () => {
+    const { challenge, difficulty, expiresAt } = issuePowChallenge(
+      'sales',
+      clientIp,
+      8,
+      secret,
+      undefined,
+      issuedAt
+    );
+    const solution = solvePowChallenge(challenge, difficulty);
+
+    expect(solution.startsWith(`${challenge}:`)).toBe(true);
+    expect(verifyPowSolution(solution, [secret], check)).toEqual({
+      formId: 'sales',
+      difficulty: 8,
+      expiresAt,
+      nonce: expect.any(String),
+    });
+  });
+
+  it('should count leading zero bits of the digest', () => {
+    const { challenge } = issuePowChallenge('sales', clientIp, 4, secret);
+    const counter = solvePowChallenge(challenge, 10).split(':').pop() as string;
+
+    expect(isPowSolved(challenge, counter, 10)).toBe(true);
+    expect(isPowSolved(challenge, counter, 1)).toBe(true);
+  });
+
+  it('should refuse unsolved, foreign and malformed solutions', () => {
+    const { challenge } = issuePowChallenge('sales', clientIp, 12, secret, undefined, issuedAt);
+    const solution = solvePowChallenge(challenge, 12);
+    const counter = Number(solution.split(':').pop());
+    const unsolved = [counter + 1, counter + 2, counter + 3]
+      .map(candidate => `${challenge}:${candidate}`)
+      .find(candidate => !isPowSolved(challenge, candidate.split(':')[1], 12));
+
+    expect(failureOf(() => verifyPowSolution(unsolved as string, [secret], check))).toBe(
+      'unsolved'
+    );
+    expect(failureOf(() => verifyPowSolution(challenge, [secret], check))).toBe('malformed');
+    expect(failureOf(() => verifyPowSolution(`${challenge}:12ab`, [secret], check))).toBe(
+      'malformed'
+    );
+    expect(failureOf(() => verifyPowSolution(solution, [otherSecret], check))).toBe(
+      'invalid_signature'
+    );
+    expect(failureOf(() => verifyPowSolution(solution, [secret], { ...check, formId: 'x' }))).toBe(
+      'wrong_form'
+    );
+    expect(
+      failureOf(() => verifyPowSolution(solution, [secret], { ...check, clientIp: '198.51.100.1' }))
+    ).toBe('wrong_client');
+    expect(
+      failureOf(() => verifyPowSolution(solution, [secret], { ...check, now: issuedAt + 3.6e6 }))
+    ).toBe('expired');
+    expect(
+      failureOf(() => verifyPowSolution(solution, [secret], { ...check, minDifficulty: 13 }))
+    ).toBe('too_easy');
+    expect(verifyPowSolution(solution, [secret], { ...check, minDifficulty: 12 }).difficulty).toBe(
+      12
+    );
+  });
+
+  it('should verify challenges signed with a previous secret', () => {
+    const { challenge } = issuePowChallenge('sales', clientIp, 4, otherSecret, undefined, issuedAt);
+
+    expect(
+      verifyPowSolution(solvePowChallenge(challenge, 4), [secret, otherSecret], check).difficulty
+    ).toBe(4);
+  });
+
+  it('should raise the difficulty from half the rate limit up to the maximum', () => {
+    const range = { difficulty: 16, maxDifficulty: 22 };
+
+    expect([0, 1, 2, 3, 4, 5, 6, 7].map(used => getAdaptiveDifficulty(range, used, 6))).toEqual([
+      16, 16, 16, 16, 18, 20, 22, 22,
+    ]);
+    expect(getAdaptiveDifficulty({ difficulty: 20, maxDifficulty: 20 }, 5, 5)).toBe(20);
+  });
+
+  it('should accept each challenge only once', async () => {
+    const { challenge } = issuePowChallenge('sales', clientIp, 4, secret);
+    const claims = verifyPowSolution(solvePowChallenge(challenge, 4), [secret], {
+      formId: 'sales',
+      clientIp,
+    });
+    const store = { region: 'us-east-1', partitionKeyName: 'id' };
+
+    await expect(consumePowChallenge(claims, store)).resolves.toBeUndefined();
+    await expect(consumePowChallenge(claims, store)).rejects.toMatchObject({
+      name: 'PowError',
+      reason: 'reused',
+      statusCode: 403,
+    });
+  });
+
+  it('should refuse challenges while the store is unavailable', async () => {
+    const { challenge } = issuePowChallenge('sales', clientIp, 4, secret);
+    const claims = verifyPowSolution(solvePowChallenge(challenge, 4), [secret], {
+      formId: 'sales',
+      clientIp,
+    });
+    mockSend.mockRejectedValue(new Error('Table unavailable'));
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(
+      consumePowChallenge(claims, {
+        tableName: 'idempotency',
+        region: 'us-east-1',
+        partitionKeyName: 'id',
+      })
+    ).rejects.toMatchObject({ reason: 'reused' });
+    error.mockRestore();
+  });
+
+  it('should parse secrets and validate settings', () => {
+    expect(parsePowSecrets(secret)).toEqual([secret]);
+    expect(() => parsePowSecrets('short')).toThrow(
+      'POW_SECRET values must be at least 32 characters'
+    );
+    expect(powSettingsSchema.safeParse({ difficulty: 18, maxDifficulty: 24 }).success).toBe(true);
+    expect(powSettingsSchema.safeParse({ difficulty: 24, maxDifficulty: 18 }).success).toBe(false);
+    expect(powSettingsSchema.safeParse({ difficulty: 40 }).success).toBe(false);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createMemoryAuditStore, hashEmailAddress } from '../src/audit';
+import { ConfigurationError } from '../src/errors';
+import {
+  collectSubjectData,
+  DataSubjectStores,
+  eraseSubjectData,
+  exportSubjectData,
+} from '../src/privacy';
+import {
+  checkAndStoreIdempotencyKey,
+  checkRecipientRateLimit,
+  resetRateLimit,
+} from '../src/security';
+import { createMemorySubmissionRepository, SubmissionRecord } from '../src/submissions';
+import { createMemorySuppressionStore } from '../src/suppression';
+
+const createRecord = (id: string, overrides: Partial<SubmissionRecord> = {}): SubmissionRecord => ({
+  id,
+  formId: 'support',
+  request: { name: 'Jane Doe', email: 'jane@example.com', content: 'Please call me back.' },
+  metadata: { origin: 'https://example.com', ipHash: 'abc' },
+  attachments: [],
+  status: 'sent',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const now = new Date('2024-03-01T00:00:00.000Z');
+
+describe('Data Subject Requests', () => {
+  let repository: ReturnType<typeof createMemorySubmissionRepository>;
+  let suppression: ReturnType<typeof createMemorySuppressionStore>;
+  let audit: ReturnType<typeof createMemoryAuditStore>;
+  let stores: DataSubjectStores;
+
+  beforeEach(async () => {
+    resetRateLimit();
+    repository = createMemorySubmissionRepository();
+    suppression = createMemorySuppressionStore();
+    audit = createMemoryAuditStore();
+    const table = { region: 'us-east-1', partitionKeyName: 'id' };
+    stores = {
+      repository,
+      suppression,
+      idempotency: table,
+      rateLimit: table,
+      audit,
+      hashSecret: 'secret',
+    };
+
+    await repository.save(createRecord('id-1', { metadata: { idempotencyKey: 'key-1' } }));
+    await repository.save(createRecord('id-2', { createdAt: '2024-02-01T00:00:00.000Z' }));
+    await repository.save(
+      createRecord('other', { request: { name: 'Bob', email: 'bob@example.com', content: 'Hi' } })
+    );
+    await suppression.suppress({
+      email: 'jane@example.com',
+      reason: 'complaint',
+      suppressedAt: '2024-01-02T00:00:00.000Z',
+    });
+    await checkAndStoreIdempotencyKey('key-1', { ttlMs: 60000, failOpen: true, ...table });
+    checkRecipientRateLimit('jane@example.com', {
+      maxRequests: 5,
+      windowMs: 60000,
+      scope: 'autoreply',
+    });
+  });
+
+  it('should collect everything linked to an address', async () => {
+    const bundle = await collectSubjectData(' Jane@Example.com', stores, now);
+
+    expect(bundle).toMatchObject({
+      email: 'jane@example.com',
+      generatedAt: '2024-03-01T00:00:00.000Z',
+      suppression: { reason: 'complaint' },
+      idempotencyRecords: [{ key: 'key-1' }],
+      rateLimitKeys: [{ key: 'autoreply#jane@example.com' }],
+    });
+    expect(bundle.submissions.map(record => record.id)).toEqual(['id-2', 'id-1']);
+  });
+
+  it('should audit access requests without the address', async () => {
+    const result = await exportSubjectData('jane@example.com', stores, 'support', now);
+
+    expect(audit.entries).toEqual([
+      {
+        id: result.auditId,
+        action: 'access',
+        subjectHash: hashEmailAddress('jane@example.com', 'secret'),
+        actor: 'support',
+        createdAt: '2024-03-01T00:00:00.000Z',
+        counts: { submissions: 2, suppression: 1, idempotencyRecords: 1, rateLimitKeys: 1 },
+      },
+    ]);
+    expect(JSON.stringify(audit.entries)).not.toContain('jane@example.com');
+  });
+
+  it('should refuse requests without a hash secret before changing anything', async () => {
+    const unkeyed = { ...stores, hashSecret: undefined };
+
+    await expect(exportSubjectData('jane@example.com', unkeyed, 'support', now)).rejects.toThrow(
+      'IP_HASH_SECRET must be set for data subject requests'
+    );
+    await expect(eraseSubjectData('jane@example.com', unkeyed, 'admin', now)).rejects.toThrow(
+      ConfigurationError
+    );
+    expect(repository.records.get('id-1')?.request.email).toBe('jane@example.com');
+    expect(audit.entries).toHaveLength(0);
+  });
+
+  it('should erase everything linked to an address and be repeatable', async () => {
+    const result = await eraseSubjectData('jane@example.com', stores, 'admin', now);
+
+    expect(result.counts).toEqual({ submissions: 2, idempotencyRecords: 1, rateLimitKeys: 1 });
+    expect(result.retained).toEqual({ suppression: 1 });
+    expect(repository.records.get('id-1')?.request.email).toBe('[erased]');
+    expect(repository.records.get('id-1')?.metadata.erasedAt).toBe('2024-03-01T00:00:00.000Z');
+    expect(repository.records.get('other')?.request.email).toBe('bob@example.com');
+    expect(audit.entries[0]).toMatchObject({
+      id: result.auditId,
+      action: 'erasure',
+      actor: 'admin',
+    });
+
+    const repeated = await eraseSubjectData('jane@example.com', stores, 'admin', now);
+    expect(repeated.counts).toEqual({ submissions: 0, idempotencyRecords: 0, rateLimitKeys: 0 });
+    expect(audit.entries).toHaveLength(2);
+  });
+
+  it('should still handle the other stores without an archive', async () => {
+    const result = await eraseSubjectData(
+      'jane@example.com',
+      { ...stores, repository: undefined },
+      'admin',
+      now
+    );
+
+    expect(result.counts).toMatchObject({ submissions: 0, rateLimitKeys: 1 });
+  });
+
+  it('should keep the suppression entry so the address is not mailed again', async () => {
+    await eraseSubjectData('jane@example.com', stores, 'admin', now);
+
+    await expect(suppression.isSuppressed('jane@example.com')).resolves.toBe(true);
+    expect(audit.entries[0].counts).not.toHaveProperty('suppression');
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SQSClient, SendMessageCommand } from '@aws-sdk/client-sqs';
+import { ConfigurationError } from '../src/errors';
+import {
+  createMemoryQueue,
+  createSqsQueue,
+  fromQueuedAttachments,
+  getSubmissionQueue,
+  parseJob,
+  setSubmissionQueue,
+  SUBMISSION_JOB_VERSION,
+  SubmissionJob,
+  toQueuedAttachments,
+} from '../src/queue';
+
+vi.mock('@aws-sdk/client-sqs', () => ({
+  SQSClient: vi.fn(() => ({
+    send: vi.fn(),
+  })),
+  SendMessageCommand: vi.fn(),
+}));
+
+const job: SubmissionJob = {
+  version: SUBMISSION_JOB_VERSION,
+  submissionId: 'c0ffee00-0000-4000-8000-000000000001',
+  formId: 'support',
+  request: {
+    name: 'Jane Doe',
+    email: 'jane@example.com',
+    content: 'Hello there, this is a message.',
+  },
+  origin: 'https://example.com',
+  attachments: [],
+  receivedAt: '2024-01-01T00:00:00.000Z',
+};
+
+describe('Submission Queue', () => {
+  describe('attachments', () => {
+    it('should round-trip attachment content through base64', () => {
+      const attachments = [
+        { filename: 'a.png', contentType: 'image/png', content: Buffer.from([0x89, 0x50, 0x00]) },
+      ];
+
+      const queued = toQueuedAttachments(attachments);
+
+      expect(queued[0].content).toBe('iVAA');
+      expect(fromQueuedAttachments(queued)).toEqual(attachments);
+    });
+  });
+
+  describe('parseJob', () => {
+    it('should accept submission jobs', () => {
+      expect(parseJob(JSON.stringify(job))).toEqual(job);
+    });
+
+    it('should reject malformed messages', () => {
+      expect(() => parseJob('{oops')).toThrow('Queue message is not valid JSON');
+      expect(() => parseJob(JSON.stringify({ ...job, version: 99 }))).toThrow(
+        'Queue message is not a submission job'
+      );
+      expect(() => parseJob('null')).toThrow('Queue message is not a submission job');
+    });
+  });
+
+  describe('createSqsQueue', () => {
+    it('should send the serialized job to the queue URL', async () => {
+      const client = { send: vi.fn().mockResolvedValue({ MessageId: 'sqs-id' }) };
+      vi.mocked(SQSClient).mockImplementation(() => client as unknown as SQSClient);
+
+      await createSqsQueue('https://sqs.us-east-1.amazonaws.com/1/queue', 'us-east-1').enqueue(job);
+
+      const params = vi.mocked(SendMessageCommand).mock.lastCall![0];
+      expect(params.QueueUrl).toBe('https://sqs.us-east-1.amazonaws.com/1/queue');
+      expect(JSON.parse(params.MessageBody as string)).toEqual(job);
+      expect(params.MessageAttributes?.formId?.StringValue).toBe('support');
+    });
+
+    it('should reuse one client per region across messages and queues', async () => {
+      const client = { send: vi.fn().mockResolvedValue({ MessageId: 'sqs-id' }) };
+      vi.mocked(SQSClient).mockImplementation(() => client as unknown as SQSClient);
+
+      const queue = createSqsQueue('https://sqs.eu-north-1.amazonaws.com/1/queue', 'eu-north-1');
+      await queue.enqueue(job);
+      await queue.enqueue(job);
+      await createSqsQueue('https://sqs.eu-north-1.amazonaws.com/1/other', 'eu-north-1').enqueue(
+        job
+      );
+
+      const clients = vi
+        .mocked(SQSClient)
+        .mock.calls.filter(([config]) => config?.region === 'eu-north-1');
+      expect(clients).toHaveLength(1);
+      expect(client.send).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('getSubmissionQueue', () => {
+    it('should require a queue URL without an override', () => {
+      setSubmissionQueue(undefined);
+
+      expect(() => getSubmissionQueue({ region: 'us-east-1' })).toThrow(
+        'QUEUE_URL must be set when DELIVERY_MODE is async'
+      );
+      expect(() => getSubmissionQueue({ region: 'us-east-1' })).toThrow(ConfigurationError);
+      expect(getSubmissionQueue({ queueUrl: 'https://queue', region: 'us-east-1' }).name).toBe(
+        'sqs'
+      );
+    });
+
+    it('should prefer an override queue', async () => {
+      const queue = createMemoryQueue();
+      setSubmissionQueue(queue);
+
+      expect(getSubmissionQueue({ region: 'us-east-1' })).toBe(queue);
+      await queue.enqueue(job);
+      expect(queue.jobs).toEqual([job]);
+
+      setSubmissionQueue(undefined);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import {
+  decodeRequestBody,
+  getBodyKind,
+  getHeaderValue,
+  isHtmlFormSubmission,
+} from '../src/request';
+import { ValidationError } from '../src/errors';
+
+const createEvent = (
+  body: string | null,
+  contentType?: string,
+  isBase64Encoded = false
+): APIGatewayProxyEvent =>
+  ({
+    body,
+    isBase64Encoded,
+    headers: contentType ? { 'Content-Type': contentType } : {},
+  }) as unknown as APIGatewayProxyEvent;
+
+const boundary = '----formboundary123';
+
+const multipartBody = [
+  `--${boundary}`,
+  'Content-Disposition: form-data; name="name"',
+  '',
+  'John Doe',
+  `--${boundary}`,
+  'Content-Disposition: form-data; name="products"',
+  '',
+  'api',
+  `--${boundary}`,
+  'Content-Disposition: form-data; name="products"',
+  '',
+  'sdk',
+  `--${boundary}`,
+  'Content-Disposition: form-data; name="attachment"; filename="notes.txt"',
+  'Content-Type: text/plain',
+  '',
+  'line one\r\nline two',
+  `--${boundary}`,
+  'Content-Disposition: form-data; name="empty"; filename=""',
+  'Content-Type: application/octet-stream',
+  '',
+  '',
+  `--${boundary}--`,
+  '',
+].join('\r\n');
+
+describe('Request Body Decoding', () => {
+  describe('getBodyKind', () => {
+    it('should detect form content types and default to JSON', () => {
+      expect(getBodyKind(createEvent('', 'application/x-www-form-urlencoded'))).toBe('urlencoded');
+      expect(getBodyKind(createEvent('', `multipart/form-data; boundary=${boundary}`))).toBe(
+        'multipart'
+      );
+      expect(getBodyKind(createEvent('', 'application/json; charset=utf-8'))).toBe('json');
+      expect(getBodyKind(createEvent(''))).toBe('json');
+      expect(isHtmlFormSubmission(createEvent('', 'application/x-www-form-urlencoded'))).toBe(true);
+    });
+
+    it('should read headers case-insensitively', () => {
+      expect(getHeaderValue(createEvent('', 'text/plain'), 'content-type')).toBe('text/plain');
+    });
+  });
+
+  describe('decodeRequestBody', () => {
+    it('should parse JSON bodies', () => {
+      const decoded = decodeRequestBody(createEvent('{"name":"John"}'));
+
+      expect(decoded).toEqual({ kind: 'json', data: { name: 'John' }, files: [] });
+    });
+
+    it('should decode base64-encoded bodies', () => {
+      const body = Buffer.from('{"name":"Zoë"}').toString('base64');
+      const decoded = decodeRequestBody(createEvent(body, 'application/json', true));
+
+      expect(decoded.data).toEqual({ name: 'Zoë' });
+    });
+
+    it('should parse urlencoded bodies with repeated keys', () => {
+      const decoded = decodeRequestBody(
+        createEvent(
+          'name=John+Doe&email=john%40example.com&products=api&products=sdk',
+          'application/x-www-form-urlencoded'
+        )
+      );
+
+      expect(decoded.kind).toBe('urlencoded');
+      expect(decoded.data).toEqual({
+        name: 'John Doe',
+        email: 'john@example.com',
+        products: ['api', 'sdk'],
+      });
+    });
+
+    it('should parse multipart bodies into fields and files', () => {
+      const decoded = decodeRequestBody(
+        createEvent(
+          Buffer.from(multipartBody).toString('base64'),
+          `multipart/form-data; boundary="${boundary}"`,
+          true
+        )
+      );
+
+      expect(decoded.kind).toBe('multipart');
+      expect(decoded.data).toEqual({ name: 'John Doe', products: ['api', 'sdk'] });
+      expect(decoded.files).toHaveLength(1);
+      expect(decoded.files[0]).toMatchObject({
+        fieldName: 'attachment',
+        filename: 'notes.txt',
+        contentType: 'text/plain',
+      });
+      expect(decoded.files[0].content.toString()).toBe('line one\r\nline two');
+    });
+
+    it('should reject missing, invalid and malformed bodies', () => {
+      expect(() => decodeRequestBody(createEvent(null))).toThrow('Request body is required');
+      expect(() => decodeRequestBody(createEvent('nope'))).toThrow('Invalid JSON in request body');
+      expect(() => decodeRequestBody(createEvent('x', 'multipart/form-data'))).toThrow(
+        'Missing multipart boundary'
+      );
+      expect(() =>
+        decodeRequestBody(createEvent('garbage', `multipart/form-data; boundary=${boundary}`))
+      ).toThrow(ValidationError);
+    });
+
+    it('should memoize the decoded body per event', () => {
+      const event = createEvent('{"name":"John"}');
+
+      expect(decodeRequestBody(event)).toBe(decodeRequestBody(event));
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Context } from 'aws-lambda';
+import { parseFormsConfig } from '../src/forms';
+import {
+  DRY_RUN_SAMPLE_SIZE,
+  parseDefaultRetention,
+  purge,
+  purgeExpiredSubmissions,
+  resolveRetentionPolicies,
+} from '../src/retention';
+import {
+  createMemorySubmissionRepository,
+  setSubmissionRepository,
+  SubmissionRecord,
+} from '../src/submissions';
+
+const createRecord = (id: string, formId: string, createdAt: string): SubmissionRecord => ({
+  id,
+  formId,
+  request: { name: 'Jane Doe', email: 'jane@example.com', content: 'Please call me back.' },
+  metadata: {},
+  attachments: [],
+  status: 'sent',
+  createdAt,
+  updatedAt: createdAt,
+});
+
+const now = new Date('2024-06-01T00:00:00.000Z');
+
+describe('Data Retention', () => {
+  let repository: ReturnType<typeof createMemorySubmissionRepository>;
+
+  beforeEach(async () => {
+    repository = createMemorySubmissionRepository();
+    await repository.save(createRecord('sales-old', 'sales', '2024-01-01T00:00:00.000Z'));
+    await repository.save(createRecord('sales-new', 'sales', '2024-05-20T00:00:00.000Z'));
+    await repository.save(createRecord('support-old', 'support', '2024-02-01T00:00:00.000Z'));
+    await repository.save(createRecord('support-new', 'support', '2024-05-30T00:00:00.000Z'));
+    await repository.save(createRecord('other-old', 'default', '2023-01-01T00:00:00.000Z'));
+  });
+
+  describe('policies', () => {
+    it('should read per-form policies and append the default', () => {
+      const forms = parseFormsConfig(
+        JSON.stringify({
+          sales: { retention: { days: 730 } },
+          support: { retention: { days: 90, action: 'anonymize' } },
+          jobs: {},
+        })
+      );
+
+      expect(resolveRetentionPolicies(forms, { days: 365, action: 'delete' })).toEqual([
+        { formId: 'sales', days: 730, action: 'delete' },
+        { formId: 'support', days: 90, action: 'anonymize' },
+        { days: 365, action: 'delete' },
+      ]);
+      expect(() => parseFormsConfig(JSON.stringify({ sales: { retention: { days: 0 } } }))).toThrow(
+        'FORMS_CONFIG is invalid'
+      );
+    });
+
+    it('should validate the default policy settings', () => {
+      expect(parseDefaultRetention(undefined, 'anonymize')).toBeUndefined();
+      expect(parseDefaultRetention(' 30 ', undefined)).toEqual({ days: 30, action: 'delete' });
+      expect(parseDefaultRetention('30', 'anonymize')).toEqual({ days: 30, action: 'anonymize' });
+      expect(() => parseDefaultRetention('1.5', undefined)).toThrow('RETENTION_DAYS');
+      expect(() => parseDefaultRetention('30', 'archive')).toThrow('RETENTION_ACTION');
+    });
+  });
+
+  describe('purgeExpiredSubmissions', () => {
+    const policies = [
+      { formId: 'sales', days: 30, action: 'delete' as const },
+      { formId: 'support', days: 30, action: 'anonymize' as const },
+      { days: 365, action: 'delete' as const },
+    ];
+
+    it('should delete or anonymize expired submissions per form', async () => {
+      const report = await purgeExpiredSubmissions(repository, policies, { now });
+
+      expect(report).toMatchObject({ dryRun: false, complete: true });
+      expect(report.policies).toEqual([
+        {
+          formId: 'sales',
+          days: 30,
+          action: 'delete',
+          cutoff: '2024-05-02T00:00:00.000Z',
+          matched: 1,
+          processed: 1,
+        },
+        expect.objectContaining({ formId: 'support', matched: 1, processed: 1 }),
+        expect.objectContaining({ formId: '*', matched: 1, processed: 1 }),
+      ]);
+      expect([...repository.records.keys()].sort()).toEqual([
+        'sales-new',
+        'support-new',
+        'support-old',
+      ]);
+      expect(repository.records.get('support-old')?.request.email).toBe('[erased]');
+      expect(repository.records.get('support-new')?.request.email).toBe('jane@example.com');
+    });
+
+    it('should not anonymize records twice', async () => {
+      await purgeExpiredSubmissions(repository, policies, { now });
+      const second = await purgeExpiredSubmissions(repository, policies, { now });
+
+      expect(second.policies.map(policy => policy.matched)).toEqual([0, 0, 0]);
+    });
+
+    it('should only report in a dry run', async () => {
+      const report = await purgeExpiredSubmissions(repository, policies, { now, dryRun: true });
+
+      expect(report.dryRun).toBe(true);
+      expect(report.policies.map(policy => [policy.matched, policy.processed])).toEqual([
+        [1, 0],
+        [1, 0],
+        [1, 0],
+      ]);
+      expect(report.policies[2].sampleIds).toEqual(['other-old']);
+      expect(repository.records.size).toBe(5);
+    });
+
+    it('should cap dry run samples and page through large archives', async () => {
+      for (let index = 0; index < 120; index++) {
+        await repository.save(createRecord(`bulk-${index}`, 'bulk', '2020-01-01T00:00:00.000Z'));
+      }
+
+      const report = await purgeExpiredSubmissions(
+        repository,
+        [{ formId: 'bulk', days: 30, action: 'delete' }],
+        { now, dryRun: true }
+      );
+      expect(report.policies[0].matched).toBe(120);
+      expect(report.policies[0].sampleIds).toHaveLength(DRY_RUN_SAMPLE_SIZE);
+
+      await purgeExpiredSubmissions(repository, [{ formId: 'bulk', days: 30, action: 'delete' }], {
+        now,
+      });
+      expect([...repository.records.values()].some(record => record.formId === 'bulk')).toBe(false);
+    });
+
+    it('should stop before the Lambda timeout', async () => {
+      const report = await purgeExpiredSubmissions(repository, policies, {
+        now,
+        getRemainingTimeInMillis: () => 5000,
+      });
+
+      expect(report.complete).toBe(false);
+      expect(report.policies).toEqual([]);
+      expect(repository.records.size).toBe(5);
+    });
+  });
+
+  describe('purge handler', () => {
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(now);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      setSubmissionRepository(undefined);
+      delete process.env.FORMS_CONFIG;
+      delete process.env.RETENTION_DAYS;
+      delete process.env.RETENTION_DRY_RUN;
+    });
+
+    it('should apply the configured policies and honour dry runs', async () => {
+      setSubmissionRepository(repository);
+      process.env.FORMS_CONFIG = JSON.stringify({ sales: { retention: { days: 30 } } });
+      process.env.RETENTION_DAYS = '365';
+      process.env.RETENTION_DRY_RUN = 'true';
+      const context = { getRemainingTimeInMillis: () => 60000 } as Context;
+
+      const dryRun = await purge({}, context);
+      expect(dryRun.dryRun).toBe(true);
+      expect(repository.records.size).toBe(5);
+
+      const report = await purge({ dryRun: false }, context);
+      expect(report.policies.map(policy => policy.processed)).toEqual([1, 1]);
+      expect(repository.records.has('sales-old')).toBe(false);
+      expect(repository.records.has('other-old')).toBe(false);
+      // support has no policy of its own and is younger than the default
+      expect(repository.records.has('support-old')).toBe(true);
+    });
+
+    it('should require the submission archive', async () => {
+      await expect(purge()).rejects.toThrow('SUBMISSIONS_TABLE is not configured');
+    });
+  });
+});
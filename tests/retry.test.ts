@@ -0,0 +1,123 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  classifyEmailError,
+  DEFAULT_RETRY_OPTIONS,
+  getBackoffDelay,
+  RetryExhaustedError,
+  withRetry,
+} from '../src/retry';
+
+const rejection = (promise: Promise<unknown>) =>
+  promise.then(
+    () => {
+      throw new Error('Expected the operation to fail');
+    },
+    (error: RetryExhaustedError) => error
+  );
+
+const providerError = (name: string, extra: Record<string, unknown> = {}) =>
+  Object.assign(new Error(name), { name, ...extra });
+
+describe('classifyEmailError', () => {
+  it('should classify SES throttling as throttled', () => {
+    expect(classifyEmailError(providerError('Throttling'))).toBe('throttled');
+    expect(classifyEmailError(providerError('TooManyRequestsException'))).toBe('throttled');
+    expect(
+      classifyEmailError(providerError('SomethingNew', { $metadata: { httpStatusCode: 429 } }))
+    ).toBe('throttled');
+    expect(
+      classifyEmailError(providerError('SomethingNew', { $retryable: { throttling: true } }))
+    ).toBe('throttled');
+  });
+
+  it('should classify service and network failures as retryable', () => {
+    expect(classifyEmailError(providerError('ServiceUnavailable'))).toBe('retryable');
+    expect(classifyEmailError(providerError('InternalFailure'))).toBe('retryable');
+    expect(classifyEmailError(Object.assign(new Error('reset'), { code: 'ECONNRESET' }))).toBe(
+      'retryable'
+    );
+    expect(
+      classifyEmailError(providerError('SomethingNew', { $metadata: { httpStatusCode: 502 } }))
+    ).toBe('retryable');
+    expect(classifyEmailError(Object.assign(new Error('busy'), { responseCode: 421 }))).toBe(
+      'retryable'
+    );
+  });
+
+  it('should classify rejections and unknown errors as permanent', () => {
+    expect(
+      classifyEmailError(providerError('MessageRejected', { $metadata: { httpStatusCode: 400 } }))
+    ).toBe('permanent');
+    expect(classifyEmailError(providerError('MailFromDomainNotVerifiedException'))).toBe(
+      'permanent'
+    );
+    expect(classifyEmailError(Object.assign(new Error('no'), { responseCode: 550 }))).toBe(
+      'permanent'
+    );
+    expect(classifyEmailError(new Error('Something odd'))).toBe('permanent');
+    expect(classifyEmailError('string error')).toBe('permanent');
+  });
+});
+
+describe('getBackoffDelay', () => {
+  it('should grow exponentially up to the cap with full jitter', () => {
+    const options = { ...DEFAULT_RETRY_OPTIONS, random: () => 0.999999 };
+
+    expect(getBackoffDelay(1, 'retryable', options)).toBe(99);
+    expect(getBackoffDelay(2, 'retryable', options)).toBe(199);
+    expect(getBackoffDelay(3, 'throttled', options)).toBe(1999);
+    expect(getBackoffDelay(10, 'throttled', options)).toBe(1999);
+    expect(getBackoffDelay(3, 'throttled', { ...options, random: () => 0 })).toBe(0);
+  });
+});
+
+describe('withRetry', () => {
+  const sleep = vi.fn(async () => {});
+
+  it('should retry transient failures until the operation succeeds', async () => {
+    const operation = vi
+      .fn()
+      .mockRejectedValueOnce(providerError('Throttling'))
+      .mockRejectedValueOnce(providerError('ServiceUnavailable'))
+      .mockResolvedValue('message-id');
+
+    await expect(withRetry(operation, { sleep, random: () => 0.5 })).resolves.toBe('message-id');
+    expect(operation).toHaveBeenCalledTimes(3);
+    expect(sleep).toHaveBeenCalledWith(250);
+    expect(sleep).toHaveBeenCalledWith(100);
+  });
+
+  it('should not retry permanent failures', async () => {
+    const operation = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValue(providerError('MessageRejected'));
+
+    const error = await rejection(withRetry(operation, { sleep }));
+
+    expect(error).toBeInstanceOf(RetryExhaustedError);
+    expect(error.errorClass).toBe('permanent');
+    expect(error.attempts).toBe(1);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give up after maxAttempts', async () => {
+    const operation = vi.fn().mockRejectedValue(providerError('Throttling'));
+
+    const error = await rejection(withRetry(operation, { sleep, maxAttempts: 2 }));
+
+    expect(error.errorClass).toBe('throttled');
+    expect(error.attempts).toBe(2);
+    expect((error.cause as Error).name).toBe('Throttling');
+  });
+
+  it('should stop retrying when the Lambda is running out of time', async () => {
+    const operation = vi.fn().mockRejectedValue(providerError('ServiceUnavailable'));
+
+    const error = await rejection(
+      withRetry(operation, { sleep, getRemainingTimeInMillis: () => 2000 })
+    );
+
+    expect(error.errorClass).toBe('retryable');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { matchesCondition, routeRecipients, routingRulesSchema } from '../src/routing';
+
+const request = {
+  name: 'Jane Doe',
+  email: 'jane@bigcorp.com',
+  content: 'Please send me the latest invoice.',
+  subject: 'Billing question',
+  fields: { products: ['api', 'support'], seats: 25 },
+};
+
+const rules = routingRulesSchema.parse([
+  {
+    name: 'billing',
+    when: [{ field: 'subject', contains: 'billing' }],
+    mode: 'set',
+    to: ['finance@example.com'],
+  },
+  {
+    name: 'key-accounts',
+    when: [{ field: 'emailDomain', in: ['bigcorp.com', 'megacorp.com'] }],
+    cc: ['accounts@example.com'],
+  },
+  { name: 'archive', bcc: ['archive@example.com'] },
+]);
+
+describe('Recipient Routing', () => {
+  describe('routingRulesSchema', () => {
+    it('should require recipients and exactly one operator per condition', () => {
+      expect(routingRulesSchema.safeParse([{ when: [] }]).success).toBe(false);
+      expect(
+        routingRulesSchema.safeParse([
+          { when: [{ field: 'subject', equals: 'a', contains: 'b' }], to: ['a@example.com'] },
+        ]).success
+      ).toBe(false);
+      expect(
+        routingRulesSchema.safeParse([
+          { when: [{ field: 'subject', matches: '(' }], to: ['a@example.com'] },
+        ]).success
+      ).toBe(false);
+    });
+  });
+
+  describe('matchesCondition', () => {
+    const values = {
+      subject: 'Billing question',
+      products: ['api', 'support'],
+      seats: 25,
+    };
+
+    it('should compare case-insensitively', () => {
+      expect(matchesCondition({ field: 'subject', equals: 'billing QUESTION' }, values)).toBe(true);
+      expect(matchesCondition({ field: 'subject', endsWith: 'Question' }, values)).toBe(true);
+      expect(matchesCondition({ field: 'subject', matches: '^bill' }, values)).toBe(true);
+    });
+
+    it('should match any value of multi-value fields and stringify numbers', () => {
+      expect(matchesCondition({ field: 'products', equals: 'support' }, values)).toBe(true);
+      expect(matchesCondition({ field: 'seats', equals: '25' }, values)).toBe(true);
+    });
+
+    it('should not match missing fields', () => {
+      expect(matchesCondition({ field: 'company', contains: 'a' }, values)).toBe(false);
+      expect(matchesCondition({ field: 'toString', contains: 'f' }, values)).toBe(false);
+    });
+  });
+
+  describe('routeRecipients', () => {
+    it('should apply set and add rules in order', () => {
+      const result = routeRecipients(['team@example.com'], rules, {
+        request,
+        formId: 'default',
+        origin: 'https://example.com',
+      });
+
+      expect(result).toEqual({
+        to: ['finance@example.com'],
+        cc: ['accounts@example.com'],
+        bcc: ['archive@example.com'],
+        matchedRules: ['billing', 'key-accounts', 'archive'],
+      });
+    });
+
+    it('should keep the form recipients when no rule matches', () => {
+      const result = routeRecipients(['team@example.com'], rules.slice(0, 2), {
+        request: { ...request, subject: 'Hello', email: 'jane@small.org' },
+        formId: 'default',
+      });
+
+      expect(result).toEqual({ to: ['team@example.com'], cc: [], bcc: [], matchedRules: [] });
+    });
+
+    it('should match on origin and stop evaluation when asked', () => {
+      const originRules = routingRulesSchema.parse([
+        {
+          when: [{ field: 'origin', equals: 'https://shop.example.com' }],
+          to: ['shop@example.com'],
+          stop: true,
+        },
+        { name: 'archive', bcc: ['archive@example.com'] },
+      ]);
+
+      const result = routeRecipients(['team@example.com'], originRules, {
+        request,
+        formId: 'default',
+        origin: 'https://shop.example.com',
+      });
+
+      expect(result.to).toEqual(['team@example.com', 'shop@example.com']);
+      expect(result.bcc).toEqual([]);
+      expect(result.matchedRules).toEqual(['rule-1']);
+    });
+
+    it('should list each address once, preferring To over CC and BCC', () => {
+      const overlapping = routingRulesSchema.parse([
+        { to: ['Team@example.com'], cc: ['team@example.com', 'cc@example.com'] },
+        { bcc: ['CC@example.com', 'archive@example.com'] },
+      ]);
+
+      const result = routeRecipients(['team@example.com'], overlapping, {
+        request,
+        formId: 'default',
+      });
+
+      expect(result.to).toEqual(['team@example.com']);
+      expect(result.cc).toEqual(['cc@example.com']);
+      expect(result.bcc).toEqual(['archive@example.com']);
+    });
+  });
+});
@@ -1,20 +1,41 @@
 import { describe, it, expect, vi } from 'vitest';
+import { createHash } from 'crypto';
 import {
   checkRateLimit,
   checkRateLimitDistributed,
+  checkRecipientRateLimit,
+  checkRecipientRateLimitDistributed,
   detectSuspiciousActivity,
   validateOrigin,
   sanitizeInput,
+  sanitizeFields,
   cleanupRateLimit,
+  isAllowedRedirect,
+  hashIpAddress,
+  checkAndStoreIdempotencyKey,
+  findIdempotencyRecords,
+  deleteIdempotencyRecords,
+  findRecipientRateLimitKeys,
+  deleteRateLimitKeys,
+  getRateLimitUsage,
+  getRateLimitUsageDistributed,
 } from '../src/security';
 import { APIGatewayProxyEvent } from 'aws-lambda';
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBClient,
+  GetItemCommand,
+  ScanCommand,
+  UpdateItemCommand,
+} from '@aws-sdk/client-dynamodb';
 
 vi.mock('@aws-sdk/client-dynamodb', () => ({
   DynamoDBClient: vi.fn(() => ({
     send: vi.fn(),
   })),
   UpdateItemCommand: vi.fn(),
+  GetItemCommand: vi.fn(),
+  ScanCommand: vi.fn(),
+  DeleteItemCommand: vi.fn(),
 }));
 
 // Mock APIGatewayProxyEvent for testing
@@ -73,6 +94,18 @@ describe('Security Utilities', () => {
       });
     });
 
+    it('should report usage without counting a request', () => {
+      const event = createMockEvent('192.168.1.4') as APIGatewayProxyEvent;
+      const config = { maxRequests: 5, windowMs: 60000 };
+
+      expect(getRateLimitUsage(event, config)).toBe(0);
+      checkRateLimit(event, config);
+      checkRateLimit(event, config);
+      expect(getRateLimitUsage(event, config)).toBe(2);
+      expect(getRateLimitUsage(event, config)).toBe(2);
+      expect(getRateLimitUsage(event, { ...config, scope: 'form:sales' })).toBe(0);
+    });
+
     it('should handle unknown IP addresses', () => {
       const event = {} as APIGatewayProxyEvent; // No requestContext
       const config = { maxRequests: 5, windowMs: 60000 };
@@ -81,6 +114,30 @@ describe('Security Utilities', () => {
     });
   });
 
+  describe('checkRecipientRateLimit', () => {
+    it('should count per recipient address regardless of case', () => {
+      const config = { maxRequests: 2, windowMs: 60000, scope: 'autoreply' };
+
+      expect(checkRecipientRateLimit('Visitor@Example.com', config)).toBe(true);
+      expect(checkRecipientRateLimit('visitor@example.com ', config)).toBe(true);
+      expect(checkRecipientRateLimit('VISITOR@example.com', config)).toBe(false);
+      expect(checkRecipientRateLimit('other@example.com', config)).toBe(true);
+    });
+
+    it('should keep separate counters per scope', () => {
+      expect(
+        checkRecipientRateLimit('scoped@example.com', { maxRequests: 1, windowMs: 60000 })
+      ).toBe(true);
+      expect(
+        checkRecipientRateLimit('scoped@example.com', {
+          maxRequests: 1,
+          windowMs: 60000,
+          scope: 'autoreply',
+        })
+      ).toBe(true);
+    });
+  });
+
   describe('detectSuspiciousActivity', () => {
     it('should detect script tags', () => {
       const maliciousContent = 'Hello <script>alert("xss")</script> world';
@@ -167,6 +224,44 @@ describe('Security Utilities', () => {
     });
   });
 
+  describe('isAllowedRedirect', () => {
+    it('should allow targets on allow-listed origins', () => {
+      const allowList = 'https://example.com, *.example.org';
+
+      expect(isAllowedRedirect('https://example.com/thanks?x=1', allowList)).toBe(true);
+      expect(isAllowedRedirect('https://www.example.org/thanks', allowList)).toBe(true);
+      expect(isAllowedRedirect('https://evil.com/thanks', allowList)).toBe(false);
+    });
+
+    it('should never treat a bare wildcard as an allow-list', () => {
+      expect(isAllowedRedirect('https://evil.com/', '*')).toBe(false);
+    });
+
+    it('should reject non-http targets and invalid URLs', () => {
+      expect(isAllowedRedirect('javascript:alert(1)', 'https://example.com')).toBe(false);
+      expect(isAllowedRedirect('/relative', 'https://example.com')).toBe(false);
+    });
+  });
+
+  describe('sanitizeFields', () => {
+    it('should sanitize strings and string arrays but keep other values', () => {
+      expect(
+        sanitizeFields({
+          company: '<b>Acme</b>',
+          products: ['a&b', 'c'],
+          seats: 3,
+          consent: true,
+        })
+      ).toEqual({
+        company: '&lt;b&gt;Acme&lt;/b&gt;',
+        products: ['a&amp;b', 'c'],
+        seats: 3,
+        consent: true,
+      });
+      expect(sanitizeFields(undefined)).toBeUndefined();
+    });
+  });
+
   describe('sanitizeInput', () => {
     it('should escape HTML special characters', () => {
       const input = '<script>alert("xss")</script>';
@@ -319,5 +414,171 @@ describe('Security Utilities', () => {
       expect(failOpenAllowed).toBe(true);
       expect(failClosedAllowed).toBe(false);
     });
+
+    it('should read usage for the current window', async () => {
+      const event = createMockEvent('192.168.1.23') as APIGatewayProxyEvent;
+      const mockDynamoClient = {
+        send: vi
+          .fn()
+          .mockResolvedValueOnce({ Item: { count: { N: '4' } } })
+          .mockRejectedValueOnce(new Error('DynamoDB unavailable')),
+      };
+      vi.mocked(DynamoDBClient).mockImplementation(
+        () => mockDynamoClient as unknown as DynamoDBClient
+      );
+      const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const config = {
+        maxRequests: 5,
+        windowMs: 60000,
+        scope: 'form:sales',
+        tableName: 'rate-limit-table',
+        region: 'sa-east-1',
+        partitionKeyName: 'id',
+        failOpen: true,
+      };
+
+      expect(await getRateLimitUsageDistributed(event, config)).toBe(4);
+      expect(vi.mocked(GetItemCommand).mock.lastCall?.[0].Key?.id?.S).toMatch(
+        /^form:sales#192\.168\.1\.23#\d+$/
+      );
+      expect(await getRateLimitUsageDistributed(event, config)).toBe(0);
+      error.mockRestore();
+    });
+
+    it('should read usage from the key the rate limit check writes', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2024-06-01T12:00:30.000Z'));
+      const event = createMockEvent('192.168.1.24') as APIGatewayProxyEvent;
+      const mockDynamoClient = {
+        send: vi.fn().mockResolvedValue({ Attributes: { count: { N: '1' } } }),
+      };
+      vi.mocked(DynamoDBClient).mockImplementation(
+        () => mockDynamoClient as unknown as DynamoDBClient
+      );
+      const config = {
+        maxRequests: 5,
+        windowMs: 60000,
+        scope: 'form:sales',
+        tableName: 'rate-limit-table',
+        region: 'me-south-1',
+        partitionKeyName: 'id',
+        failOpen: true,
+      };
+
+      await checkRateLimitDistributed(event, config);
+      await getRateLimitUsageDistributed(event, config);
+      vi.useRealTimers();
+
+      const written = vi.mocked(UpdateItemCommand).mock.lastCall?.[0].Key?.id?.S;
+      expect(written).toBe(
+        `form:sales#192.168.1.24#${Math.floor(Date.parse('2024-06-01T12:00:30.000Z') / 60000)}`
+      );
+      expect(vi.mocked(GetItemCommand).mock.lastCall?.[0].Key).toEqual({ id: { S: written } });
+    });
+
+    it('should key recipient limits by normalized address', async () => {
+      const mockDynamoClient = {
+        send: vi.fn().mockResolvedValue({
+          Attributes: {
+            count: { N: '2' },
+          },
+        }),
+      };
+
+      vi.mocked(DynamoDBClient).mockImplementation(
+        () => mockDynamoClient as unknown as DynamoDBClient
+      );
+
+      const allowed = await checkRecipientRateLimitDistributed('Visitor@Example.com', {
+        maxRequests: 1,
+        windowMs: 60000,
+        scope: 'autoreply',
+        tableName: 'rate-limit-table',
+        region: 'eu-central-1',
+        partitionKeyName: 'id',
+        failOpen: false,
+      });
+
+      expect(allowed).toBe(false);
+      const command = vi.mocked(UpdateItemCommand).mock.lastCall?.[0];
+      expect(command?.Key?.id?.S).toMatch(/^autoreply#visitor@example\.com#\d+$/);
+    });
+  });
+
+  describe('data subject key helpers', () => {
+    const memoryTable = { region: 'us-east-1', partitionKeyName: 'id' };
+
+    it('should find and delete idempotency records in memory', async () => {
+      await checkAndStoreIdempotencyKey('subject-key', {
+        ttlMs: 60000,
+        failOpen: true,
+        ...memoryTable,
+      });
+
+      const records = await findIdempotencyRecords(['subject-key', 'unknown'], memoryTable);
+      expect(records.map(record => record.key)).toEqual(['subject-key']);
+      await expect(deleteIdempotencyRecords(['subject-key', 'unknown'], memoryTable)).resolves.toBe(
+        1
+      );
+      await expect(findIdempotencyRecords(['subject-key'], memoryTable)).resolves.toEqual([]);
+    });
+
+    it('should find per-recipient counters but not similar addresses', async () => {
+      const config = { maxRequests: 5, windowMs: 60000, scope: 'autoreply' };
+      checkRecipientRateLimit('Subject@Example.com', config);
+      checkRecipientRateLimit('other-subject@example.com', config);
+
+      const keys = await findRecipientRateLimitKeys('subject@example.com', memoryTable);
+      expect(keys).toEqual([{ key: 'autoreply#subject@example.com' }]);
+      await expect(
+        deleteRateLimitKeys(
+          keys.map(entry => entry.key),
+          memoryTable
+        )
+      ).resolves.toBe(1);
+      await expect(findRecipientRateLimitKeys('subject@example.com', memoryTable)).resolves.toEqual(
+        []
+      );
+    });
+
+    it('should scan the distributed table for recipient keys', async () => {
+      const mockDynamoClient = {
+        send: vi
+          .fn()
+          .mockResolvedValueOnce({
+            Items: [{ id: { S: 'autoreply#subject@example.com#123' }, expiresAt: { N: '99' } }],
+            LastEvaluatedKey: { id: { S: 'x' } },
+          })
+          .mockResolvedValueOnce({ Items: [] }),
+      };
+      vi.mocked(DynamoDBClient).mockImplementation(
+        () => mockDynamoClient as unknown as DynamoDBClient
+      );
+
+      const keys = await findRecipientRateLimitKeys('Subject@Example.com', {
+        tableName: 'rate-limit-table',
+        region: 'ap-south-1',
+        partitionKeyName: 'id',
+      });
+
+      expect(keys).toEqual([{ key: 'autoreply#subject@example.com#123', expiresAt: 99 }]);
+      expect(mockDynamoClient.send).toHaveBeenCalledTimes(2);
+      expect(vi.mocked(ScanCommand).mock.lastCall?.[0]).toMatchObject({
+        FilterExpression: 'contains(#pk, :recipient)',
+        ExpressionAttributeValues: { ':recipient': { S: '#subject@example.com#' } },
+        ExclusiveStartKey: { id: { S: 'x' } },
+      });
+    });
+  });
+
+  describe('hashIpAddress', () => {
+    it('should hash IPs one-way with the secret as key', () => {
+      const keyed = hashIpAddress('203.0.113.7', 'secret');
+
+      expect(keyed).toMatch(/^[a-f0-9]{64}$/);
+      expect(keyed).not.toBe(createHash('sha256').update('203.0.113.7').digest('hex'));
+      expect(hashIpAddress('203.0.113.7', 'other-secret')).not.toBe(keyed);
+      expect(hashIpAddress('203.0.113.7', 'secret')).toBe(keyed);
+    });
   });
 });
@@ -1,6 +1,7 @@
 // Global test setup for Vitest
 import { vi, beforeEach, afterEach } from 'vitest';
 import { resetRateLimit } from '../src/security';
+import { resetFormRegistry } from '../src/forms';
 
 // Mock console methods to avoid noise in tests
 global.console = {
@@ -29,6 +30,7 @@ beforeEach(() => {
 
   // Clear rate limiting storage between tests
   resetRateLimit();
+  resetFormRegistry();
 });
 
 afterEach(() => {
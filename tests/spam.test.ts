@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_QUARANTINE_SCORE,
+  DEFAULT_REJECT_SCORE,
+  resolveSpamPolicy,
+  scoreSubmission,
+  spamSettingsSchema,
+} from '../src/spam';
+import { trainSpamModel } from '../src/classifier';
+import { ContactFormRequest } from '../src/types';
+
+const createRequest = (overrides: Partial<ContactFormRequest> = {}): ContactFormRequest => ({
+  name: 'Jane Doe',
+  email: 'jane@example.com',
+  content: 'Hello, I would like to know more about your opening hours.',
+  ...overrides,
+});
+
+const rulesOf = (request: ContactFormRequest, policy = resolveSpamPolicy(undefined)) =>
+  scoreSubmission(request, policy).reasons.map(reason => reason.rule);
+
+describe('Spam Scoring', () => {
+  it('should accept ordinary messages with a zero score', () => {
+    expect(scoreSubmission(createRequest(), resolveSpamPolicy(undefined))).toEqual({
+      score: 0,
+      action: 'accept',
+      reasons: [],
+    });
+  });
+
+  it('should reject markup outright', () => {
+    const assessment = scoreSubmission(
+      createRequest({ subject: '<script>alert(1)</script>' }),
+      resolveSpamPolicy(undefined)
+    );
+
+    expect(assessment).toMatchObject({ score: 10, action: 'reject' });
+    expect(assessment.reasons).toEqual([
+      { rule: 'markup', score: 10, detail: 'HTML or script markup' },
+    ]);
+  });
+
+  it('should count each link beyond the allowed number', () => {
+    const content = 'See https://a.example, https://b.example, www.c.example and http://d.example';
+    const [reason] = scoreSubmission(
+      createRequest({ content }),
+      resolveSpamPolicy(undefined)
+    ).reasons;
+
+    expect(reason).toEqual({ rule: 'links', score: 2, detail: '4 links' });
+    expect(rulesOf(createRequest({ content }), resolveSpamPolicy({ maxLinks: 4 }))).toEqual([]);
+  });
+
+  it('should flag links in the name and messages that are only a link', () => {
+    expect(rulesOf(createRequest({ name: 'Cheap pills www.pills.example' }))).toEqual([
+      'link_in_name',
+    ]);
+    expect(rulesOf(createRequest({ content: '  https://spam.example/landing  ' }))).toEqual([
+      'url_only',
+    ]);
+  });
+
+  it('should match whole keywords in any field', () => {
+    const request = createRequest({
+      content: 'We offer SEO services and Bitcoin payouts. Seoul is lovely.',
+      fields: { company: 'Casino Royale Ltd', topics: ['crypto'] },
+    });
+
+    expect(scoreSubmission(request, resolveSpamPolicy(undefined)).reasons).toEqual([
+      { rule: 'keywords', score: 8, detail: 'Keywords: seo, bitcoin, crypto, casino' },
+    ]);
+    expect(rulesOf(request, resolveSpamPolicy({ keywords: ['lovely'] }))).toEqual(['keywords']);
+  });
+
+  it('should flag long runs of the same character', () => {
+    expect(rulesOf(createRequest({ content: 'Call me now!!!!!!!!!!!!' }))).toEqual([
+      'repeated_characters',
+    ]);
+    expect(rulesOf(createRequest({ content: 'Call me now!!! Thanks.' }))).toEqual([]);
+  });
+
+  it('should quarantine between the thresholds', () => {
+    const request = createRequest({ content: 'https://spam.example/landing' });
+
+    expect(scoreSubmission(request, resolveSpamPolicy(undefined)).action).toBe('accept');
+    expect(scoreSubmission(request, resolveSpamPolicy({ quarantineScore: 4 })).action).toBe(
+      'quarantine'
+    );
+    expect(scoreSubmission(request, resolveSpamPolicy({ rejectScore: 4 })).action).toBe('reject');
+  });
+
+  it('should apply weights, custom patterns and default thresholds', () => {
+    const policy = resolveSpamPolicy(
+      {
+        weights: { markup: 0, keywords: 5 },
+        patterns: [{ id: 'telegram', pattern: 't\\.me/', weight: 3 }],
+      },
+      { quarantineScore: 7, rejectScore: 20 }
+    );
+
+    expect(policy.quarantineScore).toBe(7);
+    expect(policy.rules.map(rule => rule.id)).not.toContain('markup');
+    expect(
+      scoreSubmission(
+        createRequest({ content: '<script>x</script> forex tips on T.me/deals' }),
+        policy
+      )
+    ).toEqual({
+      score: 8,
+      action: 'quarantine',
+      reasons: [
+        { rule: 'keywords', score: 5, detail: 'Keywords: forex' },
+        { rule: 'telegram', score: 3, detail: 'Matched pattern telegram' },
+      ],
+    });
+  });
+
+  it('should add the classifier probability when a model is given', () => {
+    const model = trainSpamModel(
+      [
+        { label: 'spam', text: 'Guaranteed returns on your crypto wallet' },
+        { label: 'spam', text: 'Guaranteed returns, invest in our wallet today' },
+        { label: 'ham', text: 'Could you send me your opening hours?' },
+        { label: 'ham', text: 'Please send me the opening hours for Sunday' },
+      ],
+      { minCount: 1 }
+    );
+    const request = createRequest({ content: 'Guaranteed returns for your wallet' });
+
+    const assessment = scoreSubmission(request, resolveSpamPolicy(undefined, {}, model));
+    expect(assessment.probability).toBeGreaterThan(0.9);
+    expect(assessment).toMatchObject({
+      score: 5,
+      action: 'quarantine',
+      reasons: [
+        { rule: 'classifier', score: 5, detail: expect.stringMatching(/^Classifier: \d+% spam$/) },
+      ],
+    });
+
+    const strict = resolveSpamPolicy({ classifierThreshold: 1 }, {}, model);
+    expect(scoreSubmission(request, strict).reasons).toEqual([]);
+    expect(
+      scoreSubmission(createRequest(), resolveSpamPolicy(undefined, {}, model)).probability
+    ).toBeLessThan(0.5);
+    expect(scoreSubmission(request, resolveSpamPolicy(undefined))).not.toHaveProperty(
+      'probability'
+    );
+  });
+
+  it('should fall back to the built-in thresholds', () => {
+    expect(resolveSpamPolicy(undefined)).toMatchObject({
+      quarantineScore: DEFAULT_QUARANTINE_SCORE,
+      rejectScore: DEFAULT_REJECT_SCORE,
+    });
+  });
+
+  it('should validate spam settings', () => {
+    expect(spamSettingsSchema.safeParse({ quarantineScore: 8, rejectScore: 4 }).success).toBe(
+      false
+    );
+    expect(
+      spamSettingsSchema.safeParse({ patterns: [{ id: 'bad', pattern: '(', weight: 1 }] }).success
+    ).toBe(false);
+    expect(spamSettingsSchema.safeParse({ weights: { unknown: 1 } }).success).toBe(false);
+    expect(spamSettingsSchema.parse({ keywords: ['  SEO '] })).toEqual({ keywords: ['seo'] });
+  });
+});
@@ -0,0 +1,427 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  DeleteItemCommand,
+  GetItemCommand,
+  PutItemCommand,
+  QueryCommand,
+  ScanCommand,
+  UpdateItemCommand,
+} from '@aws-sdk/client-dynamodb';
+import {
+  anonymizeRecord,
+  archiveSubmission,
+  createDynamoSubmissionRepository,
+  createMemorySubmissionRepository,
+  getSubmissionRepository,
+  recordDeliveryStatus,
+  setSubmissionRepository,
+  SubmissionRecord,
+} from '../src/submissions';
+import { ValidationError } from '../src/errors';
+
+const mockSend = vi.fn();
+
+vi.mock('@aws-sdk/client-dynamodb', () => ({
+  DynamoDBClient: vi.fn(() => ({ send: mockSend })),
+  GetItemCommand: vi.fn(input => ({ input })),
+  PutItemCommand: vi.fn(input => ({ input })),
+  UpdateItemCommand: vi.fn(input => ({ input })),
+  ScanCommand: vi.fn(input => ({ input })),
+  QueryCommand: vi.fn(input => ({ input })),
+  DeleteItemCommand: vi.fn(input => ({ input })),
+}));
+
+const createRecord = (overrides: Partial<SubmissionRecord> = {}): SubmissionRecord => ({
+  id: 'c0ffee00-0000-4000-8000-000000000001',
+  formId: 'support',
+  request: {
+    name: 'Jane Doe',
+    email: 'Jane@Example.com',
+    content: 'Hello there, please keep this.',
+    fields: { topic: 'billing' },
+  },
+  metadata: { origin: 'https://example.com', ipHash: 'abc123', requestId: 'req-1' },
+  attachments: [{ filename: 'notes.txt', contentType: 'text/plain', size: 5 }],
+  status: 'pending',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('Submission Repository', () => {
+  beforeEach(() => {
+    mockSend.mockReset();
+    setSubmissionRepository(undefined);
+  });
+
+  describe('memory repository', () => {
+    it('should save, read and update submissions', async () => {
+      const repository = createMemorySubmissionRepository();
+      await repository.save(createRecord());
+
+      await repository.updateStatus('c0ffee00-0000-4000-8000-000000000001', {
+        status: 'failed',
+        error: 'Throttling',
+      });
+      await repository.updateStatus('c0ffee00-0000-4000-8000-000000000001', {
+        status: 'sent',
+        messageId: 'ses-1',
+      });
+
+      const record = await repository.get('c0ffee00-0000-4000-8000-000000000001');
+      expect(record).toMatchObject({ status: 'sent', messageId: 'ses-1' });
+      expect(record).not.toHaveProperty('error');
+      await expect(repository.get('missing')).resolves.toBeUndefined();
+    });
+
+    it('should not expose stored records to mutation', async () => {
+      const repository = createMemorySubmissionRepository();
+      const record = createRecord();
+      await repository.save(record);
+
+      record.request.name = 'Changed';
+      const stored = await repository.get(record.id);
+      stored!.status = 'sent';
+
+      expect(repository.records.get(record.id)).toMatchObject({
+        status: 'pending',
+        request: { name: 'Jane Doe' },
+      });
+    });
+
+    it('should filter newest first and page with a cursor', async () => {
+      const repository = createMemorySubmissionRepository();
+      for (let day = 1; day <= 4; day++) {
+        await repository.save(
+          createRecord({
+            id: `id-${day}`,
+            createdAt: `2024-01-0${day}T00:00:00.000Z`,
+            status: day === 3 ? 'failed' : 'sent',
+          })
+        );
+      }
+      await repository.save(createRecord({ id: 'other', formId: 'sales' }));
+
+      const first = await repository.list({ formId: 'support', limit: 2 });
+      expect(first.items.map(record => record.id)).toEqual(['id-4', 'id-3']);
+      const second = await repository.list({ formId: 'support', limit: 2, cursor: first.cursor });
+      expect(second.items.map(record => record.id)).toEqual(['id-2', 'id-1']);
+      expect(second.cursor).toBeUndefined();
+
+      const filtered = await repository.list({
+        email: 'jane@example.COM',
+        status: 'sent',
+        from: '2024-01-02T00:00:00.000Z',
+        to: '2024-01-04T00:00:00.000Z',
+        limit: 10,
+      });
+      expect(filtered.items.map(record => record.id)).toEqual(['id-4', 'id-2']);
+      await expect(repository.list({ limit: 1, cursor: 'not-a-cursor' })).rejects.toThrow(
+        'Invalid cursor'
+      );
+    });
+
+    it('should report whether a deleted record existed', async () => {
+      const repository = createMemorySubmissionRepository();
+      await repository.save(createRecord());
+
+      await expect(repository.delete('c0ffee00-0000-4000-8000-000000000001')).resolves.toBe(true);
+      await expect(repository.delete('c0ffee00-0000-4000-8000-000000000001')).resolves.toBe(false);
+    });
+
+    it('should anonymize records so they no longer match the address', async () => {
+      const repository = createMemorySubmissionRepository();
+      await repository.save(createRecord({ messageId: 'msg-1', status: 'sent' }));
+
+      await expect(
+        repository.anonymize('c0ffee00-0000-4000-8000-000000000001', '2024-03-01T00:00:00.000Z')
+      ).resolves.toBe(true);
+      await expect(repository.anonymize('missing', '2024-03-01T00:00:00.000Z')).resolves.toBe(
+        false
+      );
+
+      const page = await repository.list({ email: 'jane@example.com', limit: 10 });
+      expect(page.items).toEqual([]);
+      expect((await repository.list({ limit: 10 })).items).toHaveLength(1);
+    });
+
+    it('should set, filter by and clear training labels', async () => {
+      const repository = createMemorySubmissionRepository();
+      await repository.save(createRecord());
+      await repository.save(createRecord({ id: 'other' }));
+
+      await expect(
+        repository.setLabel('c0ffee00-0000-4000-8000-000000000001', 'spam')
+      ).resolves.toBe(true);
+      await expect(repository.setLabel('missing', 'ham')).resolves.toBe(false);
+      expect(
+        (await repository.list({ label: 'spam', limit: 10 })).items.map(record => record.id)
+      ).toEqual(['c0ffee00-0000-4000-8000-000000000001']);
+
+      await repository.setLabel('c0ffee00-0000-4000-8000-000000000001', undefined);
+      expect((await repository.list({ label: 'spam', limit: 10 })).items).toEqual([]);
+    });
+  });
+
+  describe('DynamoDB repository', () => {
+    const repository = createDynamoSubmissionRepository('submissions', 'us-east-1', 'pk');
+
+    it('should store status columns top-level and the submission as JSON', async () => {
+      mockSend.mockResolvedValue({});
+      await repository.save(createRecord());
+
+      const input = vi.mocked(PutItemCommand).mock.lastCall![0];
+      expect(input.ConditionExpression).toBe('attribute_not_exists(#pk)');
+      expect(input.Item).toMatchObject({
+        pk: { S: 'c0ffee00-0000-4000-8000-000000000001' },
+        formId: { S: 'support' },
+        email: { S: 'jane@example.com' },
+        status: { S: 'pending' },
+      });
+      expect(JSON.parse(input.Item!.submission.S!)).toMatchObject({
+        request: { fields: { topic: 'billing' } },
+        metadata: { ipHash: 'abc123' },
+      });
+    });
+
+    it('should read records back', async () => {
+      mockSend.mockResolvedValue({});
+      await repository.save(createRecord({ status: 'sent', messageId: 'ses-1' }));
+      mockSend.mockResolvedValueOnce({ Item: vi.mocked(PutItemCommand).mock.lastCall![0].Item });
+
+      await expect(repository.get('c0ffee00-0000-4000-8000-000000000001')).resolves.toEqual(
+        createRecord({ status: 'sent', messageId: 'ses-1' })
+      );
+      expect(vi.mocked(GetItemCommand).mock.lastCall![0].Key).toEqual({
+        pk: { S: 'c0ffee00-0000-4000-8000-000000000001' },
+      });
+    });
+
+    it('should update the status of existing records only', async () => {
+      mockSend.mockResolvedValue({});
+
+      await repository.updateStatus('id-1', { status: 'sent', messageId: 'ses-1' });
+      expect(vi.mocked(UpdateItemCommand).mock.lastCall![0]).toMatchObject({
+        UpdateExpression:
+          'SET #status = :status, updatedAt = :now, messageId = :messageId REMOVE #error',
+        ConditionExpression: 'attribute_exists(#pk)',
+      });
+
+      await repository.updateStatus('id-1', { status: 'failed', error: 'Rejected' });
+      expect(vi.mocked(UpdateItemCommand).mock.lastCall![0]).toMatchObject({
+        UpdateExpression: 'SET #status = :status, updatedAt = :now, #error = :error',
+        ExpressionAttributeValues: { ':error': { S: 'Rejected' } },
+      });
+    });
+
+    it('should scan with filters until the page fills', async () => {
+      mockSend.mockResolvedValue({});
+      await repository.save(createRecord());
+      const item = vi.mocked(PutItemCommand).mock.lastCall![0].Item;
+      mockSend
+        .mockResolvedValueOnce({ Items: [item], LastEvaluatedKey: { pk: { S: 'a' } } })
+        .mockResolvedValueOnce({ Items: [item], LastEvaluatedKey: { pk: { S: 'b' } } });
+
+      const page = await repository.list({
+        formId: 'support',
+        email: 'Jane@Example.com',
+        from: '2024-01-01T00:00:00.000Z',
+        limit: 2,
+      });
+
+      expect(page.items).toHaveLength(2);
+      expect(JSON.parse(Buffer.from(page.cursor!, 'base64url').toString())).toEqual({
+        pk: { S: 'b' },
+      });
+      const [first, second] = vi.mocked(ScanCommand).mock.calls.map(([input]) => input);
+      expect(first).toMatchObject({
+        Limit: 2,
+        FilterExpression: '#formId = :formId AND #email = :email AND #from >= :from',
+        ExpressionAttributeValues: { ':email': { S: 'jane@example.com' } },
+      });
+      expect(second).toMatchObject({ Limit: 1, ExclusiveStartKey: { pk: { S: 'a' } } });
+    });
+
+    it('should reject malformed cursors before reading the table', async () => {
+      const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+      for (const cursor of [
+        'not-a-cursor',
+        encode(5),
+        encode({}),
+        encode({ pk: 'a' }),
+        encode({ pk: { N: '1' } }),
+        encode({ pk: { S: 'a', N: '1' } }),
+      ]) {
+        await expect(repository.list({ limit: 10, cursor })).rejects.toThrow(ValidationError);
+      }
+      expect(mockSend).not.toHaveBeenCalled();
+
+      mockSend.mockResolvedValueOnce({ Items: [] });
+      await repository.list({ limit: 10, cursor: encode({ pk: { S: 'a' } }) });
+      expect(vi.mocked(ScanCommand).mock.lastCall![0].ExclusiveStartKey).toEqual({
+        pk: { S: 'a' },
+      });
+    });
+
+    it('should query the email index when one is configured', async () => {
+      const indexed = createDynamoSubmissionRepository(
+        'submissions',
+        'us-east-1',
+        'pk',
+        'by-email'
+      );
+      mockSend.mockResolvedValueOnce({ Items: [] });
+
+      await indexed.list({
+        email: 'Jane@Example.com',
+        status: 'sent',
+        from: '2024-01-01T00:00:00.000Z',
+        to: '2024-02-01T00:00:00.000Z',
+        limit: 10,
+      });
+
+      expect(vi.mocked(QueryCommand).mock.lastCall![0]).toMatchObject({
+        IndexName: 'by-email',
+        KeyConditionExpression: expect.stringContaining('#email = :email'),
+        FilterExpression: '#status = :status',
+        ScanIndexForward: false,
+      });
+      expect(vi.mocked(QueryCommand).mock.lastCall![0].KeyConditionExpression).toContain(
+        'createdAt'
+      );
+    });
+
+    it('should overwrite anonymized records without the email attribute', async () => {
+      const stored = createRecord();
+      mockSend.mockResolvedValue({});
+      await repository.save(stored);
+      mockSend.mockReset();
+      mockSend
+        .mockResolvedValueOnce({ Item: vi.mocked(PutItemCommand).mock.lastCall![0].Item })
+        .mockResolvedValueOnce({});
+
+      await expect(repository.anonymize(stored.id, '2024-03-01T00:00:00.000Z')).resolves.toBe(true);
+
+      const input = vi.mocked(PutItemCommand).mock.lastCall![0];
+      expect(input.Item!.email).toBeUndefined();
+      expect(input.ConditionExpression).toBe('attribute_exists(#pk)');
+      expect(input.Item!.submission.S).not.toContain('Jane');
+
+      mockSend.mockResolvedValueOnce({});
+      await expect(repository.anonymize('missing', '2024-03-01T00:00:00.000Z')).resolves.toBe(
+        false
+      );
+    });
+
+    it('should store labels top-level and report missing records', async () => {
+      mockSend.mockResolvedValue({});
+      await repository.save(createRecord({ label: 'ham' }));
+      const { Item } = vi.mocked(PutItemCommand).mock.lastCall![0];
+      expect(Item!.label).toEqual({ S: 'ham' });
+      mockSend.mockResolvedValueOnce({ Item });
+      await expect(repository.get('c0ffee00-0000-4000-8000-000000000001')).resolves.toEqual(
+        createRecord({ label: 'ham' })
+      );
+
+      await expect(repository.setLabel('id-1', 'spam')).resolves.toBe(true);
+      expect(vi.mocked(UpdateItemCommand).mock.lastCall![0]).toMatchObject({
+        UpdateExpression: 'SET #label = :label',
+        ConditionExpression: 'attribute_exists(#pk)',
+        ExpressionAttributeValues: { ':label': { S: 'spam' } },
+      });
+
+      await repository.setLabel('id-1', undefined);
+      expect(vi.mocked(UpdateItemCommand).mock.lastCall![0]).toMatchObject({
+        UpdateExpression: 'REMOVE #label',
+      });
+      expect(vi.mocked(UpdateItemCommand).mock.lastCall![0]).not.toHaveProperty(
+        'ExpressionAttributeValues'
+      );
+
+      mockSend.mockRejectedValueOnce(
+        Object.assign(new Error('Condition failed'), { name: 'ConditionalCheckFailedException' })
+      );
+      await expect(repository.setLabel('missing', 'spam')).resolves.toBe(false);
+
+      await repository.list({ label: 'spam', limit: 10 });
+      expect(vi.mocked(ScanCommand).mock.lastCall![0]).toMatchObject({
+        FilterExpression: '#label = :label',
+        ExpressionAttributeValues: { ':label': { S: 'spam' } },
+      });
+    });
+
+    it('should delete by key and report missing records', async () => {
+      mockSend.mockResolvedValueOnce({ Attributes: { pk: { S: 'id-1' } } });
+      await expect(repository.delete('id-1')).resolves.toBe(true);
+      expect(vi.mocked(DeleteItemCommand).mock.lastCall![0]).toMatchObject({
+        Key: { pk: { S: 'id-1' } },
+        ReturnValues: 'ALL_OLD',
+      });
+
+      mockSend.mockResolvedValueOnce({});
+      await expect(repository.delete('id-2')).resolves.toBe(false);
+    });
+  });
+
+  describe('helpers', () => {
+    it('should keep only non-personal attributes when anonymizing', () => {
+      const record = anonymizeRecord(
+        createRecord({
+          messageId: 'msg-1',
+          metadata: {
+            ipHash: 'abc',
+            userAgent: 'UA',
+            origin: 'https://example.com',
+            requestId: 'req-1',
+            idempotencyKey: 'key-1',
+          },
+        }),
+        '2024-03-01T00:00:00.000Z'
+      );
+
+      expect(record).toEqual({
+        id: 'c0ffee00-0000-4000-8000-000000000001',
+        formId: 'support',
+        request: { name: '[erased]', email: '[erased]', content: '[erased]' },
+        metadata: {
+          origin: 'https://example.com',
+          requestId: 'req-1',
+          erasedAt: '2024-03-01T00:00:00.000Z',
+        },
+        attachments: [{ filename: '[erased]', contentType: 'text/plain', size: 5 }],
+        status: 'pending',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-03-01T00:00:00.000Z',
+        messageId: 'msg-1',
+      });
+    });
+
+    it('should pick the configured repository', () => {
+      expect(getSubmissionRepository({ region: 'us-east-1', partitionKeyName: 'id' })).toBe(
+        undefined
+      );
+      expect(
+        getSubmissionRepository({ tableName: 't', region: 'us-east-1', partitionKeyName: 'id' })
+          ?.name
+      ).toBe('dynamodb');
+
+      const repository = createMemorySubmissionRepository();
+      setSubmissionRepository(repository);
+      expect(getSubmissionRepository({ region: 'us-east-1', partitionKeyName: 'id' })).toBe(
+        repository
+      );
+    });
+
+    it('should swallow archive errors', async () => {
+      const repository = createDynamoSubmissionRepository('submissions', 'us-east-1');
+      mockSend.mockRejectedValue(new Error('DynamoDB unavailable'));
+
+      await expect(archiveSubmission(repository, createRecord())).resolves.toBe(false);
+      await expect(archiveSubmission(undefined, createRecord())).resolves.toBe(false);
+      await expect(
+        recordDeliveryStatus(repository, 'id-1', { status: 'sent' })
+      ).resolves.toBeUndefined();
+    });
+  });
+});
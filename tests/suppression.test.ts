@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createMemorySuppressionStore,
+  getSuppressionStore,
+  normalizeEmailAddress,
+  resetSuppressionStore,
+  setSuppressionStore,
+} from '../src/suppression';
+
+describe('Suppression Store', () => {
+  it('should normalize addresses', () => {
+    expect(normalizeEmailAddress('  Jane@Example.COM ')).toBe('jane@example.com');
+  });
+
+  it('should suppress addresses case-insensitively', async () => {
+    const store = createMemorySuppressionStore();
+
+    await store.suppress({
+      email: 'Bounce@Example.com',
+      reason: 'bounce',
+      suppressedAt: '2024-01-01T00:00:00.000Z',
+    });
+
+    await expect(store.isSuppressed('bounce@example.com')).resolves.toBe(true);
+    await expect(store.isSuppressed('other@example.com')).resolves.toBe(false);
+    expect(store.entries.get('bounce@example.com')?.reason).toBe('bounce');
+  });
+
+  it('should read and remove entries', async () => {
+    const store = createMemorySuppressionStore();
+    await store.suppress({
+      email: 'jane@example.com',
+      reason: 'manual',
+      suppressedAt: '2024-01-01T00:00:00.000Z',
+    });
+
+    await expect(store.get(' Jane@Example.com')).resolves.toMatchObject({ reason: 'manual' });
+    await expect(store.remove('JANE@example.com')).resolves.toBe(true);
+    await expect(store.remove('jane@example.com')).resolves.toBe(false);
+    await expect(store.get('jane@example.com')).resolves.toBeUndefined();
+  });
+
+  it('should prefer an override store and reset to the shared one', () => {
+    const store = createMemorySuppressionStore();
+    setSuppressionStore(store);
+
+    expect(getSuppressionStore()).toBe(store);
+
+    setSuppressionStore(undefined);
+    expect(getSuppressionStore()).not.toBe(store);
+    expect(getSuppressionStore().name).toBe('memory');
+  });
+
+  it('should leave the shared store alone when an override is set', async () => {
+    resetSuppressionStore();
+    await getSuppressionStore().suppress({
+      email: 'jane@example.com',
+      reason: 'bounce',
+      suppressedAt: '2024-01-01T00:00:00.000Z',
+    });
+
+    setSuppressionStore(createMemorySuppressionStore());
+    setSuppressionStore(undefined);
+    await expect(getSuppressionStore().isSuppressed('jane@example.com')).resolves.toBe(true);
+
+    resetSuppressionStore();
+    await expect(getSuppressionStore().isSuppressed('jane@example.com')).resolves.toBe(false);
+  });
+
+  it('should use DynamoDB when a table is configured', () => {
+    const store = getSuppressionStore({
+      tableName: 'suppression-table',
+      region: 'us-east-1',
+      partitionKeyName: 'email',
+    });
+
+    expect(store.name).toBe('dynamodb');
+    expect(getSuppressionStore({ region: 'us-east-1', partitionKeyName: 'email' }).name).toBe(
+      'memory'
+    );
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  compileTemplate,
+  DEFAULT_HTML_TEMPLATE,
+  DEFAULT_TEXT_TEMPLATE,
+  loadTemplateFile,
+  renderTemplate,
+  TemplateError,
+} from '../src/templates';
+
+const context = {
+  formId: 'sales',
+  name: 'Tom & Jerry',
+  email: 'tom@example.com',
+  subject: 'Quote <urgent>',
+  content: 'Line one\nLine "two"',
+  fields: [
+    { name: 'company', label: 'Company', value: 'Acme <b>Inc</b>' },
+    { name: 'budget', label: 'Budget', value: '10k-50k' },
+  ],
+  values: { company: 'Acme <b>Inc</b>', newsletter: true, products: ['a', 'b'] },
+  attachments: [],
+};
+
+describe('Templates', () => {
+  describe('renderTemplate', () => {
+    it('should interpolate variables and nested paths', () => {
+      expect(renderTemplate('{{ name }} ({{values.company}}) {{missing}}', context, 'text')).toBe(
+        'Tom & Jerry (Acme <b>Inc</b>) '
+      );
+    });
+
+    it('should escape values in HTML mode only', () => {
+      expect(renderTemplate('<p>{{subject}}</p>', context, 'html')).toBe(
+        '<p>Quote &lt;urgent&gt;</p>'
+      );
+      expect(renderTemplate('{{subject}}', context, 'text')).toBe('Quote <urgent>');
+      expect(renderTemplate('{{{values.company}}}', context, 'html')).toBe('Acme <b>Inc</b>');
+    });
+
+    it('should format booleans and lists like field values', () => {
+      expect(renderTemplate('{{values.newsletter}} {{values.products}}', context, 'text')).toBe(
+        'Yes a, b'
+      );
+    });
+
+    it('should render conditionals with else branches', () => {
+      const template = '{{#if values.company}}Company{{else}}Private{{/if}}';
+
+      expect(renderTemplate(template, context, 'text')).toBe('Company');
+      expect(renderTemplate(template, { ...context, values: {} }, 'text')).toBe('Private');
+      expect(renderTemplate('{{#if attachments}}files{{else}}none{{/if}}', context, 'text')).toBe(
+        'none'
+      );
+    });
+
+    it('should loop over lists with access to the index and outer scope', () => {
+      const template =
+        '{{#each fields}}{{@index}}. {{label}}={{value}} [{{formId}}]\n{{else}}empty{{/each}}';
+
+      expect(renderTemplate(template, context, 'text')).toBe(
+        '0. Company=Acme <b>Inc</b> [sales]\n1. Budget=10k-50k [sales]\n'
+      );
+      expect(renderTemplate(template, { ...context, fields: [] }, 'text')).toBe('empty');
+      expect(renderTemplate('{{#each values.products}}<{{this}}>{{/each}}', context, 'html')).toBe(
+        '<a><b>'
+      );
+    });
+
+    it('should convert newlines after escaping with nl2br', () => {
+      expect(renderTemplate('{{content | nl2br}}', context, 'html')).toBe(
+        'Line one<br>Line &quot;two&quot;'
+      );
+      expect(renderTemplate('{{content | nl2br}}', context, 'text')).toBe('Line one\nLine "two"');
+    });
+
+    it('should skip comments', () => {
+      expect(renderTemplate('a{{! note }}b', context, 'text')).toBe('ab');
+    });
+  });
+
+  describe('compileTemplate', () => {
+    it('should reject malformed templates', () => {
+      expect(() => compileTemplate('{{#if name}}')).toThrow('Unclosed {{#if}} in template');
+      expect(() => compileTemplate('{{#each fields}}{{/if}}')).toThrow(TemplateError);
+      expect(() => compileTemplate('{{else}}')).toThrow('Unexpected {{else}} in template');
+      expect(() => compileTemplate('{{name | shout}}')).toThrow('Unknown template filter: shout');
+      expect(() => compileTemplate('{{name()}}')).toThrow('Invalid template expression');
+    });
+  });
+
+  describe('loadTemplateFile', () => {
+    it('should read templates inside the directory and reject traversal', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'contact-form-templates-'));
+      writeFileSync(join(dir, 'body.html'), '<p>{{name}}</p>');
+
+      try {
+        expect(loadTemplateFile('body.html', dir)).toBe('<p>{{name}}</p>');
+        expect(() => loadTemplateFile('../body.html', dir)).toThrow(
+          'outside the templates directory'
+        );
+        expect(() => loadTemplateFile('missing.html', dir)).toThrow(
+          'Template file could not be read'
+        );
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('default templates', () => {
+    it('should keep the built-in text layout', () => {
+      const text = renderTemplate(DEFAULT_TEXT_TEMPLATE, context, 'text');
+
+      expect(text).toContain('Name: Tom & Jerry\nEmail: tom@example.com\nSubject: Quote <urgent>');
+      expect(text).toContain('\nCompany: Acme <b>Inc</b>\nBudget: 10k-50k\n');
+      expect(text).toContain('Message:\nLine one\nLine "two"');
+    });
+
+    it('should escape the built-in HTML layout', () => {
+      const html = renderTemplate(DEFAULT_HTML_TEMPLATE, context, 'html');
+
+      expect(html).toContain('<p><strong>Name:</strong> Tom &amp; Jerry</p>');
+      expect(html).toContain('<p><strong>Company:</strong> Acme &lt;b&gt;Inc&lt;/b&gt;</p>');
+      expect(html).toContain('Line one<br>Line &quot;two&quot;');
+    });
+  });
+});
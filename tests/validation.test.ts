@@ -1,4 +1,5 @@
 import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
 import { validateContactForm, contactFormSchema } from '../src/validation';
 
 describe('Contact Form Validation', () => {
@@ -195,6 +196,79 @@ describe('Contact Form Validation', () => {
     });
   });
 
+  describe('field-level issues', () => {
+    it('should report a path, code and limits per issue', () => {
+      const result = validateContactForm({
+        name: 'J',
+        email: 'invalid-email',
+        content: 'x'.repeat(5001),
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.issues).toEqual([
+          {
+            field: 'email',
+            path: ['email'],
+            code: 'invalid_email',
+            message: 'Please provide a valid email address',
+          },
+          {
+            field: 'name',
+            path: ['name'],
+            code: 'too_short',
+            message: 'Name must be at least 2 characters long',
+            minimum: 2,
+          },
+          {
+            field: 'content',
+            path: ['content'],
+            code: 'too_long',
+            message: 'Message cannot exceed 5000 characters',
+            maximum: 5000,
+          },
+        ]);
+      }
+    });
+
+    it('should distinguish missing fields and format errors', () => {
+      const result = validateContactForm({
+        name: 'John 123',
+        content: 'This is a test message with enough content.',
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.issues.map(issue => [issue.field, issue.code])).toEqual([
+          ['email', 'required'],
+          ['name', 'invalid_format'],
+        ]);
+      }
+    });
+
+    it('should list allowed options for enum issues', () => {
+      const schema = contactFormSchema.extend({ plan: z.enum(['basic', 'pro']) });
+      const result = validateContactForm(
+        {
+          name: 'John Doe',
+          email: 'john@example.com',
+          content: 'This is a test message with enough content.',
+          plan: 'enterprise',
+        },
+        schema
+      );
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.issues[0]).toMatchObject({
+          field: 'plan',
+          code: 'invalid_option',
+          options: ['basic', 'pro'],
+        });
+      }
+    });
+  });
+
   describe('contactFormSchema direct usage', () => {
     it('should parse valid data with Zod schema', () => {
       const validData = {
@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import {
+  classifyWebhookError,
+  createWebhookPayload,
+  sendWebhook,
+  sendWebhooks,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WebhookConfig,
+  webhookConfigSchema,
+} from '../src/webhooks';
+
+interface ReceivedRequest {
+  path: string;
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+const currentSecret = 'whsec_current_0123456789';
+const previousSecret = 'whsec_previous_0123456789';
+
+// Local HTTP stub; each test queues the status codes it should answer with
+let server: Server;
+let baseUrl: string;
+let received: ReceivedRequest[];
+let statuses: number[];
+
+const noDelay = { sleep: async () => {} };
+
+const createTarget = (overrides: Partial<WebhookConfig> = {}): WebhookConfig =>
+  webhookConfigSchema.parse({ url: `${baseUrl}/hooks`, secrets: [currentSecret], ...overrides });
+
+const payload = createWebhookPayload(
+  {
+    name: '<b>Jane</b>',
+    email: 'jane@example.com',
+    content: 'Hello & welcome',
+    fields: { topic: 'Sales <script>' },
+  },
+  'c0ffee00-0000-4000-8000-000000000001',
+  'sales',
+  'https://example.com',
+  '2024-01-01T00:00:00.000Z'
+);
+
+describe('Webhooks', () => {
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        received.push({ path: req.url ?? '', headers: req.headers, body });
+        res.statusCode = statuses.shift() ?? 204;
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    statuses = [];
+  });
+
+  describe('createWebhookPayload', () => {
+    it('should carry the sanitized submission', () => {
+      expect(payload).toEqual({
+        event: 'submission.received',
+        submissionId: 'c0ffee00-0000-4000-8000-000000000001',
+        formId: 'sales',
+        origin: 'https://example.com',
+        timestamp: '2024-01-01T00:00:00.000Z',
+        data: {
+          name: '&lt;b&gt;Jane&lt;/b&gt;',
+          email: 'jane@example.com',
+          content: 'Hello &amp; welcome',
+          subject: undefined,
+          fields: { topic: 'Sales &lt;script&gt;' },
+        },
+      });
+    });
+  });
+
+  describe('signatures', () => {
+    const body = '{"hello":"world"}';
+    const now = 1_700_000_000_000;
+    const timestamp = now / 1000;
+
+    it('should sign with every secret during rotation', () => {
+      const header = signWebhookPayload(body, [currentSecret, previousSecret], timestamp);
+
+      expect(header).toMatch(/^t=1700000000,v1=[a-f0-9]{64},v1=[a-f0-9]{64}$/);
+      expect(verifyWebhookSignature(body, header, [currentSecret], now)).toBe(true);
+      expect(verifyWebhookSignature(body, header, [previousSecret], now)).toBe(true);
+      expect(verifyWebhookSignature(body, header, ['whsec_unrelated_0123456'], now)).toBe(false);
+    });
+
+    it('should reject tampered bodies and stale timestamps', () => {
+      const header = signWebhookPayload(body, [currentSecret], timestamp);
+
+      expect(verifyWebhookSignature('{"hello":"there"}', header, [currentSecret], now)).toBe(false);
+      expect(verifyWebhookSignature(body, header, [currentSecret], now + 301_000)).toBe(false);
+      expect(verifyWebhookSignature(body, 'v1=abc', [currentSecret], now)).toBe(false);
+    });
+  });
+
+  describe('classifyWebhookError', () => {
+    it('should treat network failures as retryable', () => {
+      expect(classifyWebhookError(new TypeError('fetch failed'))).toBe('retryable');
+    });
+  });
+
+  describe('sendWebhook', () => {
+    it('should POST a signed JSON payload', async () => {
+      await expect(sendWebhook(createTarget(), payload, noDelay)).resolves.toBe('delivered');
+
+      expect(received).toHaveLength(1);
+      const [request] = received;
+      expect(request.path).toBe('/hooks');
+      expect(request.headers['content-type']).toBe('application/json');
+      expect(request.headers['x-webhook-event']).toBe('submission.received');
+      expect(request.headers['x-webhook-id']).toBe(payload.submissionId);
+      expect(JSON.parse(request.body)).toEqual(JSON.parse(JSON.stringify(payload)));
+      expect(
+        verifyWebhookSignature(request.body, String(request.headers['x-webhook-signature']), [
+          currentSecret,
+        ])
+      ).toBe(true);
+    });
+
+    it('should retry server errors and throttling', async () => {
+      statuses = [503, 429, 200];
+
+      await expect(sendWebhook(createTarget(), payload, noDelay)).resolves.toBe('delivered');
+      expect(received).toHaveLength(3);
+    });
+
+    it('should not retry client errors', async () => {
+      statuses = [400];
+
+      await expect(sendWebhook(createTarget(), payload, noDelay)).resolves.toBe('failed');
+      expect(received).toHaveLength(1);
+    });
+
+    it('should give up after maxAttempts', async () => {
+      statuses = [500, 500, 500];
+
+      await expect(sendWebhook(createTarget({ maxAttempts: 2 }), payload, noDelay)).resolves.toBe(
+        'failed'
+      );
+      expect(received).toHaveLength(2);
+    });
+
+    it('should report unreachable targets as failed', async () => {
+      const target = createTarget({ url: 'http://127.0.0.1:1/hooks', maxAttempts: 1 });
+
+      await expect(sendWebhook(target, payload, noDelay)).resolves.toBe('failed');
+    });
+  });
+
+  describe('sendWebhooks', () => {
+    it('should report an outcome per target', async () => {
+      statuses = [204, 410];
+
+      const outcomes = await sendWebhooks(
+        [createTarget(), createTarget({ url: `${baseUrl}/other` })],
+        payload,
+        noDelay
+      );
+
+      expect([...outcomes].sort()).toEqual(['delivered', 'failed']);
+      expect(received.map(request => request.path).sort()).toEqual(['/hooks', '/other']);
+    });
+  });
+
+  describe('webhookConfigSchema', () => {
+    it('should require http(s) URLs and long enough secrets', () => {
+      expect(
+        webhookConfigSchema.safeParse({ url: 'ftp://example.com', secrets: [currentSecret] })
+          .success
+      ).toBe(false);
+      expect(
+        webhookConfigSchema.safeParse({ url: 'https://example.com', secrets: ['short'] }).success
+      ).toBe(false);
+      expect(createTarget()).toMatchObject({ timeoutMs: 5000, maxAttempts: 3 });
+    });
+  });
+});
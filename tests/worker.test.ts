@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SQSEvent, SQSRecord } from 'aws-lambda';
+import { deliver } from '../src/worker';
+import { SUBMISSION_JOB_VERSION, SubmissionJob } from '../src/queue';
+import { createMemoryTransport, EmailTransport, setEmailTransport } from '../src/transport';
+import { createMemorySubmissionRepository, setSubmissionRepository } from '../src/submissions';
+import { createCaptureEventPublisher, setEventPublisher } from '../src/events';
+
+const createJob = (overrides: Partial<SubmissionJob> = {}): SubmissionJob => ({
+  version: SUBMISSION_JOB_VERSION,
+  submissionId: 'c0ffee00-0000-4000-8000-000000000001',
+  formId: 'default',
+  request: {
+    name: 'Jane Doe',
+    email: 'jane@example.com',
+    content: 'Hello there, this is a queued message.',
+  },
+  attachments: [],
+  receivedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const createRecord = (messageId: string, body: string, receiveCount = 1): SQSRecord =>
+  ({
+    messageId,
+    receiptHandle: `handle-${messageId}`,
+    body,
+    attributes: { ApproximateReceiveCount: String(receiveCount) },
+    messageAttributes: {},
+    md5OfBody: '',
+    eventSource: 'aws:sqs',
+    eventSourceARN: 'arn:aws:sqs:us-east-1:123456789012:queue',
+    awsRegion: 'us-east-1',
+  }) as SQSRecord;
+
+const createEvent = (...records: SQSRecord[]): SQSEvent => ({ Records: records });
+
+describe('Queue Worker', () => {
+  beforeEach(() => {
+    process.env.EMAIL = 'test@example.com';
+    delete process.env.FORMS_CONFIG;
+    delete process.env.SENDER_EMAIL;
+    setEmailTransport(undefined);
+    setSubmissionRepository(undefined);
+    setEventPublisher(undefined);
+    delete process.env.QUEUE_MAX_RECEIVE_COUNT;
+  });
+
+  it('should deliver queued submissions with their attachments', async () => {
+    const transport = createMemoryTransport();
+    setEmailTransport(transport);
+
+    const job = createJob({
+      attachments: [{ filename: 'notes.txt', contentType: 'text/plain', content: 'bm90ZXM=' }],
+    });
+    const result = await deliver(createEvent(createRecord('m-1', JSON.stringify(job))));
+
+    expect(result.batchItemFailures).toEqual([]);
+    expect(transport.messages).toHaveLength(1);
+    expect(transport.messages[0]).toMatchObject({
+      from: 'test@example.com',
+      to: ['test@example.com'],
+      replyTo: ['jane@example.com'],
+    });
+    expect(transport.messages[0].attachments?.[0].content.toString()).toBe('notes');
+  });
+
+  it('should report only the failed records for retry', async () => {
+    let calls = 0;
+    const transport: EmailTransport = {
+      name: 'flaky',
+      send: async () => {
+        calls++;
+        if (calls === 1) {
+          throw new Error('Throttling');
+        }
+        return `message-${calls}`;
+      },
+    };
+    setEmailTransport(transport);
+
+    const result = await deliver(
+      createEvent(
+        createRecord('m-1', JSON.stringify(createJob())),
+        createRecord('m-2', JSON.stringify(createJob({ submissionId: 'second' })))
+      )
+    );
+
+    expect(result.batchItemFailures).toEqual([{ itemIdentifier: 'm-1' }]);
+  });
+
+  it('should publish the final failures of a batch in one call', async () => {
+    const publisher = createCaptureEventPublisher();
+    setEventPublisher(publisher);
+    setEmailTransport({
+      name: 'broken',
+      send: async () => {
+        throw new Error('Transport offline');
+      },
+    });
+
+    await deliver(
+      createEvent(
+        createRecord('m-1', JSON.stringify(createJob()), 5),
+        createRecord('m-2', JSON.stringify(createJob({ submissionId: 'second' })), 6),
+        createRecord('retried', JSON.stringify(createJob({ submissionId: 'retried' })), 4),
+        createRecord('bad-json', '{oops', 5)
+      )
+    );
+
+    expect(publisher.batches).toBe(1);
+    expect(publisher.events.map(event => [event.type, event.data])).toEqual([
+      [
+        'submission.delivery_failed',
+        {
+          submissionId: 'c0ffee00-0000-4000-8000-000000000001',
+          deliveryMode: 'async',
+          error: 'Failed to send email: Transport offline',
+          attempt: 5,
+        },
+      ],
+      ['submission.delivery_failed', expect.objectContaining({ submissionId: 'second' })],
+    ]);
+  });
+
+  it('should update the status of archived submissions', async () => {
+    const repository = createMemorySubmissionRepository();
+    setSubmissionRepository(repository);
+    setEmailTransport(createMemoryTransport());
+    const job = createJob({ archived: true });
+    await repository.save({
+      id: job.submissionId,
+      formId: job.formId,
+      request: job.request,
+      metadata: {},
+      attachments: [],
+      status: 'pending',
+      createdAt: job.receivedAt,
+      updatedAt: job.receivedAt,
+    });
+
+    await deliver(createEvent(createRecord('m-1', JSON.stringify(job))));
+
+    expect(repository.records.get(job.submissionId)?.status).toBe('sent');
+  });
+
+  it('should fail malformed messages and unknown forms', async () => {
+    setEmailTransport(createMemoryTransport());
+
+    const result = await deliver(
+      createEvent(
+        createRecord('bad-json', '{oops'),
+        createRecord('unknown-form', JSON.stringify(createJob({ formId: 'careers' })))
+      )
+    );
+
+    expect(result.batchItemFailures).toEqual([
+      { itemIdentifier: 'bad-json' },
+      { itemIdentifier: 'unknown-form' },
+    ]);
+  });
+});